@@ -4,13 +4,8 @@ set -eu
 TEMPLATE_PATH="/usr/share/nginx/html/env-config.template.js"
 OUTPUT_PATH="/usr/share/nginx/html/env-config.js"
 
+# Only non-secret settings belong here: env-config.js is public. Cloud Factory
+# tokens are configured on the api service instead.
 if [ -f "$TEMPLATE_PATH" ]; then
-  export VITE_ACCESS_TOKEN="${VITE_ACCESS_TOKEN-${ACCESS_TOKEN-${ACCESSTOKEN-}}}"
-  export VITE_REFRESH_TOKEN="${VITE_REFRESH_TOKEN-${REFRESH_TOKEN-${REFRESHTOKEN-}}}"
-
-  if [ -z "${VITE_ACCESS_TOKEN}" ] && [ -z "${VITE_REFRESH_TOKEN}" ]; then
-    echo "40-env-config.sh: warning: no token env vars found (expected one of VITE_ACCESS_TOKEN/ACCESS_TOKEN/ACCESSTOKEN and VITE_REFRESH_TOKEN/REFRESH_TOKEN/REFRESHTOKEN)" >&2
-  fi
-
-  envsubst '${VITE_ACCESS_TOKEN} ${VITE_REFRESH_TOKEN}' < "$TEMPLATE_PATH" > "$OUTPUT_PATH"
+  envsubst '${VITE_PARTNERS} ${VITE_SUPPLIER_NAME} ${VITE_SUPPLIER_VAT_ID} ${VITE_SUPPLIER_STREET} ${VITE_SUPPLIER_POSTAL_CODE} ${VITE_SUPPLIER_CITY} ${VITE_SUPPLIER_COUNTRY} ${VITE_SUPPLIER_EMAIL} ${VITE_SUPPLIER_IBAN} ${VITE_SUPPLIER_PAYMENT_DAYS}' < "$TEMPLATE_PATH" > "$OUTPUT_PATH"
 fi
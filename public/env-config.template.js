@@ -1,4 +1,12 @@
 window.__APP_CONFIG__ = {
-  VITE_ACCESS_TOKEN: "${VITE_ACCESS_TOKEN}",
-  VITE_REFRESH_TOKEN: "${VITE_REFRESH_TOKEN}",
+  VITE_PARTNERS: "${VITE_PARTNERS}",
+  VITE_SUPPLIER_NAME: "${VITE_SUPPLIER_NAME}",
+  VITE_SUPPLIER_VAT_ID: "${VITE_SUPPLIER_VAT_ID}",
+  VITE_SUPPLIER_STREET: "${VITE_SUPPLIER_STREET}",
+  VITE_SUPPLIER_POSTAL_CODE: "${VITE_SUPPLIER_POSTAL_CODE}",
+  VITE_SUPPLIER_CITY: "${VITE_SUPPLIER_CITY}",
+  VITE_SUPPLIER_COUNTRY: "${VITE_SUPPLIER_COUNTRY}",
+  VITE_SUPPLIER_EMAIL: "${VITE_SUPPLIER_EMAIL}",
+  VITE_SUPPLIER_IBAN: "${VITE_SUPPLIER_IBAN}",
+  VITE_SUPPLIER_PAYMENT_DAYS: "${VITE_SUPPLIER_PAYMENT_DAYS}",
 };
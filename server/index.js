@@ -1,17 +1,55 @@
+import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
 import process from "node:process";
+import { fileURLToPath } from "node:url";
 import Database from "better-sqlite3";
 import express from "express";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: "2mb" }));
 
 const clampRate = (value) => Math.min(100, Math.max(0, value));
 
 const makeProductKey = (vendorName, productName) =>
   `${vendorName ?? "vendor"}::${productName ?? "product"}`.toLowerCase();
 
+// Discount scopes share the tenant_discounts table by using "*" as a
+// wildcard: tenant-wide rates are stored under "*::*", tenant+vendor rates
+// under "vendor::*" and global vendor defaults under tenant "*".
+const WILDCARD = "*";
+const DISCOUNT_SCOPES = ["product", "vendor", "tenant", "global-vendor"];
+
+const resolveScopeTarget = ({ scope, tenantId, vendorName, productName }) => {
+  switch (scope) {
+    case "product":
+      return tenantId && vendorName && productName
+        ? { tenantId, vendorName, productName }
+        : null;
+    case "vendor":
+      return tenantId && vendorName
+        ? { tenantId, vendorName, productName: WILDCARD }
+        : null;
+    case "tenant":
+      return tenantId
+        ? { tenantId, vendorName: WILDCARD, productName: WILDCARD }
+        : null;
+    case "global-vendor":
+      return vendorName
+        ? { tenantId: WILDCARD, vendorName, productName: WILDCARD }
+        : null;
+    default:
+      return null;
+  }
+};
+
+const OPEN_START = "0000-01-01";
+
+const isIsoDate = (value) =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value);
+
+const todayIso = () => new Date().toISOString().slice(0, 10);
+
 const parseBody = (body = {}) => {
   const tenantId =
     typeof body.tenantId === "string" ? body.tenantId.trim() : "";
@@ -20,8 +58,11 @@ const parseBody = (body = {}) => {
   const productName =
     typeof body.productName === "string" ? body.productName.trim() : "";
   const rawRate = body.rate;
+  const rawValidFrom = body.validFrom;
+  const scope = body.scope === undefined ? "product" : body.scope;
 
   return {
+    scope: DISCOUNT_SCOPES.includes(scope) ? scope : null,
     tenantId,
     vendorName,
     productName,
@@ -29,6 +70,13 @@ const parseBody = (body = {}) => {
       typeof rawRate === "number" && Number.isFinite(rawRate)
         ? Math.round(clampRate(rawRate) * 100) / 100
         : null,
+    // undefined = not supplied, null = supplied but not a valid date.
+    validFrom:
+      rawValidFrom === undefined || rawValidFrom === null
+        ? undefined
+        : isIsoDate(rawValidFrom)
+          ? rawValidFrom.slice(0, 10)
+          : null,
   };
 };
 
@@ -39,115 +87,3645 @@ const dbFilePath = process.env.DISCOUNT_DB_PATH
 fs.mkdirSync(path.dirname(dbFilePath), { recursive: true });
 
 const db = new Database(dbFilePath);
+
+const hasColumn = (table, column) =>
+  db
+    .prepare(`PRAGMA table_info(${table})`)
+    .all()
+    .some((info) => info.name === column);
+
+// Partner accounts this server serves, from the same `VITE_PARTNERS` list as
+// the frontend (`guid:Navn,guid:Navn`). Discounts, re-billing runs and the
+// Cloud Factory session are stored per account; the first account owns rows
+// from before that and requests that do not name an account.
+const DEFAULT_PARTNER_ID = "885a11b7-e83a-4e6a-8656-e01de8dddbfb";
+const PARTNER_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const readPartnerIds = (value = "") => {
+  const ids = value
+    .split(",")
+    .map((entry) => entry.split(":")[0].trim().toLowerCase())
+    .filter((id) => PARTNER_ID_PATTERN.test(id));
+  return ids.length > 0 ? [...new Set(ids)] : [DEFAULT_PARTNER_ID];
+};
+
+const PARTNER_IDS = readPartnerIds(process.env.VITE_PARTNERS);
+const primaryPartnerId = PARTNER_IDS[0];
+
+// The customer registry (see below) is created first: discounts are keyed on
+// its customer ids.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS customers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    name_key TEXT NOT NULL,
+    vat_id TEXT NOT NULL DEFAULT '',
+    primary_tenant_id TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_by TEXT
+  );
+  CREATE TABLE IF NOT EXISTS customer_tenants (
+    tenant_id TEXT PRIMARY KEY,
+    customer_id INTEGER NOT NULL REFERENCES customers (id) ON DELETE CASCADE,
+    tenant_name TEXT NOT NULL DEFAULT '',
+    domain TEXT NOT NULL DEFAULT '',
+    customer_name TEXT NOT NULL DEFAULT '',
+    name_key TEXT NOT NULL DEFAULT '',
+    vat_id TEXT NOT NULL DEFAULT '',
+    reference TEXT NOT NULL DEFAULT '',
+    first_seen TEXT NOT NULL,
+    last_seen TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS customer_tenants_customer
+    ON customer_tenants (customer_id);
+  CREATE INDEX IF NOT EXISTS customer_tenants_name_key
+    ON customer_tenants (name_key);
+  CREATE TABLE IF NOT EXISTS customer_references (
+    customer_id INTEGER NOT NULL REFERENCES customers (id) ON DELETE CASCADE,
+    reference TEXT NOT NULL,
+    first_seen TEXT NOT NULL,
+    last_seen TEXT NOT NULL,
+    PRIMARY KEY (customer_id, reference)
+  );
+`);
+
+// Discounts are stored as effective periods: valid_from is inclusive and
+// valid_to exclusive (NULL = open-ended). Rows created before periods existed
+// are migrated to start at OPEN_START so they keep applying to every invoice.
+const migrateDiscountPeriods = db.transaction(() => {
+  db.exec(`ALTER TABLE tenant_discounts RENAME TO tenant_discounts_legacy`);
+  db.exec(`
+    CREATE TABLE tenant_discounts (
+      tenant_id TEXT NOT NULL,
+      product_key TEXT NOT NULL,
+      valid_from TEXT NOT NULL,
+      valid_to TEXT,
+      rate REAL NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (tenant_id, product_key, valid_from)
+    );
+  `);
+  db.prepare(
+    `INSERT INTO tenant_discounts (tenant_id, product_key, valid_from, valid_to, rate, updated_at)
+     SELECT tenant_id, product_key, ?, NULL, rate, updated_at FROM tenant_discounts_legacy`,
+  ).run(OPEN_START);
+  db.exec(`DROP TABLE tenant_discounts_legacy`);
+});
+
+// Discounts and their history are keyed on the registry customer id, so every
+// tenant of a customer shares its rates and merges and splits never strand
+// them; "*" stands for every customer. History rows also keep the tenant the
+// change was made through.
+const migrateDiscountsToCustomers = db.transaction(() => {
+  // Tenants that only appear in the discount tables start a customer of their
+  // own, named after the tenant id until an invoice shows them.
+  const insertCustomer = db.prepare(
+    `INSERT INTO customers (name, name_key, primary_tenant_id) VALUES (?, '', ?)`,
+  );
+  const insertTenant = db.prepare(
+    `INSERT INTO customer_tenants (tenant_id, customer_id, first_seen, last_seen)
+     VALUES (?, ?, '', '')`,
+  );
+  db.prepare(
+    `SELECT tenant_id FROM tenant_discounts
+     UNION SELECT tenant_id FROM tenant_discount_history
+     EXCEPT SELECT tenant_id FROM customer_tenants`,
+  )
+    .pluck()
+    .all()
+    .filter((tenantId) => tenantId !== WILDCARD)
+    .forEach((tenantId) => {
+      insertTenant.run(
+        tenantId,
+        insertCustomer.run(tenantId, tenantId).lastInsertRowid,
+      );
+    });
+
+  // Where two tenants of one customer had a rate from the same date, the
+  // primary tenant's wins.
+  db.exec(`
+    ALTER TABLE tenant_discounts RENAME TO tenant_discounts_legacy;
+    CREATE TABLE tenant_discounts (
+      customer_id TEXT NOT NULL,
+      product_key TEXT NOT NULL,
+      vendor_name TEXT,
+      product_name TEXT,
+      valid_from TEXT NOT NULL,
+      valid_to TEXT,
+      rate REAL NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (customer_id, product_key, valid_from)
+    );
+    INSERT OR IGNORE INTO tenant_discounts
+      (customer_id, product_key, vendor_name, product_name, valid_from, valid_to, rate, updated_at)
+    SELECT COALESCE(CAST(t.customer_id AS TEXT), d.tenant_id), d.product_key,
+      d.vendor_name, d.product_name, d.valid_from, d.valid_to, d.rate, d.updated_at
+    FROM tenant_discounts_legacy d
+    LEFT JOIN customer_tenants t ON t.tenant_id = d.tenant_id
+    LEFT JOIN customers c ON c.id = t.customer_id
+    ORDER BY c.primary_tenant_id = d.tenant_id DESC;
+    DROP TABLE tenant_discounts_legacy;
+
+    ALTER TABLE tenant_discount_history ADD COLUMN customer_id TEXT;
+    UPDATE tenant_discount_history SET customer_id = COALESCE(
+      (SELECT CAST(t.customer_id AS TEXT) FROM customer_tenants t
+       WHERE t.tenant_id = tenant_discount_history.tenant_id),
+      tenant_id
+    );
+    DROP INDEX IF EXISTS tenant_discount_history_lookup;
+  `);
+});
+
+// Discounts and their history belong to the partner account they were set
+// under, so one customer can have different rates with two accounts. Rows from
+// before that belong to the primary account.
+const migrateDiscountsToPartners = db.transaction(() => {
+  db.exec(`
+    ALTER TABLE tenant_discounts RENAME TO tenant_discounts_legacy;
+    CREATE TABLE tenant_discounts (
+      partner_id TEXT NOT NULL,
+      customer_id TEXT NOT NULL,
+      product_key TEXT NOT NULL,
+      vendor_name TEXT,
+      product_name TEXT,
+      valid_from TEXT NOT NULL,
+      valid_to TEXT,
+      rate REAL NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (partner_id, customer_id, product_key, valid_from)
+    );
+  `);
+  db.prepare(
+    `INSERT INTO tenant_discounts
+       (partner_id, customer_id, product_key, vendor_name, product_name, valid_from, valid_to, rate, updated_at)
+     SELECT ?, customer_id, product_key, vendor_name, product_name, valid_from, valid_to, rate, updated_at
+     FROM tenant_discounts_legacy`,
+  ).run(primaryPartnerId);
+  db.exec(`
+    DROP TABLE tenant_discounts_legacy;
+    ALTER TABLE tenant_discount_history ADD COLUMN partner_id TEXT;
+    DROP INDEX IF EXISTS tenant_discount_history_customer;
+  `);
+  db.prepare(`UPDATE tenant_discount_history SET partner_id = ?`).run(
+    primaryPartnerId,
+  );
+});
+
 db.exec(`
   CREATE TABLE IF NOT EXISTS tenant_discounts (
-    tenant_id TEXT NOT NULL,
+    partner_id TEXT NOT NULL,
+    customer_id TEXT NOT NULL,
     product_key TEXT NOT NULL,
+    vendor_name TEXT,
+    product_name TEXT,
+    valid_from TEXT NOT NULL,
+    valid_to TEXT,
     rate REAL NOT NULL,
     updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
-    PRIMARY KEY (tenant_id, product_key)
+    PRIMARY KEY (partner_id, customer_id, product_key, valid_from)
   );
+
+  CREATE TABLE IF NOT EXISTS tenant_discount_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    partner_id TEXT,
+    customer_id TEXT,
+    tenant_id TEXT NOT NULL,
+    product_key TEXT NOT NULL,
+    vendor_name TEXT NOT NULL,
+    product_name TEXT NOT NULL,
+    action TEXT NOT NULL,
+    old_rate REAL,
+    new_rate REAL,
+    valid_from TEXT,
+    actor TEXT NOT NULL,
+    changed_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+
+`);
+
+if (!hasColumn("tenant_discounts", "valid_from")) {
+  migrateDiscountPeriods();
+}
+if (!hasColumn("tenant_discount_history", "valid_from")) {
+  db.exec(`ALTER TABLE tenant_discount_history ADD COLUMN valid_from TEXT`);
+}
+// product_key is lowercased, so the original vendor/product spelling is kept
+// alongside it for exports. Older rows are backfilled from the history log.
+if (!hasColumn("tenant_discounts", "vendor_name")) {
+  db.exec(`
+    ALTER TABLE tenant_discounts ADD COLUMN vendor_name TEXT;
+    ALTER TABLE tenant_discounts ADD COLUMN product_name TEXT;
+    UPDATE tenant_discounts SET
+      vendor_name = (
+        SELECT h.vendor_name FROM tenant_discount_history h
+        WHERE h.tenant_id = tenant_discounts.tenant_id
+          AND h.product_key = tenant_discounts.product_key
+        ORDER BY h.id DESC LIMIT 1
+      ),
+      product_name = (
+        SELECT h.product_name FROM tenant_discount_history h
+        WHERE h.tenant_id = tenant_discounts.tenant_id
+          AND h.product_key = tenant_discounts.product_key
+        ORDER BY h.id DESC LIMIT 1
+      );
+  `);
+}
+if (hasColumn("tenant_discounts", "tenant_id")) {
+  migrateDiscountsToCustomers();
+}
+if (!hasColumn("tenant_discounts", "partner_id")) {
+  migrateDiscountsToPartners();
+}
+db.exec(`
+  CREATE INDEX IF NOT EXISTS tenant_discount_history_partner
+    ON tenant_discount_history (partner_id, customer_id, product_key, changed_at);
 `);
 
+// Rates are listed under the customer's primary tenant, which the invoice
+// page uses as the customer's id.
 const listStmt = db.prepare(
-  `SELECT tenant_id, product_key, rate FROM tenant_discounts ORDER BY tenant_id, product_key`,
+  `SELECT COALESCE(c.primary_tenant_id, d.customer_id) AS tenant_id,
+     d.product_key, d.vendor_name, d.product_name, d.valid_from, d.valid_to, d.rate
+   FROM tenant_discounts d LEFT JOIN customers c ON c.id = d.customer_id
+   WHERE d.partner_id = ?
+   ORDER BY tenant_id, d.product_key, d.valid_from`,
 );
-const getStmt = db.prepare(
-  `SELECT tenant_id, product_key, rate FROM tenant_discounts WHERE tenant_id = ? AND product_key = ?`,
+const listKeyStmt = db.prepare(
+  `SELECT valid_from, valid_to, rate FROM tenant_discounts
+   WHERE partner_id = ? AND customer_id = ? AND product_key = ? ORDER BY valid_from`,
+);
+const getAtStmt = db.prepare(
+  `SELECT valid_from, valid_to, rate FROM tenant_discounts
+   WHERE partner_id = ? AND customer_id = ? AND product_key = ?
+     AND valid_from <= ? AND (valid_to IS NULL OR valid_to > ?)
+   ORDER BY valid_from DESC LIMIT 1`,
+);
+const getNextStartStmt = db.prepare(
+  `SELECT valid_from FROM tenant_discounts
+   WHERE partner_id = ? AND customer_id = ? AND product_key = ? AND valid_from > ?
+   ORDER BY valid_from LIMIT 1`,
 );
 const insertStmt = db.prepare(
-  `INSERT INTO tenant_discounts (tenant_id, product_key, rate, updated_at) VALUES (?, ?, ?, CURRENT_TIMESTAMP)`,
+  `INSERT INTO tenant_discounts
+     (partner_id, customer_id, product_key, vendor_name, product_name, valid_from, valid_to, rate, updated_at)
+   VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
 );
-const updateStmt = db.prepare(
-  `UPDATE tenant_discounts SET rate = ?, updated_at = CURRENT_TIMESTAMP WHERE tenant_id = ? AND product_key = ?`,
+const updateRateStmt = db.prepare(
+  `UPDATE tenant_discounts
+   SET rate = ?, vendor_name = ?, product_name = ?, updated_at = CURRENT_TIMESTAMP
+   WHERE partner_id = ? AND customer_id = ? AND product_key = ? AND valid_from = ?`,
 );
-const upsertStmt = db.prepare(
-  `INSERT INTO tenant_discounts (tenant_id, product_key, rate, updated_at)
-   VALUES (?, ?, ?, CURRENT_TIMESTAMP)
-   ON CONFLICT (tenant_id, product_key)
-   DO UPDATE SET rate = excluded.rate, updated_at = CURRENT_TIMESTAMP`,
+const closePeriodStmt = db.prepare(
+  `UPDATE tenant_discounts SET valid_to = ?, updated_at = CURRENT_TIMESTAMP
+   WHERE partner_id = ? AND customer_id = ? AND product_key = ? AND valid_from = ?`,
+);
+const deletePeriodStmt = db.prepare(
+  `DELETE FROM tenant_discounts
+   WHERE partner_id = ? AND customer_id = ? AND product_key = ? AND valid_from = ?`,
 );
-const deleteStmt = db.prepare(
-  `DELETE FROM tenant_discounts WHERE tenant_id = ? AND product_key = ?`,
+const deleteKeyStmt = db.prepare(
+  `DELETE FROM tenant_discounts WHERE partner_id = ? AND customer_id = ? AND product_key = ?`,
 );
 
-const mapRowsToState = (rows) => {
+const insertHistoryStmt = db.prepare(
+  `INSERT INTO tenant_discount_history
+     (partner_id, customer_id, tenant_id, product_key, vendor_name, product_name, action, old_rate, new_rate, valid_from, actor, changed_at)
+   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+);
+
+// The history table is append-only: every write to tenant_discounts goes
+// through one of these transactions so the audit row and the change either
+// both land or neither does.
+const recordHistory = ({
+  partnerId,
+  customerId,
+  tenantId,
+  productKey,
+  vendorName,
+  productName,
+  action,
+  oldRate,
+  newRate,
+  validFrom,
+  actor,
+}) => {
+  insertHistoryStmt.run(
+    partnerId,
+    customerId,
+    tenantId,
+    productKey,
+    vendorName,
+    productName,
+    action,
+    oldRate ?? null,
+    newRate ?? null,
+    validFrom ?? null,
+    actor,
+  );
+};
+
+const getPeriodAt = (partnerId, customerId, productKey, date) =>
+  getAtStmt.get(partnerId, customerId, productKey, date, date);
+
+// Applies `newRate` from `validFrom` until the next period that already
+// starts later, splitting the period in force at `validFrom` if needed.
+// Earlier periods are left untouched so past invoices keep their rate.
+const applyRateFrom = ({
+  partnerId,
+  customerId,
+  productKey,
+  vendorName,
+  productName,
+  validFrom,
+  newRate,
+}) => {
+  const current = getPeriodAt(partnerId, customerId, productKey, validFrom);
+
+  if (current?.valid_from === validFrom) {
+    updateRateStmt.run(
+      newRate,
+      vendorName,
+      productName,
+      partnerId,
+      customerId,
+      productKey,
+      validFrom,
+    );
+    return;
+  }
+
+  const next = current
+    ? null
+    : getNextStartStmt.get(partnerId, customerId, productKey, validFrom);
+  if (current) {
+    closePeriodStmt.run(
+      validFrom,
+      partnerId,
+      customerId,
+      productKey,
+      current.valid_from,
+    );
+  }
+  insertStmt.run(
+    partnerId,
+    customerId,
+    productKey,
+    vendorName,
+    productName,
+    validFrom,
+    current ? current.valid_to : (next?.valid_from ?? null),
+    newRate,
+  );
+};
+
+// Ends the period in force at `validFrom`, leaving no discount from that date
+// until the next period starts.
+const clearRateFrom = (partnerId, customerId, productKey, validFrom) => {
+  const current = getPeriodAt(partnerId, customerId, productKey, validFrom);
+  if (!current) return;
+
+  if (current.valid_from === validFrom) {
+    deletePeriodStmt.run(partnerId, customerId, productKey, validFrom);
+    return;
+  }
+  closePeriodStmt.run(
+    validFrom,
+    partnerId,
+    customerId,
+    productKey,
+    current.valid_from,
+  );
+};
+
+const createDiscount = db.transaction((change) => {
+  applyRateFrom(change);
+  recordHistory({ ...change, action: "create", oldRate: null });
+});
+
+const updateDiscount = db.transaction((change) => {
+  updateRateStmt.run(
+    change.newRate,
+    change.vendorName,
+    change.productName,
+    change.partnerId,
+    change.customerId,
+    change.productKey,
+    change.periodStart,
+  );
+  recordHistory({ ...change, action: "update" });
+});
+
+const upsertDiscount = db.transaction((change) => {
+  applyRateFrom(change);
+  recordHistory({
+    ...change,
+    action: change.oldRate === null ? "create" : "update",
+  });
+});
+
+const removeDiscount = db.transaction((change) => {
+  if (change.validFrom) {
+    clearRateFrom(
+      change.partnerId,
+      change.customerId,
+      change.productKey,
+      change.validFrom,
+    );
+  } else {
+    deleteKeyStmt.run(change.partnerId, change.customerId, change.productKey);
+  }
+  recordHistory({ ...change, action: "delete", newRate: null });
+});
+
+// History entries are attributed to the signed-in user (or the owner of the
+// API key) rather than a name the client supplies.
+const resolveActor = (request) =>
+  request.user?.displayName || request.user?.username || "ukendt";
+
+const readQueryString = (value) =>
+  typeof value === "string" ? value.trim() : "";
+
+// Filter values are matched literally, so "%" and "_" in a name do not act
+// as wildcards. Used with ESCAPE '\'.
+const escapeLike = (value) => value.replace(/[\\%_]/g, "\\$&");
+
+const mapHistoryRow = (row) => ({
+  id: row.id,
+  tenantId: row.tenant_id,
+  productKey: row.product_key,
+  vendorName: row.vendor_name,
+  productName: row.product_name,
+  action: row.action,
+  oldRate: row.old_rate,
+  newRate: row.new_rate,
+  validFrom: row.valid_from === OPEN_START ? null : row.valid_from,
+  actor: row.actor,
+  changedAt: row.changed_at,
+});
+
+const mapPeriodRow = (row) => ({
+  validFrom: row.valid_from === OPEN_START ? null : row.valid_from,
+  validTo: row.valid_to,
+  rate: row.rate,
+});
+
+const isPeriodActiveAt = (row, date) =>
+  row.valid_from <= date && (row.valid_to === null || row.valid_to > date);
+
+const mapRowsToState = (rows, date) => {
   const discounts = {};
+  const periods = {};
   rows.forEach((row) => {
-    if (!discounts[row.tenant_id]) {
-      discounts[row.tenant_id] = {};
+    if (!periods[row.tenant_id]) {
+      periods[row.tenant_id] = {};
+    }
+    if (!periods[row.tenant_id][row.product_key]) {
+      periods[row.tenant_id][row.product_key] = [];
+    }
+    periods[row.tenant_id][row.product_key].push(mapPeriodRow(row));
+
+    if (isPeriodActiveAt(row, date)) {
+      if (!discounts[row.tenant_id]) {
+        discounts[row.tenant_id] = {};
+      }
+      discounts[row.tenant_id][row.product_key] = row.rate;
     }
-    discounts[row.tenant_id][row.product_key] = row.rate;
   });
-  return discounts;
+  return { discounts, periods };
+};
+
+// Local user accounts. Browser sessions use an HttpOnly cookie, scripts and
+// integrations use personal API keys. Passwords are hashed with scrypt and
+// session tokens and API keys are stored as SHA-256 hashes, so a copy of the
+// database does not grant access.
+const USER_ROLES = ["viewer", "sales", "finance-admin"];
+
+// sales may change customer-level discounts; everything that affects all
+// customers or other modules needs finance-admin.
+const ROLE_PERMISSIONS = {
+  viewer: [],
+  sales: ["discounts:write", "customers:write"],
+  "finance-admin": [
+    "discounts:write",
+    "customers:write",
+    "discounts:admin",
+    "rebilling:write",
+    "accounting:write",
+    "cf-session:write",
+    "users:admin",
+  ],
+};
+
+const SESSION_COOKIE = "pb_session";
+const SESSION_TTL_MS = 1000 * 60 * 60 * 12;
+const API_KEY_PREFIX = "pbk_";
+const MIN_PASSWORD_LENGTH = 10;
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    display_name TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('viewer', 'sales', 'finance-admin')),
+    password_hash TEXT NOT NULL,
+    disabled INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE TABLE IF NOT EXISTS user_sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    expires_at TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE TABLE IF NOT EXISTS user_api_keys (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_used_at TEXT
+  );
+`);
+
+const countUsersStmt = db.prepare(`SELECT COUNT(*) AS count FROM users`);
+const listUsersStmt = db.prepare(`SELECT * FROM users ORDER BY username`);
+const getUserStmt = db.prepare(`SELECT * FROM users WHERE id = ?`);
+const getUserByNameStmt = db.prepare(`SELECT * FROM users WHERE username = ?`);
+const insertUserStmt = db.prepare(
+  `INSERT INTO users (username, display_name, role, password_hash)
+   VALUES (?, ?, ?, ?)`,
+);
+const updateUserStmt = db.prepare(
+  `UPDATE users SET display_name = ?, role = ?, password_hash = ?, disabled = ?
+   WHERE id = ?`,
+);
+const insertSessionStmt = db.prepare(
+  `INSERT INTO user_sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)`,
+);
+const getSessionUserStmt = db.prepare(
+  `SELECT users.* FROM user_sessions
+   JOIN users ON users.id = user_sessions.user_id
+   WHERE user_sessions.token_hash = ? AND user_sessions.expires_at > ?`,
+);
+const deleteSessionStmt = db.prepare(
+  `DELETE FROM user_sessions WHERE token_hash = ?`,
+);
+const deleteUserSessionsStmt = db.prepare(
+  `DELETE FROM user_sessions WHERE user_id = ?`,
+);
+const deleteExpiredSessionsStmt = db.prepare(
+  `DELETE FROM user_sessions WHERE expires_at <= ?`,
+);
+const listApiKeysStmt = db.prepare(
+  `SELECT id, name, created_at, last_used_at FROM user_api_keys
+   WHERE user_id = ? ORDER BY created_at DESC, id DESC`,
+);
+const insertApiKeyStmt = db.prepare(
+  `INSERT INTO user_api_keys (user_id, name, key_hash) VALUES (?, ?, ?)`,
+);
+const deleteApiKeyStmt = db.prepare(
+  `DELETE FROM user_api_keys WHERE id = ? AND user_id = ?`,
+);
+const getApiKeyUserStmt = db.prepare(
+  `SELECT users.*, user_api_keys.id AS api_key_id FROM user_api_keys
+   JOIN users ON users.id = user_api_keys.user_id
+   WHERE user_api_keys.key_hash = ?`,
+);
+const touchApiKeyStmt = db.prepare(
+  `UPDATE user_api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?`,
+);
+
+const readTrimmed = (value, maxLength = 120) =>
+  typeof value === "string" ? value.trim().slice(0, maxLength) : "";
+
+const hashToken = (token) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const hashPassword = (password) => {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = crypto.scryptSync(password, salt, 64).toString("hex");
+  return `scrypt:${salt}:${hash}`;
+};
+
+const verifyPassword = (password, storedHash) => {
+  const [algorithm, salt, hash] = (storedHash ?? "").split(":");
+  if (algorithm !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(actual, expected);
 };
 
-app.get("/api/tenant-discounts", (_request, response) => {
-  const rows = listStmt.all();
-  response.json({ discounts: mapRowsToState(rows) });
+// Used for unknown usernames so a failed login takes as long either way.
+const DUMMY_PASSWORD_HASH = hashPassword(crypto.randomUUID());
+
+const mapUserRow = (row) => ({
+  id: row.id,
+  username: row.username,
+  displayName: row.display_name,
+  role: row.role,
+  disabled: row.disabled === 1,
+  createdAt: row.created_at,
 });
 
-app.post("/api/tenant-discounts", (request, response) => {
-  const { tenantId, vendorName, productName, rate } = parseBody(request.body);
-  if (!tenantId || !vendorName || !productName || rate === null) {
-    response.status(400).json({ message: "Ugyldig payload" });
+const mapCurrentUser = (row) => ({
+  ...mapUserRow(row),
+  permissions: ROLE_PERMISSIONS[row.role] ?? [],
+});
+
+const hasPermission = (user, permission) =>
+  Boolean(user && ROLE_PERMISSIONS[user.role]?.includes(permission));
+
+const bootstrapAdmin = () => {
+  if (countUsersStmt.get().count > 0) return;
+  const username = process.env.ADMIN_USERNAME?.trim();
+  const password = process.env.ADMIN_PASSWORD ?? "";
+  if (!username || password.length < MIN_PASSWORD_LENGTH) {
+    console.warn(
+      `No users exist. Set ADMIN_USERNAME and ADMIN_PASSWORD (min. ${MIN_PASSWORD_LENGTH} characters) to create the first finance-admin.`,
+    );
     return;
   }
+  insertUserStmt.run(
+    username,
+    username,
+    "finance-admin",
+    hashPassword(password),
+  );
+  console.log(`Created finance-admin user "${username}"`);
+};
+bootstrapAdmin();
 
-  const productKey = makeProductKey(vendorName, productName);
-  const existing = getStmt.get(tenantId, productKey);
-  if (existing) {
-    response.status(409).json({ message: "Rabat findes allerede" });
-    return;
+const readCookie = (request, name) => {
+  const header = request.get("cookie") ?? "";
+  for (const part of header.split(";")) {
+    const separatorIndex = part.indexOf("=");
+    if (separatorIndex === -1) continue;
+    if (part.slice(0, separatorIndex).trim() !== name) continue;
+    // A malformed value ("%E0%A4%A") is treated as no cookie, not a 500.
+    try {
+      return decodeURIComponent(part.slice(separatorIndex + 1).trim());
+    } catch {
+      return "";
+    }
+  }
+  return "";
+};
+
+const readApiKey = (request) => {
+  const header = request.get("x-api-key") ?? "";
+  if (header.startsWith(API_KEY_PREFIX)) return header.trim();
+  const authorization = request.get("authorization") ?? "";
+  const [scheme, token] = authorization.split(" ");
+  return scheme === "Bearer" && token?.startsWith(API_KEY_PREFIX) ? token : "";
+};
+
+const resolveRequestUser = (request) => {
+  const apiKey = readApiKey(request);
+  if (apiKey) {
+    const row = getApiKeyUserStmt.get(hashToken(apiKey));
+    if (row) touchApiKeyStmt.run(row.api_key_id);
+    return row;
   }
+  const sessionToken = readCookie(request, SESSION_COOKIE);
+  return sessionToken
+    ? getSessionUserStmt.get(hashToken(sessionToken), new Date().toISOString())
+    : undefined;
+};
+
+const PUBLIC_API_PATHS = new Set(["/auth/login", "/auth/logout"]);
 
-  insertStmt.run(tenantId, productKey, rate);
-  response.status(201).json({ tenantId, productKey, rate });
+app.use("/api", (request, response, next) => {
+  if (PUBLIC_API_PATHS.has(request.path)) {
+    next();
+    return;
+  }
+  const row = resolveRequestUser(request);
+  if (!row || row.disabled) {
+    response.status(401).json({ message: "Log ind for at fortsætte" });
+    return;
+  }
+  request.user = mapCurrentUser(row);
+  next();
 });
 
-app.patch("/api/tenant-discounts", (request, response) => {
-  const { tenantId, vendorName, productName, rate } = parseBody(request.body);
-  if (!tenantId || !vendorName || !productName || rate === null) {
-    response.status(400).json({ message: "Ugyldig payload" });
+const requirePermission = (permission) => (request, response, next) => {
+  if (!hasPermission(request.user, permission)) {
+    response
+      .status(403)
+      .json({ message: "Din rolle må ikke udføre denne handling" });
     return;
   }
+  next();
+};
+
+// Discounts, re-billing runs and the Cloud Factory session are kept per
+// partner account. Clients name the account in the X-Partner-Id header, or
+// with `?partner=` on plain download links; without either the primary
+// account is used.
+const PARTNER_SCOPED_PATHS = [
+  "/api/tenant-discounts",
+  "/api/rebilling-runs",
+  "/api/cf-session",
+];
+
+const findPartnerId = (value) => {
+  if (!value) return primaryPartnerId;
+  const partnerId = value.trim().toLowerCase();
+  return PARTNER_IDS.includes(partnerId) ? partnerId : null;
+};
 
-  const productKey = makeProductKey(vendorName, productName);
-  const existing = getStmt.get(tenantId, productKey);
-  if (!existing) {
-    response.status(404).json({ message: "Rabat findes ikke" });
+app.use(PARTNER_SCOPED_PATHS, (request, response, next) => {
+  const partnerId = findPartnerId(
+    request.get("x-partner-id") ?? readQueryString(request.query.partner),
+  );
+  if (!partnerId) {
+    response.status(400).json({ message: "Ukendt partnerkonto" });
     return;
   }
+  request.partnerId = partnerId;
+  next();
+});
 
-  updateStmt.run(rate, tenantId, productKey);
-  response.json({ tenantId, productKey, rate });
+const sessionCookieOptions = (request) => ({
+  httpOnly: true,
+  sameSite: "lax",
+  secure: request.secure || request.get("x-forwarded-proto") === "https",
+  path: "/",
 });
 
-app.put("/api/tenant-discounts", (request, response) => {
-  const { tenantId, vendorName, productName, rate } = parseBody(request.body);
-  if (!tenantId || !vendorName || !productName || rate === null) {
-    response.status(400).json({ message: "Ugyldig payload" });
+app.post("/api/auth/login", (request, response) => {
+  const body = request.body ?? {};
+  const username = readTrimmed(body.username);
+  const password = typeof body.password === "string" ? body.password : "";
+  const row = username ? getUserByNameStmt.get(username) : undefined;
+  const valid = verifyPassword(
+    password,
+    row?.password_hash ?? DUMMY_PASSWORD_HASH,
+  );
+  if (!row || !valid || row.disabled) {
+    response
+      .status(401)
+      .json({ message: "Forkert brugernavn eller adgangskode" });
     return;
   }
 
-  const productKey = makeProductKey(vendorName, productName);
-  upsertStmt.run(tenantId, productKey, rate);
-  response.json({ tenantId, productKey, rate });
+  const now = Date.now();
+  deleteExpiredSessionsStmt.run(new Date(now).toISOString());
+  const token = crypto.randomBytes(32).toString("base64url");
+  insertSessionStmt.run(
+    hashToken(token),
+    row.id,
+    new Date(now + SESSION_TTL_MS).toISOString(),
+  );
+  response.cookie(SESSION_COOKIE, token, {
+    ...sessionCookieOptions(request),
+    maxAge: SESSION_TTL_MS,
+  });
+  response.json(mapCurrentUser(row));
 });
 
-app.delete("/api/tenant-discounts", (request, response) => {
-  const { tenantId, vendorName, productName } = parseBody(request.body);
-  if (!tenantId || !vendorName || !productName) {
-    response.status(400).json({ message: "Ugyldig payload" });
+app.post("/api/auth/logout", (request, response) => {
+  const sessionToken = readCookie(request, SESSION_COOKIE);
+  if (sessionToken) deleteSessionStmt.run(hashToken(sessionToken));
+  response.clearCookie(SESSION_COOKIE, sessionCookieOptions(request));
+  response.status(204).send();
+});
+
+app.get("/api/auth/me", (request, response) => {
+  response.json(request.user);
+});
+
+const readPassword = (value) =>
+  typeof value === "string" && value.length >= MIN_PASSWORD_LENGTH
+    ? value
+    : null;
+
+app.get(
+  "/api/users",
+  requirePermission("users:admin"),
+  (_request, response) => {
+    response.json({ users: listUsersStmt.all().map(mapUserRow) });
+  },
+);
+
+app.post(
+  "/api/users",
+  requirePermission("users:admin"),
+  (request, response) => {
+    const body = request.body ?? {};
+    const username = readTrimmed(body.username, 60);
+    const displayName = readTrimmed(body.displayName) || username;
+    const password = readPassword(body.password);
+    if (!username || !USER_ROLES.includes(body.role) || !password) {
+      response.status(400).json({
+        message: `Angiv brugernavn, rolle og en adgangskode på mindst ${MIN_PASSWORD_LENGTH} tegn`,
+      });
+      return;
+    }
+    if (getUserByNameStmt.get(username)) {
+      response.status(409).json({ message: "Brugernavnet findes allerede" });
+      return;
+    }
+
+    const { lastInsertRowid } = insertUserStmt.run(
+      username,
+      displayName,
+      body.role,
+      hashPassword(password),
+    );
+    response.status(201).json(mapUserRow(getUserStmt.get(lastInsertRowid)));
+  },
+);
+
+// Partial update; changing the password or disabling the user ends their
+// sessions. Admins cannot demote or disable themselves, so there is always
+// at least one account that can manage users.
+app.patch(
+  "/api/users/:id",
+  requirePermission("users:admin"),
+  (request, response) => {
+    const existing = getUserStmt.get(Number(request.params.id));
+    if (!existing) {
+      response.status(404).json({ message: "Brugeren findes ikke" });
+      return;
+    }
+
+    const body = request.body ?? {};
+    const role = body.role === undefined ? existing.role : body.role;
+    const disabled =
+      body.disabled === undefined ? existing.disabled === 1 : body.disabled;
+    const password =
+      body.password === undefined ? undefined : readPassword(body.password);
+    if (
+      !USER_ROLES.includes(role) ||
+      typeof disabled !== "boolean" ||
+      password === null
+    ) {
+      response.status(400).json({ message: "Ugyldig payload" });
+      return;
+    }
+    if (
+      existing.id === request.user.id &&
+      (role !== existing.role || disabled)
+    ) {
+      response.status(409).json({
+        message: "Du kan ikke ændre din egen rolle eller spærre dig selv",
+      });
+      return;
+    }
+
+    updateUserStmt.run(
+      readTrimmed(body.displayName) || existing.display_name,
+      role,
+      password ? hashPassword(password) : existing.password_hash,
+      disabled ? 1 : 0,
+      existing.id,
+    );
+    if (password || disabled) deleteUserSessionsStmt.run(existing.id);
+    response.json(mapUserRow(getUserStmt.get(existing.id)));
+  },
+);
+
+const mapApiKeyRow = (row) => ({
+  id: row.id,
+  name: row.name,
+  createdAt: row.created_at,
+  lastUsedAt: row.last_used_at,
+});
+
+app.get("/api/api-keys", (request, response) => {
+  response.json({
+    apiKeys: listApiKeysStmt.all(request.user.id).map(mapApiKeyRow),
+  });
+});
+
+// The key is only returned here; afterwards only its hash is known.
+app.post("/api/api-keys", (request, response) => {
+  const name = readTrimmed(request.body?.name, 80);
+  if (!name) {
+    response.status(400).json({ message: "Angiv et navn til nøglen" });
     return;
   }
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString("base64url")}`;
+  const { lastInsertRowid } = insertApiKeyStmt.run(
+    request.user.id,
+    name,
+    hashToken(key),
+  );
+  response.status(201).json({ id: lastInsertRowid, name, key });
+});
 
-  const productKey = makeProductKey(vendorName, productName);
-  deleteStmt.run(tenantId, productKey);
+app.delete("/api/api-keys/:id", (request, response) => {
+  deleteApiKeyStmt.run(Number(request.params.id), request.user.id);
   response.status(204).send();
 });
 
-const port = Number(process.env.API_PORT ?? 3001);
-app.listen(port, () => {
-  console.log(`Discount API running on port ${port} (DB: ${dbFilePath})`);
+// Product aliases map product labels (renamed SKUs, "(Annual)" suffixes) to
+// one canonical product name. The client merges the labels on the invoice;
+// the server lets discounts stored under an alias answer for the canonical
+// product, so existing rates follow a renamed product.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS product_aliases (
+    alias_key TEXT PRIMARY KEY,
+    alias TEXT NOT NULL,
+    canonical_key TEXT NOT NULL,
+    canonical_name TEXT NOT NULL,
+    updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_by TEXT
+  );
+`);
+
+const listProductAliasesStmt = db.prepare(
+  `SELECT * FROM product_aliases
+   ORDER BY canonical_name COLLATE NOCASE, alias COLLATE NOCASE`,
+);
+const getProductAliasStmt = db.prepare(
+  `SELECT * FROM product_aliases WHERE alias_key = ?`,
+);
+const countAliasesForCanonicalStmt = db.prepare(
+  `SELECT COUNT(*) AS count FROM product_aliases WHERE canonical_key = ?`,
+);
+const upsertProductAliasStmt = db.prepare(
+  `INSERT INTO product_aliases
+     (alias_key, alias, canonical_key, canonical_name, updated_by)
+   VALUES (?, ?, ?, ?, ?)
+   ON CONFLICT (alias_key) DO UPDATE SET
+     alias = excluded.alias,
+     canonical_key = excluded.canonical_key,
+     canonical_name = excluded.canonical_name,
+     updated_at = CURRENT_TIMESTAMP,
+     updated_by = excluded.updated_by`,
+);
+const deleteProductAliasStmt = db.prepare(
+  `DELETE FROM product_aliases WHERE alias_key = ?`,
+);
+
+// Mirrors normalizeLabel in src/utils/billingCalculations.ts.
+const normalizeProductLabel = (label) =>
+  label
+    .trim()
+    .replace(/^\(\s*NCE\s*\)\s*/i, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+
+const mapProductAliasRow = (row) => ({
+  alias: row.alias,
+  canonicalName: row.canonical_name,
+  updatedAt: row.updated_at,
+  updatedBy: row.updated_by,
+});
+
+const splitProductKey = (productKey) => {
+  const separator = productKey.indexOf("::");
+  return separator === -1
+    ? [productKey, ""]
+    : [productKey.slice(0, separator), productKey.slice(separator + 2)];
+};
+
+// Adds copies of alias rows under the canonical product key. A rate set on
+// the canonical name wins from its first period on; alias periods only fill
+// the dates before it. When several aliases have rates, the first one wins so
+// their periods are never mixed.
+const withAliasedDiscountRows = (rows) => {
+  const canonicalByAlias = new Map(
+    listProductAliasesStmt
+      .all()
+      .map((row) => [row.alias_key, row.canonical_name]),
+  );
+  if (canonicalByAlias.size === 0) return rows;
+
+  const firstOwnStart = new Map();
+  rows.forEach((row) => {
+    const key = `${row.tenant_id}|${row.product_key}`;
+    const current = firstOwnStart.get(key);
+    if (current === undefined || row.valid_from < current) {
+      firstOwnStart.set(key, row.valid_from);
+    }
+  });
+
+  const sourceKeys = new Map();
+  const aliasedRows = rows.flatMap((row) => {
+    const [vendorKey, productLabel] = splitProductKey(row.product_key);
+    const canonicalName = canonicalByAlias.get(
+      normalizeProductLabel(productLabel),
+    );
+    if (!canonicalName) return [];
+
+    const productKey = makeProductKey(vendorKey, canonicalName);
+    const targetKey = `${row.tenant_id}|${productKey}`;
+    const sourceKey = sourceKeys.get(targetKey) ?? row.product_key;
+    if (sourceKey !== row.product_key) return [];
+    sourceKeys.set(targetKey, sourceKey);
+
+    const ownStart = firstOwnStart.get(targetKey);
+    if (ownStart === undefined) return [{ ...row, product_key: productKey }];
+    if (row.valid_from >= ownStart) return [];
+    const validTo =
+      row.valid_to === null || row.valid_to > ownStart
+        ? ownStart
+        : row.valid_to;
+    return [{ ...row, product_key: productKey, valid_to: validTo }];
+  });
+  // Keep the listStmt order so each key's periods stay sorted.
+  return [...rows, ...aliasedRows].sort(
+    (a, b) =>
+      a.tenant_id.localeCompare(b.tenant_id) ||
+      a.product_key.localeCompare(b.product_key) ||
+      a.valid_from.localeCompare(b.valid_from),
+  );
+};
+
+const listAliasLabels = (productName) =>
+  listProductAliasesStmt
+    .all()
+    .filter(
+      (row) => row.canonical_key === normalizeProductLabel(productName),
+    )
+    .map((row) => row.alias);
+
+app.get("/api/product-aliases", (_request, response) => {
+  response.json({
+    aliases: listProductAliasesStmt.all().map(mapProductAliasRow),
+  });
+});
+
+app.put(
+  "/api/product-aliases",
+  requirePermission("discounts:admin"),
+  (request, response) => {
+    const alias = readTrimmed(request.body?.alias, 200);
+    const canonicalName = readTrimmed(request.body?.canonicalName, 200);
+    const aliasKey = normalizeProductLabel(alias);
+    const canonicalKey = normalizeProductLabel(canonicalName);
+    if (!aliasKey || !canonicalKey || aliasKey === canonicalKey) {
+      response.status(400).json({ message: "Ugyldig payload" });
+      return;
+    }
+    // Aliases point straight at a canonical product; chains would make the
+    // result depend on the order they are resolved in.
+    if (getProductAliasStmt.get(canonicalKey)) {
+      response
+        .status(409)
+        .json({ message: `${canonicalName} er selv et alias` });
+      return;
+    }
+    if (countAliasesForCanonicalStmt.get(aliasKey).count > 0) {
+      response
+        .status(409)
+        .json({ message: `${alias} har allerede egne aliaser` });
+      return;
+    }
+
+    upsertProductAliasStmt.run(
+      aliasKey,
+      alias,
+      canonicalKey,
+      canonicalName,
+      resolveActor(request),
+    );
+    response.json(mapProductAliasRow(getProductAliasStmt.get(aliasKey)));
+  },
+);
+
+app.delete(
+  "/api/product-aliases",
+  requirePermission("discounts:admin"),
+  (request, response) => {
+    const aliasKey = normalizeProductLabel(
+      readTrimmed(request.body?.alias, 200),
+    );
+    if (!aliasKey) {
+      response.status(400).json({ message: "Ugyldig payload" });
+      return;
+    }
+
+    deleteProductAliasStmt.run(aliasKey);
+    response.status(204).send();
+  },
+);
+
+// `discounts` holds the rates in force at `at` (default today) for clients
+// that only need a flat lookup; `periods` carries the full timeline.
+app.get("/api/tenant-discounts", (request, response) => {
+  const at = readQueryString(request.query.at);
+  if (at && !isIsoDate(at)) {
+    response.status(400).json({ message: "Ugyldig dato" });
+    return;
+  }
+
+  const rows = withAliasedDiscountRows(listStmt.all(request.partnerId));
+  response.json(mapRowsToState(rows, at ? at.slice(0, 10) : todayIso()));
+});
+
+app.get("/api/tenant-discounts/history", (request, response) => {
+  const tenantId = readQueryString(request.query.tenantId);
+  const vendorName = readQueryString(request.query.vendorName);
+  const productName = readQueryString(request.query.productName);
+  const from = readQueryString(request.query.from);
+  const to = readQueryString(request.query.to);
+  const rawLimit = Number(request.query.limit ?? 200);
+
+  if ((from && !isIsoDate(from)) || (to && !isIsoDate(to))) {
+    response.status(400).json({ message: "Ugyldigt datofilter" });
+    return;
+  }
+
+  const conditions = ["partner_id = ?"];
+  const params = [request.partnerId];
+
+  // Changes made through any tenant of the customer are included.
+  if (tenantId) {
+    conditions.push("customer_id = ?");
+    params.push(findDiscountOwner(tenantId));
+  }
+  if (vendorName && productName) {
+    // Include changes made under the product's aliases.
+    const productKeys = [productName, ...listAliasLabels(productName)].map(
+      (label) => makeProductKey(vendorName, label),
+    );
+    conditions.push(
+      `product_key IN (${productKeys.map(() => "?").join(", ")})`,
+    );
+    params.push(...productKeys);
+  } else if (vendorName) {
+    conditions.push("product_key LIKE ? ESCAPE '\\'");
+    params.push(`${escapeLike(vendorName.toLowerCase())}::%`);
+  } else if (productName) {
+    conditions.push("product_key LIKE ? ESCAPE '\\'");
+    params.push(`%::${escapeLike(productName.toLowerCase())}`);
+  }
+  // changed_at is stored as "YYYY-MM-DD HH:MM:SS" (UTC), so comparing the
+  // date part keeps both bounds inclusive.
+  if (from) {
+    conditions.push("substr(changed_at, 1, 10) >= ?");
+    params.push(from.slice(0, 10));
+  }
+  if (to) {
+    conditions.push("substr(changed_at, 1, 10) <= ?");
+    params.push(to.slice(0, 10));
+  }
+
+  const limit =
+    Number.isInteger(rawLimit) && rawLimit > 0 ? Math.min(rawLimit, 1000) : 200;
+  const rows = db
+    .prepare(
+      `SELECT * FROM tenant_discount_history WHERE ${conditions.join(" AND ")}
+       ORDER BY changed_at DESC, id DESC LIMIT ?`,
+    )
+    .all(...params, limit);
+
+  response.json({ history: rows.map(mapHistoryRow) });
 });
+
+const CSV_COLUMNS = [
+  "tenantId",
+  "vendorName",
+  "productName",
+  "rate",
+  "validFrom",
+];
+
+const escapeCsvValue = (value) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",;\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const detectCsvDelimiter = (headerLine) => {
+  const counts = [",", ";", "\t"].map((candidate) => ({
+    candidate,
+    count: headerLine.split(candidate).length - 1,
+  }));
+  counts.sort((a, b) => b.count - a.count);
+  return counts[0].count > 0 ? counts[0].candidate : ",";
+};
+
+// Minimal RFC 4180 parser: quoted fields, doubled quotes and CRLF. The
+// delimiter is sniffed from the header so exports re-saved by a Danish Excel
+// (semicolon separated) import as well.
+const parseCsv = (text) => {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectCsvDelimiter(source.split(/\r?\n/, 1)[0] ?? "");
+  const rows = [];
+  let row = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (inQuotes) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") index += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return { delimiter, rows };
+};
+
+const parseCsvRate = (value) => {
+  const cleaned = String(value ?? "")
+    .trim()
+    .replace(/\s*%$/, "")
+    .replace(/^(\d+),(\d+)$/, "$1.$2");
+  if (!cleaned) return null;
+  const numeric = Number(cleaned);
+  return Number.isFinite(numeric) && numeric >= 0 && numeric <= 100
+    ? Math.round(numeric * 100) / 100
+    : null;
+};
+
+const inferScope = ({ tenantId, vendorName, productName }) => {
+  if (tenantId === WILDCARD) return "global-vendor";
+  if (vendorName === WILDCARD) return "tenant";
+  if (productName === WILDCARD) return "vendor";
+  return "product";
+};
+
+// Builds lookups from the tenants/products the client currently sees on an
+// invoice so import rows for unknown tenants or products can be flagged.
+const buildKnownProductIndex = (knownProducts) => {
+  if (!Array.isArray(knownProducts)) return null;
+  const index = {
+    tenants: new Set(),
+    vendors: new Set(),
+    tenantVendors: new Set(),
+    tenantProducts: new Set(),
+  };
+  knownProducts.forEach((entry) => {
+    const { tenantId, vendorName, productName } = parseBody(entry);
+    if (!tenantId || !vendorName || !productName) return;
+    const vendorKey = vendorName.toLowerCase();
+    index.tenants.add(tenantId);
+    index.vendors.add(vendorKey);
+    index.tenantVendors.add(`${tenantId}|${vendorKey}`);
+    index.tenantProducts.add(
+      `${tenantId}|${makeProductKey(vendorName, productName)}`,
+    );
+  });
+  return index;
+};
+
+const isKnownTarget = (index, scope, target) => {
+  if (!index) return true;
+  const vendorKey = target.vendorName.toLowerCase();
+  switch (scope) {
+    case "product":
+      return index.tenantProducts.has(
+        `${target.tenantId}|${makeProductKey(target.vendorName, target.productName)}`,
+      );
+    case "vendor":
+      return index.tenantVendors.has(`${target.tenantId}|${vendorKey}`);
+    case "tenant":
+      return index.tenants.has(target.tenantId);
+    default:
+      return index.vendors.has(vendorKey);
+  }
+};
+
+// Scope keys that take precedence over `scope` for one product, most
+// specific first; a rate stored under any of them hides the imported one.
+const getMoreSpecificKeys = (scope, { tenantId, vendorName, productName }) =>
+  [
+    makeProductKey(vendorName, productName),
+    makeProductKey(vendorName, WILDCARD),
+    makeProductKey(WILDCARD, WILDCARD),
+  ]
+    .slice(0, DISCOUNT_SCOPES.indexOf(scope))
+    .map((key) => [findDiscountOwner(tenantId), key]);
+
+const describeImportViolations = (violations) =>
+  `Margin under minimum for ${violations
+    .map((violation) => violation.productName)
+    .join(", ")} (maks. ${Math.min(
+    ...violations.map((violation) => violation.maxRate),
+  )} % rabat)`;
+
+const classifyImportRows = (
+  records,
+  { partnerId, validFrom, knownIndex, pricing },
+) => {
+  const seen = new Map();
+
+  return records.map(({ line, values }) => {
+    const tenantId = (values.tenantId ?? "").trim();
+    const vendorName = (values.vendorName ?? "").trim();
+    const productName = (values.productName ?? "").trim();
+    const rowValidFrom = (values.validFrom ?? "").trim() || validFrom;
+    const base = { line, tenantId, vendorName, productName, validFrom: null };
+    const reject = (reason) => ({ ...base, status: "rejected", reason });
+
+    const scope = inferScope({ tenantId, vendorName, productName });
+    const target = resolveScopeTarget({
+      scope,
+      tenantId,
+      vendorName,
+      productName,
+    });
+    if (!target) return reject("Manglende kunde, leverandør eller produkt");
+    if (!isIsoDate(rowValidFrom)) return reject("Ugyldig gyldig-fra dato");
+
+    const rate = parseCsvRate(values.rate);
+    if (rate === null) return reject("Ugyldig sats (skal være 0-100)");
+
+    const productKey = makeProductKey(target.vendorName, target.productName);
+    const row = {
+      ...base,
+      ...target,
+      scope,
+      productKey,
+      rate,
+      validFrom: rowValidFrom.slice(0, 10),
+    };
+
+    const customerId = findDiscountOwner(target.tenantId);
+    const duplicateKey = `${customerId ?? target.tenantId}|${productKey}|${row.validFrom}`;
+    if (seen.has(duplicateKey)) {
+      return reject(`Dublet af linje ${seen.get(duplicateKey)}`);
+    }
+    seen.set(duplicateKey, line);
+
+    if (!isKnownTarget(knownIndex, scope, target)) {
+      return {
+        ...row,
+        status: "unmatched",
+        reason: "Kunde eller produkt findes ikke på fakturaen",
+      };
+    }
+
+    const current = getPeriodAt(
+      partnerId,
+      customerId,
+      productKey,
+      row.validFrom,
+    );
+    if (current?.rate === rate) {
+      return { ...row, currentRate: current.rate, status: "unchanged" };
+    }
+
+    const { pricingRequired, violations } = checkMarginRules(
+      pricing,
+      scope,
+      target,
+      rate,
+      (item) =>
+        getMoreSpecificKeys(scope, item).every(
+          ([owner, key]) => !getPeriodAt(partnerId, owner, key, row.validFrom),
+        ),
+    );
+    if (pricingRequired || violations.length > 0) {
+      return {
+        ...row,
+        currentRate: current?.rate ?? null,
+        status: "rejected",
+        reason: pricingRequired
+          ? "Blokerende marginregel, men ingen priser for produkterne på fakturaen"
+          : describeImportViolations(violations),
+        violations,
+      };
+    }
+
+    return current
+      ? { ...row, currentRate: current.rate, status: "updated" }
+      : { ...row, currentRate: null, status: "created" };
+  });
+};
+
+const applyImportRows = db.transaction((rows, partnerId, actor) => {
+  rows.forEach((row) => {
+    if (row.status !== "created" && row.status !== "updated") return;
+    const change = {
+      partnerId,
+      customerId: claimDiscountOwner(row.tenantId, actor),
+      tenantId: row.tenantId,
+      productKey: row.productKey,
+      vendorName: row.vendorName,
+      productName: row.productName,
+      validFrom: row.validFrom,
+      oldRate: row.currentRate,
+      newRate: row.rate,
+      actor,
+    };
+    applyRateFrom(change);
+    recordHistory({
+      ...change,
+      action: row.status === "created" ? "create" : "update",
+    });
+  });
+});
+
+app.get("/api/tenant-discounts/export.csv", (request, response) => {
+  const at = readQueryString(request.query.at);
+  if (at && !isIsoDate(at)) {
+    response.status(400).json({ message: "Ugyldig dato" });
+    return;
+  }
+
+  const date = at ? at.slice(0, 10) : todayIso();
+  const lines = [CSV_COLUMNS.join(",")];
+  listStmt
+    .all(request.partnerId)
+    .filter((row) => isPeriodActiveAt(row, date))
+    .forEach((row) => {
+      const [vendorFromKey, productFromKey] = splitProductKey(row.product_key);
+      lines.push(
+        [
+          row.tenant_id,
+          row.vendor_name ?? vendorFromKey,
+          row.product_name ?? productFromKey,
+          row.rate,
+          mapPeriodRow(row).validFrom ?? "",
+        ]
+          .map(escapeCsvValue)
+          .join(","),
+      );
+    });
+
+  response.set("Content-Type", "text/csv; charset=utf-8");
+  response.set(
+    "Content-Disposition",
+    `attachment; filename="rabatter-${date}.csv"`,
+  );
+  response.send(`\uFEFF${lines.join("\r\n")}\r\n`);
+});
+
+// Defaults to a dry run; pass `dryRun: false` to apply the created/updated
+// rows. Rejected, unmatched and unchanged rows are never written.
+app.post(
+  "/api/tenant-discounts/import",
+  requirePermission("discounts:write"),
+  (request, response) => {
+    const body = request.body ?? {};
+    const csv = typeof body.csv === "string" ? body.csv : "";
+    const dryRun = body.dryRun !== false;
+    const validFrom =
+      body.validFrom === undefined || body.validFrom === null
+        ? todayIso()
+        : isIsoDate(body.validFrom)
+          ? body.validFrom.slice(0, 10)
+          : null;
+
+    if (!csv.trim() || validFrom === null) {
+      response.status(400).json({ message: "Ugyldig payload" });
+      return;
+    }
+
+    const { rows } = parseCsv(csv);
+    const [header = [], ...dataRows] = rows;
+    const columnIndex = new Map(
+      header.map((name, index) => [name.trim().toLowerCase(), index]),
+    );
+    const missingColumns = ["tenantId", "vendorName", "productName", "rate"]
+      .filter((column) => !columnIndex.has(column.toLowerCase()));
+    if (missingColumns.length > 0) {
+      response.status(400).json({
+        message: `Manglende kolonner: ${missingColumns.join(", ")}`,
+      });
+      return;
+    }
+
+    const records = dataRows
+      .map((values, index) => ({
+        line: index + 2,
+        values: Object.fromEntries(
+          CSV_COLUMNS.map((column) => [
+            column,
+            values[columnIndex.get(column.toLowerCase())],
+          ]),
+        ),
+      }))
+      .filter(({ values }) =>
+        Object.values(values).some((value) => (value ?? "").trim() !== ""),
+      );
+
+    const classified = classifyImportRows(records, {
+      partnerId: request.partnerId,
+      validFrom,
+      knownIndex: buildKnownProductIndex(body.knownProducts),
+      pricing: readPricingItems(body.knownProducts),
+    });
+
+    if (!dryRun) {
+      if (!hasPermission(request.user, "discounts:admin")) {
+        response
+          .status(403)
+          .json({ message: "Din rolle må kun forhåndsvise importer" });
+        return;
+      }
+      applyImportRows(classified, request.partnerId, resolveActor(request));
+    }
+
+    const summary = {
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      rejected: 0,
+      unmatched: 0,
+    };
+    classified.forEach((row) => {
+      summary[row.status] += 1;
+    });
+
+    response.json({
+      dryRun,
+      summary,
+      rows: classified.map((row) => ({
+        line: row.line,
+        tenantId: row.tenantId,
+        vendorName: row.vendorName,
+        productName: row.productName,
+        scope: row.scope ?? null,
+        validFrom: row.validFrom ?? null,
+        rate: row.rate ?? null,
+        currentRate: row.currentRate ?? null,
+        status: row.status,
+        reason: row.reason ?? null,
+        violations: row.violations ?? [],
+      })),
+    });
+  },
+);
+
+// Minimum margins per vendor; the vendor "*" holds the global rule. "block"
+// rejects discounts that break the minimum, "warn" only flags them in the UI.
+const MARGIN_ENFORCEMENTS = ["warn", "block"];
+const MAX_PRICING_ITEMS = 1000;
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS margin_rules (
+    vendor_key TEXT PRIMARY KEY,
+    vendor_name TEXT NOT NULL,
+    min_margin_percent REAL NOT NULL,
+    enforcement TEXT NOT NULL,
+    updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_by TEXT
+  );
+`);
+
+const listMarginRulesStmt = db.prepare(
+  `SELECT * FROM margin_rules
+   ORDER BY vendor_key = '*' DESC, vendor_name COLLATE NOCASE`,
+);
+const getMarginRuleStmt = db.prepare(
+  `SELECT * FROM margin_rules WHERE vendor_key = ?`,
+);
+const upsertMarginRuleStmt = db.prepare(
+  `INSERT INTO margin_rules
+     (vendor_key, vendor_name, min_margin_percent, enforcement, updated_by)
+   VALUES (?, ?, ?, ?, ?)
+   ON CONFLICT (vendor_key) DO UPDATE SET
+     vendor_name = excluded.vendor_name,
+     min_margin_percent = excluded.min_margin_percent,
+     enforcement = excluded.enforcement,
+     updated_at = CURRENT_TIMESTAMP,
+     updated_by = excluded.updated_by`,
+);
+const deleteMarginRuleStmt = db.prepare(
+  `DELETE FROM margin_rules WHERE vendor_key = ?`,
+);
+
+const makeMarginRuleKey = (vendorName) =>
+  vendorName === WILDCARD ? WILDCARD : vendorName.toLowerCase();
+
+const mapMarginRuleRow = (row) => ({
+  vendorName: row.vendor_name,
+  minMarginPercent: row.min_margin_percent,
+  enforcement: row.enforcement,
+  updatedAt: row.updated_at,
+  updatedBy: row.updated_by,
+});
+
+const resolveMarginRule = (vendorName) =>
+  getMarginRuleStmt.get(makeMarginRuleKey(vendorName)) ??
+  getMarginRuleStmt.get(WILDCARD);
+
+const roundDown = (value) => Math.floor(value * 100) / 100;
+
+// Mirrors evaluateMarginRules in src/utils/marginRules.ts. The margin is
+// measured against the discounted resale price; the resale price must cover
+// the cost plus the minimum share of itself.
+const evaluateMargin = (item, rate, rule) => {
+  const resaleAmount = item.amount * (1 - rate / 100);
+  const minShare = rule.min_margin_percent / 100;
+  if (resaleAmount * (1 - minShare) >= item.costAmount) return null;
+
+  const maxRate =
+    minShare >= 1
+      ? 0
+      : Math.min(
+          100,
+          Math.max(
+            0,
+            roundDown(
+              (1 - item.costAmount / ((1 - minShare) * item.amount)) * 100,
+            ),
+          ),
+        );
+  return {
+    tenantId: item.tenantId,
+    vendorName: item.vendorName,
+    productName: item.productName,
+    rate,
+    marginPercent:
+      resaleAmount > 0
+        ? ((resaleAmount - item.costAmount) / resaleAmount) * 100
+        : null,
+    minMarginPercent: rule.min_margin_percent,
+    maxRate,
+    enforcement: rule.enforcement,
+  };
+};
+
+const readPricingItems = (value) =>
+  (Array.isArray(value) ? value.slice(0, MAX_PRICING_ITEMS) : []).filter(
+    (item) =>
+      item &&
+      typeof item.tenantId === "string" &&
+      typeof item.vendorName === "string" &&
+      typeof item.productName === "string" &&
+      Number.isFinite(item.costAmount) &&
+      Number.isFinite(item.amount) &&
+      item.amount > 0,
+  );
+
+// Whether a pricing item is one of the products a write to `target` changes.
+const isPricingInScope = (item, scope, target) =>
+  (scope === "global-vendor" || item.tenantId === target.tenantId) &&
+  (target.vendorName === WILDCARD ||
+    item.vendorName.toLowerCase() === target.vendorName.toLowerCase()) &&
+  (target.productName === WILDCARD ||
+    item.productName.toLowerCase() === target.productName.toLowerCase());
+
+// Tenant-wide rates reach every vendor, so any block rule counts for them.
+const hasBlockingMarginRule = (vendorName) =>
+  vendorName === WILDCARD
+    ? listMarginRulesStmt.all().some((rule) => rule.enforcement === "block")
+    : resolveMarginRule(vendorName)?.enforcement === "block";
+
+// Writers send the cost and list amount of the products a discount affects
+// (the server has no invoice data); `pricing` holds the items in scope.
+const findBlockingMarginViolations = (pricing, rate) =>
+  pricing
+    .map((item) => {
+      const rule = resolveMarginRule(item.vendorName);
+      return rule ? evaluateMargin(item, rate, rule) : null;
+    })
+    .filter((violation) => violation?.enforcement === "block");
+
+// Shared by single writes and CSV rows. `pricingRequired` means a block rule
+// applies but none of the products in scope were priced, so the rate cannot
+// be checked. `isAffected` drops products the rate would not reach.
+const checkMarginRules = (
+  pricing,
+  scope,
+  target,
+  rate,
+  isAffected = () => true,
+) => {
+  const inScope = pricing.filter((item) =>
+    isPricingInScope(item, scope, target),
+  );
+  if (inScope.length === 0) {
+    return {
+      pricingRequired: hasBlockingMarginRule(target.vendorName),
+      violations: [],
+    };
+  }
+  return {
+    pricingRequired: false,
+    violations: findBlockingMarginViolations(
+      inScope.filter(isAffected),
+      rate,
+    ),
+  };
+};
+
+app.get("/api/margin-rules", (_request, response) => {
+  response.json({ rules: listMarginRulesStmt.all().map(mapMarginRuleRow) });
+});
+
+app.put(
+  "/api/margin-rules",
+  requirePermission("discounts:admin"),
+  (request, response) => {
+    const body = request.body ?? {};
+    const vendorName = readTrimmed(body.vendorName);
+    const minMarginPercent = body.minMarginPercent;
+    if (
+      !vendorName ||
+      typeof minMarginPercent !== "number" ||
+      !Number.isFinite(minMarginPercent) ||
+      minMarginPercent < 0 ||
+      minMarginPercent >= 100 ||
+      !MARGIN_ENFORCEMENTS.includes(body.enforcement)
+    ) {
+      response.status(400).json({ message: "Ugyldig payload" });
+      return;
+    }
+
+    const key = makeMarginRuleKey(vendorName);
+    upsertMarginRuleStmt.run(
+      key,
+      vendorName,
+      Math.round(minMarginPercent * 100) / 100,
+      body.enforcement,
+      resolveActor(request),
+    );
+    response.json(mapMarginRuleRow(getMarginRuleStmt.get(key)));
+  },
+);
+
+app.delete(
+  "/api/margin-rules",
+  requirePermission("discounts:admin"),
+  (request, response) => {
+    const vendorName = readTrimmed(request.body?.vendorName);
+    if (!vendorName) {
+      response.status(400).json({ message: "Ugyldig payload" });
+      return;
+    }
+
+    deleteMarginRuleStmt.run(makeMarginRuleKey(vendorName));
+    response.status(204).send();
+  },
+);
+
+const readWritePayload = (request, response, { requireRate }) => {
+  const payload = parseBody(request.body);
+  const target = payload.scope ? resolveScopeTarget(payload) : null;
+  if (
+    !target ||
+    (requireRate && payload.rate === null) ||
+    payload.validFrom === null
+  ) {
+    response.status(400).json({ message: "Ugyldig payload" });
+    return null;
+  }
+  // Vendor defaults apply to every customer, so only finance-admin may
+  // change them.
+  if (
+    payload.scope === "global-vendor" &&
+    !hasPermission(request.user, "discounts:admin")
+  ) {
+    response
+      .status(403)
+      .json({ message: "Din rolle må ikke ændre standardrabatter" });
+    return null;
+  }
+  if (payload.rate !== null) {
+    // Products a more specific rate overrides keep their price, so they are
+    // neither checked nor needed.
+    const validFrom = payload.validFrom ?? todayIso();
+    const { pricingRequired, violations } = checkMarginRules(
+      readPricingItems(request.body?.pricing),
+      payload.scope,
+      target,
+      payload.rate,
+      (item) =>
+        getMoreSpecificKeys(payload.scope, item).every(
+          ([owner, key]) =>
+            !getPeriodAt(request.partnerId, owner, key, validFrom),
+        ),
+    );
+    // Without prices a block rule could not be checked, so the write is
+    // refused rather than let through.
+    if (pricingRequired) {
+      response.status(422).json({
+        code: "MARGIN_PRICING_REQUIRED",
+        message:
+          "En blokerende marginregel gælder, men kost- og listepris for de berørte produkter mangler",
+        violations: [],
+      });
+      return null;
+    }
+    if (violations.length > 0) {
+      response.status(422).json({
+        code: "MARGIN_BELOW_MINIMUM",
+        message: "Rabatten giver en margin under minimum",
+        violations,
+      });
+      return null;
+    }
+  }
+  return {
+    ...payload,
+    ...target,
+    partnerId: request.partnerId,
+    customerId: findDiscountOwner(target.tenantId),
+  };
+};
+
+app.post(
+  "/api/tenant-discounts",
+  requirePermission("discounts:write"),
+  (request, response) => {
+    const payload = readWritePayload(request, response, { requireRate: true });
+    if (!payload) return;
+
+    const { partnerId, customerId, tenantId, vendorName, productName, rate } =
+      payload;
+    const validFrom = payload.validFrom ?? todayIso();
+    const productKey = makeProductKey(vendorName, productName);
+    const existing = getPeriodAt(partnerId, customerId, productKey, validFrom);
+    if (existing) {
+      response.status(409).json({ message: "Rabat findes allerede" });
+      return;
+    }
+
+    const actor = resolveActor(request);
+    createDiscount({
+      partnerId,
+      customerId: customerId ?? claimDiscountOwner(tenantId, actor),
+      tenantId,
+      productKey,
+      vendorName,
+      productName,
+      newRate: rate,
+      validFrom,
+      actor,
+    });
+    response.status(201).json({ tenantId, productKey, rate, validFrom });
+  },
+);
+
+// PATCH corrects the rate of the period in force at `validFrom` (default
+// today) without splitting it.
+app.patch(
+  "/api/tenant-discounts",
+  requirePermission("discounts:write"),
+  (request, response) => {
+    const payload = readWritePayload(request, response, { requireRate: true });
+    if (!payload) return;
+
+    const { partnerId, customerId, tenantId, vendorName, productName, rate } =
+      payload;
+    const validFrom = payload.validFrom ?? todayIso();
+    const productKey = makeProductKey(vendorName, productName);
+    const existing = getPeriodAt(partnerId, customerId, productKey, validFrom);
+    if (!existing) {
+      response.status(404).json({ message: "Rabat findes ikke" });
+      return;
+    }
+
+    updateDiscount({
+      partnerId,
+      customerId,
+      tenantId,
+      productKey,
+      vendorName,
+      productName,
+      oldRate: existing.rate,
+      newRate: rate,
+      validFrom: existing.valid_from,
+      periodStart: existing.valid_from,
+      actor: resolveActor(request),
+    });
+    response.json({
+      tenantId,
+      productKey,
+      rate,
+      validFrom: mapPeriodRow(existing).validFrom,
+    });
+  },
+);
+
+app.put(
+  "/api/tenant-discounts",
+  requirePermission("discounts:write"),
+  (request, response) => {
+    const payload = readWritePayload(request, response, { requireRate: true });
+    if (!payload) return;
+
+    const { partnerId, customerId, tenantId, vendorName, productName, rate } =
+      payload;
+    const validFrom = payload.validFrom ?? todayIso();
+    const productKey = makeProductKey(vendorName, productName);
+    const existing = getPeriodAt(partnerId, customerId, productKey, validFrom);
+    if (existing && existing.rate === rate) {
+      response.json({ tenantId, productKey, rate, validFrom });
+      return;
+    }
+
+    const actor = resolveActor(request);
+    upsertDiscount({
+      partnerId,
+      customerId: customerId ?? claimDiscountOwner(tenantId, actor),
+      tenantId,
+      productKey,
+      vendorName,
+      productName,
+      oldRate: existing ? existing.rate : null,
+      newRate: rate,
+      validFrom,
+      actor,
+    });
+    response.json({ tenantId, productKey, rate, validFrom });
+  },
+);
+
+// Without `validFrom` every period for the product is removed; with it the
+// discount only stops applying from that date.
+app.delete(
+  "/api/tenant-discounts",
+  requirePermission("discounts:write"),
+  (request, response) => {
+    const payload = readWritePayload(request, response, { requireRate: false });
+    if (!payload) return;
+
+    const {
+      partnerId,
+      customerId,
+      tenantId,
+      vendorName,
+      productName,
+      validFrom,
+    } = payload;
+    if (!validFrom && !hasPermission(request.user, "discounts:admin")) {
+      response
+        .status(403)
+        .json({ message: "Din rolle må ikke slette rabathistorik" });
+      return;
+    }
+    const productKey = makeProductKey(vendorName, productName);
+    const existing = validFrom
+      ? getPeriodAt(partnerId, customerId, productKey, validFrom)
+      : getPeriodAt(partnerId, customerId, productKey, todayIso()) ??
+        listKeyStmt.all(partnerId, customerId, productKey).at(-1);
+    if (existing) {
+      removeDiscount({
+        partnerId,
+        customerId,
+        tenantId,
+        productKey,
+        vendorName,
+        productName,
+        oldRate: existing.rate,
+        validFrom,
+        actor: resolveActor(request),
+      });
+    }
+    response.status(204).send();
+  },
+);
+
+// Re-billing runs turn one Cloud Factory invoice into a draft invoice per end
+// customer. The drafts are computed by the client from the invoice breakdown
+// and stored here; totals are recalculated server-side from the lines. A run
+// is unique per partner account and invoice number and becomes read-only once
+// locked.
+const REBILLING_VAT_RATE = 0.25;
+
+// Invoice numbers are only unique within one partner account. The table is
+// rebuilt with foreign keys off so dropping the old one leaves the drafts in
+// place; the rebuilt table keeps the run ids they point to.
+const migrateRebillingRunsToPartners = () => {
+  db.pragma("foreign_keys = OFF");
+  try {
+    db.transaction(() => {
+      db.exec(`
+        CREATE TABLE rebilling_runs_partner (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          partner_id TEXT NOT NULL,
+          invoice_no TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'draft',
+          discount_date TEXT,
+          created_by TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          locked_by TEXT,
+          locked_at TEXT,
+          UNIQUE (partner_id, invoice_no)
+        );
+      `);
+      db.prepare(
+        `INSERT INTO rebilling_runs_partner
+           (id, partner_id, invoice_no, status, discount_date, created_by, created_at, updated_at, locked_by, locked_at)
+         SELECT id, ?, invoice_no, status, discount_date, created_by, created_at, updated_at, locked_by, locked_at
+         FROM rebilling_runs`,
+      ).run(primaryPartnerId);
+      db.exec(`
+        DROP TABLE rebilling_runs;
+        ALTER TABLE rebilling_runs_partner RENAME TO rebilling_runs;
+      `);
+    })();
+  } finally {
+    db.pragma("foreign_keys = ON");
+  }
+};
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS rebilling_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    partner_id TEXT NOT NULL,
+    invoice_no TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'draft',
+    discount_date TEXT,
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    locked_by TEXT,
+    locked_at TEXT,
+    UNIQUE (partner_id, invoice_no)
+  );
+
+  CREATE TABLE IF NOT EXISTS rebilling_drafts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id INTEGER NOT NULL REFERENCES rebilling_runs (id) ON DELETE CASCADE,
+    tenant_id TEXT NOT NULL,
+    customer_name TEXT NOT NULL,
+    customer_reference TEXT,
+    wl_code TEXT,
+    lines_json TEXT NOT NULL,
+    subtotal REAL NOT NULL,
+    vat_amount REAL NOT NULL,
+    total REAL NOT NULL,
+    UNIQUE (run_id, tenant_id)
+  );
+`);
+
+if (!hasColumn("rebilling_runs", "partner_id")) {
+  migrateRebillingRunsToPartners();
+}
+
+const listRunsStmt = db.prepare(
+  `SELECT r.*, COUNT(d.id) AS draft_count, COALESCE(SUM(d.total), 0) AS total
+   FROM rebilling_runs r LEFT JOIN rebilling_drafts d ON d.run_id = r.id
+   WHERE r.partner_id = ?
+   GROUP BY r.id ORDER BY r.created_at DESC, r.id DESC`,
+);
+const getRunStmt = db.prepare(
+  `SELECT * FROM rebilling_runs WHERE partner_id = ? AND invoice_no = ?`,
+);
+const listDraftsStmt = db.prepare(
+  `SELECT * FROM rebilling_drafts WHERE run_id = ? ORDER BY customer_name COLLATE NOCASE`,
+);
+const insertRunStmt = db.prepare(
+  `INSERT INTO rebilling_runs (partner_id, invoice_no, discount_date, created_by)
+   VALUES (?, ?, ?, ?)`,
+);
+const touchRunStmt = db.prepare(
+  `UPDATE rebilling_runs
+   SET discount_date = COALESCE(?, discount_date), updated_at = CURRENT_TIMESTAMP
+   WHERE id = ?`,
+);
+const lockRunStmt = db.prepare(
+  `UPDATE rebilling_runs
+   SET status = 'locked', locked_by = ?, locked_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+   WHERE id = ? AND status = 'draft'`,
+);
+const deleteRunStmt = db.prepare(`DELETE FROM rebilling_runs WHERE id = ?`);
+const insertDraftStmt = db.prepare(
+  `INSERT INTO rebilling_drafts
+     (run_id, tenant_id, customer_name, customer_reference, wl_code, lines_json, subtotal, vat_amount, total)
+   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+);
+const deleteDraftsStmt = db.prepare(
+  `DELETE FROM rebilling_drafts WHERE run_id = ?`,
+);
+
+const roundAmount = (value) => Math.round(value * 100) / 100;
+
+const readFiniteNumber = (value) =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+const parseDraftLine = (line) => {
+  if (!line || typeof line !== "object") return null;
+  const vendorName =
+    typeof line.vendorName === "string" ? line.vendorName.trim() : "";
+  const productName =
+    typeof line.productName === "string" ? line.productName.trim() : "";
+  const quantity = readFiniteNumber(line.quantity);
+  const amountBeforeDiscount = readFiniteNumber(line.amountBeforeDiscount);
+  const discountRate = readFiniteNumber(line.discountRate) ?? 0;
+  if (
+    !vendorName ||
+    !productName ||
+    quantity === null ||
+    amountBeforeDiscount === null
+  ) {
+    return null;
+  }
+
+  const rate = clampRate(discountRate);
+  return {
+    vendorName,
+    productName,
+    quantity,
+    quantityUnit:
+      typeof line.quantityUnit === "string" ? line.quantityUnit : "",
+    billing: typeof line.billing === "string" ? line.billing : "",
+    commitment: typeof line.commitment === "string" ? line.commitment : "",
+    amountBeforeDiscount: roundAmount(amountBeforeDiscount),
+    discountRate: rate,
+    amount: roundAmount(amountBeforeDiscount * (1 - rate / 100)),
+  };
+};
+
+const parseDraft = (draft) => {
+  if (!draft || typeof draft !== "object") return null;
+  const tenantId =
+    typeof draft.tenantId === "string" ? draft.tenantId.trim() : "";
+  const customerName =
+    typeof draft.customerName === "string" ? draft.customerName.trim() : "";
+  if (!tenantId || !customerName || !Array.isArray(draft.lines)) return null;
+
+  const lines = draft.lines.map(parseDraftLine);
+  if (lines.some((line) => line === null)) return null;
+
+  const subtotal = roundAmount(
+    lines.reduce((sum, line) => sum + line.amount, 0),
+  );
+  const vatAmount = roundAmount(subtotal * REBILLING_VAT_RATE);
+  return {
+    tenantId,
+    customerName,
+    customerReference:
+      typeof draft.customerReference === "string"
+        ? draft.customerReference.trim()
+        : "",
+    wlCode: typeof draft.wlCode === "string" ? draft.wlCode.trim() : "",
+    lines,
+    subtotal,
+    vatAmount,
+    total: roundAmount(subtotal + vatAmount),
+  };
+};
+
+const parseDrafts = (drafts) => {
+  if (!Array.isArray(drafts)) return null;
+  const parsed = drafts.map(parseDraft);
+  if (parsed.some((draft) => draft === null)) return null;
+  const tenantIds = new Set(parsed.map((draft) => draft.tenantId));
+  return tenantIds.size === parsed.length ? parsed : null;
+};
+
+const insertDrafts = (runId, drafts) => {
+  drafts.forEach((draft) => {
+    insertDraftStmt.run(
+      runId,
+      draft.tenantId,
+      draft.customerName,
+      draft.customerReference,
+      draft.wlCode,
+      JSON.stringify(draft.lines),
+      draft.subtotal,
+      draft.vatAmount,
+      draft.total,
+    );
+  });
+};
+
+const createRebillingRun = db.transaction(
+  ({ partnerId, invoiceNo, discountDate, drafts, actor }) => {
+    const { lastInsertRowid } = insertRunStmt.run(
+      partnerId,
+      invoiceNo,
+      discountDate,
+      actor,
+    );
+    insertDrafts(lastInsertRowid, drafts);
+  },
+);
+
+const replaceRebillingDrafts = db.transaction(
+  ({ runId, discountDate, drafts }) => {
+    deleteDraftsStmt.run(runId);
+    insertDrafts(runId, drafts);
+    touchRunStmt.run(discountDate, runId);
+  },
+);
+
+const deleteRebillingRun = db.transaction((runId) => {
+  deleteDraftsStmt.run(runId);
+  deleteRunStmt.run(runId);
+});
+
+const mapRunRow = (row) => ({
+  invoiceNo: row.invoice_no,
+  status: row.status,
+  discountDate: row.discount_date,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  lockedBy: row.locked_by,
+  lockedAt: row.locked_at,
+});
+
+const mapDraftRow = (row) => ({
+  tenantId: row.tenant_id,
+  customerName: row.customer_name,
+  customerReference: row.customer_reference ?? "",
+  wlCode: row.wl_code ?? "",
+  lines: JSON.parse(row.lines_json),
+  subtotal: row.subtotal,
+  vatAmount: row.vat_amount,
+  total: row.total,
+});
+
+const readRunWithDrafts = (partnerId, invoiceNo) => {
+  const run = getRunStmt.get(partnerId, invoiceNo);
+  if (!run) return null;
+  return {
+    ...mapRunRow(run),
+    vatRate: REBILLING_VAT_RATE,
+    drafts: listDraftsStmt.all(run.id).map(mapDraftRow),
+  };
+};
+
+const readRunPayload = (request, response) => {
+  const body = request.body ?? {};
+  const drafts = parseDrafts(body.drafts);
+  const discountDate =
+    body.discountDate === undefined || body.discountDate === null
+      ? null
+      : isIsoDate(body.discountDate)
+        ? body.discountDate.slice(0, 10)
+        : undefined;
+  if (!drafts || discountDate === undefined) {
+    response.status(400).json({ message: "Ugyldig payload" });
+    return null;
+  }
+  return { drafts, discountDate };
+};
+
+app.get("/api/rebilling-runs", (request, response) => {
+  response.json({
+    runs: listRunsStmt.all(request.partnerId).map((row) => ({
+      ...mapRunRow(row),
+      draftCount: row.draft_count,
+      total: roundAmount(row.total),
+    })),
+  });
+});
+
+app.get("/api/rebilling-runs/:invoiceNo", (request, response) => {
+  const run = readRunWithDrafts(request.partnerId, request.params.invoiceNo);
+  if (!run) {
+    response.status(404).json({ message: "Kørsel findes ikke" });
+    return;
+  }
+  response.json(run);
+});
+
+app.post(
+  "/api/rebilling-runs",
+  requirePermission("rebilling:write"),
+  (request, response) => {
+    const invoiceNo =
+      typeof request.body?.invoiceNo === "string"
+        ? request.body.invoiceNo.trim()
+        : "";
+    if (!invoiceNo) {
+      response.status(400).json({ message: "Ugyldig payload" });
+      return;
+    }
+    const payload = readRunPayload(request, response);
+    if (!payload) return;
+
+    if (getRunStmt.get(request.partnerId, invoiceNo)) {
+      response.status(409).json({
+        message: `Der findes allerede en kørsel for faktura ${invoiceNo}`,
+      });
+      return;
+    }
+
+    try {
+      createRebillingRun({
+        partnerId: request.partnerId,
+        invoiceNo,
+        ...payload,
+        actor: resolveActor(request),
+      });
+    } catch (error) {
+      // Two simultaneous requests can both pass the check above.
+      if (error?.code === "SQLITE_CONSTRAINT_UNIQUE") {
+        response.status(409).json({
+          message: `Der findes allerede en kørsel for faktura ${invoiceNo}`,
+        });
+        return;
+      }
+      throw error;
+    }
+    response.status(201).json(readRunWithDrafts(request.partnerId, invoiceNo));
+  },
+);
+
+// Regenerates the drafts of an unlocked run, e.g. after discounts changed.
+app.put(
+  "/api/rebilling-runs/:invoiceNo/drafts",
+  requirePermission("rebilling:write"),
+  (request, response) => {
+    const run = getRunStmt.get(request.partnerId, request.params.invoiceNo);
+    if (!run) {
+      response.status(404).json({ message: "Kørsel findes ikke" });
+      return;
+    }
+    if (run.status !== "draft") {
+      response.status(409).json({ message: "Kørslen er låst" });
+      return;
+    }
+    const payload = readRunPayload(request, response);
+    if (!payload) return;
+
+    replaceRebillingDrafts({ runId: run.id, ...payload });
+    response.json(readRunWithDrafts(run.partner_id, run.invoice_no));
+  },
+);
+
+app.post(
+  "/api/rebilling-runs/:invoiceNo/lock",
+  requirePermission("rebilling:write"),
+  (request, response) => {
+    const run = getRunStmt.get(request.partnerId, request.params.invoiceNo);
+    if (!run) {
+      response.status(404).json({ message: "Kørsel findes ikke" });
+      return;
+    }
+    if (run.status !== "draft") {
+      response.status(409).json({ message: "Kørslen er allerede låst" });
+      return;
+    }
+
+    lockRunStmt.run(resolveActor(request), run.id);
+    response.json(readRunWithDrafts(run.partner_id, run.invoice_no));
+  },
+);
+
+app.delete(
+  "/api/rebilling-runs/:invoiceNo",
+  requirePermission("rebilling:write"),
+  (request, response) => {
+    const run = getRunStmt.get(request.partnerId, request.params.invoiceNo);
+    if (!run) {
+      response.status(204).send();
+      return;
+    }
+    if (run.status !== "draft") {
+      response.status(409).json({ message: "Låste kørsler kan ikke slettes" });
+      return;
+    }
+
+    deleteRebillingRun(run.id);
+    response.status(204).send();
+  },
+);
+
+// Account and VAT code per vendor for each supported bookkeeping system. The
+// vendor key "*" holds the default used for vendors without their own row.
+const ACCOUNTING_SYSTEMS = ["economic", "dinero", "business-central"];
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS accounting_vendor_mappings (
+    system TEXT NOT NULL,
+    vendor_key TEXT NOT NULL,
+    vendor_name TEXT NOT NULL,
+    account_number TEXT NOT NULL,
+    contra_account_number TEXT,
+    vat_code TEXT,
+    updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (system, vendor_key)
+  );
+`);
+
+const listMappingsStmt = db.prepare(
+  `SELECT * FROM accounting_vendor_mappings
+   WHERE (? IS NULL OR system = ?)
+   ORDER BY system, vendor_key = '*' DESC, vendor_name COLLATE NOCASE`,
+);
+const upsertMappingStmt = db.prepare(
+  `INSERT INTO accounting_vendor_mappings
+     (system, vendor_key, vendor_name, account_number, contra_account_number, vat_code)
+   VALUES (?, ?, ?, ?, ?, ?)
+   ON CONFLICT (system, vendor_key) DO UPDATE SET
+     vendor_name = excluded.vendor_name,
+     account_number = excluded.account_number,
+     contra_account_number = excluded.contra_account_number,
+     vat_code = excluded.vat_code,
+     updated_at = CURRENT_TIMESTAMP`,
+);
+const deleteMappingStmt = db.prepare(
+  `DELETE FROM accounting_vendor_mappings WHERE system = ? AND vendor_key = ?`,
+);
+
+const makeVendorKey = (vendorName) =>
+  vendorName === WILDCARD ? WILDCARD : vendorName.toLowerCase();
+
+const mapMappingRow = (row) => ({
+  system: row.system,
+  vendorName: row.vendor_name,
+  accountNumber: row.account_number,
+  contraAccountNumber: row.contra_account_number ?? "",
+  vatCode: row.vat_code ?? "",
+  updatedAt: row.updated_at,
+});
+
+app.get("/api/accounting-mappings", (request, response) => {
+  const system = readQueryString(request.query.system);
+  if (system && !ACCOUNTING_SYSTEMS.includes(system)) {
+    response.status(400).json({ message: "Ukendt bogføringssystem" });
+    return;
+  }
+  const filter = system || null;
+  response.json({
+    mappings: listMappingsStmt.all(filter, filter).map(mapMappingRow),
+  });
+});
+
+app.put(
+  "/api/accounting-mappings",
+  requirePermission("accounting:write"),
+  (request, response) => {
+    const body = request.body ?? {};
+    const system = readTrimmed(body.system);
+    const vendorName = readTrimmed(body.vendorName);
+    const accountNumber = readTrimmed(body.accountNumber, 40);
+    if (!ACCOUNTING_SYSTEMS.includes(system) || !vendorName || !accountNumber) {
+      response.status(400).json({ message: "Ugyldig payload" });
+      return;
+    }
+
+    const mapping = {
+      system,
+      vendorName,
+      accountNumber,
+      contraAccountNumber: readTrimmed(body.contraAccountNumber, 40),
+      vatCode: readTrimmed(body.vatCode, 20),
+    };
+    upsertMappingStmt.run(
+      system,
+      makeVendorKey(vendorName),
+      vendorName,
+      accountNumber,
+      mapping.contraAccountNumber || null,
+      mapping.vatCode || null,
+    );
+    response.json(mapping);
+  },
+);
+
+app.delete(
+  "/api/accounting-mappings",
+  requirePermission("accounting:write"),
+  (request, response) => {
+    const body = request.body ?? {};
+    const system = readTrimmed(body.system);
+    const vendorName = readTrimmed(body.vendorName);
+    if (!ACCOUNTING_SYSTEMS.includes(system) || !vendorName) {
+      response.status(400).json({ message: "Ugyldig payload" });
+      return;
+    }
+
+    deleteMappingStmt.run(system, makeVendorKey(vendorName));
+    response.status(204).send();
+  },
+);
+
+// Vendor rules decide the vendor name, amount source (retail or cost) and
+// quantity unit of a subscription line, so new vendors need no code change.
+// Rules are tried in priority order; billing type rules match
+// billingTypeDescription, description and nickname rules only apply to lines
+// without a billing type. The seed rows reproduce the former hard-coded
+// behaviour and mirror DEFAULT_VENDOR_RULES in src/utils/vendorRules.ts.
+const VENDOR_RULE_FIELDS = ["billingType", "description", "nickname"];
+const AMOUNT_SOURCES = ["retail", "cost"];
+const QUANTITY_UNITS = ["licenses", "seats", "gb"];
+
+const DEFAULT_VENDOR_RULES = [
+  [10, "billingType", "keepit", "", "retail", "seats"],
+  [20, "billingType", "adobe", "", "retail", "licenses"],
+  [30, "billingType", "microsoft", "", "retail", "licenses"],
+  [40, "description", "exclaimer", "Exclaimer", "cost", "licenses"],
+  [50, "description", "keepit", "Keepit", "retail", "seats"],
+  [60, "description", "adobe", "Adobe", "retail", "licenses"],
+  [70, "description", "microsoft", "Microsoft", "retail", "licenses"],
+];
+
+const hasVendorRulesTable = Boolean(
+  db
+    .prepare(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'vendor_rules'`,
+    )
+    .get(),
+);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS vendor_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    priority INTEGER NOT NULL,
+    match_field TEXT NOT NULL,
+    pattern TEXT NOT NULL,
+    vendor_name TEXT NOT NULL DEFAULT '',
+    amount_source TEXT NOT NULL,
+    quantity_unit TEXT NOT NULL,
+    updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_by TEXT
+  );
+`);
+
+const listVendorRulesStmt = db.prepare(
+  `SELECT * FROM vendor_rules ORDER BY priority, id`,
+);
+const getVendorRuleStmt = db.prepare(`SELECT * FROM vendor_rules WHERE id = ?`);
+const insertVendorRuleStmt = db.prepare(
+  `INSERT INTO vendor_rules
+     (priority, match_field, pattern, vendor_name, amount_source, quantity_unit, updated_by)
+   VALUES (?, ?, ?, ?, ?, ?, ?)`,
+);
+const updateVendorRuleStmt = db.prepare(
+  `UPDATE vendor_rules SET
+     priority = ?, match_field = ?, pattern = ?, vendor_name = ?,
+     amount_source = ?, quantity_unit = ?,
+     updated_at = CURRENT_TIMESTAMP, updated_by = ?
+   WHERE id = ?`,
+);
+const deleteVendorRuleStmt = db.prepare(`DELETE FROM vendor_rules WHERE id = ?`);
+
+// Seeded only when the table is first created, so deleted defaults stay
+// deleted.
+if (!hasVendorRulesTable) {
+  db.transaction(() => {
+    DEFAULT_VENDOR_RULES.forEach((rule) =>
+      insertVendorRuleStmt.run(...rule, null),
+    );
+  })();
+}
+
+const mapVendorRuleRow = (row) => ({
+  id: row.id,
+  priority: row.priority,
+  field: row.match_field,
+  pattern: row.pattern,
+  vendorName: row.vendor_name,
+  amountSource: row.amount_source,
+  quantityUnit: row.quantity_unit,
+  updatedAt: row.updated_at,
+  updatedBy: row.updated_by,
+});
+
+const readVendorRule = (body = {}) => {
+  const rule = {
+    priority: body.priority,
+    field: body.field,
+    pattern: readTrimmed(body.pattern),
+    vendorName: readTrimmed(body.vendorName),
+    amountSource: body.amountSource,
+    quantityUnit: body.quantityUnit,
+  };
+  const isValid =
+    Number.isInteger(rule.priority) &&
+    VENDOR_RULE_FIELDS.includes(rule.field) &&
+    rule.pattern.length > 0 &&
+    AMOUNT_SOURCES.includes(rule.amountSource) &&
+    QUANTITY_UNITS.includes(rule.quantityUnit);
+  return isValid ? rule : null;
+};
+
+const toVendorRuleParams = (rule) => [
+  rule.priority,
+  rule.field,
+  rule.pattern,
+  rule.vendorName,
+  rule.amountSource,
+  rule.quantityUnit,
+];
+
+app.get("/api/vendor-rules", (_request, response) => {
+  response.json({ rules: listVendorRulesStmt.all().map(mapVendorRuleRow) });
+});
+
+// Vendor rules change names and amounts on every invoice, so only
+// finance-admin may edit them.
+app.post(
+  "/api/vendor-rules",
+  requirePermission("discounts:admin"),
+  (request, response) => {
+    const rule = readVendorRule(request.body ?? {});
+    if (!rule) {
+      response.status(400).json({ message: "Ugyldig payload" });
+      return;
+    }
+
+    const { lastInsertRowid } = insertVendorRuleStmt.run(
+      ...toVendorRuleParams(rule),
+      resolveActor(request),
+    );
+    response
+      .status(201)
+      .json(mapVendorRuleRow(getVendorRuleStmt.get(lastInsertRowid)));
+  },
+);
+
+app.put(
+  "/api/vendor-rules/:id",
+  requirePermission("discounts:admin"),
+  (request, response) => {
+    const id = Number(request.params.id);
+    if (!getVendorRuleStmt.get(id)) {
+      response.status(404).json({ message: "Reglen findes ikke" });
+      return;
+    }
+    const rule = readVendorRule(request.body ?? {});
+    if (!rule) {
+      response.status(400).json({ message: "Ugyldig payload" });
+      return;
+    }
+
+    updateVendorRuleStmt.run(
+      ...toVendorRuleParams(rule),
+      resolveActor(request),
+      id,
+    );
+    response.json(mapVendorRuleRow(getVendorRuleStmt.get(id)));
+  },
+);
+
+app.delete(
+  "/api/vendor-rules/:id",
+  requirePermission("discounts:admin"),
+  (request, response) => {
+    deleteVendorRuleStmt.run(Number(request.params.id));
+    response.status(204).send();
+  },
+);
+
+// White-label partners are recognised by the "WL nn" code in a tenant's
+// customer reference. The catalogue names them for the filter chips, the
+// margin report and the exports, records the agreed default discount and
+// decides whether their customers are included in resale exports. The seed
+// rows mirror DEFAULT_WL_PARTNERS in src/utils/wlPartners.ts.
+const WL_CODE_PATTERN = /^\d{1,6}$/;
+
+const DEFAULT_WL_PARTNERS = [
+  ["1", "ipnordic"],
+  ["71", "Enreach København"],
+  ["74", "Enreach Hjørring"],
+];
+
+const hasWlPartnersTable = Boolean(
+  db
+    .prepare(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'wl_partners'`,
+    )
+    .get(),
+);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS wl_partners (
+    code TEXT PRIMARY KEY,
+    display_name TEXT NOT NULL,
+    contact_name TEXT NOT NULL DEFAULT '',
+    contact_email TEXT NOT NULL DEFAULT '',
+    default_discount_rate REAL,
+    export_label TEXT NOT NULL DEFAULT '',
+    include_in_exports INTEGER NOT NULL DEFAULT 1,
+    updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_by TEXT
+  );
+`);
+
+const listWlPartnersStmt = db.prepare(
+  `SELECT * FROM wl_partners ORDER BY CAST(code AS INTEGER), code`,
+);
+const getWlPartnerStmt = db.prepare(`SELECT * FROM wl_partners WHERE code = ?`);
+const upsertWlPartnerStmt = db.prepare(
+  `INSERT INTO wl_partners
+     (code, display_name, contact_name, contact_email, default_discount_rate,
+      export_label, include_in_exports, updated_by)
+   VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+   ON CONFLICT (code) DO UPDATE SET
+     display_name = excluded.display_name,
+     contact_name = excluded.contact_name,
+     contact_email = excluded.contact_email,
+     default_discount_rate = excluded.default_discount_rate,
+     export_label = excluded.export_label,
+     include_in_exports = excluded.include_in_exports,
+     updated_at = CURRENT_TIMESTAMP,
+     updated_by = excluded.updated_by`,
+);
+const deleteWlPartnerStmt = db.prepare(`DELETE FROM wl_partners WHERE code = ?`);
+
+// Seeded only when the table is first created, so deleted partners stay
+// deleted.
+if (!hasWlPartnersTable) {
+  db.transaction(() => {
+    DEFAULT_WL_PARTNERS.forEach(([code, displayName]) =>
+      upsertWlPartnerStmt.run(code, displayName, "", "", null, "", 1, null),
+    );
+  })();
+}
+
+const mapWlPartnerRow = (row) => ({
+  code: row.code,
+  displayName: row.display_name,
+  contactName: row.contact_name,
+  contactEmail: row.contact_email,
+  defaultDiscountRate: row.default_discount_rate,
+  exportLabel: row.export_label,
+  includeInExports: row.include_in_exports === 1,
+  updatedAt: row.updated_at,
+  updatedBy: row.updated_by,
+});
+
+const readWlPartner = (code, body = {}) => {
+  const partner = {
+    code,
+    displayName: readTrimmed(body.displayName),
+    contactName: readTrimmed(body.contactName),
+    contactEmail: readTrimmed(body.contactEmail, 254),
+    defaultDiscountRate: body.defaultDiscountRate ?? null,
+    exportLabel: readTrimmed(body.exportLabel),
+    includeInExports: body.includeInExports ?? true,
+  };
+  const isValid =
+    WL_CODE_PATTERN.test(partner.code) &&
+    partner.displayName.length > 0 &&
+    (partner.contactEmail === "" || partner.contactEmail.includes("@")) &&
+    (partner.defaultDiscountRate === null ||
+      (Number.isFinite(partner.defaultDiscountRate) &&
+        partner.defaultDiscountRate >= 0 &&
+        partner.defaultDiscountRate <= 100)) &&
+    typeof partner.includeInExports === "boolean";
+  return isValid ? partner : null;
+};
+
+app.get("/api/wl-partners", (_request, response) => {
+  response.json({ partners: listWlPartnersStmt.all().map(mapWlPartnerRow) });
+});
+
+// The default discount belongs to the discount setup, so the catalogue has
+// the same finance-admin permission as vendor rules.
+app.put(
+  "/api/wl-partners/:code",
+  requirePermission("discounts:admin"),
+  (request, response) => {
+    const partner = readWlPartner(
+      readTrimmed(request.params.code),
+      request.body ?? {},
+    );
+    if (!partner) {
+      response.status(400).json({ message: "Ugyldig payload" });
+      return;
+    }
+
+    upsertWlPartnerStmt.run(
+      partner.code,
+      partner.displayName,
+      partner.contactName,
+      partner.contactEmail,
+      partner.defaultDiscountRate,
+      partner.exportLabel,
+      partner.includeInExports ? 1 : 0,
+      resolveActor(request),
+    );
+    response.json(mapWlPartnerRow(getWlPartnerStmt.get(partner.code)));
+  },
+);
+
+app.delete(
+  "/api/wl-partners/:code",
+  requirePermission("discounts:admin"),
+  (request, response) => {
+    deleteWlPartnerStmt.run(readTrimmed(request.params.code));
+    response.status(204).send();
+  },
+);
+
+// Customer registry: a stable customer id across invoices. Every tenant seen
+// on an invoice is linked to one customer; unknown tenants are matched on
+// VAT id and then on the normalised customer name, otherwise they start a
+// new customer. Links only change through merge and split, so a renamed
+// customer stays the same customer, and so do its discounts.
+const MAX_SYNC_TENANTS = 5000;
+const LEGAL_FORM_SUFFIXES = new Set(["as", "aps", "is", "ks", "ps", "ivs"]);
+
+const listCustomersStmt = db.prepare(
+  `SELECT * FROM customers ORDER BY name COLLATE NOCASE, id`,
+);
+const listCustomerTenantsStmt = db.prepare(
+  `SELECT * FROM customer_tenants ORDER BY last_seen DESC, tenant_name`,
+);
+const listCustomerReferencesStmt = db.prepare(
+  `SELECT * FROM customer_references ORDER BY last_seen DESC, reference`,
+);
+const getCustomerStmt = db.prepare(`SELECT * FROM customers WHERE id = ?`);
+const getCustomerTenantStmt = db.prepare(
+  `SELECT * FROM customer_tenants WHERE tenant_id = ?`,
+);
+const listTenantsOfCustomerStmt = db.prepare(
+  `SELECT * FROM customer_tenants WHERE customer_id = ? ORDER BY first_seen, tenant_id`,
+);
+const findCustomerByVatStmt = db.prepare(
+  `SELECT id FROM customers WHERE vat_id = ? ORDER BY id LIMIT 1`,
+);
+// A name match is skipped when both sides have a VAT id and they differ:
+// two companies can share a name, but not a VAT id.
+const findCustomerByNameStmt = db.prepare(
+  `SELECT id FROM customers
+   WHERE name_key = @nameKey AND (@vatId = '' OR vat_id IN ('', @vatId))
+   UNION ALL
+   SELECT customers.id FROM customer_tenants
+   JOIN customers ON customers.id = customer_tenants.customer_id
+   WHERE customer_tenants.name_key = @nameKey
+     AND (@vatId = '' OR customers.vat_id IN ('', @vatId))
+   LIMIT 1`,
+);
+const insertCustomerStmt = db.prepare(
+  `INSERT INTO customers (name, name_key, vat_id, primary_tenant_id, updated_by)
+   VALUES (?, ?, ?, ?, ?)`,
+);
+const updateCustomerStmt = db.prepare(
+  `UPDATE customers SET
+     name = ?, name_key = ?, vat_id = ?,
+     updated_at = CURRENT_TIMESTAMP, updated_by = ?
+   WHERE id = ?`,
+);
+const fillCustomerVatStmt = db.prepare(
+  `UPDATE customers SET vat_id = ? WHERE id = ? AND vat_id = ''`,
+);
+const fillCustomerNameStmt = db.prepare(
+  `UPDATE customers SET name = ?, name_key = ? WHERE id = ? AND name_key = ''`,
+);
+const setPrimaryTenantStmt = db.prepare(
+  `UPDATE customers SET
+     primary_tenant_id = ?, updated_at = CURRENT_TIMESTAMP, updated_by = ?
+   WHERE id = ?`,
+);
+const deleteCustomerStmt = db.prepare(`DELETE FROM customers WHERE id = ?`);
+const deleteCustomerReferencesStmt = db.prepare(
+  `DELETE FROM customer_references WHERE customer_id = ?`,
+);
+const insertCustomerTenantStmt = db.prepare(
+  `INSERT INTO customer_tenants
+     (tenant_id, customer_id, tenant_name, domain, customer_name, name_key,
+      vat_id, reference, first_seen, last_seen)
+   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+);
+// A tenant registered by a discount write has no dates until an invoice
+// shows it.
+const refreshCustomerTenantStmt = db.prepare(
+  `UPDATE customer_tenants SET
+     tenant_name = @tenantName, domain = @domain,
+     customer_name = @customerName, name_key = @nameKey, vat_id = @vatId,
+     reference = @reference, last_seen = @seenOn,
+     first_seen = CASE first_seen WHEN '' THEN @seenOn ELSE first_seen END
+   WHERE tenant_id = @tenantId`,
+);
+const extendCustomerTenantStmt = db.prepare(
+  `UPDATE customer_tenants SET first_seen = MIN(first_seen, ?)
+   WHERE tenant_id = ?`,
+);
+const moveCustomerTenantStmt = db.prepare(
+  `UPDATE customer_tenants SET customer_id = ? WHERE tenant_id = ?`,
+);
+const moveAllCustomerTenantsStmt = db.prepare(
+  `UPDATE customer_tenants SET customer_id = ? WHERE customer_id = ?`,
+);
+const upsertCustomerReferenceStmt = db.prepare(
+  `INSERT INTO customer_references (customer_id, reference, first_seen, last_seen)
+   VALUES (?, ?, ?, ?)
+   ON CONFLICT (customer_id, reference) DO UPDATE SET
+     first_seen = MIN(first_seen, excluded.first_seen),
+     last_seen = MAX(last_seen, excluded.last_seen)`,
+);
+// References that moved with split-off tenants leave the original customer,
+// unless one of its remaining tenants still uses them.
+const releaseCustomerReferenceStmt = db.prepare(
+  `DELETE FROM customer_references
+   WHERE customer_id = ? AND reference = ?
+     AND NOT EXISTS (
+       SELECT 1 FROM customer_tenants WHERE customer_id = ? AND reference = ?
+     )`,
+);
+const copyCustomerReferencesStmt = db.prepare(
+  `INSERT INTO customer_references (customer_id, reference, first_seen, last_seen)
+   SELECT ?, reference, first_seen, last_seen
+   FROM customer_references WHERE customer_id = ?
+   ON CONFLICT (customer_id, reference) DO UPDATE SET
+     first_seen = MIN(first_seen, excluded.first_seen),
+     last_seen = MAX(last_seen, excluded.last_seen)`,
+);
+const listCustomerDiscountRowsStmt = db.prepare(
+  `SELECT * FROM tenant_discounts WHERE customer_id = ?
+   ORDER BY partner_id, product_key, valid_from`,
+);
+const moveDiscountKeyStmt = db.prepare(
+  `UPDATE tenant_discounts SET customer_id = ?, updated_at = CURRENT_TIMESTAMP
+   WHERE partner_id = ? AND customer_id = ? AND product_key = ?`,
+);
+const moveDiscountHistoryStmt = db.prepare(
+  `UPDATE tenant_discount_history SET customer_id = ? WHERE customer_id = ?`,
+);
+
+// Discounts belong to the customer a tenant is linked to; "*" stands for
+// every customer. Returns null for a tenant the registry has not seen.
+const findDiscountOwner = (tenantId) => {
+  if (tenantId === WILDCARD) return WILDCARD;
+  const link = getCustomerTenantStmt.get(tenantId);
+  return link ? String(link.customer_id) : null;
+};
+
+// A discount for a tenant no invoice has registered yet starts a customer of
+// its own, named after the tenant id until an invoice shows the tenant.
+const claimDiscountOwner = (tenantId, actor) => {
+  const owner = findDiscountOwner(tenantId);
+  if (owner) return owner;
+  const customerId = insertCustomerStmt.run(
+    tenantId,
+    "",
+    "",
+    tenantId,
+    actor,
+  ).lastInsertRowid;
+  insertCustomerTenantStmt.run(
+    tenantId,
+    customerId,
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+  );
+  return String(customerId);
+};
+
+// Moves a merged customer's discount periods and history to the target.
+// Where the target already has its own rate for a product with the same
+// partner account, that rate wins: the source's periods are dropped with a
+// delete in the history and returned as conflicts.
+const moveCustomerDiscounts = (source, target, actor) => {
+  const fromId = String(source.id);
+  const toId = String(target.id);
+  const today = todayIso();
+  const rowsByKey = new Map();
+  listCustomerDiscountRowsStmt.all(fromId).forEach((row) => {
+    const key = `${row.partner_id}|${row.product_key}`;
+    const rows = rowsByKey.get(key) ?? [];
+    rows.push(row);
+    rowsByKey.set(key, rows);
+  });
+  moveDiscountHistoryStmt.run(toId, fromId);
+
+  const conflicts = [];
+  rowsByKey.forEach((rows) => {
+    const { partner_id: partnerId, product_key: productKey } = rows[0];
+    if (listKeyStmt.all(partnerId, toId, productKey).length === 0) {
+      moveDiscountKeyStmt.run(toId, partnerId, fromId, productKey);
+      return;
+    }
+
+    const [vendorFromKey, productFromKey] = splitProductKey(productKey);
+    const vendorName = rows[0].vendor_name ?? vendorFromKey;
+    const productName = rows[0].product_name ?? productFromKey;
+    deleteKeyStmt.run(partnerId, fromId, productKey);
+    rows.forEach((row) => {
+      recordHistory({
+        partnerId,
+        customerId: toId,
+        tenantId: source.primary_tenant_id,
+        productKey,
+        vendorName,
+        productName,
+        action: "delete",
+        oldRate: row.rate,
+        validFrom: row.valid_from,
+        actor,
+      });
+    });
+    conflicts.push({
+      productKey,
+      vendorName,
+      productName,
+      droppedRate:
+        rows.find((row) => isPeriodActiveAt(row, today))?.rate ?? null,
+      keptRate: getPeriodAt(partnerId, toId, productKey, today)?.rate ?? null,
+    });
+  });
+  return conflicts;
+};
+
+// "Acme A/S", "ACME ApS" and "Acme  as" all become "acme".
+const normalizeCustomerName = (name) => {
+  const words = name
+    .toLowerCase()
+    .replace(/[/.]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+  if (words.length > 1 && LEGAL_FORM_SUFFIXES.has(words.at(-1))) words.pop();
+  return words.join(" ");
+};
+
+// Danish VAT ids are compared on their digits, with or without "DK".
+const normalizeVatId = (value) => {
+  const digits = readTrimmed(value, 40).replace(/\D/g, "");
+  return digits.length >= 8 ? digits : "";
+};
+
+const readTenantObservation = (tenant) => {
+  if (!tenant || typeof tenant.tenantId !== "string") return null;
+  const tenantId = readTrimmed(tenant.tenantId);
+  if (!tenantId) return null;
+  const tenantName = readTrimmed(tenant.tenantName, 200);
+  const customerName = readTrimmed(tenant.customerName, 200) || tenantName;
+  return {
+    tenantId,
+    tenantName,
+    domain: readTrimmed(tenant.domain, 200),
+    customerName,
+    nameKey: normalizeCustomerName(customerName),
+    vatId: normalizeVatId(tenant.vatId),
+    reference: readTrimmed(tenant.reference, 200),
+  };
+};
+
+const mapCustomerTenantRow = (row) => ({
+  tenantId: row.tenant_id,
+  tenantName: row.tenant_name,
+  domain: row.domain,
+  customerName: row.customer_name,
+  reference: row.reference,
+  firstSeen: row.first_seen,
+  lastSeen: row.last_seen,
+});
+
+const listCustomers = () => {
+  const tenants = new Map();
+  listCustomerTenantsStmt.all().forEach((row) => {
+    const list = tenants.get(row.customer_id) ?? [];
+    list.push(mapCustomerTenantRow(row));
+    tenants.set(row.customer_id, list);
+  });
+  const references = new Map();
+  listCustomerReferencesStmt.all().forEach((row) => {
+    const list = references.get(row.customer_id) ?? [];
+    list.push(row.reference);
+    references.set(row.customer_id, list);
+  });
+
+  return listCustomersStmt.all().map((row) => ({
+    id: row.id,
+    name: row.name,
+    vatId: row.vat_id,
+    primaryTenantId: row.primary_tenant_id,
+    tenants: tenants.get(row.id) ?? [],
+    references: references.get(row.id) ?? [],
+    updatedAt: row.updated_at,
+    updatedBy: row.updated_by,
+  }));
+};
+
+const matchCustomer = (tenant) =>
+  (tenant.vatId && findCustomerByVatStmt.get(tenant.vatId)?.id) ||
+  (tenant.nameKey &&
+    findCustomerByNameStmt.get({
+      nameKey: tenant.nameKey,
+      vatId: tenant.vatId,
+    })?.id) ||
+  null;
+
+const syncCustomerTenants = db.transaction((tenants, seenOn, actor) => {
+  tenants.forEach((tenant) => {
+    const existing = getCustomerTenantStmt.get(tenant.tenantId);
+    let customerId = existing?.customer_id;
+
+    // Older invoices can be opened after newer ones, so only the latest
+    // observation updates the names.
+    if (existing && seenOn >= existing.last_seen) {
+      refreshCustomerTenantStmt.run({ ...tenant, seenOn });
+    } else if (existing) {
+      extendCustomerTenantStmt.run(seenOn, tenant.tenantId);
+    } else {
+      customerId = matchCustomer(tenant);
+      if (!customerId) {
+        customerId = insertCustomerStmt.run(
+          tenant.customerName || tenant.tenantId,
+          tenant.nameKey,
+          tenant.vatId,
+          tenant.tenantId,
+          actor,
+        ).lastInsertRowid;
+      }
+      insertCustomerTenantStmt.run(
+        tenant.tenantId,
+        customerId,
+        tenant.tenantName,
+        tenant.domain,
+        tenant.customerName,
+        tenant.nameKey,
+        tenant.vatId,
+        tenant.reference,
+        seenOn,
+        seenOn,
+      );
+    }
+
+    if (tenant.nameKey) {
+      fillCustomerNameStmt.run(tenant.customerName, tenant.nameKey, customerId);
+    }
+    if (tenant.vatId) fillCustomerVatStmt.run(tenant.vatId, customerId);
+    if (tenant.reference) {
+      upsertCustomerReferenceStmt.run(
+        customerId,
+        tenant.reference,
+        seenOn,
+        seenOn,
+      );
+    }
+  });
+});
+
+// Returns the merged customer's discounts that gave way to the target's own.
+const mergeCustomers = db.transaction((target, source, actor) => {
+  const discountConflicts = moveCustomerDiscounts(source, target, actor);
+  moveAllCustomerTenantsStmt.run(target.id, source.id);
+  copyCustomerReferencesStmt.run(target.id, source.id);
+  if (!target.vat_id && source.vat_id) {
+    fillCustomerVatStmt.run(source.vat_id, target.id);
+  }
+  deleteCustomerReferencesStmt.run(source.id);
+  deleteCustomerStmt.run(source.id);
+  setPrimaryTenantStmt.run(target.primary_tenant_id, actor, target.id);
+  return discountConflicts;
+});
+
+// The split-off tenants form a new customer named after the first of them,
+// without discounts; the original customer keeps its own. If its primary
+// tenant moves, the oldest remaining tenant takes over. Returns the new
+// customer's id.
+const splitCustomer = db.transaction((customer, tenantRows, actor) => {
+  const [first] = tenantRows;
+  const name = first.customer_name || first.tenant_name || first.tenant_id;
+  const newId = insertCustomerStmt.run(
+    name,
+    normalizeCustomerName(name),
+    first.vat_id,
+    first.tenant_id,
+    actor,
+  ).lastInsertRowid;
+
+  tenantRows.forEach((row) => {
+    moveCustomerTenantStmt.run(newId, row.tenant_id);
+  });
+  tenantRows.forEach((row) => {
+    if (!row.reference) return;
+    upsertCustomerReferenceStmt.run(
+      newId,
+      row.reference,
+      row.first_seen,
+      row.last_seen,
+    );
+    releaseCustomerReferenceStmt.run(
+      customer.id,
+      row.reference,
+      customer.id,
+      row.reference,
+    );
+  });
+
+  const movedIds = new Set(tenantRows.map((row) => row.tenant_id));
+  if (movedIds.has(customer.primary_tenant_id)) {
+    const [remaining] = listTenantsOfCustomerStmt.all(customer.id);
+    setPrimaryTenantStmt.run(remaining.tenant_id, actor, customer.id);
+  }
+  return newId;
+});
+
+const readCustomerParam = (request, response) => {
+  const customer = getCustomerStmt.get(Number(request.params.id));
+  if (!customer) {
+    response.status(404).json({ message: "Kunden findes ikke" });
+    return null;
+  }
+  return customer;
+};
+
+app.get("/api/customers", (_request, response) => {
+  response.json({ customers: listCustomers() });
+});
+
+// Users who may edit customers register the tenants of the invoices they
+// open, so the registry follows the invoices without a separate job. Linking
+// a tenant decides which customer's discounts it gets, so viewers may not.
+app.post(
+  "/api/customers/sync",
+  requirePermission("customers:write"),
+  (request, response) => {
+    const body = request.body ?? {};
+    const seenOn = readTrimmed(body.seenOn, 10);
+    const tenants = (
+      Array.isArray(body.tenants)
+        ? body.tenants.slice(0, MAX_SYNC_TENANTS)
+        : []
+    )
+      .map(readTenantObservation)
+      .filter(Boolean);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(seenOn)) {
+      response.status(400).json({ message: "Ugyldig payload" });
+      return;
+    }
+
+    syncCustomerTenants(tenants, seenOn, resolveActor(request));
+    response.json({ customers: listCustomers() });
+  },
+);
+
+app.put(
+  "/api/customers/:id",
+  requirePermission("customers:write"),
+  (request, response) => {
+    const customer = readCustomerParam(request, response);
+    if (!customer) return;
+    const body = request.body ?? {};
+    const name = readTrimmed(body.name, 200);
+    const vatId = readTrimmed(body.vatId, 40);
+    if (!name || (vatId && !normalizeVatId(vatId))) {
+      response.status(400).json({ message: "Ugyldig payload" });
+      return;
+    }
+
+    updateCustomerStmt.run(
+      name,
+      normalizeCustomerName(name),
+      normalizeVatId(vatId),
+      resolveActor(request),
+      customer.id,
+    );
+    response.json({ customers: listCustomers() });
+  },
+);
+
+app.post(
+  "/api/customers/:id/merge",
+  requirePermission("customers:write"),
+  (request, response) => {
+    const target = readCustomerParam(request, response);
+    if (!target) return;
+    const source = getCustomerStmt.get(Number(request.body?.sourceId));
+    if (!source || source.id === target.id) {
+      response.status(400).json({ message: "Ugyldig payload" });
+      return;
+    }
+
+    const discountConflicts = mergeCustomers(
+      target,
+      source,
+      resolveActor(request),
+    );
+    response.json({ customers: listCustomers(), discountConflicts });
+  },
+);
+
+app.post(
+  "/api/customers/:id/split",
+  requirePermission("customers:write"),
+  (request, response) => {
+    const customer = readCustomerParam(request, response);
+    if (!customer) return;
+    const tenantIds = new Set(
+      Array.isArray(request.body?.tenantIds) ? request.body.tenantIds : [],
+    );
+    const tenantRows = listTenantsOfCustomerStmt.all(customer.id);
+    const splitRows = tenantRows.filter((row) => tenantIds.has(row.tenant_id));
+    if (splitRows.length === 0 || splitRows.length !== tenantIds.size) {
+      response.status(400).json({ message: "Ugyldig payload" });
+      return;
+    }
+    if (splitRows.length === tenantRows.length) {
+      response
+        .status(409)
+        .json({ message: "Mindst én tenant skal blive hos kunden" });
+      return;
+    }
+
+    const id = splitCustomer(customer, splitRows, resolveActor(request));
+    response.status(201).json({ id, customers: listCustomers() });
+  },
+);
+
+// Cloud Factory proxy: the server holds the partner tokens so they never
+// reach the browser. The frontend calls /api/cf/* and the server adds the
+// bearer token, renewing it through ExchangeRefreshToken on a 401. Each
+// partner account has its own session.
+const CF_API_BASE_URL = "https://portal.api.cloudfactory.dk";
+const CF_BILLING_BASE_URL = `${CF_API_BASE_URL}/billing`;
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS cf_session (
+    partner_id TEXT PRIMARY KEY,
+    access_token TEXT NOT NULL,
+    refresh_token TEXT,
+    updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
+// The single session from before partner accounts belongs to the primary one.
+if (!hasColumn("cf_session", "partner_id")) {
+  db.transaction(() => {
+    db.exec(`
+      ALTER TABLE cf_session RENAME TO cf_session_legacy;
+      CREATE TABLE cf_session (
+        partner_id TEXT PRIMARY KEY,
+        access_token TEXT NOT NULL,
+        refresh_token TEXT,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    db.prepare(
+      `INSERT INTO cf_session (partner_id, access_token, refresh_token, updated_at)
+       SELECT ?, access_token, refresh_token, updated_at FROM cf_session_legacy`,
+    ).run(primaryPartnerId);
+    db.exec(`DROP TABLE cf_session_legacy`);
+  })();
+}
+
+const getCfSessionStmt = db.prepare(
+  `SELECT access_token, refresh_token, updated_at FROM cf_session WHERE partner_id = ?`,
+);
+const saveCfSessionStmt = db.prepare(
+  `INSERT INTO cf_session (partner_id, access_token, refresh_token, updated_at)
+   VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+   ON CONFLICT (partner_id) DO UPDATE SET
+     access_token = excluded.access_token,
+     refresh_token = excluded.refresh_token,
+     updated_at = CURRENT_TIMESTAMP`,
+);
+const clearCfSessionStmt = db.prepare(
+  `DELETE FROM cf_session WHERE partner_id = ?`,
+);
+
+const readEnvToken = (...names) =>
+  names.map((name) => process.env[name]?.trim()).find(Boolean) ?? "";
+
+// Tokens in the server environment seed the primary account's session on
+// first start; after that the stored session (renewed tokens, sign-in from the
+// UI) wins.
+const envAccessToken = readEnvToken("CF_ACCESS_TOKEN", "ACCESS_TOKEN");
+const envRefreshToken = readEnvToken("CF_REFRESH_TOKEN", "REFRESH_TOKEN");
+if (
+  !getCfSessionStmt.get(primaryPartnerId) &&
+  (envAccessToken || envRefreshToken)
+) {
+  saveCfSessionStmt.run(
+    primaryPartnerId,
+    envAccessToken,
+    envRefreshToken || null,
+  );
+}
+
+// Expiry is read from the JWT payload for display only; Cloud Factory
+// verifies the token itself.
+const readTokenExpiry = (token) => {
+  const [, payload] = (token ?? "").split(".");
+  if (!payload) return null;
+  try {
+    const { exp } = JSON.parse(Buffer.from(payload, "base64url").toString());
+    return typeof exp === "number" && Number.isFinite(exp)
+      ? new Date(exp * 1000).toISOString()
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const describeCfSession = (partnerId) => {
+  const row = getCfSessionStmt.get(partnerId);
+  return {
+    connected: Boolean(row && (row.access_token || row.refresh_token)),
+    accessTokenExpiresAt: row ? readTokenExpiry(row.access_token) : null,
+    refreshTokenExpiresAt: row ? readTokenExpiry(row.refresh_token) : null,
+    updatedAt: row?.updated_at ?? null,
+  };
+};
+
+class CfAuthError extends Error {}
+
+const exchangeRefreshToken = async (refreshToken) => {
+  const exchangeResponse = await fetch(
+    `${CF_API_BASE_URL}/Authenticate/ExchangeRefreshToken/${encodeURIComponent(refreshToken)}`,
+  );
+  if (!exchangeResponse.ok) {
+    throw new CfAuthError(
+      `ExchangeRefreshToken fejlede (status ${exchangeResponse.status})`,
+    );
+  }
+  const data = await exchangeResponse.json().catch(() => null);
+  const accessToken = data?.access_token ?? data?.accessToken ?? data?.token;
+  if (!accessToken) {
+    throw new CfAuthError(
+      "ExchangeRefreshToken returnerede intet access token",
+    );
+  }
+  return {
+    accessToken,
+    refreshToken: data?.refresh_token ?? data?.refreshToken ?? refreshToken,
+  };
+};
+
+// Parallel requests that all hit a 401 share one exchange per account, since
+// Cloud Factory may rotate the refresh token on every use.
+const pendingRefreshes = new Map();
+
+const refreshCfSession = (partnerId) => {
+  if (!pendingRefreshes.has(partnerId)) {
+    pendingRefreshes.set(
+      partnerId,
+      (async () => {
+        const refreshToken = getCfSessionStmt.get(partnerId)?.refresh_token;
+        if (!refreshToken) {
+          throw new CfAuthError("Intet refresh token");
+        }
+        const tokens = await exchangeRefreshToken(refreshToken);
+        saveCfSessionStmt.run(
+          partnerId,
+          tokens.accessToken,
+          tokens.refreshToken,
+        );
+        return tokens.accessToken;
+      })().finally(() => {
+        pendingRefreshes.delete(partnerId);
+      }),
+    );
+  }
+  return pendingRefreshes.get(partnerId);
+};
+
+// Resolves the proxied path against the billing API. Returns null when
+// "..", "%2e%2e" or a scheme-relative path would take the request outside
+// /billing/ on the Cloud Factory host.
+const resolveCfBillingUrl = (pathAndQuery) => {
+  const base = new URL(`${CF_BILLING_BASE_URL}/`);
+  let target;
+  try {
+    target = new URL(pathAndQuery.replace(/^\/+/, ""), base);
+  } catch {
+    return null;
+  }
+  return target.origin === base.origin &&
+    target.pathname.startsWith(base.pathname)
+    ? target
+    : null;
+};
+
+// Billing paths name the account (`accounts/<id>/...`); the proxy uses that
+// account's session. Paths without one use the primary account.
+const readCfTargetPartnerId = (target) => {
+  const [, accountId] =
+    target.pathname.match(/\/billing\/accounts\/([^/]+)/) ?? [];
+  return findPartnerId(accountId);
+};
+
+const fetchCfBilling = (target, accessToken) =>
+  fetch(target, {
+    headers: {
+      Accept: "application/json",
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+  });
+
+app.get("/api/cf-session", (request, response) => {
+  response.json(describeCfSession(request.partnerId));
+});
+
+app.post(
+  "/api/cf-session",
+  requirePermission("cf-session:write"),
+  async (request, response) => {
+    const body = request.body ?? {};
+    const accessToken = readTrimmed(body.accessToken, 8192);
+    const refreshToken = readTrimmed(body.refreshToken, 8192);
+    if (!accessToken && !refreshToken) {
+      response
+        .status(400)
+        .json({ message: "Angiv et access eller refresh token" });
+      return;
+    }
+
+    // A pasted access token is stored as-is; a refresh token on its own is
+    // exchanged right away so a bad token is rejected at sign-in.
+    let tokens = { accessToken, refreshToken };
+    if (!accessToken) {
+      try {
+        tokens = await exchangeRefreshToken(refreshToken);
+      } catch (error) {
+        response.status(401).json({
+          message:
+            error instanceof CfAuthError
+              ? "Cloud Factory afviste refresh tokenet"
+              : "Kunne ikke kontakte Cloud Factory",
+        });
+        return;
+      }
+    }
+
+    saveCfSessionStmt.run(
+      request.partnerId,
+      tokens.accessToken,
+      tokens.refreshToken || null,
+    );
+    response.json(describeCfSession(request.partnerId));
+  },
+);
+
+app.delete(
+  "/api/cf-session",
+  requirePermission("cf-session:write"),
+  (request, response) => {
+    clearCfSessionStmt.run(request.partnerId);
+    response.status(204).send();
+  },
+);
+
+// Only read access is proxied; the app never writes to Cloud Factory.
+app.get("/api/cf/*path", async (request, response) => {
+  const target = resolveCfBillingUrl(
+    request.originalUrl.slice("/api/cf".length),
+  );
+  if (!target) {
+    response.status(400).json({ message: "Ugyldig Cloud Factory-sti" });
+    return;
+  }
+  const partnerId = readCfTargetPartnerId(target);
+  if (!partnerId) {
+    response.status(400).json({ message: "Ukendt partnerkonto" });
+    return;
+  }
+  const session = getCfSessionStmt.get(partnerId);
+  if (!session) {
+    response.status(401).json({ message: "Ingen Cloud Factory-session" });
+    return;
+  }
+
+  try {
+    let upstream = await fetchCfBilling(target, session.access_token);
+    if (upstream.status === 401 && session.refresh_token) {
+      try {
+        const accessToken = await refreshCfSession(partnerId);
+        upstream = await fetchCfBilling(target, accessToken);
+      } catch (error) {
+        if (!(error instanceof CfAuthError)) throw error;
+      }
+    }
+
+    if (upstream.status === 401) {
+      clearCfSessionStmt.run(partnerId);
+      response.status(401).json({
+        message: "Cloud Factory-sessionen er udløbet. Log ind igen.",
+      });
+      return;
+    }
+
+    response.status(upstream.status);
+    const contentType = upstream.headers.get("content-type");
+    if (contentType) response.type(contentType);
+    response.send(Buffer.from(await upstream.arrayBuffer()));
+  } catch (error) {
+    console.error("Cloud Factory proxy failed", error);
+    response
+      .status(502)
+      .json({ message: "Kunne ikke kontakte Cloud Factory" });
+  }
+});
+
+export { app, db };
+
+// Tests import the app and listen on a port of their own.
+if (
+  process.argv[1] &&
+  path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)
+) {
+  const port = Number(process.env.API_PORT ?? 3001);
+  app.listen(port, () => {
+    console.log(`Discount API running on port ${port} (DB: ${dbFilePath})`);
+  });
+}
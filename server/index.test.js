@@ -0,0 +1,1169 @@
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import process from "node:process";
+import Database from "better-sqlite3";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "discount-api-"));
+let server;
+let baseUrl;
+let sessionCookie = "";
+
+const PRIMARY_PARTNER = "11111111-1111-4111-8111-111111111111";
+const OTHER_PARTNER = "22222222-2222-4222-8222-222222222222";
+
+// Sends the path as-is; fetch() would resolve "..", which is what the proxy
+// has to guard against.
+const send = (
+  method,
+  requestPath,
+  body,
+  cookie = sessionCookie,
+  headers = {},
+) =>
+  new Promise((resolve, reject) => {
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const request = http.request(
+      `${baseUrl}${requestPath}`,
+      {
+        method,
+        path: requestPath,
+        headers: {
+          Cookie: cookie,
+          // Node sends DELETE bodies only with an explicit length.
+          ...(payload
+            ? {
+                "Content-Type": "application/json",
+                "Content-Length": Buffer.byteLength(payload),
+              }
+            : {}),
+          ...headers,
+        },
+      },
+      (response) => {
+        let text = "";
+        response.setEncoding("utf8");
+        response.on("data", (chunk) => {
+          text += chunk;
+        });
+        response.on("end", () => {
+          resolve({
+            status: response.statusCode,
+            headers: response.headers,
+            body: text ? JSON.parse(text) : null,
+          });
+        });
+      },
+    );
+    request.on("error", reject);
+    request.end(payload);
+  });
+
+beforeAll(async () => {
+  process.env.DISCOUNT_DB_PATH = path.join(dataDir, "discounts.sqlite");
+  process.env.ADMIN_USERNAME = "admin";
+  process.env.ADMIN_PASSWORD = "admin-password";
+  process.env.VITE_PARTNERS = `${PRIMARY_PARTNER}:Første,${OTHER_PARTNER}:Anden`;
+  const { app } = await import("./index.js");
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+
+  const login = await send("POST", "/api/auth/login", {
+    username: "admin",
+    password: "admin-password",
+  });
+  sessionCookie = login.headers["set-cookie"][0].split(";")[0];
+});
+
+// Creates a user with `role` and returns its session cookie.
+const signInAs = async (role) => {
+  const username = `${role}-${Math.random().toString(36).slice(2, 8)}`;
+  await send("POST", "/api/users", {
+    username,
+    role,
+    password: "user-password",
+  });
+  const login = await send("POST", "/api/auth/login", {
+    username,
+    password: "user-password",
+  });
+  return login.headers["set-cookie"][0].split(";")[0];
+};
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe("Cloud Factory proxy", () => {
+  it.each([
+    "/api/cf/../partners",
+    "/api/cf/%2e%2e/partners",
+    "/api/cf/v2/%2E%2E/%2e%2e/partners",
+  ])("rejects %s outside /billing/", async (requestPath) => {
+    const response = await send("GET", requestPath);
+    expect(response.status).toBe(400);
+  });
+
+  it("passes paths under /billing/ on to the session check", async () => {
+    const response = await send("GET", "/api/cf/v2/invoices?page=1");
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe("Ingen Cloud Factory-session");
+  });
+});
+
+describe("margin rules on discount writes", () => {
+  const pricing = {
+    tenantId: "tenant-margin",
+    vendorName: "Microsoft",
+    productName: "M365 Business Premium",
+    costAmount: 80,
+    amount: 100,
+  };
+  const write = (body) =>
+    send("PUT", "/api/tenant-discounts", {
+      tenantId: "tenant-margin",
+      vendorName: "Microsoft",
+      productName: "M365 Business Premium",
+      ...body,
+    });
+
+  beforeAll(async () => {
+    await send("PUT", "/api/margin-rules", {
+      vendorName: "Microsoft",
+      minMarginPercent: 10,
+      enforcement: "block",
+    });
+  });
+
+  it("refuses writes without pricing for the product", async () => {
+    const missing = await write({ rate: 5 });
+    expect(missing.status).toBe(422);
+    expect(missing.body.code).toBe("MARGIN_PRICING_REQUIRED");
+
+    const otherProduct = await write({
+      rate: 5,
+      pricing: [{ ...pricing, productName: "Visio Plan 2" }],
+    });
+    expect(otherProduct.status).toBe(422);
+    expect(otherProduct.body.code).toBe("MARGIN_PRICING_REQUIRED");
+  });
+
+  it("checks the rate against the pricing sent", async () => {
+    const blocked = await write({ rate: 30, pricing: [pricing] });
+    expect(blocked.status).toBe(422);
+    expect(blocked.body.code).toBe("MARGIN_BELOW_MINIMUM");
+    expect(blocked.body.violations[0].maxRate).toBe(11.11);
+
+    const allowed = await write({ rate: 10, pricing: [pricing] });
+    expect(allowed.status).toBe(200);
+  });
+
+  it("skips products that keep a more specific rate", async () => {
+    const vendorWrite = await write({
+      scope: "vendor",
+      productName: undefined,
+      rate: 30,
+      pricing: [pricing],
+    });
+    expect(vendorWrite.status).toBe(200);
+  });
+
+  it("rejects CSV rows that break a block rule", async () => {
+    const importCsv = (dryRun) =>
+      send("POST", "/api/tenant-discounts/import", {
+        dryRun,
+        csv: [
+          "tenantId,vendorName,productName,rate",
+          "tenant-margin,Microsoft,M365 Business Premium,30",
+          "tenant-margin,Microsoft,Visio Plan 2,20",
+        ].join("\n"),
+        knownProducts: [
+          pricing,
+          { ...pricing, productName: "Visio Plan 2", costAmount: 50 },
+        ],
+      });
+
+    for (const dryRun of [true, false]) {
+      const response = await importCsv(dryRun);
+      expect(response.status).toBe(200);
+      expect(response.body.summary).toMatchObject({ created: 1, rejected: 1 });
+      expect(response.body.rows[0]).toMatchObject({
+        status: "rejected",
+        rate: 30,
+        violations: [{ productName: "M365 Business Premium", maxRate: 11.11 }],
+      });
+    }
+
+    const { body } = await send("GET", "/api/tenant-discounts");
+    expect(body.discounts["tenant-margin"]).toMatchObject({
+      "microsoft::m365 business premium": 10,
+      "microsoft::visio plan 2": 20,
+    });
+  });
+
+  it("lets vendors without a block rule through without pricing", async () => {
+    const response = await write({ vendorName: "Adobe", rate: 50 });
+    expect(response.status).toBe(200);
+  });
+});
+
+describe("margin rules", () => {
+  const pricing = (vendorName) => ({
+    tenantId: "tenant-margin-rules",
+    vendorName,
+    productName: "Dynamics 365 Sales",
+    costAmount: 50,
+    amount: 100,
+  });
+  const write = (method, vendorName, rate, withPricing = true) =>
+    send(method, "/api/tenant-discounts", {
+      tenantId: "tenant-margin-rules",
+      vendorName,
+      productName: "Dynamics 365 Sales",
+      rate,
+      ...(withPricing ? { pricing: [pricing(vendorName)] } : {}),
+    });
+
+  afterAll(async () => {
+    for (const vendorName of ["*", "Northwind"]) {
+      await send("DELETE", "/api/margin-rules", { vendorName });
+    }
+  });
+
+  it.each([
+    ["without a vendor", { minMarginPercent: 10, enforcement: "block" }],
+    [
+      "at 100%",
+      { vendorName: "Northwind", minMarginPercent: 100, enforcement: "block" },
+    ],
+    [
+      "below 0%",
+      { vendorName: "Northwind", minMarginPercent: -1, enforcement: "warn" },
+    ],
+    [
+      "with an unknown enforcement",
+      { vendorName: "Northwind", minMarginPercent: 10, enforcement: "stop" },
+    ],
+  ])("rejects a rule %s", async (_label, body) => {
+    expect((await send("PUT", "/api/margin-rules", body)).status).toBe(400);
+  });
+
+  it("requires finance-admin to change rules", async () => {
+    const cookie = await signInAs("sales");
+    const rule = {
+      vendorName: "Northwind",
+      minMarginPercent: 10,
+      enforcement: "block",
+    };
+
+    expect((await send("PUT", "/api/margin-rules", rule, cookie)).status).toBe(
+      403,
+    );
+    expect(
+      (await send("DELETE", "/api/margin-rules", { vendorName: "*" }, cookie))
+        .status,
+    ).toBe(403);
+    expect(
+      (await send("GET", "/api/margin-rules", undefined, cookie)).status,
+    ).toBe(200);
+  });
+
+  it("lets discounts under a warn rule through", async () => {
+    const saved = await send("PUT", "/api/margin-rules", {
+      vendorName: "Northwind",
+      minMarginPercent: 60,
+      enforcement: "warn",
+    });
+    expect(saved.body).toMatchObject({
+      vendorName: "Northwind",
+      minMarginPercent: 60,
+      enforcement: "warn",
+      updatedBy: "admin",
+    });
+
+    expect((await write("PUT", "Northwind", 40)).status).toBe(200);
+    expect((await write("PUT", "Northwind", 45, false)).status).toBe(200);
+  });
+
+  it("applies the vendor rule instead of the global one", async () => {
+    await send("PUT", "/api/margin-rules", {
+      vendorName: "*",
+      minMarginPercent: 20,
+      enforcement: "block",
+    });
+
+    expect((await write("PUT", "Northwind", 50)).status).toBe(200);
+    const blocked = await write("PUT", "Litware", 50);
+    expect(blocked.status).toBe(422);
+    expect(blocked.body.violations[0]).toMatchObject({
+      vendorName: "Litware",
+      minMarginPercent: 20,
+      maxRate: 37.5,
+    });
+    expect((await write("PUT", "Litware", 30, false)).body.code).toBe(
+      "MARGIN_PRICING_REQUIRED",
+    );
+  });
+
+  it("checks rate corrections as well", async () => {
+    expect((await write("PUT", "Litware", 30)).status).toBe(200);
+
+    const blocked = await write("PATCH", "Litware", 40);
+    expect(blocked.status).toBe(422);
+    expect(blocked.body.code).toBe("MARGIN_BELOW_MINIMUM");
+    expect((await write("PATCH", "Litware", 35)).status).toBe(200);
+  });
+});
+
+describe("discount scopes", () => {
+  const tenantId = "tenant-scope";
+  const pricing = [
+    {
+      tenantId,
+      vendorName: "Fabrikam",
+      productName: "Fabrikam Backup",
+      costAmount: 50,
+      amount: 100,
+    },
+  ];
+
+  it("stores each scope under its wildcard key", async () => {
+    const writes = [
+      { scope: "vendor", tenantId, vendorName: "Fabrikam", rate: 8 },
+      { scope: "tenant", tenantId, rate: 4, pricing },
+      { scope: "global-vendor", vendorName: "Fabrikam", rate: 2 },
+    ];
+    for (const body of writes) {
+      const response = await send("PUT", "/api/tenant-discounts", {
+        ...body,
+        validFrom: "2026-01-01",
+      });
+      expect(response.status).toBe(200);
+    }
+
+    const { body } = await send("GET", "/api/tenant-discounts?at=2026-06-01");
+    expect(body.discounts[tenantId]).toEqual({
+      "fabrikam::*": 8,
+      "*::*": 4,
+    });
+    expect(body.discounts["*"]).toMatchObject({ "fabrikam::*": 2 });
+  });
+
+  it("rejects writes that do not name what the scope needs", async () => {
+    for (const body of [
+      { scope: "vendor", tenantId, rate: 5 },
+      { scope: "global-vendor", tenantId, rate: 5 },
+      { scope: "customer", tenantId, vendorName: "Fabrikam", rate: 5 },
+    ]) {
+      expect((await send("PUT", "/api/tenant-discounts", body)).status).toBe(
+        400,
+      );
+    }
+  });
+
+  it("keeps vendor defaults and full deletes for finance admins", async () => {
+    const salesCookie = await signInAs("sales");
+    const vendorDefault = await send(
+      "PUT",
+      "/api/tenant-discounts",
+      { scope: "global-vendor", vendorName: "Fabrikam", rate: 6 },
+      salesCookie,
+    );
+    expect(vendorDefault.status).toBe(403);
+
+    const customerRate = await send(
+      "PUT",
+      "/api/tenant-discounts",
+      { scope: "vendor", tenantId, vendorName: "Fabrikam", rate: 9 },
+      salesCookie,
+    );
+    expect(customerRate.status).toBe(200);
+
+    const fullDelete = await send(
+      "DELETE",
+      "/api/tenant-discounts",
+      { scope: "vendor", tenantId, vendorName: "Fabrikam" },
+      salesCookie,
+    );
+    expect(fullDelete.status).toBe(403);
+  });
+});
+
+describe("customer registry", () => {
+  it("only lets customer editors register tenants", async () => {
+    const viewerCookie = await signInAs("viewer");
+    const response = await send(
+      "POST",
+      "/api/customers/sync",
+      {
+        seenOn: "2026-09-30",
+        tenants: [{ tenantId: "viewer-tenant", customerName: "Viewer A/S" }],
+      },
+      viewerCookie,
+    );
+    expect(response.status).toBe(403);
+
+    const { body } = await send("GET", "/api/customers");
+    expect(
+      body.customers.some((customer) => customer.name === "Viewer A/S"),
+    ).toBe(false);
+  });
+
+  const syncTenants = (tenants) =>
+    send("POST", "/api/customers/sync", { seenOn: "2026-09-30", tenants });
+  const findCustomer = (customers, tenantId) =>
+    customers.find((customer) =>
+      customer.tenants.some((tenant) => tenant.tenantId === tenantId),
+    );
+  const setRate = (tenantId, productName, rate) =>
+    send("PUT", "/api/tenant-discounts", {
+      tenantId,
+      vendorName: "Adobe",
+      productName,
+      rate,
+      validFrom: "2026-01-01",
+    });
+  const readHistory = async (tenantId) =>
+    (await send("GET", `/api/tenant-discounts/history?tenantId=${tenantId}`))
+      .body.history;
+
+  it("moves discounts on merge and reports the ones that give way", async () => {
+    const { body } = await syncTenants([
+      { tenantId: "merge-a", customerName: "Alfa A/S" },
+      { tenantId: "merge-b", customerName: "Beta ApS" },
+    ]);
+    const target = findCustomer(body.customers, "merge-a");
+    const source = findCustomer(body.customers, "merge-b");
+    await setRate("merge-a", "Acrobat Pro", 10);
+    await setRate("merge-b", "Acrobat Pro", 25);
+    await setRate("merge-b", "Creative Cloud", 15);
+
+    const merged = await send("POST", `/api/customers/${target.id}/merge`, {
+      sourceId: source.id,
+    });
+    expect(merged.status).toBe(200);
+    expect(merged.body.discountConflicts).toEqual([
+      {
+        productKey: "adobe::acrobat pro",
+        vendorName: "Adobe",
+        productName: "Acrobat Pro",
+        droppedRate: 25,
+        keptRate: 10,
+      },
+    ]);
+
+    const { body: state } = await send("GET", "/api/tenant-discounts");
+    expect(state.discounts["merge-a"]).toEqual({
+      "adobe::acrobat pro": 10,
+      "adobe::creative cloud": 15,
+    });
+    expect(state.discounts["merge-b"]).toBeUndefined();
+
+    const history = await readHistory("merge-a");
+    expect(await readHistory("merge-b")).toEqual(history);
+    expect(
+      history
+        .filter((entry) => entry.action === "delete")
+        .map((entry) => [entry.productName, entry.oldRate, entry.actor]),
+    ).toEqual([["Acrobat Pro", 25, "admin"]]);
+    expect(
+      history.find((entry) => entry.productName === "Creative Cloud"),
+    ).toMatchObject({
+      tenantId: "merge-b",
+      action: "create",
+      newRate: 15,
+      validFrom: "2026-01-01",
+    });
+  });
+
+  it("shares a customer's discounts between its tenants", async () => {
+    const { body } = await syncTenants([
+      { tenantId: "shared-a", customerName: "Epsilon A/S" },
+      { tenantId: "shared-b", customerName: "Epsilon A/S" },
+    ]);
+    expect(findCustomer(body.customers, "shared-b").primaryTenantId).toBe(
+      "shared-a",
+    );
+
+    await setRate("shared-b", "Acrobat Pro", 20);
+    const { body: state } = await send("GET", "/api/tenant-discounts");
+    expect(state.discounts["shared-a"]).toEqual({ "adobe::acrobat pro": 20 });
+    expect(state.discounts["shared-b"]).toBeUndefined();
+    expect(await readHistory("shared-a")).toEqual(
+      await readHistory("shared-b"),
+    );
+    expect((await readHistory("shared-a"))[0]).toMatchObject({
+      tenantId: "shared-b",
+      newRate: 20,
+    });
+  });
+
+  it("registers unknown tenants when a discount is written", async () => {
+    await setRate("unseen-a", "Acrobat Pro", 5);
+    const { body } = await send("GET", "/api/customers");
+    expect(findCustomer(body.customers, "unseen-a")).toMatchObject({
+      name: "unseen-a",
+      primaryTenantId: "unseen-a",
+    });
+
+    const synced = await syncTenants([
+      { tenantId: "unseen-a", customerName: "Zeta ApS" },
+    ]);
+    const customer = findCustomer(synced.body.customers, "unseen-a");
+    expect(customer.name).toBe("Zeta ApS");
+    expect(customer.tenants[0]).toMatchObject({
+      firstSeen: "2026-09-30",
+      lastSeen: "2026-09-30",
+    });
+  });
+
+  it("matches tenants on VAT id and keeps their references", async () => {
+    const { body } = await syncTenants([
+      {
+        tenantId: "vat-a",
+        customerName: "Kappa A/S",
+        vatId: "DK 30 40 50 60",
+        reference: "WL10",
+      },
+      {
+        tenantId: "vat-b",
+        customerName: "Kappa Holding",
+        vatId: "30405060",
+        reference: "WL11",
+      },
+    ]);
+    const customer = findCustomer(body.customers, "vat-a");
+    expect(findCustomer(body.customers, "vat-b").id).toBe(customer.id);
+    expect(customer).toMatchObject({
+      name: "Kappa A/S",
+      vatId: "30405060",
+      primaryTenantId: "vat-a",
+      references: ["WL10", "WL11"],
+    });
+
+    const older = await send("POST", "/api/customers/sync", {
+      seenOn: "2026-01-31",
+      tenants: [{ tenantId: "vat-b", customerName: "Kappa Gammel ApS" }],
+    });
+    expect(
+      findCustomer(older.body.customers, "vat-b").tenants.find(
+        (tenant) => tenant.tenantId === "vat-b",
+      ),
+    ).toMatchObject({
+      customerName: "Kappa Holding",
+      firstSeen: "2026-01-31",
+      lastSeen: "2026-09-30",
+    });
+  });
+
+  it("lets sales edit customers but not with an invalid VAT id", async () => {
+    const salesCookie = await signInAs("sales");
+    const { body } = await send(
+      "POST",
+      "/api/customers/sync",
+      {
+        seenOn: "2026-09-30",
+        tenants: [{ tenantId: "edit-a", customerName: "Lambda ApS" }],
+      },
+      salesCookie,
+    );
+    const customer = findCustomer(body.customers, "edit-a");
+    const edit = (changes) =>
+      send(
+        "PUT",
+        `/api/customers/${customer.id}`,
+        { name: "Lambda ApS", ...changes },
+        salesCookie,
+      );
+
+    expect((await edit({ vatId: "DK123" })).status).toBe(400);
+    expect((await edit({ name: " " })).status).toBe(400);
+    const saved = await edit({ name: "Lambda Nord ApS", vatId: "DK55667788" });
+    expect(saved.status).toBe(200);
+    expect(findCustomer(saved.body.customers, "edit-a")).toMatchObject({
+      name: "Lambda Nord ApS",
+      vatId: "55667788",
+      updatedBy: expect.stringMatching(/^sales-/),
+    });
+  });
+
+  it("rejects merges and splits that cannot be carried out", async () => {
+    const { body } = await syncTenants([
+      { tenantId: "guard-a", customerName: "My A/S" },
+      { tenantId: "guard-b", customerName: "Ny A/S" },
+    ]);
+    const customer = findCustomer(body.customers, "guard-a");
+    const customerPath = `/api/customers/${customer.id}`;
+
+    expect(
+      (await send("POST", `${customerPath}/merge`, { sourceId: customer.id }))
+        .status,
+    ).toBe(400);
+    expect(
+      (await send("POST", "/api/customers/999999/merge", { sourceId: 1 }))
+        .status,
+    ).toBe(404);
+    expect(
+      (
+        await send("POST", `${customerPath}/split`, {
+          tenantIds: ["guard-b"],
+        })
+      ).status,
+    ).toBe(400);
+    expect(
+      (
+        await send("POST", `${customerPath}/split`, {
+          tenantIds: ["guard-a"],
+        })
+      ).status,
+    ).toBe(409);
+    expect(
+      (await send("POST", "/api/customers/sync", { tenants: [] })).status,
+    ).toBe(400);
+  });
+});
+
+describe("customer split", () => {
+  it("keeps the discounts with the original customer", async () => {
+    const { body } = await send("POST", "/api/customers/sync", {
+      seenOn: "2026-09-30",
+      tenants: [
+        { tenantId: "split-a", customerName: "Gamma A/S", vatId: "DK11223344" },
+        { tenantId: "split-b", customerName: "Gamma A/S", vatId: "DK11223344" },
+      ],
+    });
+    const customer = body.customers.find(
+      (entry) => entry.primaryTenantId === "split-a",
+    );
+    expect(customer.tenants).toHaveLength(2);
+    await send("PUT", "/api/tenant-discounts", {
+      tenantId: "split-a",
+      scope: "vendor",
+      vendorName: "Adobe",
+      rate: 12,
+    });
+
+    const split = await send("POST", `/api/customers/${customer.id}/split`, {
+      tenantIds: ["split-a"],
+    });
+    expect(split.status).toBe(201);
+    expect(
+      split.body.customers.find((entry) => entry.id === customer.id),
+    ).toMatchObject({ primaryTenantId: "split-b" });
+
+    const { body: state } = await send("GET", "/api/tenant-discounts");
+    expect(state.discounts["split-b"]).toEqual({ "adobe::*": 12 });
+    expect(state.discounts["split-a"]).toBeUndefined();
+
+    const { body: history } = await send(
+      "GET",
+      "/api/tenant-discounts/history?tenantId=split-b",
+    );
+    expect(history.history[0]).toMatchObject({
+      action: "create",
+      newRate: 12,
+      actor: "admin",
+    });
+  });
+});
+
+describe("customer matching", () => {
+  it("does not match on name when the VAT ids differ", async () => {
+    const { body } = await send("POST", "/api/customers/sync", {
+      seenOn: "2026-09-30",
+      tenants: [
+        { tenantId: "match-a", customerName: "Delta A/S", vatId: "DK10000001" },
+        { tenantId: "match-b", customerName: "Delta ApS", vatId: "DK20000002" },
+        { tenantId: "match-c", customerName: "Delta A/S" },
+      ],
+    });
+    const customerOf = (tenantId) =>
+      body.customers.find((customer) =>
+        customer.tenants.some((tenant) => tenant.tenantId === tenantId),
+      ).id;
+
+    expect(customerOf("match-b")).not.toBe(customerOf("match-a"));
+    expect(customerOf("match-c")).toBe(customerOf("match-a"));
+  });
+});
+
+describe("discount history filters", () => {
+  it("matches vendor and product names literally", async () => {
+    for (const vendorName of ["100%_Cloud", "100xxCloud"]) {
+      await send("PUT", "/api/tenant-discounts", {
+        tenantId: "history-filter",
+        vendorName,
+        productName: "Backup",
+        rate: 5,
+      });
+    }
+
+    const byVendor = await send(
+      "GET",
+      `/api/tenant-discounts/history?vendorName=${encodeURIComponent("100%_Cloud")}`,
+    );
+    expect(byVendor.body.history.map((entry) => entry.vendorName)).toEqual([
+      "100%_Cloud",
+    ]);
+
+    const byProduct = await send(
+      "GET",
+      "/api/tenant-discounts/history?productName=_ackup",
+    );
+    expect(byProduct.body.history).toEqual([]);
+  });
+});
+
+describe("session cookie", () => {
+  it("treats a malformed cookie as signed out", async () => {
+    const response = await new Promise((resolve, reject) => {
+      http
+        .get(
+          `${baseUrl}/api/auth/me`,
+          { headers: { Cookie: "pb_session=%E0%A4%A" } },
+          (res) => {
+            res.resume();
+            res.on("end", () => resolve(res));
+          },
+        )
+        .on("error", reject);
+    });
+    expect(response.statusCode).toBe(401);
+  });
+});
+
+describe("discount migration", () => {
+  it("moves tenant-keyed discounts and history onto the customer", async () => {
+    const legacyPath = path.join(dataDir, "legacy.sqlite");
+    const legacy = new Database(legacyPath);
+    legacy.exec(`
+      CREATE TABLE customers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        name_key TEXT NOT NULL,
+        vat_id TEXT NOT NULL DEFAULT '',
+        primary_tenant_id TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_by TEXT
+      );
+      CREATE TABLE customer_tenants (
+        tenant_id TEXT PRIMARY KEY,
+        customer_id INTEGER NOT NULL,
+        tenant_name TEXT NOT NULL DEFAULT '',
+        domain TEXT NOT NULL DEFAULT '',
+        customer_name TEXT NOT NULL DEFAULT '',
+        name_key TEXT NOT NULL DEFAULT '',
+        vat_id TEXT NOT NULL DEFAULT '',
+        reference TEXT NOT NULL DEFAULT '',
+        first_seen TEXT NOT NULL,
+        last_seen TEXT NOT NULL
+      );
+      INSERT INTO customers (name, name_key, primary_tenant_id)
+        VALUES ('Eta A/S', 'eta', 'old-a');
+      INSERT INTO customer_tenants (tenant_id, customer_id, first_seen, last_seen) VALUES
+        ('old-a', 1, '2026-01-01', '2026-09-30'),
+        ('old-b', 1, '2026-01-01', '2026-09-30');
+
+      CREATE TABLE tenant_discounts (
+        tenant_id TEXT NOT NULL,
+        product_key TEXT NOT NULL,
+        valid_from TEXT NOT NULL,
+        valid_to TEXT,
+        rate REAL NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        vendor_name TEXT,
+        product_name TEXT,
+        PRIMARY KEY (tenant_id, product_key, valid_from)
+      );
+      INSERT INTO tenant_discounts (tenant_id, product_key, valid_from, rate) VALUES
+        ('old-b', 'adobe::acrobat pro', '2026-01-01', 30),
+        ('old-a', 'adobe::acrobat pro', '2026-01-01', 10),
+        ('old-b', 'adobe::creative cloud', '2026-01-01', 15),
+        ('old-c', 'adobe::acrobat pro', '2026-01-01', 7),
+        ('*', 'adobe::*', '2026-01-01', 3);
+
+      CREATE TABLE tenant_discount_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tenant_id TEXT NOT NULL,
+        product_key TEXT NOT NULL,
+        vendor_name TEXT NOT NULL,
+        product_name TEXT NOT NULL,
+        action TEXT NOT NULL,
+        old_rate REAL,
+        new_rate REAL,
+        valid_from TEXT,
+        actor TEXT NOT NULL,
+        changed_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX tenant_discount_history_lookup
+        ON tenant_discount_history (tenant_id, product_key, changed_at);
+      INSERT INTO tenant_discount_history
+        (tenant_id, product_key, vendor_name, product_name, action, new_rate, actor)
+      VALUES
+        ('old-b', 'adobe::creative cloud', 'Adobe', 'Creative Cloud', 'create', 15, 'admin'),
+        ('old-c', 'adobe::acrobat pro', 'Adobe', 'Acrobat Pro', 'create', 7, 'admin');
+    `);
+    legacy.close();
+
+    const currentPath = process.env.DISCOUNT_DB_PATH;
+    process.env.DISCOUNT_DB_PATH = legacyPath;
+    vi.resetModules();
+    const { db } = await import("./index.js");
+    process.env.DISCOUNT_DB_PATH = currentPath;
+
+    const newCustomerId = db
+      .prepare(
+        `SELECT customer_id FROM customer_tenants WHERE tenant_id = 'old-c'`,
+      )
+      .pluck()
+      .get();
+    expect(
+      db
+        .prepare(
+          `SELECT customer_id, product_key, rate FROM tenant_discounts
+           ORDER BY customer_id, product_key`,
+        )
+        .raw()
+        .all(),
+    ).toEqual([
+      ["*", "adobe::*", 3],
+      ["1", "adobe::acrobat pro", 10],
+      ["1", "adobe::creative cloud", 15],
+      [String(newCustomerId), "adobe::acrobat pro", 7],
+    ]);
+    expect(
+      db
+        .prepare(
+          `SELECT customer_id, tenant_id FROM tenant_discount_history ORDER BY id`,
+        )
+        .raw()
+        .all(),
+    ).toEqual([
+      ["1", "old-b"],
+      [String(newCustomerId), "old-c"],
+    ]);
+    db.close();
+  });
+});
+
+describe("re-billing runs", () => {
+  const draft = {
+    tenantId: "tenant-rebilling",
+    customerName: "Iota ApS",
+    lines: [
+      {
+        vendorName: "Microsoft",
+        productName: "M365 Business Standard",
+        quantity: 2,
+        amountBeforeDiscount: 199.99,
+        discountRate: 10,
+      },
+    ],
+  };
+
+  it("computes line amounts, VAT and totals on the server", async () => {
+    const response = await send("POST", "/api/rebilling-runs", {
+      invoiceNo: "INV-TOTALS",
+      discountDate: "2026-03-01",
+      drafts: [{ ...draft, subtotal: 1, vatAmount: 1, total: 1 }],
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body).toMatchObject({
+      status: "draft",
+      discountDate: "2026-03-01",
+      vatRate: 0.25,
+    });
+    expect(response.body.drafts[0]).toMatchObject({
+      lines: [
+        { amountBeforeDiscount: 199.99, discountRate: 10, amount: 179.99 },
+      ],
+      subtotal: 179.99,
+      vatAmount: 45,
+      total: 224.99,
+    });
+  });
+
+  it("rejects a second run for the same invoice", async () => {
+    const run = { invoiceNo: "INV-DUPLICATE", drafts: [draft] };
+    expect((await send("POST", "/api/rebilling-runs", run)).status).toBe(201);
+    expect((await send("POST", "/api/rebilling-runs", run)).status).toBe(409);
+  });
+
+  it.each([
+    ["without an invoice number", { drafts: [draft] }],
+    [
+      "with a line missing its amount",
+      {
+        invoiceNo: "INV-INVALID",
+        drafts: [
+          {
+            ...draft,
+            lines: [{ ...draft.lines[0], amountBeforeDiscount: "1" }],
+          },
+        ],
+      },
+    ],
+    [
+      "with a tenant twice",
+      { invoiceNo: "INV-INVALID", drafts: [draft, draft] },
+    ],
+    [
+      "with an invalid discount date",
+      {
+        invoiceNo: "INV-INVALID",
+        discountDate: "01-03-2026",
+        drafts: [draft],
+      },
+    ],
+  ])("rejects a run %s", async (_label, body) => {
+    expect((await send("POST", "/api/rebilling-runs", body)).status).toBe(400);
+  });
+
+  it("requires finance-admin to write runs", async () => {
+    const cookie = await signInAs("sales");
+    const run = { invoiceNo: "INV-SALES", drafts: [draft] };
+
+    expect(
+      (await send("POST", "/api/rebilling-runs", run, cookie)).status,
+    ).toBe(403);
+    expect(
+      (await send("GET", "/api/rebilling-runs", undefined, cookie)).status,
+    ).toBe(200);
+  });
+
+  it("freezes a run once it is locked", async () => {
+    const runPath = "/api/rebilling-runs/INV-LOCKED";
+    await send("POST", "/api/rebilling-runs", {
+      invoiceNo: "INV-LOCKED",
+      drafts: [draft],
+    });
+
+    const locked = await send("POST", `${runPath}/lock`);
+    expect(locked.body).toMatchObject({ status: "locked", lockedBy: "admin" });
+    expect((await send("POST", `${runPath}/lock`)).status).toBe(409);
+    expect(
+      (await send("PUT", `${runPath}/drafts`, { drafts: [draft] })).status,
+    ).toBe(409);
+    expect((await send("DELETE", runPath)).status).toBe(409);
+    expect((await send("GET", runPath)).body.drafts).toHaveLength(1);
+  });
+
+  it("replaces and deletes the drafts of an open run", async () => {
+    const runPath = "/api/rebilling-runs/INV-OPEN";
+    await send("POST", "/api/rebilling-runs", {
+      invoiceNo: "INV-OPEN",
+      drafts: [draft],
+    });
+
+    const replaced = await send("PUT", `${runPath}/drafts`, {
+      discountDate: "2026-04-01",
+      drafts: [draft, { ...draft, tenantId: "tenant-rebilling-2" }],
+    });
+    expect(replaced.body.discountDate).toBe("2026-04-01");
+    expect(replaced.body.drafts).toHaveLength(2);
+
+    expect((await send("DELETE", runPath)).status).toBe(204);
+    expect((await send("GET", runPath)).status).toBe(404);
+  });
+});
+
+describe("partner accounts", () => {
+  const asOther = (method, requestPath, body) =>
+    send(method, requestPath, body, sessionCookie, {
+      "X-Partner-Id": OTHER_PARTNER,
+    });
+  const draft = {
+    tenantId: "tenant-run",
+    customerName: "Theta A/S",
+    lines: [
+      {
+        vendorName: "Microsoft",
+        productName: "M365 Business Basic",
+        quantity: 1,
+        amountBeforeDiscount: 100,
+      },
+    ],
+  };
+
+  it("keeps discounts and their history apart per account", async () => {
+    const discount = {
+      tenantId: "tenant-partner",
+      vendorName: "Contoso",
+      productName: "Visio Plan 2",
+      rate: 12,
+      validFrom: "2026-01-01",
+    };
+    expect(
+      (await asOther("PUT", "/api/tenant-discounts", discount)).status,
+    ).toBe(200);
+
+    const primary = await send("GET", "/api/tenant-discounts");
+    const other = await asOther("GET", "/api/tenant-discounts");
+    expect(primary.body.periods["tenant-partner"]).toBeUndefined();
+    expect(other.body.periods["tenant-partner"]).toEqual({
+      "contoso::visio plan 2": [
+        { validFrom: "2026-01-01", validTo: null, rate: 12 },
+      ],
+    });
+
+    const historyPath = "/api/tenant-discounts/history?tenantId=tenant-partner";
+    expect((await send("GET", historyPath)).body.history).toEqual([]);
+    expect((await asOther("GET", historyPath)).body.history).toHaveLength(1);
+  });
+
+  it("allows a re-billing run per account for the same invoice number", async () => {
+    const run = { invoiceNo: "INV-PARTNER", drafts: [draft] };
+    expect((await send("POST", "/api/rebilling-runs", run)).status).toBe(201);
+    expect((await asOther("POST", "/api/rebilling-runs", run)).status).toBe(
+      201,
+    );
+
+    await asOther("POST", "/api/rebilling-runs/INV-PARTNER/lock");
+    expect(
+      (await send("GET", "/api/rebilling-runs/INV-PARTNER")).body.status,
+    ).toBe("draft");
+    expect(
+      (await asOther("GET", "/api/rebilling-runs/INV-PARTNER")).body.status,
+    ).toBe("locked");
+  });
+
+  it("keeps a Cloud Factory session per account", async () => {
+    const signIn = await asOther("POST", "/api/cf-session", {
+      accessToken: "other-access-token",
+    });
+    expect(signIn.body.connected).toBe(true);
+    expect((await send("GET", "/api/cf-session")).body.connected).toBe(false);
+
+    const proxied = await send(
+      "GET",
+      `/api/cf/accounts/${PRIMARY_PARTNER}/invoices`,
+    );
+    expect(proxied.status).toBe(401);
+    expect(proxied.body.message).toBe("Ingen Cloud Factory-session");
+    await asOther("DELETE", "/api/cf-session");
+  });
+
+  it("rejects accounts the server is not configured for", async () => {
+    const unknown = "33333333-3333-4333-8333-333333333333";
+    const response = await send(
+      "GET",
+      "/api/tenant-discounts",
+      undefined,
+      sessionCookie,
+      { "X-Partner-Id": unknown },
+    );
+    expect(response.status).toBe(400);
+    expect(
+      (await send("GET", `/api/cf/accounts/${unknown}/invoices`)).status,
+    ).toBe(400);
+  });
+});
+
+describe("partner migration", () => {
+  it("assigns existing discounts, runs and the session to the first account", async () => {
+    const legacyPath = path.join(dataDir, "legacy-partner.sqlite");
+    const legacy = new Database(legacyPath);
+    legacy.exec(`
+      CREATE TABLE tenant_discounts (
+        customer_id TEXT NOT NULL,
+        product_key TEXT NOT NULL,
+        vendor_name TEXT,
+        product_name TEXT,
+        valid_from TEXT NOT NULL,
+        valid_to TEXT,
+        rate REAL NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (customer_id, product_key, valid_from)
+      );
+      INSERT INTO tenant_discounts (customer_id, product_key, valid_from, rate)
+        VALUES ('*', 'adobe::*', '2026-01-01', 3);
+
+      CREATE TABLE tenant_discount_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        customer_id TEXT,
+        tenant_id TEXT NOT NULL,
+        product_key TEXT NOT NULL,
+        vendor_name TEXT NOT NULL,
+        product_name TEXT NOT NULL,
+        action TEXT NOT NULL,
+        old_rate REAL,
+        new_rate REAL,
+        valid_from TEXT,
+        actor TEXT NOT NULL,
+        changed_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+      INSERT INTO tenant_discount_history
+        (customer_id, tenant_id, product_key, vendor_name, product_name, action, new_rate, actor)
+      VALUES ('*', '*', 'adobe::*', 'Adobe', '*', 'create', 3, 'admin');
+
+      CREATE TABLE rebilling_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        invoice_no TEXT NOT NULL UNIQUE,
+        status TEXT NOT NULL DEFAULT 'draft',
+        discount_date TEXT,
+        created_by TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        locked_by TEXT,
+        locked_at TEXT
+      );
+      CREATE TABLE rebilling_drafts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL REFERENCES rebilling_runs (id) ON DELETE CASCADE,
+        tenant_id TEXT NOT NULL,
+        customer_name TEXT NOT NULL,
+        customer_reference TEXT,
+        wl_code TEXT,
+        lines_json TEXT NOT NULL,
+        subtotal REAL NOT NULL,
+        vat_amount REAL NOT NULL,
+        total REAL NOT NULL,
+        UNIQUE (run_id, tenant_id)
+      );
+      INSERT INTO rebilling_runs (id, invoice_no, created_by) VALUES (7, 'INV-OLD', 'admin');
+      INSERT INTO rebilling_drafts
+        (run_id, tenant_id, customer_name, lines_json, subtotal, vat_amount, total)
+      VALUES (7, 'tenant-old', 'Iota A/S', '[]', 0, 0, 0);
+
+      CREATE TABLE cf_session (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        access_token TEXT NOT NULL,
+        refresh_token TEXT,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+      INSERT INTO cf_session (id, access_token) VALUES (1, 'old-access-token');
+    `);
+    legacy.close();
+
+    const currentPath = process.env.DISCOUNT_DB_PATH;
+    process.env.DISCOUNT_DB_PATH = legacyPath;
+    vi.resetModules();
+    const { db } = await import("./index.js");
+    process.env.DISCOUNT_DB_PATH = currentPath;
+
+    const read = (sql) => db.prepare(sql).raw().all();
+    expect(
+      read(`SELECT partner_id, customer_id FROM tenant_discounts`),
+    ).toEqual([[PRIMARY_PARTNER, "*"]]);
+    expect(read(`SELECT partner_id FROM tenant_discount_history`)).toEqual([
+      [PRIMARY_PARTNER],
+    ]);
+    expect(
+      read(`SELECT id, partner_id, invoice_no FROM rebilling_runs`),
+    ).toEqual([[7, PRIMARY_PARTNER, "INV-OLD"]]);
+    expect(read(`SELECT run_id, tenant_id FROM rebilling_drafts`)).toEqual([
+      [7, "tenant-old"],
+    ]);
+    expect(read(`SELECT partner_id, access_token FROM cf_session`)).toEqual([
+      [PRIMARY_PARTNER, "old-access-token"],
+    ]);
+    expect(db.pragma("foreign_key_check")).toEqual([]);
+    db.close();
+  });
+});
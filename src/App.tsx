@@ -1,11 +1,43 @@
 // src/App.tsx
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { Link, Route, Routes } from "react-router-dom";
-import { Moon, Sun, Building2 } from "lucide-react";
+import {
+  BookOpen,
+  CalendarClock,
+  Contact,
+  Handshake,
+  Merge,
+  Moon,
+  Package,
+  Percent,
+  Sun,
+  Tags,
+  TrendingUp,
+  Users,
+} from "lucide-react";
 
+import { queryClient } from "./api/queryClient";
 import { BillingSummary } from "./components/BillingSummary";
 import { InvoiceTable } from "./components/InvoiceTable";
+import { PartnerName, PartnerSwitcher } from "./components/PartnerSwitcher";
+import { SessionGate } from "./components/SessionGate";
+import { SessionStatus } from "./components/SessionStatus";
+import { useHasPermission } from "./hooks/useCurrentUser";
+import { AccountingSettingsPage } from "./pages/AccountingSettingsPage";
+import { CustomerDetailPage } from "./pages/CustomerDetailPage";
+import { CustomersPage } from "./pages/CustomersPage";
+import { DiscountImportPage } from "./pages/DiscountImportPage";
+import { InvoiceComparePage } from "./pages/InvoiceComparePage";
 import { InvoiceDetailPage } from "./pages/InvoiceDetailPage";
+import { LoginPage } from "./pages/LoginPage";
+import { MarginRulesPage } from "./pages/MarginRulesPage";
+import { ProductsPage } from "./pages/ProductsPage";
+import { ProductAliasesPage } from "./pages/ProductAliasesPage";
+import { RebillingRunPage } from "./pages/RebillingRunPage";
+import { RenewalsPage } from "./pages/RenewalsPage";
+import { UsersPage } from "./pages/UsersPage";
+import { VendorRulesPage } from "./pages/VendorRulesPage";
+import { WlPartnersPage } from "./pages/WlPartnersPage";
 import {
   useApiHealthStore,
   type ApiHealthStatus,
@@ -14,10 +46,8 @@ import {
   useAmountDisplayStore,
   type AmountDisplayMode,
 } from "./store/useAmountDisplayStore";
-import { useAuthStore } from "./store/useAuthStore";
 import { useDarkModeStore } from "./store/useDarkModeStore";
-
-const queryClient = new QueryClient();
+import { LOGIN_PATH } from "./utils/loginRedirect";
 
 const apiStatusConfig: Record<
   ApiHealthStatus,
@@ -72,122 +102,238 @@ function DashboardPage() {
   );
 }
 
-export default function App() {
+function AppLayout() {
   const apiStatus = useApiHealthStore((state) => state.status);
-  const authError = useAuthStore((state) => state.authError);
   const amountDisplayMode = useAmountDisplayStore((state) => state.mode);
   const setAmountDisplayMode = useAmountDisplayStore((state) => state.setMode);
   const { isDark, toggle: toggleDark } = useDarkModeStore();
+  const canManageUsers = useHasPermission("users:admin");
   const statusCfg = apiStatusConfig[apiStatus] ?? apiStatusConfig.unknown;
 
   return (
-    <QueryClientProvider client={queryClient}>
-      <div className="flex min-h-screen flex-col bg-slate-50 dark:bg-slate-950">
-        {/* ── Top navigation bar ── */}
-        <header className="sticky top-0 z-40 border-b border-slate-200 bg-white/80 backdrop-blur-md dark:border-slate-800 dark:bg-slate-950/80">
-          <div className="mx-auto flex h-14 max-w-6xl items-center gap-3 px-4 sm:px-6 lg:px-8">
-            {/* Brand */}
+    <div className="flex min-h-screen flex-col bg-slate-50 dark:bg-slate-950">
+      {/* ── Top navigation bar ── */}
+      <header className="sticky top-0 z-40 border-b border-slate-200 bg-white/80 backdrop-blur-md dark:border-slate-800 dark:bg-slate-950/80">
+        <div className="mx-auto flex h-14 max-w-6xl items-center gap-3 px-4 sm:px-6 lg:px-8">
+          {/* Brand */}
+          <Link
+            to="/"
+            className="mr-auto flex items-center gap-2.5 rounded-lg p-1 transition-opacity hover:opacity-80"
+            aria-label="Gå til oversigt"
+          >
+            <span className="hidden text-sm font-semibold tracking-tight text-slate-900 dark:text-slate-100 sm:block">
+              Overblik over CF Fakturering
+            </span>
+          </Link>
+
+          {/* Discounts */}
+          <Link
+            to="/discounts/import"
+            className="hidden items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium text-slate-600 transition-colors hover:bg-slate-100 hover:text-slate-900 dark:text-slate-300 dark:hover:bg-slate-800 dark:hover:text-slate-100 sm:inline-flex"
+          >
+            <Percent className="h-3 w-3 text-slate-400" aria-hidden />
+            Rabatter
+          </Link>
+          <Link
+            to="/customers"
+            className="hidden items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium text-slate-600 transition-colors hover:bg-slate-100 hover:text-slate-900 dark:text-slate-300 dark:hover:bg-slate-800 dark:hover:text-slate-100 sm:inline-flex"
+          >
+            <Contact className="h-3 w-3 text-slate-400" aria-hidden />
+            Kunder
+          </Link>
+          <Link
+            to="/products"
+            className="hidden items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium text-slate-600 transition-colors hover:bg-slate-100 hover:text-slate-900 dark:text-slate-300 dark:hover:bg-slate-800 dark:hover:text-slate-100 sm:inline-flex"
+          >
+            <Package className="h-3 w-3 text-slate-400" aria-hidden />
+            Produkter
+          </Link>
+          <Link
+            to="/renewals"
+            className="hidden items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium text-slate-600 transition-colors hover:bg-slate-100 hover:text-slate-900 dark:text-slate-300 dark:hover:bg-slate-800 dark:hover:text-slate-100 sm:inline-flex"
+          >
+            <CalendarClock className="h-3 w-3 text-slate-400" aria-hidden />
+            Fornyelser
+          </Link>
+          <Link
+            to="/settings/accounting"
+            className="hidden items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium text-slate-600 transition-colors hover:bg-slate-100 hover:text-slate-900 dark:text-slate-300 dark:hover:bg-slate-800 dark:hover:text-slate-100 sm:inline-flex"
+          >
+            <BookOpen className="h-3 w-3 text-slate-400" aria-hidden />
+            Bogføring
+          </Link>
+          <Link
+            to="/settings/margins"
+            className="hidden items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium text-slate-600 transition-colors hover:bg-slate-100 hover:text-slate-900 dark:text-slate-300 dark:hover:bg-slate-800 dark:hover:text-slate-100 sm:inline-flex"
+          >
+            <TrendingUp className="h-3 w-3 text-slate-400" aria-hidden />
+            Marginer
+          </Link>
+          <Link
+            to="/settings/vendor-rules"
+            className="hidden items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium text-slate-600 transition-colors hover:bg-slate-100 hover:text-slate-900 dark:text-slate-300 dark:hover:bg-slate-800 dark:hover:text-slate-100 sm:inline-flex"
+          >
+            <Tags className="h-3 w-3 text-slate-400" aria-hidden />
+            Leverandører
+          </Link>
+          <Link
+            to="/settings/product-aliases"
+            className="hidden items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium text-slate-600 transition-colors hover:bg-slate-100 hover:text-slate-900 dark:text-slate-300 dark:hover:bg-slate-800 dark:hover:text-slate-100 sm:inline-flex"
+          >
+            <Merge className="h-3 w-3 text-slate-400" aria-hidden />
+            Produktnavne
+          </Link>
+          <Link
+            to="/settings/wl-partners"
+            className="hidden items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium text-slate-600 transition-colors hover:bg-slate-100 hover:text-slate-900 dark:text-slate-300 dark:hover:bg-slate-800 dark:hover:text-slate-100 sm:inline-flex"
+          >
+            <Handshake className="h-3 w-3 text-slate-400" aria-hidden />
+            WL-partnere
+          </Link>
+          {canManageUsers && (
             <Link
-              to="/"
-              className="mr-auto flex items-center gap-2.5 rounded-lg p-1 transition-opacity hover:opacity-80"
-              aria-label="Gå til oversigt"
+              to="/settings/users"
+              className="hidden items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium text-slate-600 transition-colors hover:bg-slate-100 hover:text-slate-900 dark:text-slate-300 dark:hover:bg-slate-800 dark:hover:text-slate-100 sm:inline-flex"
             >
-              <span className="hidden text-sm font-semibold tracking-tight text-slate-900 dark:text-slate-100 sm:block">
-                Overblik over CF Fakturering
-              </span>
+              <Users className="h-3 w-3 text-slate-400" aria-hidden />
+              Brugere
             </Link>
+          )}
 
-            {/* Company pill */}
-            <div className="hidden items-center gap-1.5 rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-xs font-medium text-slate-600 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 sm:flex">
-              <Building2 className="h-3 w-3 text-slate-400" aria-hidden />
-              ipnordic A/S
-            </div>
-
-            {/* VAT toggle */}
-            <div
-              className="flex items-center gap-0.5 rounded-full border border-slate-200 bg-slate-50 p-0.5 dark:border-slate-700 dark:bg-slate-800"
-              role="group"
-              aria-label="Vis beløb"
-            >
-              {amountDisplayOptions.map((opt) => (
-                <button
-                  key={opt.value}
-                  type="button"
-                  onClick={() => setAmountDisplayMode(opt.value)}
-                  className={`rounded-full px-3 py-1 text-xs font-medium transition-all ${
-                    amountDisplayMode === opt.value
-                      ? "bg-slate-900 text-white shadow-sm dark:bg-slate-100 dark:text-slate-900"
-                      : "text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100"
-                  }`}
-                >
-                  {opt.label}
-                </button>
-              ))}
-            </div>
-
-            {/* API status */}
-            <span
-              role="status"
-              aria-live="polite"
-              data-api-status={apiStatus}
-              className={`hidden items-center gap-1.5 rounded-full border px-2.5 py-1 text-[11px] font-semibold sm:inline-flex ${statusCfg.badge}`}
-            >
-              <span
-                className={`h-1.5 w-1.5 rounded-full ${statusCfg.dot}`}
-                aria-hidden
-              />
-              {statusCfg.label}
-            </span>
+          {/* Partner account */}
+          <PartnerSwitcher />
 
-            {/* Dark mode toggle */}
-            <button
-              type="button"
-              onClick={toggleDark}
-              aria-label={
-                isDark ? "Skift til lyst tema" : "Skift til mørkt tema"
-              }
-              className="flex h-8 w-8 items-center justify-center rounded-full border border-slate-200 bg-slate-50 text-slate-500 transition-colors hover:border-slate-300 hover:text-slate-900 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-400 dark:hover:border-slate-600 dark:hover:text-slate-100"
-            >
-              {isDark ? (
-                <Sun className="h-3.5 w-3.5" aria-hidden />
-              ) : (
-                <Moon className="h-3.5 w-3.5" aria-hidden />
-              )}
-            </button>
-          </div>
-        </header>
-
-        {/* ── Main content ── */}
-        <main className="flex-1 px-4 py-8 scrollbar-thin sm:px-6 lg:px-8">
-          <div className="mx-auto flex max-w-6xl flex-col gap-6">
-            {authError && (
-              <div
-                role="alert"
-                className="flex items-start gap-3 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-800 dark:border-rose-800 dark:bg-rose-950/50 dark:text-rose-300"
+          {/* VAT toggle */}
+          <div
+            className="flex items-center gap-0.5 rounded-full border border-slate-200 bg-slate-50 p-0.5 dark:border-slate-700 dark:bg-slate-800"
+            role="group"
+            aria-label="Vis beløb"
+          >
+            {amountDisplayOptions.map((opt) => (
+              <button
+                key={opt.value}
+                type="button"
+                onClick={() => setAmountDisplayMode(opt.value)}
+                className={`rounded-full px-3 py-1 text-xs font-medium transition-all ${
+                  amountDisplayMode === opt.value
+                    ? "bg-slate-900 text-white shadow-sm dark:bg-slate-100 dark:text-slate-900"
+                    : "text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100"
+                }`}
               >
-                <span className="mt-0.5 text-rose-500">⚠</span>
-                {authError}
-              </div>
+                {opt.label}
+              </button>
+            ))}
+          </div>
+
+          {/* API status */}
+          <span
+            role="status"
+            aria-live="polite"
+            data-api-status={apiStatus}
+            className={`hidden items-center gap-1.5 rounded-full border px-2.5 py-1 text-[11px] font-semibold sm:inline-flex ${statusCfg.badge}`}
+          >
+            <span
+              className={`h-1.5 w-1.5 rounded-full ${statusCfg.dot}`}
+              aria-hidden
+            />
+            {statusCfg.label}
+          </span>
+
+          {/* Session */}
+          <SessionStatus />
+
+          {/* Dark mode toggle */}
+          <button
+            type="button"
+            onClick={toggleDark}
+            aria-label={
+              isDark ? "Skift til lyst tema" : "Skift til mørkt tema"
+            }
+            className="flex h-8 w-8 items-center justify-center rounded-full border border-slate-200 bg-slate-50 text-slate-500 transition-colors hover:border-slate-300 hover:text-slate-900 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-400 dark:hover:border-slate-600 dark:hover:text-slate-100"
+          >
+            {isDark ? (
+              <Sun className="h-3.5 w-3.5" aria-hidden />
+            ) : (
+              <Moon className="h-3.5 w-3.5" aria-hidden />
             )}
+          </button>
+        </div>
+      </header>
 
-            <Routes>
-              <Route path="/" element={<DashboardPage />} />
-              <Route
-                path="/invoices/:invoiceNo"
-                element={<InvoiceDetailPage />}
-              />
-            </Routes>
-          </div>
-        </main>
+      {/* ── Main content ── */}
+      <main className="flex-1 px-4 py-8 scrollbar-thin sm:px-6 lg:px-8">
+        <div className="mx-auto flex max-w-6xl flex-col gap-6">
+          <Routes>
+            <Route path="/" element={<DashboardPage />} />
+            <Route
+              path="/invoices/:invoiceNo"
+              element={<InvoiceDetailPage />}
+            />
+            <Route
+              path="/invoices/:invoiceNo/rebilling"
+              element={<RebillingRunPage />}
+            />
+            <Route
+              path="/compare/:invoiceA/:invoiceB"
+              element={<InvoiceComparePage />}
+            />
+            <Route path="/customers" element={<CustomersPage />} />
+            <Route
+              path="/customers/:customerId"
+              element={<CustomerDetailPage />}
+            />
+            <Route
+              path="/discounts/import"
+              element={<DiscountImportPage />}
+            />
+            <Route path="/products" element={<ProductsPage />} />
+            <Route path="/renewals" element={<RenewalsPage />} />
+            <Route
+              path="/settings/accounting"
+              element={<AccountingSettingsPage />}
+            />
+            <Route path="/settings/margins" element={<MarginRulesPage />} />
+            <Route
+              path="/settings/product-aliases"
+              element={<ProductAliasesPage />}
+            />
+            <Route path="/settings/users" element={<UsersPage />} />
+            <Route
+              path="/settings/vendor-rules"
+              element={<VendorRulesPage />}
+            />
+            <Route path="/settings/wl-partners" element={<WlPartnersPage />} />
+          </Routes>
+        </div>
+      </main>
 
-        {/* ── Footer ── */}
-        <footer className="border-t border-slate-200 px-4 py-4 dark:border-slate-800 sm:px-6 lg:px-8">
-          <div className="mx-auto flex max-w-6xl items-center justify-between text-[11px] text-slate-400 dark:text-slate-600">
-            <span>Partner Billing — ipnordic A/S</span>
-            <span>Cloud Factory Billing API</span>
-          </div>
-        </footer>
-      </div>
+      {/* ── Footer ── */}
+      <footer className="border-t border-slate-200 px-4 py-4 dark:border-slate-800 sm:px-6 lg:px-8">
+        <div className="mx-auto flex max-w-6xl items-center justify-between text-[11px] text-slate-400 dark:text-slate-600">
+          <span>
+            Partner Billing — <PartnerName />
+          </span>
+          <span>Cloud Factory Billing API</span>
+        </div>
+      </footer>
+    </div>
+  );
+}
+
+export default function App() {
+  return (
+    <QueryClientProvider client={queryClient}>
+      <Routes>
+        <Route path={LOGIN_PATH} element={<LoginPage />} />
+        <Route
+          path="*"
+          element={
+            <SessionGate>
+              <AppLayout />
+            </SessionGate>
+          }
+        />
+      </Routes>
     </QueryClientProvider>
   );
 }
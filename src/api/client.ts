@@ -1,6 +1,6 @@
 // src/api/client.ts
 import axios, { AxiosError } from "axios";
-import type { InternalAxiosRequestConfig } from "axios";
+import { CF_SESSION_QUERY_KEY } from "../hooks/useCfSession";
 import { useAuthStore } from "../store/useAuthStore";
 import {
   markApiConnected,
@@ -8,25 +8,14 @@ import {
   isClientErrorStatus,
   isServerErrorStatus,
 } from "../store/useApiHealthStore";
+import { queryClient } from "./queryClient";
 
-type RetryableRequestConfig = InternalAxiosRequestConfig & {
-  _retry?: boolean;
-};
-
+// Billing calls go through the server's Cloud Factory proxy, which attaches
+// the partner token and renews it when it expires.
 export const apiClient = axios.create({
-  baseURL: "https://portal.api.cloudfactory.dk/billing",
+  baseURL: "/api/cf",
 });
 
-// 1. Request Interceptor: Attach the current Access Token
-apiClient.interceptors.request.use((config) => {
-  const token = useAuthStore.getState().accessToken;
-  if (token) {
-    config.headers.Authorization = `Bearer ${token}`;
-  }
-  return config;
-});
-
-// 2. Response Interceptor: Handle 401 Unauthorized errors
 const shouldMarkDisconnected = (error: AxiosError | undefined) => {
   if (!error) return false;
   if (!error.response) return true;
@@ -49,60 +38,20 @@ apiClient.interceptors.response.use(
     useAuthStore.getState().setAuthError(null);
     return response;
   },
-  async (error: AxiosError) => {
-    const originalRequest = error.config as RetryableRequestConfig | undefined;
-    const refreshToken = useAuthStore.getState().refreshToken;
-
-    if (!originalRequest) {
-      handleConnectivityError(error);
-      return Promise.reject(error);
-    }
-
-    // If the error is 401 and we haven't retried yet
-    if (
-      error.response?.status === 401 &&
-      !originalRequest._retry &&
-      refreshToken
-    ) {
-      originalRequest._retry = true;
+  async (error: AxiosError<{ message?: string }>) => {
+    handleConnectivityError(error);
 
-      try {
-        const encodedRefreshToken = encodeURIComponent(refreshToken);
-        // Call the specific Cloud Factory refresh endpoint
-        const { data } = await axios.get(
-          `https://portal.api.cloudfactory.dk/Authenticate/ExchangeRefreshToken/${encodedRefreshToken}`,
+    // The proxy answers 401 once the refresh token is rejected too; the
+    // session query then sends the user back to the login screen.
+    if (error.response?.status === 401) {
+      useAuthStore
+        .getState()
+        .setAuthError(
+          error.response.data?.message ??
+            "Din session er udløbet eller ugyldig. Log ind igen.",
         );
-
-        const refreshedAccessToken =
-          data?.access_token ?? data?.accessToken ?? data?.token;
-        const refreshedRefreshToken =
-          data?.refresh_token ?? data?.refreshToken ?? refreshToken;
-
-        if (!refreshedAccessToken) {
-          throw new Error("Refresh response missing access token");
-        }
-
-        // Update the store with new tokens
-        useAuthStore
-          .getState()
-          .setTokens(refreshedAccessToken, refreshedRefreshToken);
-
-        // Retry the original request with the new token
-        originalRequest.headers.Authorization = `Bearer ${refreshedAccessToken}`;
-        return apiClient(originalRequest);
-      } catch (refreshError) {
-        handleConnectivityError(refreshError);
-        // If refresh fails, log the user out
-        useAuthStore.getState().logout();
-        useAuthStore
-          .getState()
-          .setAuthError(
-            "Din session er udløbet eller ugyldig. Opdater ACCESS/REFRESH token og prøv igen.",
-          );
-        return Promise.reject(refreshError);
-      }
+      await queryClient.invalidateQueries({ queryKey: CF_SESSION_QUERY_KEY });
     }
-    handleConnectivityError(error);
     return Promise.reject(error);
   },
 );
@@ -0,0 +1,6 @@
+// src/api/queryClient.ts
+import { QueryClient } from "@tanstack/react-query";
+
+// Shared with the axios interceptors so a lost Cloud Factory session can
+// refresh the session query from outside React.
+export const queryClient = new QueryClient();
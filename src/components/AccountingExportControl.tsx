@@ -0,0 +1,103 @@
+// src/components/AccountingExportControl.tsx
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { AlertTriangle, BookOpen } from "lucide-react";
+import { useAccountingMappings } from "../hooks/useAccountingMappings";
+import {
+  ACCOUNTING_SYSTEMS,
+  accountingSystemLabels,
+  buildAccountingExport,
+  buildJournalLines,
+  type AccountingSystem,
+} from "../utils/accountingExport";
+import { downloadBlob, toSafeFileName } from "../utils/download";
+import type { ResaleExportRow } from "../utils/resaleExport";
+import { Button } from "./ui/Button";
+
+interface Props {
+  invoiceNo: string;
+  postingDate: string;
+  buildRows: () => ResaleExportRow[];
+  disabled?: boolean;
+}
+
+export const AccountingExportControl = ({
+  invoiceNo,
+  postingDate,
+  buildRows,
+  disabled,
+}: Props) => {
+  const [system, setSystem] = useState<AccountingSystem>("economic");
+  const [unmappedVendors, setUnmappedVendors] = useState<string[]>([]);
+  const { mappingsQuery } = useAccountingMappings(system);
+
+  const handleExport = () => {
+    const { lines, unmappedVendors: missing } = buildJournalLines(
+      buildRows(),
+      mappingsQuery.data ?? [],
+      { date: postingDate.slice(0, 10), documentNo: invoiceNo },
+    );
+    setUnmappedVendors(missing);
+    if (missing.length > 0) return;
+
+    const file = buildAccountingExport(system, lines);
+    downloadBlob(
+      new Blob([file.content], { type: file.mimeType }),
+      `${toSafeFileName(`bogfoering-${system}-${invoiceNo}`)}.${file.extension}`,
+    );
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex items-center gap-1">
+        <select
+          value={system}
+          onChange={(event) => {
+            setSystem(event.target.value as AccountingSystem);
+            setUnmappedVendors([]);
+          }}
+          aria-label="Bogføringssystem"
+          className="h-7 rounded-lg border border-slate-200 bg-white px-1.5 text-[11px] text-slate-700 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300"
+        >
+          {ACCOUNTING_SYSTEMS.map((option) => (
+            <option key={option} value={option}>
+              {accountingSystemLabels[option]}
+            </option>
+          ))}
+        </select>
+        <Button
+          size="xs"
+          variant="outline"
+          leftIcon={<BookOpen className="h-3 w-3" />}
+          onClick={handleExport}
+          disabled={disabled || mappingsQuery.isLoading}
+          title="Eksportér bogføringslinjer for kunderne i det aktuelle filter"
+        >
+          Kladde
+        </Button>
+      </div>
+      {mappingsQuery.isError && (
+        <p className="text-[11px] font-medium text-rose-600 dark:text-rose-400">
+          Kunne ikke hente kontoopsætning.
+        </p>
+      )}
+      {unmappedVendors.length > 0 && (
+        <p
+          role="alert"
+          className="flex max-w-72 items-start gap-1 text-right text-[11px] font-medium text-amber-700 dark:text-amber-400"
+        >
+          <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" aria-hidden />
+          <span>
+            Mangler konto for {unmappedVendors.join(", ")}.{" "}
+            <Link
+              to="/settings/accounting"
+              className="underline hover:text-amber-900 dark:hover:text-amber-300"
+            >
+              Opsæt konti
+            </Link>
+          </span>
+        </p>
+      )}
+    </div>
+  );
+};
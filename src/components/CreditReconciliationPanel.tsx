@@ -0,0 +1,348 @@
+// src/components/CreditReconciliationPanel.tsx
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { AlertTriangle, Download, Search } from "lucide-react";
+import { buildCsv } from "../utils/csv";
+import {
+  reconcileCredits,
+  totalCredits,
+  type CreditLine,
+  type MatchedCharge,
+} from "../utils/creditReconciliation";
+import type { CustomerCard } from "../utils/customerGrouping";
+import { downloadBlob, toSafeFileName } from "../utils/download";
+import type { DiscountLookup } from "../utils/resaleExport";
+import { Button } from "./ui/Button";
+
+type MatchFilter = "all" | "unmatched";
+
+const matchFilters: Array<{ value: MatchFilter; label: string }> = [
+  { value: "all", label: "Alle krediteringer" },
+  { value: "unmatched", label: "Uden modpost" },
+];
+
+const currencyFormatter = new Intl.NumberFormat("da-DK", {
+  style: "currency",
+  currency: "DKK",
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+const quantityFormatter = new Intl.NumberFormat("da-DK", {
+  maximumFractionDigits: 2,
+});
+
+const formatCurrency = (value: number) => currencyFormatter.format(value);
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("da-DK", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+const formatPeriod = ({
+  startDate,
+  endDate,
+}: Pick<CreditLine | MatchedCharge, "startDate" | "endDate">) =>
+  startDate && endDate
+    ? `${formatDate(startDate)} – ${formatDate(endDate)}`
+    : "—";
+
+const CSV_COLUMNS = [
+  { header: "Kunde" },
+  { header: "Tenant-id" },
+  { header: "Leverandør" },
+  { header: "Produkt" },
+  { header: "SKU" },
+  { header: "Abonnement" },
+  { header: "Antal" },
+  { header: "Fra" },
+  { header: "Til" },
+  { header: "Kostpris" },
+  { header: "Listepris" },
+  { header: "Rabat %" },
+  { header: "Salgspris" },
+  { header: "Modpost" },
+];
+
+const buildCreditsCsv = (credits: CreditLine[]) =>
+  buildCsv(
+    CSV_COLUMNS,
+    credits.map((credit) => [
+      credit.customerName,
+      credit.tenantId,
+      credit.vendorName,
+      credit.productName,
+      credit.skuId,
+      credit.subscriptionId,
+      credit.quantity,
+      credit.startDate ?? "",
+      credit.endDate ?? "",
+      credit.costAmount,
+      credit.retailAmount,
+      credit.discountRate,
+      credit.resaleAmount,
+      credit.matchedCharge
+        ? `${credit.matchedCharge.quantity} licenser, ${formatPeriod(credit.matchedCharge)}`
+        : "Ingen",
+    ]),
+  );
+
+interface Props {
+  invoiceNumber: string;
+  customers: CustomerCard[];
+  getDiscountRate: DiscountLookup;
+}
+
+// Refund and credit lines on the invoice with the charge each one reverses.
+// Credits without a charge on the invoice reverse something billed earlier,
+// so they have to be passed on to the end customer.
+export const CreditReconciliationPanel = ({
+  invoiceNumber,
+  customers,
+  getDiscountRate,
+}: Props) => {
+  const [matchFilter, setMatchFilter] = useState<MatchFilter>("all");
+  const [search, setSearch] = useState("");
+
+  const summaries = useMemo(
+    () => reconcileCredits(customers, getDiscountRate),
+    [customers, getDiscountRate],
+  );
+  const totals = useMemo(() => totalCredits(summaries), [summaries]);
+
+  const visibleSummaries = useMemo(() => {
+    const normalizedSearch = search.trim().toLowerCase();
+    return summaries.flatMap((summary) => {
+      const credits = summary.credits.filter(
+        (credit) =>
+          (matchFilter === "all" || !credit.matchedCharge) &&
+          (!normalizedSearch ||
+            [credit.customerName, credit.vendorName, credit.productName].some(
+              (value) => value.toLowerCase().includes(normalizedSearch),
+            )),
+      );
+      return credits.length > 0 ? [{ ...summary, credits }] : [];
+    });
+  }, [matchFilter, search, summaries]);
+  const visibleCredits = visibleSummaries.flatMap(
+    (summary) => summary.credits,
+  );
+
+  return (
+    <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+      <div className="flex flex-col gap-3 border-b border-slate-100 p-4 dark:border-slate-800">
+        <dl className="grid grid-cols-2 gap-3 text-xs sm:grid-cols-4">
+          <div>
+            <dt className="text-slate-500 dark:text-slate-400">
+              Krediteringer
+            </dt>
+            <dd className="tabular text-sm font-semibold text-slate-900 dark:text-slate-100">
+              {totals.creditCount}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-slate-500 dark:text-slate-400">
+              Krediteret i alt (kostpris)
+            </dt>
+            <dd className="tabular text-sm font-semibold text-slate-900 dark:text-slate-100">
+              {formatCurrency(totals.creditedAmount)}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-slate-500 dark:text-slate-400">Uden modpost</dt>
+            <dd
+              className={`tabular text-sm font-semibold ${
+                totals.unmatchedCount > 0
+                  ? "text-amber-600 dark:text-amber-400"
+                  : "text-slate-900 dark:text-slate-100"
+              }`}
+            >
+              {totals.unmatchedCount}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-slate-500 dark:text-slate-400">
+              Skal videregives (salgspris)
+            </dt>
+            <dd className="tabular text-sm font-semibold text-slate-900 dark:text-slate-100">
+              {formatCurrency(totals.unmatchedResaleAmount)}
+            </dd>
+          </div>
+        </dl>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div
+            className="flex flex-wrap gap-1.5"
+            role="group"
+            aria-label="Modpost"
+          >
+            {matchFilters.map((filter) => (
+              <button
+                key={filter.value}
+                type="button"
+                onClick={() => setMatchFilter(filter.value)}
+                className={`inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs font-semibold transition-all ${
+                  matchFilter === filter.value
+                    ? "border-blue-500 bg-blue-50 text-blue-700 dark:border-blue-600 dark:bg-blue-950/60 dark:text-blue-400"
+                    : "border-slate-200 bg-white text-slate-600 hover:border-slate-300 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-400"
+                }`}
+              >
+                {filter.label}
+                <span className="text-[10px] font-medium text-slate-400">
+                  {filter.value === "all"
+                    ? totals.creditCount
+                    : totals.unmatchedCount}
+                </span>
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="relative w-full max-w-xs">
+              <Search
+                className="pointer-events-none absolute left-3 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-slate-400"
+                aria-hidden
+              />
+              <input
+                className="h-9 w-full rounded-xl border border-slate-200 bg-slate-50 pl-9 pr-3 text-sm text-slate-900 placeholder:text-slate-400 focus:border-blue-500 focus:bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:placeholder:text-slate-500 dark:focus:bg-slate-700"
+                placeholder="Søg kunde, leverandør eller produkt…"
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+              />
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              leftIcon={<Download className="h-3.5 w-3.5" />}
+              disabled={visibleCredits.length === 0}
+              onClick={() =>
+                downloadBlob(
+                  new Blob([buildCreditsCsv(visibleCredits)], {
+                    type: "text/csv;charset=utf-8",
+                  }),
+                  `krediteringer-${toSafeFileName(invoiceNumber)}.csv`,
+                )
+              }
+            >
+              CSV
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {visibleSummaries.length === 0 ? (
+        <p className="p-6 text-center text-xs text-slate-500 dark:text-slate-400">
+          {summaries.length === 0
+            ? "Fakturaen har ingen krediteringer."
+            : "Ingen krediteringer matcher filteret."}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+              <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                <th className="px-4 py-2 text-left">Produkt</th>
+                <th className="px-4 py-2 text-left">Periode</th>
+                <th className="px-4 py-2 text-right">Antal</th>
+                <th className="px-4 py-2 text-right">Kostpris</th>
+                <th className="px-4 py-2 text-right">Salgspris</th>
+                <th className="px-4 py-2 text-left">Modpost</th>
+              </tr>
+            </thead>
+            {visibleSummaries.map((summary) => (
+              <tbody
+                key={summary.tenantId}
+                className="divide-y divide-slate-100 border-t border-slate-200 dark:divide-slate-800 dark:border-slate-700"
+              >
+                <tr className="bg-slate-50/60 dark:bg-slate-800/30">
+                  <td colSpan={6} className="px-4 py-2">
+                    <div className="flex flex-wrap items-baseline justify-between gap-2">
+                      <span className="font-semibold text-slate-900 dark:text-slate-100">
+                        {summary.customerId === null ? (
+                          summary.customerName
+                        ) : (
+                          <Link
+                            to={`/customers/${summary.customerId}`}
+                            className="text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300"
+                          >
+                            {summary.customerName}
+                          </Link>
+                        )}
+                      </span>
+                      <span className="flex flex-wrap gap-x-4 text-[11px] text-slate-500 dark:text-slate-400">
+                        <span>
+                          Opkrævet {formatCurrency(summary.chargedAmount)}
+                        </span>
+                        <span>
+                          Krediteret {formatCurrency(summary.creditedAmount)}
+                        </span>
+                        <span className="font-semibold text-slate-700 dark:text-slate-200">
+                          Netto {formatCurrency(summary.netAmount)}
+                        </span>
+                        {summary.unmatchedResaleAmount !== 0 && (
+                          <span className="font-semibold text-amber-600 dark:text-amber-400">
+                            Videregiv{" "}
+                            {formatCurrency(summary.unmatchedResaleAmount)}
+                          </span>
+                        )}
+                      </span>
+                    </div>
+                  </td>
+                </tr>
+                {summary.credits.map((credit) => (
+                  <tr
+                    key={credit.key}
+                    className="text-slate-700 dark:text-slate-300"
+                  >
+                    <td className="px-4 py-2">
+                      <span className="block">{credit.productName}</span>
+                      <span className="text-[11px] text-slate-400">
+                        {credit.vendorName} ·{" "}
+                        <span className="font-mono">{credit.skuId}</span>
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-slate-500 dark:text-slate-400">
+                      {formatPeriod(credit)}
+                    </td>
+                    <td className="tabular px-4 py-2 text-right">
+                      {quantityFormatter.format(credit.quantity)}
+                    </td>
+                    <td className="tabular px-4 py-2 text-right text-rose-600 dark:text-rose-400">
+                      {formatCurrency(credit.costAmount)}
+                    </td>
+                    <td className="tabular px-4 py-2 text-right">
+                      {formatCurrency(credit.resaleAmount)}
+                      {credit.discountRate > 0 && (
+                        <span className="block text-[10px] text-slate-400">
+                          efter {quantityFormatter.format(credit.discountRate)}
+                          % rabat
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      {credit.matchedCharge ? (
+                        <span className="text-[11px] text-slate-500 dark:text-slate-400">
+                          Modregnet i{" "}
+                          {quantityFormatter.format(
+                            credit.matchedCharge.quantity,
+                          )}{" "}
+                          licenser, {formatPeriod(credit.matchedCharge)} (
+                          {formatCurrency(credit.matchedCharge.amount)})
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center gap-1 rounded-full bg-amber-50 px-2 py-0.5 text-[10px] font-semibold text-amber-700 ring-1 ring-amber-200 dark:bg-amber-950/60 dark:text-amber-400 dark:ring-amber-800">
+                          <AlertTriangle className="h-2.5 w-2.5" aria-hidden />
+                          Ingen modpost – videregiv til kunden
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            ))}
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
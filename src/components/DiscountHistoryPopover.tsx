@@ -0,0 +1,159 @@
+// src/components/DiscountHistoryPopover.tsx
+import { useEffect, useRef, useState } from "react";
+import { History, X } from "lucide-react";
+import {
+  useDiscountHistory,
+  type DiscountHistoryEntry,
+} from "../hooks/useDiscountHistory";
+import { Skeleton } from "./ui/Skeleton";
+
+interface Props {
+  tenantId: string;
+  vendorName: string;
+  productName: string;
+}
+
+const actionLabels: Record<DiscountHistoryEntry["action"], string> = {
+  create: "Oprettet",
+  update: "Ændret",
+  delete: "Slettet",
+};
+
+const formatRate = (value: number | null) =>
+  value === null ? "—" : `${value.toLocaleString("da-DK")}%`;
+
+// SQLite stores CURRENT_TIMESTAMP as UTC without a zone marker.
+const formatChangedAt = (value: string) => {
+  const parsed = new Date(`${value.replace(" ", "T")}Z`);
+  if (Number.isNaN(parsed.getTime())) return value;
+  return parsed.toLocaleString("da-DK", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+export const DiscountHistoryPopover = ({
+  tenantId,
+  vendorName,
+  productName,
+}: Props) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const {
+    data: history = [],
+    isLoading,
+    isError,
+  } = useDiscountHistory({ tenantId, vendorName, productName }, isOpen);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsOpen(false);
+    };
+
+    document.addEventListener("mousedown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative inline-flex">
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        aria-expanded={isOpen}
+        aria-label={`Rabathistorik for ${productName}`}
+        title="Rabathistorik"
+        className="flex h-6 w-6 items-center justify-center rounded-full text-slate-400 transition-colors hover:bg-blue-100 hover:text-blue-700 dark:hover:bg-blue-950/60 dark:hover:text-blue-400"
+      >
+        <History className="h-3.5 w-3.5" aria-hidden />
+      </button>
+      {isOpen && (
+        <div
+          role="dialog"
+          aria-label={`Rabathistorik for ${productName}`}
+          className="absolute right-0 top-7 z-30 w-80 rounded-xl border border-slate-200 bg-white p-3 text-left shadow-lg dark:border-slate-700 dark:bg-slate-900"
+        >
+          <div className="mb-2 flex items-start justify-between gap-2">
+            <div>
+              <p className="text-xs font-semibold text-slate-800 dark:text-slate-200">
+                Rabathistorik
+              </p>
+              <p className="text-[10px] text-slate-500 dark:text-slate-400">
+                {vendorName} · {productName}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              aria-label="Luk"
+              className="rounded-full p-0.5 text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+            >
+              <X className="h-3.5 w-3.5" aria-hidden />
+            </button>
+          </div>
+
+          <div className="max-h-56 space-y-1.5 overflow-y-auto scrollbar-thin">
+            {isLoading && (
+              <>
+                <Skeleton className="h-8 w-full" />
+                <Skeleton className="h-8 w-full" />
+              </>
+            )}
+            {isError && (
+              <p className="text-[11px] font-medium text-rose-600 dark:text-rose-400">
+                Kunne ikke hente historik.
+              </p>
+            )}
+            {!isLoading && !isError && history.length === 0 && (
+              <p className="text-[11px] text-slate-500 dark:text-slate-400">
+                Ingen ændringer registreret endnu.
+              </p>
+            )}
+            {history.map((entry) => (
+              <div
+                key={entry.id}
+                className="rounded-lg bg-slate-50 px-2.5 py-1.5 text-[11px] dark:bg-slate-800/60"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold text-slate-700 dark:text-slate-300">
+                    {actionLabels[entry.action] ?? entry.action}
+                  </span>
+                  <span className="font-mono text-slate-700 dark:text-slate-300">
+                    {formatRate(entry.oldRate)} → {formatRate(entry.newRate)}
+                  </span>
+                </div>
+                {entry.validFrom && (
+                  <p className="mt-0.5 text-[10px] text-slate-500 dark:text-slate-400">
+                    Gældende fra{" "}
+                    {new Date(entry.validFrom).toLocaleDateString("da-DK", {
+                      day: "2-digit",
+                      month: "short",
+                      year: "numeric",
+                    })}
+                  </p>
+                )}
+                <div className="mt-0.5 flex items-center justify-between gap-2 text-[10px] text-slate-500 dark:text-slate-400">
+                  <span className="truncate">{entry.actor}</span>
+                  <span>{formatChangedAt(entry.changedAt)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,305 @@
+// src/components/LicenseChangesPanel.tsx
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Download, FileSearch, Search } from "lucide-react";
+import { useInvoiceDetail } from "../hooks/useInvoiceDetail";
+import type { Invoice, InvoiceDetail } from "../types/invoice";
+import {
+  translateBillingFrequency,
+  translateCommitmentTerm,
+} from "../utils/billingLabels";
+import { buildCsv } from "../utils/csv";
+import { downloadBlob, toSafeFileName } from "../utils/download";
+import {
+  LICENSE_CHANGE_TYPES,
+  countLicenseChanges,
+  detectLicenseChanges,
+  licenseChangeLabels,
+  type LicenseChange,
+  type LicenseChangeType,
+} from "../utils/licenseChanges";
+import { Button } from "./ui/Button";
+import { Skeleton } from "./ui/Skeleton";
+
+type TypeFilter = LicenseChangeType | "all";
+
+const changeBadges: Record<LicenseChangeType, string> = {
+  "new-subscription":
+    "bg-emerald-50 text-emerald-700 ring-emerald-200 dark:bg-emerald-950/60 dark:text-emerald-400 dark:ring-emerald-800",
+  "seat-increase":
+    "bg-blue-50 text-blue-700 ring-blue-200 dark:bg-blue-950/60 dark:text-blue-400 dark:ring-blue-800",
+  "seat-decrease":
+    "bg-amber-50 text-amber-700 ring-amber-200 dark:bg-amber-950/60 dark:text-amber-400 dark:ring-amber-800",
+  cancellation:
+    "bg-rose-50 text-rose-700 ring-rose-200 dark:bg-rose-950/60 dark:text-rose-400 dark:ring-rose-800",
+  "billing-change":
+    "bg-violet-50 text-violet-700 ring-violet-200 dark:bg-violet-950/60 dark:text-violet-400 dark:ring-violet-800",
+  "commitment-change":
+    "bg-violet-50 text-violet-700 ring-violet-200 dark:bg-violet-950/60 dark:text-violet-400 dark:ring-violet-800",
+};
+
+const quantityFormatter = new Intl.NumberFormat("da-DK", {
+  maximumFractionDigits: 2,
+});
+
+const formatDelta = (value: number) =>
+  value > 0
+    ? `+${quantityFormatter.format(value)}`
+    : quantityFormatter.format(value);
+
+const describeTermChange = (change: LicenseChange) => {
+  const translate =
+    change.type === "billing-change"
+      ? translateBillingFrequency
+      : translateCommitmentTerm;
+  return `${translate(change.previousValue)} → ${translate(change.value)}`;
+};
+
+const CSV_COLUMNS = [
+  { header: "Kunde" },
+  { header: "Tenant-id" },
+  { header: "Reference" },
+  { header: "Leverandør" },
+  { header: "Produkt" },
+  { header: "Ændring" },
+  { header: "Licenser før" },
+  { header: "Licenser nu" },
+  { header: "Forskel" },
+  { header: "Detalje" },
+];
+
+const buildChangesCsv = (changes: LicenseChange[]) =>
+  buildCsv(
+    CSV_COLUMNS,
+    changes.map((change) => [
+      change.tenantName,
+      change.tenantId,
+      change.customerReference,
+      change.vendorName,
+      change.productName,
+      licenseChangeLabels[change.type],
+      change.previousQuantity,
+      change.quantity,
+      change.delta,
+      change.previousValue ? describeTermChange(change) : "",
+    ]),
+  );
+
+interface Props {
+  detail: InvoiceDetail;
+  previousInvoice: Invoice | null;
+}
+
+// License changes since the previous invoice, for sales follow-up. The
+// previous invoice is only fetched once the tab is opened.
+export const LicenseChangesPanel = ({ detail, previousInvoice }: Props) => {
+  const { data: previousDetail, isLoading, isError } = useInvoiceDetail(
+    previousInvoice?.invoiceNumber ?? null,
+  );
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>("all");
+  const [search, setSearch] = useState("");
+
+  const changes = useMemo(
+    () =>
+      previousDetail
+        ? detectLicenseChanges(previousDetail.tenants, detail.tenants)
+        : [],
+    [detail.tenants, previousDetail],
+  );
+  const counts = useMemo(() => countLicenseChanges(changes), [changes]);
+
+  const visibleChanges = useMemo(() => {
+    const normalizedSearch = search.trim().toLowerCase();
+    return changes.filter((change) => {
+      if (typeFilter !== "all" && change.type !== typeFilter) return false;
+      if (!normalizedSearch) return true;
+      return [
+        change.tenantName,
+        change.customerReference,
+        change.vendorName,
+        change.productName,
+      ].some((value) => value.toLowerCase().includes(normalizedSearch));
+    });
+  }, [changes, search, typeFilter]);
+
+  if (!previousInvoice) {
+    return (
+      <div className="flex flex-col items-center gap-3 rounded-2xl border border-slate-200 bg-white py-14 text-center dark:border-slate-800 dark:bg-slate-900">
+        <span className="flex h-12 w-12 items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-800">
+          <FileSearch className="h-5 w-5 text-slate-400 dark:text-slate-500" />
+        </span>
+        <p className="text-sm font-medium text-slate-600 dark:text-slate-400">
+          Ingen tidligere faktura
+        </p>
+        <p className="text-xs text-slate-400 dark:text-slate-500">
+          Ændringer vises, når der findes en faktura før denne.
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-14 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !previousDetail) {
+    return (
+      <div
+        role="alert"
+        className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-800 dark:border-rose-800 dark:bg-rose-950/50 dark:text-rose-300"
+      >
+        Kunne ikke hente faktura {previousInvoice.invoiceNumber}.
+      </div>
+    );
+  }
+
+  return (
+    <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+      <div className="flex flex-col gap-3 border-b border-slate-100 p-4 dark:border-slate-800">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {changes.length} ændringer siden{" "}
+            <Link
+              to={`/invoices/${encodeURIComponent(previousInvoice.invoiceNumber)}`}
+              className="font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              faktura {previousInvoice.invoiceNumber}
+            </Link>
+          </p>
+          <div className="flex items-center gap-2">
+            <div className="relative w-full max-w-xs">
+              <Search
+                className="pointer-events-none absolute left-3 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-slate-400"
+                aria-hidden
+              />
+              <input
+                className="h-9 w-full rounded-xl border border-slate-200 bg-slate-50 pl-9 pr-3 text-sm text-slate-900 placeholder:text-slate-400 focus:border-blue-500 focus:bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:placeholder:text-slate-500 dark:focus:bg-slate-700"
+                placeholder="Søg kunde, reference eller produkt…"
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+              />
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              leftIcon={<Download className="h-3.5 w-3.5" />}
+              disabled={visibleChanges.length === 0}
+              onClick={() =>
+                downloadBlob(
+                  new Blob([buildChangesCsv(visibleChanges)], {
+                    type: "text/csv;charset=utf-8",
+                  }),
+                  `licensaendringer-${toSafeFileName(detail.invoiceNumber)}.csv`,
+                )
+              }
+            >
+              CSV
+            </Button>
+          </div>
+        </div>
+        <div
+          className="flex flex-wrap gap-1.5"
+          role="group"
+          aria-label="Ændringstype"
+        >
+          {(["all", ...LICENSE_CHANGE_TYPES] as TypeFilter[]).map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => setTypeFilter(type)}
+              className={`inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs font-semibold transition-all ${
+                typeFilter === type
+                  ? "border-blue-500 bg-blue-50 text-blue-700 dark:border-blue-600 dark:bg-blue-950/60 dark:text-blue-400"
+                  : "border-slate-200 bg-white text-slate-600 hover:border-slate-300 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-400"
+              }`}
+            >
+              {type === "all" ? "Alle" : licenseChangeLabels[type]}
+              <span className="text-[10px] font-medium text-slate-400">
+                {type === "all" ? changes.length : counts[type]}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {visibleChanges.length === 0 ? (
+        <p className="p-6 text-center text-xs text-slate-500 dark:text-slate-400">
+          {changes.length === 0
+            ? "Ingen licensændringer siden sidste faktura."
+            : "Ingen ændringer matcher filteret."}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+              <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                <th className="px-4 py-2 text-left">Kunde</th>
+                <th className="px-4 py-2 text-left">Produkt</th>
+                <th className="px-4 py-2 text-left">Ændring</th>
+                <th className="px-4 py-2 text-right">Licenser</th>
+                <th className="px-4 py-2 text-right">Forskel</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {visibleChanges.map((change) => (
+                <tr
+                  key={change.key}
+                  className="text-slate-700 dark:text-slate-300"
+                >
+                  <td className="px-4 py-2">
+                    <span className="block font-medium">
+                      {change.tenantName}
+                    </span>
+                    {change.customerReference && (
+                      <span className="text-[11px] text-slate-400">
+                        {change.customerReference}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    <span className="block">{change.productName}</span>
+                    <span className="text-[11px] text-slate-400">
+                      {change.vendorName}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2">
+                    <span
+                      className={`inline-flex rounded-full px-2 py-0.5 text-[10px] font-semibold ring-1 ${changeBadges[change.type]}`}
+                    >
+                      {licenseChangeLabels[change.type]}
+                    </span>
+                    {change.previousValue && (
+                      <span className="ml-2 text-[11px] text-slate-500 dark:text-slate-400">
+                        {describeTermChange(change)}
+                      </span>
+                    )}
+                  </td>
+                  <td className="tabular px-4 py-2 text-right text-slate-500 dark:text-slate-400">
+                    {quantityFormatter.format(change.previousQuantity)} →{" "}
+                    {quantityFormatter.format(change.quantity)}
+                  </td>
+                  <td
+                    className={`tabular px-4 py-2 text-right font-semibold ${
+                      change.delta > 0
+                        ? "text-emerald-600 dark:text-emerald-400"
+                        : change.delta < 0
+                          ? "text-rose-600 dark:text-rose-400"
+                          : "text-slate-400 dark:text-slate-500"
+                    }`}
+                  >
+                    {formatDelta(change.delta)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,294 @@
+// src/components/MarginPanel.tsx
+import { useMemo, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { useMarginThresholdStore } from "../store/useMarginThresholdStore";
+import type { CustomerCard } from "../utils/customerGrouping";
+import {
+  buildMarginLines,
+  classifyMargin,
+  marginLevelLabels,
+  summarizeMarginsByWl,
+  totalMargins,
+  type MarginLevel,
+  type MarginLine,
+  type MarginStatus,
+} from "../utils/marginAnalysis";
+import {
+  buildResaleExportRows,
+  type DiscountLookup,
+} from "../utils/resaleExport";
+import type { WlPartnerMap } from "../utils/wlPartners";
+
+const marginLevels: MarginLevel[] = ["customer", "vendor", "product"];
+
+const statusRowClassNames: Record<MarginStatus, string> = {
+  negative: "bg-rose-50/70 dark:bg-rose-950/30",
+  "below-threshold": "bg-amber-50/70 dark:bg-amber-950/30",
+  ok: "",
+};
+
+const statusTextClassNames: Record<MarginStatus, string> = {
+  negative: "text-rose-600 dark:text-rose-400",
+  "below-threshold": "text-amber-600 dark:text-amber-400",
+  ok: "text-emerald-600 dark:text-emerald-400",
+};
+
+const currencyFormatter = new Intl.NumberFormat("da-DK", {
+  style: "currency",
+  currency: "DKK",
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+const percentFormatter = new Intl.NumberFormat("da-DK", {
+  minimumFractionDigits: 1,
+  maximumFractionDigits: 1,
+});
+
+const formatCurrency = (value: number) => currencyFormatter.format(value);
+
+const formatPercent = (value: number | null) =>
+  value === null ? "—" : `${percentFormatter.format(value)} %`;
+
+const MarginTable = ({
+  lines,
+  threshold,
+  firstColumn,
+  total,
+}: {
+  lines: MarginLine[];
+  threshold: number;
+  firstColumn: string;
+  total?: MarginLine;
+}) => (
+  <div className="overflow-x-auto">
+    <table className="min-w-full text-xs">
+      <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+        <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          <th className="px-4 py-2 text-left">{firstColumn}</th>
+          <th className="px-4 py-2 text-right">Kostpris</th>
+          <th className="px-4 py-2 text-right">Listepris</th>
+          <th className="px-4 py-2 text-right">Salgspris</th>
+          <th className="px-4 py-2 text-right">Dækningsbidrag</th>
+          <th className="px-4 py-2 text-right">Dækningsgrad</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+        {lines.map((line) => {
+          const status = classifyMargin(line, threshold);
+          return (
+            <tr
+              key={line.key}
+              className={`text-slate-700 dark:text-slate-300 ${statusRowClassNames[status]}`}
+            >
+              <td className="px-4 py-2">
+                <span className="flex items-center gap-1.5 font-medium">
+                  {status !== "ok" && (
+                    <AlertTriangle
+                      className={`h-3 w-3 shrink-0 ${statusTextClassNames[status]}`}
+                      aria-label={
+                        status === "negative"
+                          ? "Negativ margin"
+                          : "Under grænsen"
+                      }
+                    />
+                  )}
+                  {line.label}
+                </span>
+                {line.detail && (
+                  <span className="text-[11px] text-slate-400">
+                    {line.detail}
+                  </span>
+                )}
+              </td>
+              <td className="tabular px-4 py-2 text-right">
+                {formatCurrency(line.costAmount)}
+              </td>
+              <td className="tabular px-4 py-2 text-right text-slate-500 dark:text-slate-400">
+                {formatCurrency(line.listAmount)}
+              </td>
+              <td className="tabular px-4 py-2 text-right">
+                {formatCurrency(line.resaleAmount)}
+              </td>
+              <td
+                className={`tabular px-4 py-2 text-right font-semibold ${statusTextClassNames[status]}`}
+              >
+                {formatCurrency(line.margin)}
+              </td>
+              <td
+                className={`tabular px-4 py-2 text-right font-semibold ${statusTextClassNames[status]}`}
+              >
+                {formatPercent(line.marginPercent)}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+      {total && (
+        <tfoot className="border-t border-slate-200 font-semibold text-slate-900 dark:border-slate-700 dark:text-slate-100">
+          <tr>
+            <td className="px-4 py-2">{total.label}</td>
+            <td className="tabular px-4 py-2 text-right">
+              {formatCurrency(total.costAmount)}
+            </td>
+            <td className="tabular px-4 py-2 text-right">
+              {formatCurrency(total.listAmount)}
+            </td>
+            <td className="tabular px-4 py-2 text-right">
+              {formatCurrency(total.resaleAmount)}
+            </td>
+            <td className="tabular px-4 py-2 text-right">
+              {formatCurrency(total.margin)}
+            </td>
+            <td className="tabular px-4 py-2 text-right">
+              {formatPercent(total.marginPercent)}
+            </td>
+          </tr>
+        </tfoot>
+      )}
+    </table>
+  </div>
+);
+
+interface Props {
+  customers: CustomerCard[];
+  getDiscountRate: DiscountLookup;
+  wlPartners: WlPartnerMap;
+}
+
+// Cost, list and discounted resale price with the resulting margin for an
+// invoice. Amounts come from the resale export rows, so both always agree.
+export const MarginPanel = ({
+  customers,
+  getDiscountRate,
+  wlPartners,
+}: Props) => {
+  const threshold = useMarginThresholdStore((state) => state.threshold);
+  const setThreshold = useMarginThresholdStore((state) => state.setThreshold);
+  const [level, setLevel] = useState<MarginLevel>("customer");
+  const [wlFilter, setWlFilter] = useState("all");
+  const [onlyFlagged, setOnlyFlagged] = useState(false);
+
+  const rows = useMemo(
+    () => buildResaleExportRows(customers, getDiscountRate, wlPartners),
+    [customers, getDiscountRate, wlPartners],
+  );
+  const wlSummary = useMemo(
+    () => summarizeMarginsByWl(rows, wlPartners),
+    [rows, wlPartners],
+  );
+  const total = useMemo(() => totalMargins(rows), [rows]);
+
+  const lines = useMemo(() => {
+    const scopedRows =
+      wlFilter === "all" ? rows : rows.filter((row) => row.wlCode === wlFilter);
+    return buildMarginLines(scopedRows, level)
+      .filter(
+        (line) => !onlyFlagged || classifyMargin(line, threshold) !== "ok",
+      )
+      .sort(
+        (left, right) =>
+          (left.marginPercent ?? Infinity) - (right.marginPercent ?? Infinity),
+      );
+  }, [level, onlyFlagged, rows, threshold, wlFilter]);
+
+  return (
+    <div className="space-y-6">
+      <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <div className="flex flex-col gap-2 border-b border-slate-100 px-4 py-3 sm:flex-row sm:items-center sm:justify-between dark:border-slate-800">
+          <div>
+            <h2 className="text-sm font-semibold tracking-tight text-slate-900 dark:text-slate-100">
+              Margin pr. WL
+            </h2>
+            <p className="mt-0.5 text-xs text-slate-500 dark:text-slate-400">
+              Salgspris efter kunderabat minus Cloud Factorys kostpris, ekskl.
+              moms.
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-xs font-medium text-slate-600 dark:text-slate-400">
+            Mindste dækningsgrad
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={threshold}
+              onChange={(event) => {
+                const parsed = Number(event.target.value);
+                if (!Number.isNaN(parsed)) setThreshold(parsed);
+              }}
+              className="w-16 rounded-lg border border-slate-200 bg-white px-2 py-1 text-right text-xs font-semibold text-slate-800 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200"
+            />
+            %
+          </label>
+        </div>
+        <MarginTable
+          lines={wlSummary}
+          threshold={threshold}
+          firstColumn="WL"
+          total={total}
+        />
+      </section>
+
+      <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <div className="flex flex-col gap-3 border-b border-slate-100 p-4 sm:flex-row sm:items-center sm:justify-between dark:border-slate-800">
+          <div
+            className="flex gap-0.5 rounded-full border border-slate-200 bg-slate-50 p-0.5 dark:border-slate-700 dark:bg-slate-800"
+            role="group"
+            aria-label="Niveau"
+          >
+            {marginLevels.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setLevel(option)}
+                className={`rounded-full px-3 py-1 text-xs font-medium transition-all ${
+                  level === option
+                    ? "bg-slate-900 text-white shadow-sm dark:bg-slate-100 dark:text-slate-900"
+                    : "text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100"
+                }`}
+              >
+                {marginLevelLabels[option]}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={wlFilter}
+              onChange={(event) => setWlFilter(event.target.value)}
+              aria-label="WL"
+              className="h-8 rounded-lg border border-slate-200 bg-white px-2 text-xs text-slate-800 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200"
+            >
+              <option value="all">Alle WL</option>
+              {wlSummary.map((line) => (
+                <option key={line.key} value={line.wlCode}>
+                  {line.label}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1.5 text-xs font-medium text-slate-600 dark:text-slate-400">
+              <input
+                type="checkbox"
+                checked={onlyFlagged}
+                onChange={(event) => setOnlyFlagged(event.target.checked)}
+                className="rounded border-slate-300 dark:border-slate-600"
+              />
+              Kun under grænsen
+            </label>
+          </div>
+        </div>
+        {lines.length === 0 ? (
+          <p className="p-6 text-center text-xs text-slate-500 dark:text-slate-400">
+            Ingen linjer matcher filteret.
+          </p>
+        ) : (
+          <MarginTable
+            lines={lines}
+            threshold={threshold}
+            firstColumn={marginLevelLabels[level]}
+          />
+        )}
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+// src/components/PartnerSwitcher.tsx
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Building2 } from "lucide-react";
+import { usePartnerAccount } from "../hooks/useInvoices";
+import { usePartner } from "../hooks/usePartner";
+import { usePartnerStore } from "../store/usePartnerStore";
+import { PARTNER_SEARCH_PARAM, type PartnerAccount } from "../utils/partners";
+
+const usePartnerLabel = () => {
+  const { partner } = usePartner();
+  const { data: account } = usePartnerAccount();
+  return (
+    (account?.name ?? partner.label) || `Partner ${partner.id.slice(0, 8)}`
+  );
+};
+
+const formatOption = (account: PartnerAccount) =>
+  account.label || `Partner ${account.id.slice(0, 8)}`;
+
+export const PartnerName = () => <>{usePartnerLabel()}</>;
+
+export const PartnerSwitcher = () => {
+  const navigate = useNavigate();
+  const { partner, partners } = usePartner();
+  const storedPartnerId = usePartnerStore((state) => state.partnerId);
+  const setPartnerId = usePartnerStore((state) => state.setPartnerId);
+  const activeLabel = usePartnerLabel();
+
+  // Remember a partner opened through a link so navigation without the
+  // URL parameter stays on it.
+  useEffect(() => {
+    if (partner.id !== storedPartnerId) setPartnerId(partner.id);
+  }, [partner.id, storedPartnerId, setPartnerId]);
+
+  if (partners.length < 2) {
+    return (
+      <div className="hidden items-center gap-1.5 rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-xs font-medium text-slate-600 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 sm:flex">
+        <Building2 className="h-3 w-3 text-slate-400" aria-hidden />
+        {activeLabel}
+      </div>
+    );
+  }
+
+  return (
+    <label className="hidden items-center gap-1.5 rounded-full border border-slate-200 bg-slate-50 py-0.5 pl-3 pr-1 text-xs font-medium text-slate-600 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 sm:flex">
+      <Building2 className="h-3 w-3 text-slate-400" aria-hidden />
+      <span className="sr-only">Partnerkonto</span>
+      <select
+        value={partner.id}
+        onChange={(event) => {
+          setPartnerId(event.target.value);
+          // Invoice numbers belong to one partner, so start over on the
+          // overview instead of keeping the current detail page.
+          navigate(
+            `/?${PARTNER_SEARCH_PARAM}=${encodeURIComponent(event.target.value)}`,
+          );
+        }}
+        className="max-w-48 truncate rounded-full bg-transparent py-0.5 pr-1 text-xs font-medium focus:outline-none"
+      >
+        {partners.map((account) => (
+          <option key={account.id} value={account.id}>
+            {account.id === partner.id ? activeLabel : formatOption(account)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
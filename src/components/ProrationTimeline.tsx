@@ -0,0 +1,175 @@
+// src/components/ProrationTimeline.tsx
+import type { InvoiceSubscriptionBreakdown } from "../types/invoice";
+import {
+  translateBillingFrequency,
+  translateCommitmentTerm,
+} from "../utils/billingLabels";
+import {
+  buildProrationTimeline,
+  getTimelineOffsets,
+  type ProrationLine,
+  type ProrationLineKind,
+} from "../utils/prorationTimeline";
+
+const currencyFormatter = new Intl.NumberFormat("da-DK", {
+  style: "currency",
+  currency: "DKK",
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+const quantityFormatter = new Intl.NumberFormat("da-DK", {
+  maximumFractionDigits: 2,
+});
+
+const formatCurrency = (value: number) => currencyFormatter.format(value);
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("da-DK", {
+    day: "numeric",
+    month: "short",
+  });
+
+const formatPeriod = (start: string | null, end: string | null) =>
+  start && end ? `${formatDate(start)} – ${formatDate(end)}` : "—";
+
+const kindLabels: Record<ProrationLineKind, string> = {
+  charge: "Opkrævning",
+  credit: "Kreditering",
+};
+
+const kindBadgeClassNames: Record<ProrationLineKind, string> = {
+  charge:
+    "bg-blue-50 text-blue-700 ring-blue-200 dark:bg-blue-950/60 dark:text-blue-400 dark:ring-blue-800",
+  credit:
+    "bg-rose-50 text-rose-700 ring-rose-200 dark:bg-rose-950/60 dark:text-rose-400 dark:ring-rose-800",
+};
+
+const kindBarClassNames: Record<ProrationLineKind, string> = {
+  charge: "bg-blue-500",
+  credit: "bg-rose-400",
+};
+
+// "10 × 155,00 kr. × 15/30 dage = 775,00 kr.", or just the price when the
+// line covers the whole period.
+const describeCalculation = (line: ProrationLine) => {
+  if (line.unitPrice === null) return "—";
+  const quantity = quantityFormatter.format(Math.abs(line.quantity));
+  const base = `${quantity} × ${formatCurrency(line.unitPrice)}`;
+  const share =
+    line.isPartial && line.days !== null && line.periodDays !== null
+      ? ` × ${line.days}/${line.periodDays} dage`
+      : "";
+  return line.expectedAmount === null
+    ? base
+    : `${base}${share} = ${formatCurrency(line.expectedAmount)}`;
+};
+
+// Whether the billed amount is off the calculation by more than rounding.
+const deviatesFromCalculation = (line: ProrationLine) =>
+  line.expectedAmount !== null &&
+  Math.abs(Math.abs(line.expectedAmount) - Math.abs(line.amount)) >= 0.5;
+
+export const ProrationTimeline = ({
+  subscriptions,
+}: {
+  subscriptions: InvoiceSubscriptionBreakdown[];
+}) => {
+  const timeline = buildProrationTimeline(subscriptions);
+
+  return (
+    <div className="space-y-4 px-4 py-3">
+      {timeline.map((sub) => (
+        <div key={sub.subscriptionId}>
+          <div className="flex flex-wrap items-baseline justify-between gap-2 text-[11px]">
+            <p className="font-semibold text-slate-800 dark:text-slate-200">
+              {sub.productName}
+              <span className="ml-2 font-mono text-[10px] font-normal text-slate-400">
+                {sub.subscriptionId}
+              </span>
+            </p>
+            <p className="text-slate-500 dark:text-slate-400">
+              {formatPeriod(sub.timelineStart, sub.timelineEnd)} ·{" "}
+              {quantityFormatter.format(sub.seats)} licenser nu
+            </p>
+          </div>
+
+          <ol className="mt-2 space-y-1.5">
+            {sub.lines.map((line) => {
+              const { left, width } = getTimelineOffsets(sub, line);
+              return (
+                <li
+                  key={line.key}
+                  className="grid grid-cols-[minmax(0,1.2fr)_minmax(0,1.5fr)_minmax(0,1.8fr)_minmax(0,0.8fr)] items-center gap-x-3 text-[11px] text-slate-600 dark:text-slate-400"
+                >
+                  <div className="min-w-0">
+                    <span
+                      className={`inline-flex rounded-full px-2 py-0.5 text-[10px] font-semibold ring-1 ${kindBadgeClassNames[line.kind]}`}
+                    >
+                      {kindLabels[line.kind]}
+                    </span>
+                    <span
+                      className="mt-0.5 block truncate text-[10px] text-slate-400"
+                      title={line.label}
+                    >
+                      {[
+                        line.billing &&
+                          `${translateBillingFrequency(line.billing)} betaling`,
+                        line.commitment &&
+                          `${translateCommitmentTerm(line.commitment)} binding`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ") || line.label}
+                    </span>
+                  </div>
+                  <div>
+                    <div className="relative h-2 rounded-full bg-slate-200/70 dark:bg-slate-700/60">
+                      <div
+                        className={`absolute inset-y-0 rounded-full ${kindBarClassNames[line.kind]}`}
+                        style={{ left: `${left}%`, width: `${width}%` }}
+                      />
+                    </div>
+                    <span className="mt-0.5 block text-[10px] text-slate-400">
+                      {formatPeriod(line.startDate, line.endDate)}
+                      {line.days !== null &&
+                        ` · ${line.days}${
+                          line.periodDays !== null
+                            ? ` af ${line.periodDays}`
+                            : ""
+                        } dage`}
+                    </span>
+                  </div>
+                  <div className="font-mono text-[10px]">
+                    {describeCalculation(line)}
+                    {deviatesFromCalculation(line) && (
+                      <span className="block font-sans text-amber-600 dark:text-amber-400">
+                        Faktureret beløb afviger fra beregningen
+                      </span>
+                    )}
+                  </div>
+                  <div
+                    className={`text-right font-mono font-semibold ${
+                      line.kind === "credit"
+                        ? "text-rose-600 dark:text-rose-400"
+                        : "text-slate-700 dark:text-slate-300"
+                    }`}
+                  >
+                    {formatCurrency(line.amount)}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+
+          <p className="mt-2 flex flex-wrap justify-end gap-x-4 border-t border-blue-100/60 pt-1.5 text-[11px] text-slate-500 dark:border-blue-900/40 dark:text-slate-400">
+            <span>Opkrævet {formatCurrency(sub.chargedAmount)}</span>
+            <span>Krediteret {formatCurrency(sub.creditedAmount)}</span>
+            <span className="font-semibold text-slate-700 dark:text-slate-200">
+              I alt {formatCurrency(sub.netAmount)}
+            </span>
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+// src/components/ScopedDiscountInput.tsx
+import { useId } from "react";
+import { RateInput } from "./ui/RateInput";
+
+interface Props {
+  label: string;
+  value: number | undefined;
+  onChange: (rate: number | null) => void;
+  hint?: string;
+  readOnly?: boolean;
+  // Why the last save was refused; shown under the input.
+  error?: string;
+}
+
+// Compact percentage input used for the inherited discount scopes (customer,
+// vendor and global vendor defaults). The rate is saved on blur or Enter;
+// clearing the field removes it. Read-only users see the rate as text.
+export const ScopedDiscountInput = ({
+  label,
+  value,
+  onChange,
+  hint,
+  readOnly = false,
+  error,
+}: Props) => {
+  const inputId = useId();
+
+  if (readOnly) {
+    return (
+      <div className="flex items-center gap-1.5" title={hint}>
+        <span className="text-[10px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          {label}
+        </span>
+        <span className="text-[11px] font-semibold text-slate-700 dark:text-slate-300">
+          {value === undefined ? "—" : `${value}%`}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-1.5">
+        <label
+          htmlFor={inputId}
+          className="text-[10px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400"
+          title={hint}
+        >
+          {label}
+        </label>
+        <RateInput
+          id={inputId}
+          value={value}
+          placeholder="—"
+          className="w-16 rounded-lg border border-slate-200 bg-white px-2 py-0.5 text-right text-[11px] font-semibold text-slate-800 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500/30 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200"
+          onCommit={onChange}
+        />
+        <span className="text-[11px] font-semibold text-slate-500">%</span>
+      </div>
+      {error && (
+        <p
+          role="alert"
+          className="mt-0.5 max-w-56 text-[10px] font-medium text-rose-600 dark:text-rose-400"
+        >
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+// src/components/SessionGate.tsx
+import type { ReactNode } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { useCfSession } from "../hooks/useCfSession";
+import { useCurrentUser } from "../hooks/useCurrentUser";
+import { usePartner } from "../hooks/usePartner";
+import { buildLoginPath } from "../utils/loginRedirect";
+import { Skeleton } from "./ui/Skeleton";
+
+const GateSkeleton = () => (
+  <div className="mx-auto max-w-6xl space-y-3 px-4 py-8">
+    <Skeleton className="h-14 w-full" />
+    <Skeleton className="h-64 w-full" />
+  </div>
+);
+
+const GateError = ({ message }: { message: string }) => (
+  <div
+    role="alert"
+    className="mx-auto mt-16 max-w-md rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-800 dark:border-rose-800 dark:bg-rose-950/50 dark:text-rose-300"
+  >
+    Kunne ikke kontakte serveren: {message}
+  </div>
+);
+
+// Renders the app only while a user is signed in and the server holds a
+// Cloud Factory session, so no billing data is requested before both exist.
+export const SessionGate = ({ children }: { children: ReactNode }) => {
+  const location = useLocation();
+  const { partner } = usePartner();
+  const { userQuery } = useCurrentUser();
+  const signedIn = Boolean(userQuery.data);
+  const { sessionQuery } = useCfSession(signedIn);
+
+  if (userQuery.isLoading || (signedIn && sessionQuery.isLoading)) {
+    return <GateSkeleton />;
+  }
+
+  if (userQuery.isError) {
+    return <GateError message={userQuery.error.message} />;
+  }
+
+  if (!signedIn) {
+    return <Navigate to={buildLoginPath(location, partner.id)} replace />;
+  }
+
+  if (sessionQuery.isError) {
+    return <GateError message={sessionQuery.error.message} />;
+  }
+
+  if (!sessionQuery.data?.connected) {
+    return <Navigate to={buildLoginPath(location, partner.id)} replace />;
+  }
+
+  return children;
+};
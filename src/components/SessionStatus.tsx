@@ -0,0 +1,74 @@
+// src/components/SessionStatus.tsx
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { LogOut, UserRound } from "lucide-react";
+import { useCfSession } from "../hooks/useCfSession";
+import { useCurrentUser } from "../hooks/useCurrentUser";
+import { roleLabels } from "../utils/permissions";
+
+const formatTime = (date: Date, now: number) => {
+  const sameDay = date.toDateString() === new Date(now).toDateString();
+  return date.toLocaleString(
+    "da-DK",
+    sameDay
+      ? { timeStyle: "short" }
+      : { dateStyle: "short", timeStyle: "short" },
+  );
+};
+
+export const SessionStatus = () => {
+  const { userQuery, logout } = useCurrentUser();
+  const { sessionQuery } = useCfSession();
+  const user = userQuery.data;
+  const session = sessionQuery.data;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 60_000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const accessExpiry = session?.accessTokenExpiresAt
+    ? new Date(session.accessTokenExpiresAt)
+    : null;
+  const refreshExpiry = session?.refreshTokenExpiresAt
+    ? new Date(session.refreshTokenExpiresAt)
+    : null;
+  const accessExpired = accessExpiry !== null && accessExpiry.getTime() <= now;
+  // The server renews an expired access token on the next request; the label
+  // only tells the user when that will happen.
+  const cfLabel = !accessExpiry
+    ? "Cloud Factory forbundet"
+    : accessExpired
+      ? "Cloud Factory-token fornyes ved næste kald"
+      : `Cloud Factory-token udløber ${formatTime(accessExpiry, now)}`;
+  const title = refreshExpiry
+    ? `${cfLabel}. Refresh token udløber ${formatTime(refreshExpiry, now)}.`
+    : cfLabel;
+
+  if (!user) return null;
+
+  return (
+    <div className="hidden items-center gap-0.5 rounded-full border border-slate-200 bg-slate-50 py-0.5 pl-2.5 pr-0.5 text-[11px] font-medium text-slate-600 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 md:flex">
+      <Link
+        to="/settings/users"
+        title={title}
+        className="flex items-center gap-1 rounded-full transition-colors hover:text-slate-900 dark:hover:text-slate-100"
+      >
+        <UserRound className="h-3 w-3 text-slate-400" aria-hidden />
+        {user.displayName || user.username}
+        <span className="text-slate-400">· {roleLabels[user.role]}</span>
+      </Link>
+      <button
+        type="button"
+        onClick={() => logout.mutate()}
+        disabled={logout.isPending}
+        aria-label="Log ud"
+        title="Log ud"
+        className="ml-1 flex h-6 w-6 items-center justify-center rounded-full text-slate-400 transition-colors hover:bg-slate-200 hover:text-slate-900 disabled:opacity-50 dark:hover:bg-slate-700 dark:hover:text-slate-100"
+      >
+        <LogOut className="h-3 w-3" aria-hidden />
+      </button>
+    </div>
+  );
+};
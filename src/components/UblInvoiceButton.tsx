@@ -0,0 +1,94 @@
+// src/components/UblInvoiceButton.tsx
+import { useState } from "react";
+import { AlertTriangle, FileCode } from "lucide-react";
+import type { CustomerCard } from "../utils/customerGrouping";
+import { downloadBlob, toSafeFileName } from "../utils/download";
+import { REBILLING_VAT_RATE, buildRebillingDrafts } from "../utils/rebilling";
+import type { DiscountLookup } from "../utils/resaleExport";
+import { getSupplierConfig } from "../utils/runtimeConfig";
+import {
+  buildUblInputFromDraft,
+  buildUblInvoiceXml,
+  validateUblInvoice,
+  type UblValidationIssue,
+} from "../utils/ublInvoice";
+
+interface Props {
+  customer: CustomerCard;
+  invoiceNo: string;
+  periodStart?: string;
+  periodEnd?: string;
+  getDiscountRate: DiscountLookup;
+}
+
+export const UblInvoiceButton = ({
+  customer,
+  invoiceNo,
+  periodStart,
+  periodEnd,
+  getDiscountRate,
+}: Props) => {
+  const [issues, setIssues] = useState<UblValidationIssue[]>([]);
+
+  const handleDownload = () => {
+    const [draft] = buildRebillingDrafts([customer], getDiscountRate);
+    if (!draft) {
+      setIssues([{ rule: "BR-16", message: "Kunden har ingen linjer" }]);
+      return;
+    }
+
+    const input = buildUblInputFromDraft({
+      draft,
+      invoiceNo,
+      customerVatId: customer.vatId,
+      supplier: getSupplierConfig(),
+      issueDate: new Date().toISOString().slice(0, 10),
+      vatRate: REBILLING_VAT_RATE,
+      periodStart,
+      periodEnd,
+    });
+    const validationIssues = validateUblInvoice(input);
+    setIssues(validationIssues);
+    if (validationIssues.length > 0) return;
+
+    downloadBlob(
+      new Blob([buildUblInvoiceXml(input)], {
+        type: "application/xml;charset=utf-8",
+      }),
+      `${toSafeFileName(`${input.invoiceId}-${customer.name}`)}.xml`,
+    );
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <button
+        type="button"
+        onClick={handleDownload}
+        title="Download e-faktura (PEPPOL BIS 3.0 / UBL)"
+        className="inline-flex items-center gap-1 rounded-lg border border-slate-200 bg-white px-2 py-0.5 text-[11px] font-medium text-slate-600 transition-colors hover:border-blue-400 hover:text-blue-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:border-blue-500 dark:hover:text-blue-400"
+      >
+        <FileCode className="h-3 w-3" aria-hidden />
+        E-faktura
+      </button>
+      {issues.length > 0 && (
+        <div
+          role="alert"
+          className="max-w-64 rounded-lg border border-amber-200 bg-amber-50 px-2.5 py-1.5 text-left text-[10px] text-amber-800 dark:border-amber-800 dark:bg-amber-950/40 dark:text-amber-300"
+        >
+          <p className="flex items-center gap-1 font-semibold">
+            <AlertTriangle className="h-3 w-3" aria-hidden />
+            E-fakturaen mangler oplysninger
+          </p>
+          <ul className="mt-0.5 list-disc pl-4">
+            {issues.map((issue) => (
+              <li key={`${issue.rule}-${issue.message}`}>
+                {issue.message}{" "}
+                <span className="font-mono opacity-70">({issue.rule})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+// src/components/ui/RateInput.tsx
+import { useState, type InputHTMLAttributes } from "react";
+
+interface RateInputProps
+  extends Omit<
+    InputHTMLAttributes<HTMLInputElement>,
+    "type" | "value" | "onChange" | "onBlur" | "onKeyDown"
+  > {
+  value: number | undefined;
+  onCommit: (rate: number | null) => void;
+}
+
+// Percentage input that keeps what is typed locally and only reports the
+// rate on blur or Enter, so each saved rate is one write and one history
+// entry. Escape drops the edit; an empty field commits null.
+export function RateInput({
+  value,
+  onCommit,
+  min = 0,
+  max = 100,
+  step = 0.5,
+  ...props
+}: RateInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    setDraft(null);
+    const trimmed = draft.trim();
+    const rate = trimmed === "" ? null : Number(trimmed);
+    if (Number.isNaN(rate) || rate === (value ?? null)) return;
+    onCommit(rate);
+  };
+
+  return (
+    <input
+      {...props}
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={draft ?? value ?? ""}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") {
+          commit();
+        } else if (event.key === "Escape") {
+          setDraft(null);
+        }
+      }}
+    />
+  );
+}
@@ -0,0 +1,75 @@
+// src/hooks/useAccountingMappings.ts
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type {
+  AccountingMapping,
+  AccountingSystem,
+} from "../utils/accountingExport";
+import { buildWriteHeaders } from "./useTenantDiscounts";
+
+const ACCOUNTING_MAPPINGS_API_URL = "/api/accounting-mappings";
+export const ACCOUNTING_MAPPINGS_QUERY_KEY = ["accounting-mappings"] as const;
+
+type DeleteMappingPayload = Pick<AccountingMapping, "system" | "vendorName">;
+
+const fetchMappings = async (
+  system: AccountingSystem,
+): Promise<AccountingMapping[]> => {
+  const response = await fetch(
+    `${ACCOUNTING_MAPPINGS_API_URL}?system=${encodeURIComponent(system)}`,
+    { method: "GET", headers: { "Content-Type": "application/json" } },
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      `Kunne ikke hente kontoopsætning (status ${response.status})`,
+    );
+  }
+
+  const payload = (await response.json()) as { mappings?: AccountingMapping[] };
+  return payload.mappings ?? [];
+};
+
+const writeMapping = async (
+  method: "PUT" | "DELETE",
+  payload: AccountingMapping | DeleteMappingPayload,
+) => {
+  const response = await fetch(ACCOUNTING_MAPPINGS_API_URL, {
+    method,
+    headers: buildWriteHeaders(),
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Kunne ikke gemme kontoopsætning (status ${response.status})`,
+    );
+  }
+};
+
+export const useAccountingMappings = (system: AccountingSystem) => {
+  const queryClient = useQueryClient();
+  const queryKey = [...ACCOUNTING_MAPPINGS_QUERY_KEY, system];
+
+  const mappingsQuery = useQuery({
+    queryKey,
+    queryFn: () => fetchMappings(system),
+    staleTime: 60_000,
+    refetchOnWindowFocus: false,
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ACCOUNTING_MAPPINGS_QUERY_KEY });
+
+  const saveMapping = useMutation({
+    mutationFn: (mapping: AccountingMapping) => writeMapping("PUT", mapping),
+    onSettled: invalidate,
+  });
+
+  const deleteMapping = useMutation({
+    mutationFn: (payload: DeleteMappingPayload) =>
+      writeMapping("DELETE", payload),
+    onSettled: invalidate,
+  });
+
+  return { mappingsQuery, saveMapping, deleteMapping };
+};
@@ -0,0 +1,72 @@
+// src/hooks/useApiKeys.ts
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { buildWriteHeaders } from "./useTenantDiscounts";
+
+export type ApiKey = {
+  id: number;
+  name: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+export type CreatedApiKey = Pick<ApiKey, "id" | "name"> & { key: string };
+
+const API_KEYS_API_URL = "/api/api-keys";
+export const API_KEYS_QUERY_KEY = ["api-keys"] as const;
+
+const fetchApiKeys = async (): Promise<ApiKey[]> => {
+  const response = await fetch(API_KEYS_API_URL, {
+    method: "GET",
+    headers: { "Content-Type": "application/json" },
+  });
+  if (!response.ok) {
+    throw new Error(`Kunne ikke hente API-nøgler (status ${response.status})`);
+  }
+  const payload = (await response.json()) as { apiKeys?: ApiKey[] };
+  return payload.apiKeys ?? [];
+};
+
+export const useApiKeys = () => {
+  const queryClient = useQueryClient();
+
+  const apiKeysQuery = useQuery({
+    queryKey: API_KEYS_QUERY_KEY,
+    queryFn: fetchApiKeys,
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: API_KEYS_QUERY_KEY });
+
+  const createApiKey = useMutation({
+    mutationFn: async (name: string): Promise<CreatedApiKey> => {
+      const response = await fetch(API_KEYS_API_URL, {
+        method: "POST",
+        headers: buildWriteHeaders(),
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Kunne ikke oprette API-nøgle (status ${response.status})`,
+        );
+      }
+      return (await response.json()) as CreatedApiKey;
+    },
+    onSettled: invalidate,
+  });
+
+  const deleteApiKey = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`${API_KEYS_API_URL}/${id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Kunne ikke slette API-nøgle (status ${response.status})`,
+        );
+      }
+    },
+    onSettled: invalidate,
+  });
+
+  return { apiKeysQuery, createApiKey, deleteApiKey };
+};
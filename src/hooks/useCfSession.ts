@@ -0,0 +1,105 @@
+// src/hooks/useCfSession.ts
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuthStore } from "../store/useAuthStore";
+import { PARTNER_HEADER } from "../utils/partners";
+import { usePartner } from "./usePartner";
+
+export type CfSession = {
+  connected: boolean;
+  accessTokenExpiresAt: string | null;
+  refreshTokenExpiresAt: string | null;
+  updatedAt: string | null;
+};
+
+export type CfSessionCredentials = {
+  accessToken?: string;
+  refreshToken?: string;
+};
+
+const CF_SESSION_API_URL = "/api/cf-session";
+export const CF_SESSION_QUERY_KEY = ["cf-session"] as const;
+
+const readSessionResponse = async (
+  response: Response,
+  fallbackMessage: string,
+): Promise<CfSession> => {
+  const payload = (await response.json().catch(() => null)) as
+    | (CfSession & { message?: string })
+    | null;
+
+  if (!response.ok || !payload) {
+    throw new Error(
+      payload?.message ?? `${fallbackMessage} (status ${response.status})`,
+    );
+  }
+  return payload;
+};
+
+const buildSessionHeaders = (partnerId: string) => ({
+  "Content-Type": "application/json",
+  [PARTNER_HEADER]: partnerId,
+});
+
+const fetchSession = async (partnerId: string) =>
+  readSessionResponse(
+    await fetch(CF_SESSION_API_URL, {
+      method: "GET",
+      headers: buildSessionHeaders(partnerId),
+    }),
+    "Kunne ikke hente session",
+  );
+
+// Each partner account has its own Cloud Factory session on the server.
+export const useCfSession = (enabled = true) => {
+  const queryClient = useQueryClient();
+  const setAuthError = useAuthStore((state) => state.setAuthError);
+  const { partner } = usePartner();
+  const queryKey = [...CF_SESSION_QUERY_KEY, partner.id];
+
+  const sessionQuery = useQuery({
+    queryKey,
+    queryFn: () => fetchSession(partner.id),
+    staleTime: 60_000,
+    enabled,
+  });
+
+  const signIn = useMutation({
+    mutationFn: async (credentials: CfSessionCredentials) =>
+      readSessionResponse(
+        await fetch(CF_SESSION_API_URL, {
+          method: "POST",
+          headers: buildSessionHeaders(partner.id),
+          body: JSON.stringify(credentials),
+        }),
+        "Login mislykkedes",
+      ),
+    onSuccess: async (session) => {
+      setAuthError(null);
+      queryClient.setQueryData(queryKey, session);
+      await queryClient.invalidateQueries();
+    },
+  });
+
+  const signOut = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(CF_SESSION_API_URL, {
+        method: "DELETE",
+        headers: buildSessionHeaders(partner.id),
+      });
+      if (!response.ok) {
+        throw new Error(`Kunne ikke logge ud (status ${response.status})`);
+      }
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData<CfSession>(queryKey, {
+        connected: false,
+        accessTokenExpiresAt: null,
+        refreshTokenExpiresAt: null,
+        updatedAt: null,
+      });
+    },
+  });
+
+  return { sessionQuery, signIn, signOut };
+};
@@ -0,0 +1,78 @@
+// src/hooks/useCurrentUser.ts
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  hasPermission,
+  type CurrentUser,
+  type Permission,
+} from "../utils/permissions";
+
+type LoginPayload = {
+  username: string;
+  password: string;
+};
+
+const AUTH_API_URL = "/api/auth";
+export const CURRENT_USER_QUERY_KEY = ["current-user"] as const;
+
+const fetchCurrentUser = async (): Promise<CurrentUser | null> => {
+  const response = await fetch(`${AUTH_API_URL}/me`, {
+    method: "GET",
+    headers: { "Content-Type": "application/json" },
+  });
+  // Not signed in is a normal state, not an error.
+  if (response.status === 401) return null;
+  if (!response.ok) {
+    throw new Error(`Kunne ikke hente bruger (status ${response.status})`);
+  }
+  return (await response.json()) as CurrentUser;
+};
+
+export const useCurrentUser = () => {
+  const queryClient = useQueryClient();
+
+  const userQuery = useQuery({
+    queryKey: CURRENT_USER_QUERY_KEY,
+    queryFn: fetchCurrentUser,
+    staleTime: 60_000,
+  });
+
+  const login = useMutation({
+    mutationFn: async (payload: LoginPayload) => {
+      const response = await fetch(`${AUTH_API_URL}/login`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const body = (await response.json().catch(() => null)) as
+        | (CurrentUser & { message?: string })
+        | null;
+      if (!response.ok || !body) {
+        throw new Error(
+          body?.message ?? `Login mislykkedes (status ${response.status})`,
+        );
+      }
+      return body;
+    },
+    onSuccess: async (user) => {
+      queryClient.setQueryData(CURRENT_USER_QUERY_KEY, user);
+      await queryClient.invalidateQueries();
+    },
+  });
+
+  const logout = useMutation({
+    mutationFn: async () => {
+      await fetch(`${AUTH_API_URL}/logout`, { method: "POST" });
+    },
+    onSettled: () => {
+      queryClient.clear();
+      queryClient.setQueryData(CURRENT_USER_QUERY_KEY, null);
+    },
+  });
+
+  return { userQuery, login, logout };
+};
+
+export const useHasPermission = (permission: Permission) => {
+  const { userQuery } = useCurrentUser();
+  return hasPermission(userQuery.data, permission);
+};
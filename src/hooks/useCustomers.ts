@@ -0,0 +1,186 @@
+// src/hooks/useCustomers.ts
+import { useEffect, useMemo, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { InvoiceTenantBreakdown } from "../types/invoice";
+import {
+  buildCustomerRegistry,
+  toTenantObservations,
+  type CustomerDiscountConflict,
+  type RegisteredCustomer,
+} from "../utils/customerRegistry";
+import { useHasPermission } from "./useCurrentUser";
+import { DISCOUNT_HISTORY_QUERY_KEY } from "./useDiscountHistory";
+import { buildWriteHeaders, DISCOUNTS_QUERY_KEY } from "./useTenantDiscounts";
+
+const CUSTOMERS_API_URL = "/api/customers";
+export const CUSTOMERS_QUERY_KEY = ["customers"] as const;
+
+type CustomersPayload = {
+  customers?: RegisteredCustomer[];
+  discountConflicts?: CustomerDiscountConflict[];
+};
+
+export type CustomersWriteResult = {
+  customers: RegisteredCustomer[];
+  discountConflicts: CustomerDiscountConflict[];
+};
+
+const fetchCustomers = async (): Promise<RegisteredCustomer[]> => {
+  const response = await fetch(CUSTOMERS_API_URL, {
+    method: "GET",
+    headers: { "Content-Type": "application/json" },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Kunne ikke hente kunder (status ${response.status})`);
+  }
+
+  const payload = (await response.json()) as CustomersPayload;
+  return payload.customers ?? [];
+};
+
+// Every write answers with the full registry, which replaces the cache.
+const writeCustomers = async (
+  method: "POST" | "PUT",
+  url: string,
+  payload: unknown,
+): Promise<CustomersWriteResult> => {
+  const response = await fetch(url, {
+    method,
+    headers: buildWriteHeaders(),
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const error = (await response.json().catch(() => null)) as
+      | { message?: string }
+      | null;
+    throw new Error(
+      error?.message ?? `Kunne ikke gemme kunden (status ${response.status})`,
+    );
+  }
+
+  const body = (await response.json()) as CustomersPayload;
+  return {
+    customers: body.customers ?? [],
+    discountConflicts: body.discountConflicts ?? [],
+  };
+};
+
+export const useCustomers = () => {
+  const queryClient = useQueryClient();
+
+  const customersQuery = useQuery({
+    queryKey: CUSTOMERS_QUERY_KEY,
+    queryFn: fetchCustomers,
+    staleTime: 60_000,
+    refetchOnWindowFocus: false,
+  });
+
+  const customers = customersQuery.data;
+  const registry = useMemo(
+    () => buildCustomerRegistry(customers ?? []),
+    [customers],
+  );
+
+  const storeCustomers = ({ customers: next }: CustomersWriteResult) =>
+    queryClient.setQueryData(CUSTOMERS_QUERY_KEY, next);
+
+  const syncCustomers = useMutation({
+    mutationFn: ({
+      seenOn,
+      tenants,
+    }: {
+      seenOn: string;
+      tenants: InvoiceTenantBreakdown[];
+    }) =>
+      writeCustomers("POST", `${CUSTOMERS_API_URL}/sync`, {
+        seenOn,
+        tenants: toTenantObservations(tenants),
+      }),
+    onSuccess: storeCustomers,
+  });
+
+  const updateCustomer = useMutation({
+    mutationFn: ({
+      id,
+      name,
+      vatId,
+    }: Pick<RegisteredCustomer, "id" | "name" | "vatId">) =>
+      writeCustomers("PUT", `${CUSTOMERS_API_URL}/${id}`, { name, vatId }),
+    onSuccess: storeCustomers,
+  });
+
+  // Merging moves the merged customer's discounts to the target; the result
+  // lists those that gave way to the target's own rates.
+  const mergeCustomers = useMutation({
+    mutationFn: ({
+      targetId,
+      sourceId,
+    }: {
+      targetId: number;
+      sourceId: number;
+    }) =>
+      writeCustomers("POST", `${CUSTOMERS_API_URL}/${targetId}/merge`, {
+        sourceId,
+      }),
+    onSuccess: (next) => {
+      storeCustomers(next);
+      return Promise.all(
+        [DISCOUNTS_QUERY_KEY, DISCOUNT_HISTORY_QUERY_KEY].map((queryKey) =>
+          queryClient.invalidateQueries({ queryKey }),
+        ),
+      );
+    },
+  });
+
+  // Discounts stay with the original customer, but are listed under the
+  // tenant that takes over if the primary tenant is split off.
+  const splitCustomer = useMutation({
+    mutationFn: ({ id, tenantIds }: { id: number; tenantIds: string[] }) =>
+      writeCustomers("POST", `${CUSTOMERS_API_URL}/${id}/split`, {
+        tenantIds,
+      }),
+    onSuccess: (next) => {
+      storeCustomers(next);
+      return Promise.all(
+        [DISCOUNTS_QUERY_KEY, DISCOUNT_HISTORY_QUERY_KEY].map((queryKey) =>
+          queryClient.invalidateQueries({ queryKey }),
+        ),
+      );
+    },
+  });
+
+  return {
+    customersQuery,
+    registry,
+    syncCustomers,
+    updateCustomer,
+    mergeCustomers,
+    splitCustomer,
+  };
+};
+
+// Registers the tenants of an invoice once it has loaded, so the registry
+// learns new tenants from whatever invoices users with `customers:write`
+// open; other roles only read it. The detail is re-derived when vendor rules
+// or aliases load, so the same tenants are only sent once.
+export const useCustomerSync = (
+  tenants: InvoiceTenantBreakdown[] | undefined,
+  seenOn: string | undefined,
+) => {
+  const { registry, syncCustomers } = useCustomers();
+  const canSync = useHasPermission("customers:write");
+  const { mutate } = syncCustomers;
+  const lastSyncKey = useRef("");
+
+  useEffect(() => {
+    if (!canSync || !tenants?.length || !seenOn) return;
+    const syncKey = `${seenOn}|${tenants.map((tenant) => tenant.id).join()}`;
+    if (syncKey === lastSyncKey.current) return;
+    lastSyncKey.current = syncKey;
+    mutate({ seenOn, tenants });
+  }, [canSync, mutate, seenOn, tenants]);
+
+  return registry;
+};
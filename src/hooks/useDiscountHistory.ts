@@ -0,0 +1,82 @@
+// src/hooks/useDiscountHistory.ts
+import { useQuery } from "@tanstack/react-query";
+import { PARTNER_HEADER } from "../utils/partners";
+import { usePartner } from "./usePartner";
+
+export type DiscountHistoryAction = "create" | "update" | "delete";
+
+export type DiscountHistoryEntry = {
+  id: number;
+  tenantId: string;
+  productKey: string;
+  vendorName: string;
+  productName: string;
+  action: DiscountHistoryAction;
+  oldRate: number | null;
+  newRate: number | null;
+  validFrom: string | null;
+  actor: string;
+  changedAt: string;
+};
+
+export type DiscountHistoryFilters = {
+  tenantId?: string;
+  vendorName?: string;
+  productName?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+};
+
+const HISTORY_API_URL = "/api/tenant-discounts/history";
+export const DISCOUNT_HISTORY_QUERY_KEY = ["tenant-discount-history"] as const;
+
+const parseHistoryPayload = (payload: unknown): DiscountHistoryEntry[] => {
+  if (!payload || typeof payload !== "object") return [];
+
+  const typed = payload as { history?: unknown };
+  return Array.isArray(typed.history)
+    ? (typed.history as DiscountHistoryEntry[])
+    : [];
+};
+
+const fetchDiscountHistory = async (
+  partnerId: string,
+  filters: DiscountHistoryFilters,
+): Promise<DiscountHistoryEntry[]> => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  });
+
+  const response = await fetch(`${HISTORY_API_URL}?${params.toString()}`, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+      [PARTNER_HEADER]: partnerId,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Kunne ikke hente rabathistorik (status ${response.status})`,
+    );
+  }
+
+  const payload = (await response.json()) as unknown;
+  return parseHistoryPayload(payload);
+};
+
+export const useDiscountHistory = (
+  filters: DiscountHistoryFilters,
+  enabled = true,
+) => {
+  const { partner } = usePartner();
+  return useQuery({
+    queryKey: [...DISCOUNT_HISTORY_QUERY_KEY, partner.id, filters],
+    queryFn: () => fetchDiscountHistory(partner.id, filters),
+    enabled,
+    staleTime: 10_000,
+    refetchOnWindowFocus: false,
+  });
+};
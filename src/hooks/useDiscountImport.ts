@@ -0,0 +1,101 @@
+// src/hooks/useDiscountImport.ts
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { DiscountScope } from "../utils/discountScopes";
+import type { MarginViolation } from "../utils/marginRules";
+import { PARTNER_SEARCH_PARAM } from "../utils/partners";
+import { DISCOUNT_HISTORY_QUERY_KEY } from "./useDiscountHistory";
+import { usePartner } from "./usePartner";
+import { buildWriteHeaders, DISCOUNTS_QUERY_KEY } from "./useTenantDiscounts";
+
+export type DiscountImportStatus =
+  | "created"
+  | "updated"
+  | "unchanged"
+  | "rejected"
+  | "unmatched";
+
+export type DiscountImportRow = {
+  line: number;
+  tenantId: string;
+  vendorName: string;
+  productName: string;
+  scope: DiscountScope | null;
+  validFrom: string | null;
+  rate: number | null;
+  currentRate: number | null;
+  status: DiscountImportStatus;
+  reason: string | null;
+  // Block rules the row breaks; such rows are rejected.
+  violations: MarginViolation[];
+};
+
+export type DiscountImportResult = {
+  dryRun: boolean;
+  summary: Record<DiscountImportStatus, number>;
+  rows: DiscountImportRow[];
+};
+
+// Products on the matched invoice. Their cost and list amount let the server
+// check imported rates against the margin rules.
+export type KnownDiscountProduct = {
+  tenantId: string;
+  vendorName: string;
+  productName: string;
+  costAmount: number;
+  amount: number;
+};
+
+export type DiscountImportRequest = {
+  csv: string;
+  dryRun: boolean;
+  validFrom?: string;
+  knownProducts?: KnownDiscountProduct[];
+};
+
+const DISCOUNT_EXPORT_URL = "/api/tenant-discounts/export.csv";
+const DISCOUNT_IMPORT_URL = "/api/tenant-discounts/import";
+
+// A plain download link cannot send headers, so the account goes in the URL.
+export const buildDiscountExportUrl = (partnerId: string) =>
+  `${DISCOUNT_EXPORT_URL}?${PARTNER_SEARCH_PARAM}=${encodeURIComponent(partnerId)}`;
+
+const postDiscountImport = async (
+  partnerId: string,
+  request: DiscountImportRequest,
+): Promise<DiscountImportResult> => {
+  const response = await fetch(DISCOUNT_IMPORT_URL, {
+    method: "POST",
+    headers: buildWriteHeaders(partnerId),
+    body: JSON.stringify(request),
+  });
+
+  const payload = (await response.json().catch(() => null)) as
+    | (DiscountImportResult & { message?: string })
+    | null;
+
+  if (!response.ok || !payload) {
+    throw new Error(
+      payload?.message ??
+        `Kunne ikke importere rabatter (status ${response.status})`,
+    );
+  }
+
+  return payload;
+};
+
+export const useDiscountImport = () => {
+  const queryClient = useQueryClient();
+  const { partner } = usePartner();
+
+  return useMutation({
+    mutationFn: (request: DiscountImportRequest) =>
+      postDiscountImport(partner.id, request),
+    onSuccess: (result) => {
+      if (result.dryRun) return;
+      void queryClient.invalidateQueries({ queryKey: DISCOUNTS_QUERY_KEY });
+      void queryClient.invalidateQueries({
+        queryKey: DISCOUNT_HISTORY_QUERY_KEY,
+      });
+    },
+  });
+};
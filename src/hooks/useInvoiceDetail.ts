@@ -1,9 +1,13 @@
 // src/hooks/useInvoiceDetail.ts
-import { useQuery } from "@tanstack/react-query";
+import { useCallback } from "react";
+import { useQueries, useQuery } from "@tanstack/react-query";
 import { apiClient } from "../api/client";
 import type { Invoice, InvoiceDetail } from "../types/invoice";
-
-const PARTNER_GUID = "885a11b7-e83a-4e6a-8656-e01de8dddbfb";
+import { applyProductAliases } from "../utils/productAliases";
+import { applyVendorRules, DEFAULT_VENDOR_RULES } from "../utils/vendorRules";
+import { usePartner } from "./usePartner";
+import { useProductAliases } from "./useProductAliases";
+import { useVendorRules } from "./useVendorRules";
 
 type TenantEntryApi = {
   productId?: string;
@@ -359,6 +363,8 @@ const mapInvoiceDetail = (api: InvoiceDetailApiResponse): InvoiceDetail => {
     status: mapStatus(inv.remainingAmountIncludingVAT, inv.dueDate),
     invoicePdf: inv.invoicePdf,
     billingDataExcel: inv.lines[0]?.billingDataExcel ?? "",
+    periodStartDate: inv.periodStartDate,
+    periodEndDate: inv.periodEndDate,
     customerName: api.partner.name,
     lines: inv.lines.map((line) => ({
       description: line.description,
@@ -370,18 +376,60 @@ const mapInvoiceDetail = (api: InvoiceDetailApiResponse): InvoiceDetail => {
   };
 };
 
+const fetchInvoiceDetail = async (partnerId: string, invoiceNo: string) => {
+  const { data } = await apiClient.get<InvoiceDetailApiResponse>(
+    `/accounts/${partnerId}/invoices/${invoiceNo}`,
+  );
+  return mapInvoiceDetail(data);
+};
+
+// Vendor rules and product aliases are applied on read, so editing them
+// updates cached invoices without refetching from Cloud Factory.
+const useDetailSelector = () => {
+  const { rulesQuery } = useVendorRules();
+  const { aliasesQuery } = useProductAliases();
+  const vendorRules = rulesQuery.data ?? DEFAULT_VENDOR_RULES;
+  const productAliases = aliasesQuery.data;
+  return useCallback(
+    (detail: InvoiceDetail | null) =>
+      applyProductAliases(
+        applyVendorRules(detail, vendorRules),
+        productAliases ?? [],
+      ),
+    [productAliases, vendorRules],
+  );
+};
+
 export const useInvoiceDetail = (invoiceNo: string | null) => {
+  const { partner } = usePartner();
+  const selectDetail = useDetailSelector();
+
   return useQuery({
-    queryKey: ["invoice", invoiceNo],
+    queryKey: ["invoice", partner.id, invoiceNo],
     queryFn: async () => {
       if (!invoiceNo) return null;
-      const { data } = await apiClient.get<InvoiceDetailApiResponse>(
-        `/accounts/${PARTNER_GUID}/invoices/${invoiceNo}`,
-      );
-      return mapInvoiceDetail(data);
+      return fetchInvoiceDetail(partner.id, invoiceNo);
     },
+    select: selectDetail,
     enabled: !!invoiceNo, // Only run query if we have an ID
     staleTime: 1000 * 60 * 2,
     gcTime: 1000 * 60 * 10,
   });
 };
+
+// Loads several invoices side by side under the same cache entries as
+// useInvoiceDetail, so invoices already opened are not fetched again.
+export const useInvoiceDetails = (invoiceNos: string[]) => {
+  const { partner } = usePartner();
+  const selectDetail = useDetailSelector();
+
+  return useQueries({
+    queries: invoiceNos.map((invoiceNo) => ({
+      queryKey: ["invoice", partner.id, invoiceNo],
+      queryFn: () => fetchInvoiceDetail(partner.id, invoiceNo),
+      select: selectDetail,
+      staleTime: 1000 * 60 * 2,
+      gcTime: 1000 * 60 * 10,
+    })),
+  });
+};
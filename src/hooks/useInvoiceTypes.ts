@@ -2,8 +2,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { apiClient } from "../api/client";
 import type { InvoiceType } from "../types/invoice";
-
-const PARTNER_GUID = "885a11b7-e83a-4e6a-8656-e01de8dddbfb";
+import { usePartner } from "./usePartner";
 
 type InvoiceTypesResponse = {
   isSuccess: boolean;
@@ -12,11 +11,12 @@ type InvoiceTypesResponse = {
 };
 
 export const useInvoiceTypes = () => {
+  const { partner } = usePartner();
   return useQuery({
-    queryKey: ["invoiceTypes"],
+    queryKey: ["invoiceTypes", partner.id],
     queryFn: async () => {
       const { data } = await apiClient.get<InvoiceTypesResponse>(
-        `/accounts/${PARTNER_GUID}/invoices/invoicetypes`,
+        `/accounts/${partner.id}/invoices/invoicetypes`,
       );
       return data.data ?? [];
     },
@@ -2,8 +2,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { apiClient } from "../api/client";
 import type { Invoice } from "../types/invoice";
-
-const PARTNER_GUID = "885a11b7-e83a-4e6a-8656-e01de8dddbfb";
+import { usePartner } from "./usePartner";
 
 type ApiInvoice = {
   invoiceNo: string;
@@ -24,16 +23,23 @@ type ApiInvoice = {
   }>;
 };
 
+type PartnerApi = {
+  no: string;
+  name: string;
+  balance: number;
+  balanceDue: number;
+};
+
 type InvoicesApiResponse = {
-  partner: {
-    no: string;
-    name: string;
-    balance: number;
-    balanceDue: number;
-  };
+  partner: PartnerApi;
   invoices: ApiInvoice[];
 };
 
+type PartnerInvoices = {
+  partner: PartnerApi;
+  invoices: Invoice[];
+};
+
 const mapStatus = (inv: ApiInvoice): Invoice["status"] => {
   if (inv.remainingAmountIncludingVAT === 0) return "Paid";
 
@@ -51,21 +57,40 @@ const mapInvoice = (inv: ApiInvoice): Invoice => ({
   status: mapStatus(inv),
   invoicePdf: inv.invoicePdf,
   billingDataExcel: inv.lines[0]?.billingDataExcel ?? "",
+  periodStartDate: inv.periodStartDate,
+  periodEndDate: inv.periodEndDate,
 });
 
-export const useInvoices = () => {
+const fetchPartnerInvoices = async (
+  partnerId: string,
+): Promise<PartnerInvoices> => {
+  const { data } = await apiClient.get<InvoicesApiResponse>(
+    `/accounts/${partnerId}/invoices`,
+  );
+  return {
+    partner: data.partner,
+    invoices: data.invoices
+      .map(mapInvoice)
+      .sort((a, b) => (a.postingDate < b.postingDate ? 1 : -1)),
+  };
+};
+
+const selectInvoices = (data: PartnerInvoices) => data.invoices;
+const selectPartner = (data: PartnerInvoices) => data.partner;
+
+// The invoice list and the partner account share one request; each hook
+// selects its part of the cached response.
+const usePartnerInvoicesQuery = <T>(select: (data: PartnerInvoices) => T) => {
+  const { partner } = usePartner();
   return useQuery({
-    queryKey: ["invoices"],
-    queryFn: async () => {
-      const { data } = await apiClient.get<InvoicesApiResponse>(
-        `/accounts/${PARTNER_GUID}/invoices`,
-      );
-      return data.invoices
-        .map(mapInvoice)
-        .sort((a, b) => (a.postingDate < b.postingDate ? 1 : -1));
-    },
+    queryKey: ["invoices", partner.id],
+    queryFn: () => fetchPartnerInvoices(partner.id),
+    select,
     staleTime: 1000 * 60 * 5,
     refetchInterval: 1000 * 60 * 10,
-    placeholderData: (previousData) => previousData,
   });
 };
+
+export const useInvoices = () => usePartnerInvoicesQuery(selectInvoices);
+
+export const usePartnerAccount = () => usePartnerInvoicesQuery(selectPartner);
@@ -0,0 +1,69 @@
+// src/hooks/useMarginRules.ts
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { MarginRule } from "../utils/marginRules";
+import { buildWriteHeaders } from "./useTenantDiscounts";
+
+const MARGIN_RULES_API_URL = "/api/margin-rules";
+export const MARGIN_RULES_QUERY_KEY = ["margin-rules"] as const;
+
+type SaveRulePayload = Pick<
+  MarginRule,
+  "vendorName" | "minMarginPercent" | "enforcement"
+>;
+
+const fetchRules = async (): Promise<MarginRule[]> => {
+  const response = await fetch(MARGIN_RULES_API_URL, {
+    method: "GET",
+    headers: { "Content-Type": "application/json" },
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Kunne ikke hente marginregler (status ${response.status})`,
+    );
+  }
+
+  const payload = (await response.json()) as { rules?: MarginRule[] };
+  return payload.rules ?? [];
+};
+
+const writeRule = async (
+  method: "PUT" | "DELETE",
+  payload: SaveRulePayload | Pick<MarginRule, "vendorName">,
+) => {
+  const response = await fetch(MARGIN_RULES_API_URL, {
+    method,
+    headers: buildWriteHeaders(),
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Kunne ikke gemme marginregel (status ${response.status})`);
+  }
+};
+
+export const useMarginRules = () => {
+  const queryClient = useQueryClient();
+
+  const rulesQuery = useQuery({
+    queryKey: MARGIN_RULES_QUERY_KEY,
+    queryFn: fetchRules,
+    staleTime: 60_000,
+    refetchOnWindowFocus: false,
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: MARGIN_RULES_QUERY_KEY });
+
+  const saveRule = useMutation({
+    mutationFn: (rule: SaveRulePayload) => writeRule("PUT", rule),
+    onSettled: invalidate,
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: (vendorName: string) => writeRule("DELETE", { vendorName }),
+    onSettled: invalidate,
+  });
+
+  return { rulesQuery, saveRule, deleteRule };
+};
@@ -0,0 +1,21 @@
+// src/hooks/usePartner.ts
+import { useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { usePartnerStore } from "../store/usePartnerStore";
+import { getPartnerAccounts, PARTNER_SEARCH_PARAM } from "../utils/partners";
+
+export const usePartner = () => {
+  const [searchParams] = useSearchParams();
+  const storedPartnerId = usePartnerStore((state) => state.partnerId);
+  const partners = useMemo(() => getPartnerAccounts(), []);
+  const requestedPartnerId = searchParams
+    .get(PARTNER_SEARCH_PARAM)
+    ?.toLowerCase();
+
+  const partner =
+    partners.find((account) => account.id === requestedPartnerId) ??
+    partners.find((account) => account.id === storedPartnerId) ??
+    partners[0];
+
+  return { partner, partners };
+};
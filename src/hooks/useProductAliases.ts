@@ -0,0 +1,81 @@
+// src/hooks/useProductAliases.ts
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { ProductAlias } from "../utils/productAliases";
+import { DISCOUNT_HISTORY_QUERY_KEY } from "./useDiscountHistory";
+import { buildWriteHeaders, DISCOUNTS_QUERY_KEY } from "./useTenantDiscounts";
+
+const PRODUCT_ALIASES_API_URL = "/api/product-aliases";
+export const PRODUCT_ALIASES_QUERY_KEY = ["product-aliases"] as const;
+
+type SaveAliasPayload = Pick<ProductAlias, "alias" | "canonicalName">;
+
+const fetchAliases = async (): Promise<ProductAlias[]> => {
+  const response = await fetch(PRODUCT_ALIASES_API_URL, {
+    method: "GET",
+    headers: { "Content-Type": "application/json" },
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Kunne ikke hente produktaliaser (status ${response.status})`,
+    );
+  }
+
+  const payload = (await response.json()) as { aliases?: ProductAlias[] };
+  return payload.aliases ?? [];
+};
+
+const writeAlias = async (
+  method: "PUT" | "DELETE",
+  payload: SaveAliasPayload | Pick<ProductAlias, "alias">,
+) => {
+  const response = await fetch(PRODUCT_ALIASES_API_URL, {
+    method,
+    headers: buildWriteHeaders(),
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const payload = (await response.json().catch(() => null)) as
+      | { message?: string }
+      | null;
+    throw new Error(
+      payload?.message ??
+        `Kunne ikke gemme produktalias (status ${response.status})`,
+    );
+  }
+};
+
+export const useProductAliases = () => {
+  const queryClient = useQueryClient();
+
+  const aliasesQuery = useQuery({
+    queryKey: PRODUCT_ALIASES_QUERY_KEY,
+    queryFn: fetchAliases,
+    staleTime: 60_000,
+    refetchOnWindowFocus: false,
+  });
+
+  // Discounts and their history are served through the aliases, so both
+  // change when an alias does.
+  const invalidate = () =>
+    Promise.all(
+      [
+        PRODUCT_ALIASES_QUERY_KEY,
+        DISCOUNTS_QUERY_KEY,
+        DISCOUNT_HISTORY_QUERY_KEY,
+      ].map((queryKey) => queryClient.invalidateQueries({ queryKey })),
+    );
+
+  const saveAlias = useMutation({
+    mutationFn: (alias: SaveAliasPayload) => writeAlias("PUT", alias),
+    onSettled: invalidate,
+  });
+
+  const deleteAlias = useMutation({
+    mutationFn: (alias: string) => writeAlias("DELETE", { alias }),
+    onSettled: invalidate,
+  });
+
+  return { aliasesQuery, saveAlias, deleteAlias };
+};
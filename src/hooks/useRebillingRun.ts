@@ -0,0 +1,124 @@
+// src/hooks/useRebillingRun.ts
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { PARTNER_HEADER } from "../utils/partners";
+import type { RebillingDraft, RebillingRun } from "../utils/rebilling";
+import { usePartner } from "./usePartner";
+import { buildWriteHeaders } from "./useTenantDiscounts";
+
+type RebillingDraftsPayload = {
+  discountDate: string;
+  drafts: RebillingDraft[];
+};
+
+const REBILLING_API_URL = "/api/rebilling-runs";
+export const REBILLING_RUN_QUERY_KEY = ["rebilling-run"] as const;
+
+const runUrl = (invoiceNo: string) =>
+  `${REBILLING_API_URL}/${encodeURIComponent(invoiceNo)}`;
+
+const readRunResponse = async (
+  response: Response,
+  fallbackMessage: string,
+): Promise<RebillingRun> => {
+  const payload = (await response.json().catch(() => null)) as
+    | (RebillingRun & { message?: string })
+    | null;
+
+  if (!response.ok || !payload) {
+    throw new Error(
+      payload?.message ?? `${fallbackMessage} (status ${response.status})`,
+    );
+  }
+  return payload;
+};
+
+const fetchRebillingRun = async (
+  partnerId: string,
+  invoiceNo: string,
+): Promise<RebillingRun | null> => {
+  const response = await fetch(runUrl(invoiceNo), {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+      [PARTNER_HEADER]: partnerId,
+    },
+  });
+  // No run yet is the normal state for a new invoice.
+  if (response.status === 404) return null;
+  return readRunResponse(response, "Kunne ikke hente kørsel");
+};
+
+export const useRebillingRun = (invoiceNo: string | null) => {
+  const queryClient = useQueryClient();
+  const { partner } = usePartner();
+  const queryKey = [...REBILLING_RUN_QUERY_KEY, partner.id, invoiceNo];
+
+  const runQuery = useQuery({
+    queryKey,
+    queryFn: () =>
+      invoiceNo ? fetchRebillingRun(partner.id, invoiceNo) : null,
+    enabled: !!invoiceNo,
+    refetchOnWindowFocus: false,
+  });
+
+  const onRunChanged = (run: RebillingRun | null) => {
+    queryClient.setQueryData(queryKey, run);
+  };
+
+  const createRun = useMutation({
+    mutationFn: async (payload: RebillingDraftsPayload) => {
+      const response = await fetch(REBILLING_API_URL, {
+        method: "POST",
+        headers: buildWriteHeaders(partner.id),
+        body: JSON.stringify({ invoiceNo, ...payload }),
+      });
+      return readRunResponse(response, "Kunne ikke oprette kørsel");
+    },
+    onSuccess: onRunChanged,
+  });
+
+  const regenerateRun = useMutation({
+    mutationFn: async (payload: RebillingDraftsPayload) => {
+      const response = await fetch(`${runUrl(invoiceNo ?? "")}/drafts`, {
+        method: "PUT",
+        headers: buildWriteHeaders(partner.id),
+        body: JSON.stringify(payload),
+      });
+      return readRunResponse(response, "Kunne ikke opdatere kørsel");
+    },
+    onSuccess: onRunChanged,
+  });
+
+  const lockRun = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`${runUrl(invoiceNo ?? "")}/lock`, {
+        method: "POST",
+        headers: buildWriteHeaders(partner.id),
+      });
+      return readRunResponse(response, "Kunne ikke låse kørsel");
+    },
+    onSuccess: onRunChanged,
+  });
+
+  const deleteRun = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(runUrl(invoiceNo ?? ""), {
+        method: "DELETE",
+        headers: buildWriteHeaders(partner.id),
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as {
+          message?: string;
+        } | null;
+        throw new Error(
+          payload?.message ??
+            `Kunne ikke slette kørsel (status ${response.status})`,
+        );
+      }
+      return null;
+    },
+    onSuccess: onRunChanged,
+  });
+
+  return { runQuery, createRun, regenerateRun, lockRun, deleteRun };
+};
@@ -1,43 +1,120 @@
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  applyRateFrom,
+  resolveRateAt,
+  toIsoDate,
+  type DiscountPeriod,
+} from "../utils/discountPeriods";
+import {
+  DISCOUNT_SCOPE_ORDER,
+  getScopeStorageKey,
+  type DiscountScope,
+  type DiscountTarget,
+} from "../utils/discountScopes";
+import {
+  MARGIN_BELOW_MINIMUM,
+  MARGIN_PRICING_REQUIRED,
+  type MarginPricing,
+  type MarginViolation,
+} from "../utils/marginRules";
+import { PARTNER_HEADER } from "../utils/partners";
+import { DISCOUNT_HISTORY_QUERY_KEY } from "./useDiscountHistory";
+import { usePartner } from "./usePartner";
 
-export type TenantProductDiscounts = Record<string, number>;
+export type TenantProductDiscounts = Record<string, DiscountPeriod[]>;
 export type TenantDiscountState = Record<string, TenantProductDiscounts>;
 
-type UpsertDiscountPayload = {
-  tenantId: string;
-  vendorName: string;
-  productName: string;
+export type ResolvedDiscount = {
   rate: number;
+  scope: DiscountScope;
 };
 
-type DeleteDiscountPayload = {
-  tenantId: string;
-  vendorName: string;
-  productName: string;
+type DeleteDiscountPayload = DiscountTarget & {
+  scope: DiscountScope;
+  validFrom: string;
 };
 
+type UpsertDiscountPayload = DeleteDiscountPayload & {
+  rate: number;
+  pricing?: MarginPricing[];
+};
+
+export type ScopedDiscountWriteOptions = {
+  // Products the write affects, checked by the server's margin rules.
+  pricing?: MarginPricing[];
+  onMarginRejected?: (violations: MarginViolation[]) => void;
+};
+
+type WriteErrorBody = {
+  code?: string;
+  message?: string;
+  violations?: MarginViolation[];
+};
+
+const MARGIN_ERROR_CODES = [MARGIN_BELOW_MINIMUM, MARGIN_PRICING_REQUIRED];
+
+// A write the server refused under the margin rules. `violations` is empty
+// when the rule could not be checked because prices were missing.
+export class MarginRuleError extends Error {
+  readonly code: string;
+  readonly violations: MarginViolation[];
+
+  constructor(code: string, message: string, violations: MarginViolation[]) {
+    super(message);
+    this.name = "MarginRuleError";
+    this.code = code;
+    this.violations = violations;
+  }
+}
+
 const DISCOUNTS_API_URL = "/api/tenant-discounts";
-const DISCOUNTS_QUERY_KEY = ["tenant-discounts"] as const;
+export const DISCOUNTS_QUERY_KEY = ["tenant-discounts"] as const;
 
 const clampRate = (value: number) => Math.min(100, Math.max(0, value));
 
-const makeProductKey = (vendorName: string, productName: string) =>
-  `${vendorName ?? "vendor"}::${productName ?? "product"}`.toLowerCase();
+// Writes are attributed to the signed-in user by the session cookie, so no
+// actor header is needed. Partner-scoped endpoints also get the account.
+export const buildWriteHeaders = (
+  partnerId?: string,
+): Record<string, string> => ({
+  "Content-Type": "application/json",
+  ...(partnerId ? { [PARTNER_HEADER]: partnerId } : {}),
+});
 
 const parseDiscountPayload = (payload: unknown): TenantDiscountState => {
   if (!payload || typeof payload !== "object") return {};
 
-  const typed = payload as { discounts?: unknown };
+  const typed = payload as { periods?: unknown; discounts?: unknown };
+  if (typed.periods && typeof typed.periods === "object") {
+    return typed.periods as TenantDiscountState;
+  }
   if (!typed.discounts || typeof typed.discounts !== "object") return {};
 
-  return typed.discounts as TenantDiscountState;
+  // Flat rates from an API without periods apply to every date.
+  const flat = typed.discounts as Record<string, Record<string, number>>;
+  return Object.fromEntries(
+    Object.entries(flat).map(([tenantId, products]) => [
+      tenantId,
+      Object.fromEntries(
+        Object.entries(products).map(([productKey, rate]) => [
+          productKey,
+          [{ validFrom: null, validTo: null, rate }],
+        ]),
+      ),
+    ]),
+  );
 };
 
-const fetchDiscounts = async (): Promise<TenantDiscountState> => {
+const fetchDiscounts = async (
+  partnerId: string,
+): Promise<TenantDiscountState> => {
   const response = await fetch(DISCOUNTS_API_URL, {
     method: "GET",
-    headers: { "Content-Type": "application/json" },
+    headers: {
+      "Content-Type": "application/json",
+      [PARTNER_HEADER]: partnerId,
+    },
   });
 
   if (!response.ok) {
@@ -48,113 +125,224 @@ const fetchDiscounts = async (): Promise<TenantDiscountState> => {
   return parseDiscountPayload(payload);
 };
 
-const upsertDiscount = async (payload: UpsertDiscountPayload) => {
+const readWriteError = async (response: Response, fallback: string) => {
+  const body = (await response
+    .json()
+    .catch(() => null)) as WriteErrorBody | null;
+  const message = body?.message ?? `${fallback} (status ${response.status})`;
+  return body?.code && MARGIN_ERROR_CODES.includes(body.code)
+    ? new MarginRuleError(body.code, message, body.violations ?? [])
+    : new Error(message);
+};
+
+const upsertDiscount = async (
+  partnerId: string,
+  payload: UpsertDiscountPayload,
+) => {
   const response = await fetch(DISCOUNTS_API_URL, {
     method: "PUT",
-    headers: { "Content-Type": "application/json" },
+    headers: buildWriteHeaders(partnerId),
     body: JSON.stringify(payload),
   });
 
   if (!response.ok) {
-    throw new Error(`Kunne ikke gemme rabat (status ${response.status})`);
+    throw await readWriteError(response, "Kunne ikke gemme rabat");
   }
 };
 
-const deleteDiscount = async (payload: DeleteDiscountPayload) => {
+const deleteDiscount = async (
+  partnerId: string,
+  payload: DeleteDiscountPayload,
+) => {
   const response = await fetch(DISCOUNTS_API_URL, {
     method: "DELETE",
-    headers: { "Content-Type": "application/json" },
+    headers: buildWriteHeaders(partnerId),
     body: JSON.stringify(payload),
   });
 
   if (!response.ok) {
-    throw new Error(`Kunne ikke slette rabat (status ${response.status})`);
+    throw await readWriteError(response, "Kunne ikke slette rabat");
   }
 };
 
+const toErrorKey = ([tenantKey, productKey]: [string, string]) =>
+  `${tenantKey}|${productKey}`;
+
 export const useTenantDiscounts = () => {
   const queryClient = useQueryClient();
+  const { partner } = usePartner();
+  const partnerId = partner.id;
   const { data: discounts = {} } = useQuery<TenantDiscountState>({
-    queryKey: DISCOUNTS_QUERY_KEY,
-    queryFn: fetchDiscounts,
+    queryKey: [...DISCOUNTS_QUERY_KEY, partnerId],
+    queryFn: () => fetchDiscounts(partnerId),
     staleTime: 30_000,
     refetchOnWindowFocus: false,
   });
+  // Why the last write to each scope key failed, until the next write to it.
+  const [writeErrors, setWriteErrors] = useState<Record<string, string>>({});
 
-  const getDiscountRate = useCallback(
-    (tenantId: string | undefined, vendorName: string, productName: string) => {
-      if (!tenantId) return undefined;
-      const productKey = makeProductKey(vendorName, productName);
-      return discounts[tenantId]?.[productKey];
+  const getScopedDiscountRate = useCallback(
+    (scope: DiscountScope, target: DiscountTarget, effectiveDate?: string) => {
+      const storageKey = getScopeStorageKey(scope, target);
+      if (!storageKey) return undefined;
+      const [tenantKey, productKey] = storageKey;
+      return resolveRateAt(
+        discounts[tenantKey]?.[productKey],
+        toIsoDate(effectiveDate ?? new Date()),
+      );
     },
     [discounts],
   );
 
-  const setDiscountRate = useCallback(
+  // Walks the scopes from product to global vendor default and returns the
+  // first rate in force. `effectiveDate` selects the period, so an invoice
+  // shows the rate that applied to its billing period rather than today's.
+  const resolveDiscount = useCallback(
+    (
+      tenantId: string | undefined,
+      vendorName: string,
+      productName: string,
+      effectiveDate?: string,
+    ): ResolvedDiscount | undefined => {
+      if (!tenantId) return undefined;
+      const target = { tenantId, vendorName, productName };
+      for (const scope of DISCOUNT_SCOPE_ORDER) {
+        const rate = getScopedDiscountRate(scope, target, effectiveDate);
+        if (rate !== undefined) return { rate, scope };
+      }
+      return undefined;
+    },
+    [getScopedDiscountRate],
+  );
+
+  const getDiscountRate = useCallback(
     (
       tenantId: string | undefined,
       vendorName: string,
       productName: string,
+      effectiveDate?: string,
+    ) => resolveDiscount(tenantId, vendorName, productName, effectiveDate)?.rate,
+    [resolveDiscount],
+  );
+
+  const setScopedDiscountRate = useCallback(
+    (
+      scope: DiscountScope,
+      target: DiscountTarget,
       rate: number | null,
+      effectiveDate?: string,
+      options: ScopedDiscountWriteOptions = {},
     ) => {
-      if (!tenantId) return;
-      const productKey = makeProductKey(vendorName, productName);
+      const storageKey = getScopeStorageKey(scope, target);
+      if (!storageKey) return;
+      const [tenantKey, productKey] = storageKey;
+      const errorKey = toErrorKey(storageKey);
+      const validFrom = toIsoDate(effectiveDate ?? new Date());
+      setWriteErrors((prev) => {
+        if (!(errorKey in prev)) return prev;
+        const next = { ...prev };
+        delete next[errorKey];
+        return next;
+      });
       const normalizedRate =
         rate === null || Number.isNaN(rate)
           ? null
           : Math.round(clampRate(rate) * 100) / 100;
 
       queryClient.setQueryData<TenantDiscountState>(
-        DISCOUNTS_QUERY_KEY,
+        [...DISCOUNTS_QUERY_KEY, partnerId],
         (prev = {}) => {
-          const tenantDiscounts = prev[tenantId] ?? {};
-          if (normalizedRate === null) {
-            if (!(productKey in tenantDiscounts)) return prev;
-            const restProducts = { ...tenantDiscounts };
+          const tenantDiscounts = prev[tenantKey] ?? {};
+          const nextPeriods = applyRateFrom(
+            tenantDiscounts[productKey],
+            validFrom,
+            normalizedRate,
+          );
+          const restProducts = { ...tenantDiscounts };
+          if (nextPeriods.length === 0) {
             delete restProducts[productKey];
-            const next = { ...prev };
-            if (Object.keys(restProducts).length === 0) {
-              delete next[tenantId];
-            } else {
-              next[tenantId] = restProducts;
-            }
-            return next;
+          } else {
+            restProducts[productKey] = nextPeriods;
           }
 
-          return {
-            ...prev,
-            [tenantId]: {
-              ...tenantDiscounts,
-              [productKey]: normalizedRate,
-            },
-          };
+          const next = { ...prev };
+          if (Object.keys(restProducts).length === 0) {
+            delete next[tenantKey];
+          } else {
+            next[tenantKey] = restProducts;
+          }
+          return next;
         },
       );
 
       const payload = {
-        tenantId,
-        vendorName,
-        productName,
+        ...target,
+        scope,
+        validFrom,
       };
 
       const persist =
         normalizedRate === null
-          ? deleteDiscount(payload)
-          : upsertDiscount({
+          ? deleteDiscount(partnerId, payload)
+          : upsertDiscount(partnerId, {
               ...payload,
               rate: normalizedRate,
+              pricing: options.pricing,
             });
 
-      void persist.catch((error) => {
-        console.warn("Kunne ikke gemme rabat i databasen", error);
-        void queryClient.invalidateQueries({ queryKey: DISCOUNTS_QUERY_KEY });
-      });
+      void persist
+        .catch((error: Error) => {
+          if (error instanceof MarginRuleError) {
+            options.onMarginRejected?.(error.violations);
+          }
+          setWriteErrors((prev) => ({ ...prev, [errorKey]: error.message }));
+          void queryClient.invalidateQueries({
+            queryKey: DISCOUNTS_QUERY_KEY,
+          });
+        })
+        .finally(() => {
+          void queryClient.invalidateQueries({
+            queryKey: DISCOUNT_HISTORY_QUERY_KEY,
+          });
+        });
+    },
+    [partnerId, queryClient],
+  );
+
+  const getScopedWriteError = useCallback(
+    (scope: DiscountScope, target: DiscountTarget) => {
+      const storageKey = getScopeStorageKey(scope, target);
+      return storageKey ? writeErrors[toErrorKey(storageKey)] : undefined;
     },
-    [queryClient],
+    [writeErrors],
+  );
+
+  const setDiscountRate = useCallback(
+    (
+      tenantId: string | undefined,
+      vendorName: string,
+      productName: string,
+      rate: number | null,
+      effectiveDate?: string,
+      options?: ScopedDiscountWriteOptions,
+    ) =>
+      setScopedDiscountRate(
+        "product",
+        { tenantId, vendorName, productName },
+        rate,
+        effectiveDate,
+        options,
+      ),
+    [setScopedDiscountRate],
   );
 
   return {
+    discounts,
     getDiscountRate,
+    resolveDiscount,
+    getScopedDiscountRate,
+    getScopedWriteError,
     setDiscountRate,
+    setScopedDiscountRate,
   };
 };
@@ -0,0 +1,89 @@
+// src/hooks/useUsers.ts
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { CurrentUser, UserRole } from "../utils/permissions";
+import { buildWriteHeaders } from "./useTenantDiscounts";
+
+export type UserAccount = Omit<CurrentUser, "permissions">;
+
+type CreateUserPayload = {
+  username: string;
+  displayName: string;
+  role: UserRole;
+  password: string;
+};
+
+type UpdateUserPayload = {
+  id: number;
+  displayName?: string;
+  role?: UserRole;
+  password?: string;
+  disabled?: boolean;
+};
+
+const USERS_API_URL = "/api/users";
+export const USERS_QUERY_KEY = ["users"] as const;
+
+const readJsonResponse = async <T>(
+  response: Response,
+  fallbackMessage: string,
+): Promise<T> => {
+  const payload = (await response.json().catch(() => null)) as
+    | (T & { message?: string })
+    | null;
+  if (!response.ok || !payload) {
+    throw new Error(
+      payload?.message ?? `${fallbackMessage} (status ${response.status})`,
+    );
+  }
+  return payload;
+};
+
+export const useUsers = (enabled = true) => {
+  const queryClient = useQueryClient();
+
+  const usersQuery = useQuery({
+    queryKey: USERS_QUERY_KEY,
+    queryFn: async () => {
+      const payload = await readJsonResponse<{ users: UserAccount[] }>(
+        await fetch(USERS_API_URL, {
+          method: "GET",
+          headers: { "Content-Type": "application/json" },
+        }),
+        "Kunne ikke hente brugere",
+      );
+      return payload.users;
+    },
+    enabled,
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: USERS_QUERY_KEY });
+
+  const createUser = useMutation({
+    mutationFn: async (payload: CreateUserPayload) =>
+      readJsonResponse<UserAccount>(
+        await fetch(USERS_API_URL, {
+          method: "POST",
+          headers: buildWriteHeaders(),
+          body: JSON.stringify(payload),
+        }),
+        "Kunne ikke oprette bruger",
+      ),
+    onSettled: invalidate,
+  });
+
+  const updateUser = useMutation({
+    mutationFn: async ({ id, ...changes }: UpdateUserPayload) =>
+      readJsonResponse<UserAccount>(
+        await fetch(`${USERS_API_URL}/${id}`, {
+          method: "PATCH",
+          headers: buildWriteHeaders(),
+          body: JSON.stringify(changes),
+        }),
+        "Kunne ikke opdatere bruger",
+      ),
+    onSettled: invalidate,
+  });
+
+  return { usersQuery, createUser, updateUser };
+};
@@ -0,0 +1,75 @@
+// src/hooks/useVendorRules.ts
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { VendorRule } from "../utils/vendorRules";
+import { buildWriteHeaders } from "./useTenantDiscounts";
+
+const VENDOR_RULES_API_URL = "/api/vendor-rules";
+export const VENDOR_RULES_QUERY_KEY = ["vendor-rules"] as const;
+
+export type VendorRuleInput = Omit<VendorRule, "updatedAt" | "updatedBy">;
+
+const fetchRules = async (): Promise<VendorRule[]> => {
+  const response = await fetch(VENDOR_RULES_API_URL, {
+    method: "GET",
+    headers: { "Content-Type": "application/json" },
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Kunne ikke hente leverandørregler (status ${response.status})`,
+    );
+  }
+
+  const payload = (await response.json()) as { rules?: VendorRule[] };
+  return payload.rules ?? [];
+};
+
+const writeRule = async (
+  method: "POST" | "PUT" | "DELETE",
+  id: number | undefined,
+  payload?: VendorRuleInput,
+) => {
+  const url =
+    id === undefined ? VENDOR_RULES_API_URL : `${VENDOR_RULES_API_URL}/${id}`;
+  const response = await fetch(url, {
+    method,
+    headers: buildWriteHeaders(),
+    body: payload ? JSON.stringify(payload) : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Kunne ikke gemme leverandørregel (status ${response.status})`,
+    );
+  }
+};
+
+export const useVendorRules = () => {
+  const queryClient = useQueryClient();
+
+  const rulesQuery = useQuery({
+    queryKey: VENDOR_RULES_QUERY_KEY,
+    queryFn: fetchRules,
+    staleTime: 60_000,
+    refetchOnWindowFocus: false,
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: VENDOR_RULES_QUERY_KEY });
+
+  // Rules without an id are created; the rest replace the stored rule.
+  const saveRule = useMutation({
+    mutationFn: ({ id, ...rule }: VendorRuleInput) =>
+      id === undefined
+        ? writeRule("POST", undefined, rule)
+        : writeRule("PUT", id, rule),
+    onSettled: invalidate,
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: (id: number) => writeRule("DELETE", id),
+    onSettled: invalidate,
+  });
+
+  return { rulesQuery, saveRule, deleteRule };
+};
@@ -0,0 +1,78 @@
+// src/hooks/useWlPartners.ts
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  buildWlPartnerMap,
+  DEFAULT_WL_PARTNERS,
+  type WlPartner,
+} from "../utils/wlPartners";
+import { buildWriteHeaders } from "./useTenantDiscounts";
+
+const WL_PARTNERS_API_URL = "/api/wl-partners";
+export const WL_PARTNERS_QUERY_KEY = ["wl-partners"] as const;
+
+export type WlPartnerInput = Omit<WlPartner, "updatedAt" | "updatedBy">;
+
+const fetchPartners = async (): Promise<WlPartner[]> => {
+  const response = await fetch(WL_PARTNERS_API_URL, {
+    method: "GET",
+    headers: { "Content-Type": "application/json" },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Kunne ikke hente WL-partnere (status ${response.status})`);
+  }
+
+  const payload = (await response.json()) as { partners?: WlPartner[] };
+  return payload.partners ?? [];
+};
+
+const writePartner = async (
+  method: "PUT" | "DELETE",
+  code: string,
+  payload?: Omit<WlPartnerInput, "code">,
+) => {
+  const response = await fetch(
+    `${WL_PARTNERS_API_URL}/${encodeURIComponent(code)}`,
+    {
+      method,
+      headers: buildWriteHeaders(),
+      body: payload ? JSON.stringify(payload) : undefined,
+    },
+  );
+
+  if (!response.ok) {
+    throw new Error(`Kunne ikke gemme WL-partner (status ${response.status})`);
+  }
+};
+
+export const useWlPartners = () => {
+  const queryClient = useQueryClient();
+
+  const partnersQuery = useQuery({
+    queryKey: WL_PARTNERS_QUERY_KEY,
+    queryFn: fetchPartners,
+    staleTime: 60_000,
+    refetchOnWindowFocus: false,
+  });
+
+  // Labels fall back to the seeded partners until the catalogue has loaded.
+  const partners = partnersQuery.data ?? DEFAULT_WL_PARTNERS;
+  const partnerMap = useMemo(() => buildWlPartnerMap(partners), [partners]);
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: WL_PARTNERS_QUERY_KEY });
+
+  const savePartner = useMutation({
+    mutationFn: ({ code, ...partner }: WlPartnerInput) =>
+      writePartner("PUT", code, partner),
+    onSettled: invalidate,
+  });
+
+  const deletePartner = useMutation({
+    mutationFn: (code: string) => writePartner("DELETE", code),
+    onSettled: invalidate,
+  });
+
+  return { partnersQuery, partnerMap, savePartner, deletePartner };
+};
@@ -0,0 +1,257 @@
+// src/pages/AccountingSettingsPage.tsx
+import { useState, type FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Pencil, Trash2 } from "lucide-react";
+import { Button } from "../components/ui/Button";
+import { Skeleton } from "../components/ui/Skeleton";
+import { useAccountingMappings } from "../hooks/useAccountingMappings";
+import { useHasPermission } from "../hooks/useCurrentUser";
+import {
+  ACCOUNTING_SYSTEMS,
+  DEFAULT_MAPPING_VENDOR,
+  accountingSystemLabels,
+  type AccountingMapping,
+  type AccountingSystem,
+} from "../utils/accountingExport";
+
+type MappingForm = Omit<AccountingMapping, "system">;
+
+const emptyForm: MappingForm = {
+  vendorName: "",
+  accountNumber: "",
+  contraAccountNumber: "",
+  vatCode: "",
+};
+
+const vatCodeHints: Record<AccountingSystem, string> = {
+  economic: "fx U25",
+  dinero: "fx U25",
+  "business-central": "fx STANDARD",
+};
+
+const inputClassName =
+  "h-8 w-full rounded-lg border border-slate-200 bg-white px-2 text-xs text-slate-800 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200";
+
+const formatVendor = (vendorName: string) =>
+  vendorName === DEFAULT_MAPPING_VENDOR
+    ? "Standard (alle leverandører)"
+    : vendorName;
+
+export const AccountingSettingsPage = () => {
+  const [system, setSystem] = useState<AccountingSystem>("economic");
+  const [form, setForm] = useState<MappingForm>(emptyForm);
+  const { mappingsQuery, saveMapping, deleteMapping } =
+    useAccountingMappings(system);
+  const canEdit = useHasPermission("accounting:write");
+  const mappings = mappingsQuery.data ?? [];
+  const hasDefault = mappings.some(
+    (mapping) => mapping.vendorName === DEFAULT_MAPPING_VENDOR,
+  );
+
+  const updateForm = (field: keyof MappingForm, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    saveMapping.mutate(
+      { ...form, system },
+      { onSuccess: () => setForm(emptyForm) },
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <nav
+        className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400"
+        aria-label="Brødkrumme"
+      >
+        <Link
+          to="/"
+          className="inline-flex items-center gap-1 font-medium text-blue-600 transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Fakturaer
+        </Link>
+        <span aria-hidden>/</span>
+        <span className="font-medium text-slate-700 dark:text-slate-300">
+          Bogføring
+        </span>
+      </nav>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <h1 className="text-xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+          Kontoopsætning til bogføring
+        </h1>
+        <p className="mt-1 max-w-2xl text-xs text-slate-500 dark:text-slate-400">
+          Vælg hvilken omsætningskonto, modkonto og momskode hver leverandør
+          bogføres på. Leverandører uden egen opsætning bruger
+          standardrækken. Kladden eksporteres fra fakturasiden.
+        </p>
+        <div
+          className="mt-4 flex flex-wrap gap-1.5"
+          role="group"
+          aria-label="Bogføringssystem"
+        >
+          {ACCOUNTING_SYSTEMS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => {
+                setSystem(option);
+                setForm(emptyForm);
+              }}
+              className={`inline-flex items-center rounded-full border px-3 py-1 text-xs font-semibold transition-all ${
+                system === option
+                  ? "border-blue-500 bg-blue-50 text-blue-700 dark:border-blue-600 dark:bg-blue-950/60 dark:text-blue-400"
+                  : "border-slate-200 bg-white text-slate-600 hover:border-slate-300 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-400"
+              }`}
+            >
+              {accountingSystemLabels[option]}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        {canEdit && (
+          <form
+            onSubmit={handleSubmit}
+            className="grid gap-2 border-b border-slate-100 p-4 sm:grid-cols-[2fr_1fr_1fr_1fr_auto] sm:items-end dark:border-slate-800"
+          >
+            <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+              Leverandør
+              <input
+                value={form.vendorName}
+                onChange={(event) =>
+                  updateForm("vendorName", event.target.value)
+                }
+                placeholder={hasDefault ? "fx Microsoft" : "* for standard"}
+                required
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+              Konto
+              <input
+                value={form.accountNumber}
+                onChange={(event) =>
+                  updateForm("accountNumber", event.target.value)
+                }
+                required
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+              Modkonto
+              <input
+                value={form.contraAccountNumber}
+                onChange={(event) =>
+                  updateForm("contraAccountNumber", event.target.value)
+                }
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+              Momskode
+              <input
+                value={form.vatCode}
+                onChange={(event) => updateForm("vatCode", event.target.value)}
+                placeholder={vatCodeHints[system]}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <Button type="submit" size="sm" isLoading={saveMapping.isPending}>
+              Gem
+            </Button>
+          </form>
+        )}
+        {(saveMapping.isError || deleteMapping.isError) && (
+          <p className="px-4 pt-3 text-xs font-medium text-rose-600 dark:text-rose-400">
+            {(saveMapping.error ?? deleteMapping.error)?.message}
+          </p>
+        )}
+
+        {mappingsQuery.isLoading ? (
+          <div className="space-y-2 p-4">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : mappings.length === 0 ? (
+          <p className="p-6 text-center text-xs text-slate-500 dark:text-slate-400">
+            Ingen konti opsat for {accountingSystemLabels[system]} endnu. Start
+            med en standardrække med leverandør <code>*</code>.
+          </p>
+        ) : (
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+              <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                <th className="px-4 py-2 text-left">Leverandør</th>
+                <th className="px-4 py-2 text-left">Konto</th>
+                <th className="px-4 py-2 text-left">Modkonto</th>
+                <th className="px-4 py-2 text-left">Momskode</th>
+                {canEdit && <th className="px-4 py-2" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {mappings.map((mapping) => (
+                <tr
+                  key={mapping.vendorName}
+                  className="text-slate-700 dark:text-slate-300"
+                >
+                  <td className="px-4 py-2 font-medium">
+                    {formatVendor(mapping.vendorName)}
+                  </td>
+                  <td className="px-4 py-2 font-mono">
+                    {mapping.accountNumber}
+                  </td>
+                  <td className="px-4 py-2 font-mono">
+                    {mapping.contraAccountNumber || "—"}
+                  </td>
+                  <td className="px-4 py-2 font-mono">
+                    {mapping.vatCode || "—"}
+                  </td>
+                  {canEdit && (
+                    <td className="px-4 py-2 text-right">
+                      <div className="inline-flex gap-1">
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setForm({
+                              vendorName: mapping.vendorName,
+                              accountNumber: mapping.accountNumber,
+                              contraAccountNumber: mapping.contraAccountNumber,
+                              vatCode: mapping.vatCode,
+                            })
+                          }
+                          aria-label={`Redigér ${formatVendor(mapping.vendorName)}`}
+                          className="rounded-full p-1 text-slate-400 hover:bg-slate-100 hover:text-slate-700 dark:hover:bg-slate-800 dark:hover:text-slate-200"
+                        >
+                          <Pencil className="h-3.5 w-3.5" aria-hidden />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            deleteMapping.mutate({
+                              system,
+                              vendorName: mapping.vendorName,
+                            })
+                          }
+                          aria-label={`Slet ${formatVendor(mapping.vendorName)}`}
+                          className="rounded-full p-1 text-slate-400 hover:bg-rose-50 hover:text-rose-600 dark:hover:bg-rose-950/40 dark:hover:text-rose-400"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" aria-hidden />
+                        </button>
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default AccountingSettingsPage;
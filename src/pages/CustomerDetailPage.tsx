@@ -0,0 +1,589 @@
+// src/pages/CustomerDetailPage.tsx
+import { useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { AlertTriangle, ArrowLeft } from "lucide-react";
+import { ScopedDiscountInput } from "../components/ScopedDiscountInput";
+import { Skeleton } from "../components/ui/Skeleton";
+import { useCustomers } from "../hooks/useCustomers";
+import { useHasPermission } from "../hooks/useCurrentUser";
+import { useInvoiceDetails } from "../hooks/useInvoiceDetail";
+import { useInvoices } from "../hooks/useInvoices";
+import { useMarginRules } from "../hooks/useMarginRules";
+import { useTenantDiscounts } from "../hooks/useTenantDiscounts";
+import type { QuantityUnit } from "../types/invoice";
+import { translateCommitmentTerm } from "../utils/billingLabels";
+import {
+  buildMonthlyVendorSpend,
+  collectCustomerInvoices,
+  listProductDiscounts,
+  summarizeCustomerSubscriptions,
+  type MonthlyVendorSpend,
+} from "../utils/customerHistory";
+import { toIsoDate } from "../utils/discountPeriods";
+import {
+  discountScopeLabels,
+  type DiscountScope,
+  type DiscountTarget,
+} from "../utils/discountScopes";
+import {
+  collectDiscountPricing,
+  excludeOverriddenPricing,
+  describeMarginViolation,
+  evaluateMarginRules,
+  type MarginViolation,
+} from "../utils/marginRules";
+
+// How many of the latest invoices the history is built from. Every invoice
+// is a separate Cloud Factory request, so the default stays at a year.
+const historyOptions = [
+  { value: 6, label: "6 fakturaer" },
+  { value: 12, label: "12 fakturaer" },
+  { value: 24, label: "24 fakturaer" },
+  { value: 0, label: "Alle fakturaer" },
+];
+
+// Tailwind classes per vendor in the spend chart, assigned in legend order.
+const vendorColors = [
+  "bg-blue-500",
+  "bg-emerald-500",
+  "bg-amber-500",
+  "bg-violet-500",
+  "bg-rose-500",
+  "bg-cyan-500",
+  "bg-slate-400",
+];
+
+const currencyFormatter = new Intl.NumberFormat("da-DK", {
+  style: "currency",
+  currency: "DKK",
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+const quantityFormatter = new Intl.NumberFormat("da-DK", {
+  maximumFractionDigits: 2,
+});
+
+const formatCurrency = (value: number) => currencyFormatter.format(value);
+
+const quantityUnitLabels: Record<QuantityUnit, string> = {
+  licenses: "licenser",
+  seats: "seats",
+  gb: "GB",
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("da-DK", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01`).toLocaleDateString("da-DK", {
+    month: "short",
+    year: "2-digit",
+  });
+
+const selectClassName =
+  "h-8 rounded-lg border border-slate-200 bg-white px-2 text-xs text-slate-700 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200";
+
+const sectionClassName =
+  "rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900";
+
+const SpendChart = ({
+  months,
+  vendors,
+}: {
+  months: MonthlyVendorSpend[];
+  vendors: string[];
+}) => {
+  const maxTotal = Math.max(...months.map((month) => month.total), 0);
+
+  return (
+    <div>
+      <div className="flex h-44 items-end gap-1.5 border-b border-slate-200 dark:border-slate-700">
+        {months.map((month) => (
+          <div
+            key={month.month}
+            className="flex h-full min-w-0 flex-1 flex-col-reverse"
+            title={`${formatMonth(month.month)}: ${formatCurrency(month.total)}`}
+          >
+            {vendors.map((vendor, index) => {
+              const amount = month.vendors[vendor] ?? 0;
+              if (amount <= 0 || maxTotal <= 0) return null;
+              return (
+                <div
+                  key={vendor}
+                  className={`w-full last:rounded-t ${
+                    vendorColors[index % vendorColors.length]
+                  }`}
+                  style={{ height: `${(amount / maxTotal) * 100}%` }}
+                  title={`${vendor}, ${formatMonth(month.month)}: ${formatCurrency(amount)}`}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="mt-1 flex gap-1.5">
+        {months.map((month) => (
+          <span
+            key={month.month}
+            className="min-w-0 flex-1 truncate text-center text-[10px] text-slate-400"
+          >
+            {formatMonth(month.month)}
+          </span>
+        ))}
+      </div>
+      <ul className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-[11px] text-slate-600 dark:text-slate-400">
+        {vendors.map((vendor, index) => (
+          <li key={vendor} className="inline-flex items-center gap-1.5">
+            <span
+              className={`h-2 w-2 rounded-full ${
+                vendorColors[index % vendorColors.length]
+              }`}
+              aria-hidden
+            />
+            {vendor}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export const CustomerDetailPage = () => {
+  const { customerId: customerIdParam } = useParams<{ customerId: string }>();
+  const customerId = Number(customerIdParam);
+  const [historyLength, setHistoryLength] = useState(12);
+  const [marginViolations, setMarginViolations] = useState<MarginViolation[]>(
+    [],
+  );
+  const { customersQuery, registry } = useCustomers();
+  const { data: invoices, isLoading: isLoadingInvoices } = useInvoices();
+  const {
+    discounts,
+    getDiscountRate,
+    resolveDiscount,
+    getScopedDiscountRate,
+    getScopedWriteError,
+    setScopedDiscountRate,
+  } = useTenantDiscounts();
+  const { rulesQuery: marginRulesQuery } = useMarginRules();
+  const canEditDiscounts = useHasPermission("discounts:write");
+  const today = toIsoDate(new Date());
+
+  const customer = customersQuery.data?.find(
+    (candidate) => candidate.id === customerId,
+  );
+  const invoiceNos = useMemo(
+    () =>
+      (historyLength > 0
+        ? (invoices ?? []).slice(0, historyLength)
+        : (invoices ?? [])
+      ).map((invoice) => invoice.invoiceNumber),
+    [historyLength, invoices],
+  );
+  const detailQueries = useInvoiceDetails(invoiceNos);
+  const loadedCount = detailQueries.filter((query) => query.isSuccess).length;
+  const failedCount = detailQueries.filter((query) => query.isError).length;
+  const isLoadingHistory = detailQueries.some((query) => query.isLoading);
+
+  const customerInvoices = collectCustomerInvoices(
+    detailQueries.map((query) => query.data),
+    registry,
+    customerId,
+  );
+  const monthlySpend = buildMonthlyVendorSpend(
+    customerInvoices,
+    getDiscountRate,
+  );
+  const subscriptions = summarizeCustomerSubscriptions(customerInvoices);
+  const spendVendors = Array.from(
+    new Set(monthlySpend.flatMap((month) => Object.keys(month.vendors))),
+  ).sort((a, b) => a.localeCompare(b, "da"));
+  const latestCard = customerInvoices.at(-1)?.customer;
+  const tenantId = customer?.primaryTenantId;
+
+  const billedProductKeys = new Set(
+    subscriptions.map(
+      (subscription) =>
+        `${subscription.vendorName}::${subscription.productName}`.toLowerCase(),
+    ),
+  );
+  const otherProductDiscounts = listProductDiscounts(
+    tenantId ? discounts[tenantId] : undefined,
+    today,
+  ).filter(
+    (discount) =>
+      !billedProductKeys.has(
+        `${discount.vendorName}::${discount.productName}`,
+      ),
+  );
+  const discountVendors = Array.from(
+    new Set(subscriptions.map((subscription) => subscription.vendorName)),
+  ).sort((a, b) => a.localeCompare(b, "da"));
+
+  // Same margin check as the invoice page, priced from the customer's latest
+  // invoice. Rates written here take effect from today.
+  const writeDiscount = (
+    scope: DiscountScope,
+    target: DiscountTarget,
+    rate: number | null,
+  ) => {
+    const pricing = latestCard
+      ? collectDiscountPricing([latestCard], scope, target)
+      : [];
+    const affected = excludeOverriddenPricing(
+      pricing,
+      scope,
+      (specificScope, specificTarget) =>
+        getScopedDiscountRate(specificScope, specificTarget, today),
+    );
+    const violations =
+      rate === null
+        ? []
+        : evaluateMarginRules(marginRulesQuery.data ?? [], affected, rate);
+    setMarginViolations(violations);
+    if (violations.some((violation) => violation.enforcement === "block")) {
+      return;
+    }
+
+    setScopedDiscountRate(scope, target, rate, today, {
+      pricing,
+      onMarginRejected: setMarginViolations,
+    });
+  };
+
+  if (customersQuery.isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="space-y-4">
+        <Link
+          to="/customers"
+          className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Kunder
+        </Link>
+        <div className="rounded-2xl border border-rose-200 bg-rose-50 p-6 text-sm text-rose-700 dark:border-rose-900 dark:bg-rose-950/40 dark:text-rose-300">
+          Kunden findes ikke. Den kan være flettet ind i en anden kunde.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <nav
+        className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400"
+        aria-label="Brødkrumme"
+      >
+        <Link
+          to="/"
+          className="inline-flex items-center gap-1 font-medium text-blue-600 transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Fakturaer
+        </Link>
+        <span aria-hidden>/</span>
+        <Link
+          to="/customers"
+          className="font-medium text-blue-600 transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          Kunder
+        </Link>
+        <span aria-hidden>/</span>
+        <span className="font-medium text-slate-700 dark:text-slate-300">
+          {customer.name}
+        </span>
+      </nav>
+
+      <section className={sectionClassName}>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+              {customer.name}
+            </h1>
+            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+              {customer.vatId ? `CVR ${customer.vatId}` : "Intet CVR"}
+              {customer.references.length > 0 &&
+                ` · Ref.: ${customer.references.join(", ")}`}
+            </p>
+            <ul className="mt-2 flex flex-wrap gap-1.5">
+              {customer.tenants.map((tenant) => (
+                <li
+                  key={tenant.tenantId}
+                  className="rounded-full bg-slate-100 px-2 py-0.5 font-mono text-[10px] text-slate-600 dark:bg-slate-800 dark:text-slate-400"
+                  title={tenant.tenantId}
+                >
+                  {tenant.domain || tenant.tenantName}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+            Historik
+            <select
+              value={historyLength}
+              onChange={(event) => setHistoryLength(Number(event.target.value))}
+              className={`mt-1 block ${selectClassName}`}
+            >
+              {historyOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <p className="mt-3 text-[11px] text-slate-400">
+          {isLoadingInvoices || isLoadingHistory
+            ? `Henter fakturaer (${loadedCount} af ${invoiceNos.length})…`
+            : `Kunden findes på ${customerInvoices.length} af ${loadedCount} fakturaer.`}
+          {failedCount > 0 && ` ${failedCount} kunne ikke hentes.`}
+        </p>
+      </section>
+
+      <section className={sectionClassName}>
+        <h2 className="text-sm font-semibold text-slate-800 dark:text-slate-200">
+          Forbrug pr. måned
+        </h2>
+        <p className="mt-0.5 text-[11px] text-slate-500 dark:text-slate-400">
+          Beløb efter den rabat, der gjaldt i fakturaens periode.
+        </p>
+        <div className="mt-4">
+          {monthlySpend.length === 0 ? (
+            isLoadingHistory ? (
+              <Skeleton className="h-44 w-full" />
+            ) : (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Kunden findes ikke på de hentede fakturaer.
+              </p>
+            )
+          ) : (
+            <SpendChart months={monthlySpend} vendors={spendVendors} />
+          )}
+        </div>
+      </section>
+
+      <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <div className="px-6 pt-6 pb-3">
+          <h2 className="text-sm font-semibold text-slate-800 dark:text-slate-200">
+            Abonnementer
+          </h2>
+          <p className="mt-0.5 text-[11px] text-slate-500 dark:text-slate-400">
+            Antal og binding fra den seneste faktura, produktet står på.
+            Produktrabatten gælder fra i dag.
+          </p>
+        </div>
+        {subscriptions.length === 0 ? (
+          <p className="px-6 pb-6 text-xs text-slate-500 dark:text-slate-400">
+            Ingen abonnementer på de hentede fakturaer.
+          </p>
+        ) : (
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+              <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                <th className="px-4 py-2 text-left">Produkt</th>
+                <th className="px-4 py-2 text-right">Antal</th>
+                <th className="px-4 py-2 text-left">Binding</th>
+                <th className="px-4 py-2 text-left">Bindingsudløb</th>
+                <th className="px-4 py-2 text-left">Faktureret</th>
+                <th className="px-4 py-2 text-left">Rabat</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {subscriptions.map((subscription) => {
+                const target = {
+                  tenantId,
+                  vendorName: subscription.vendorName,
+                  productName: subscription.productName,
+                };
+                const productRate = getScopedDiscountRate(
+                  "product",
+                  target,
+                  today,
+                );
+                const inherited = resolveDiscount(
+                  tenantId,
+                  subscription.vendorName,
+                  subscription.productName,
+                  today,
+                );
+
+                return (
+                  <tr
+                    key={`${subscription.vendorName}::${subscription.productName}`}
+                    className={`align-top ${
+                      subscription.isActive
+                        ? "text-slate-700 dark:text-slate-300"
+                        : "text-slate-400 dark:text-slate-500"
+                    }`}
+                  >
+                    <td className="px-4 py-2">
+                      <span className="font-medium">
+                        {subscription.productName}
+                      </span>
+                      <span className="block text-[11px] text-slate-400">
+                        {subscription.vendorName}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-right font-mono">
+                      {quantityFormatter.format(subscription.seats)}{" "}
+                      {quantityUnitLabels[subscription.quantityUnit]}
+                    </td>
+                    <td className="px-4 py-2">
+                      {translateCommitmentTerm(subscription.commitment)}
+                    </td>
+                    <td className="px-4 py-2">
+                      {subscription.commitmentEndDate
+                        ? formatDate(subscription.commitmentEndDate)
+                        : "—"}
+                    </td>
+                    <td className="px-4 py-2">
+                      {subscription.isActive ? (
+                        `Siden ${formatMonth(subscription.firstMonth)}`
+                      ) : (
+                        <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[10px] font-semibold text-slate-500 dark:bg-slate-800 dark:text-slate-400">
+                          Sidst {formatMonth(subscription.lastMonth)}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      <ScopedDiscountInput
+                        label="Produkt"
+                        readOnly={!canEditDiscounts}
+                        hint="Gælder kun dette produkt for kunden"
+                        value={productRate}
+                        error={getScopedWriteError("product", target)}
+                        onChange={(rate) =>
+                          writeDiscount("product", target, rate)
+                        }
+                      />
+                      {productRate === undefined && inherited && (
+                        <span className="mt-0.5 block text-[10px] text-slate-400">
+                          {inherited.rate}% fra{" "}
+                          {discountScopeLabels[inherited.scope].toLowerCase()}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className={sectionClassName}>
+        <h2 className="text-sm font-semibold text-slate-800 dark:text-slate-200">
+          Rabatter
+        </h2>
+        <p className="mt-0.5 text-[11px] text-slate-500 dark:text-slate-400">
+          Kundens egne rabatter, som de gælder i dag. Ændringer gælder fra i
+          dag; tidligere fakturaer beholder deres rabat.
+        </p>
+        <div className="mt-4 flex flex-wrap gap-x-6 gap-y-3">
+          <ScopedDiscountInput
+            label="Kunderabat"
+            readOnly={!canEditDiscounts}
+            hint="Gælder alle produkter for kunden, medmindre leverandør eller produkt har egen rabat"
+            value={getScopedDiscountRate("tenant", { tenantId }, today)}
+            error={getScopedWriteError("tenant", { tenantId })}
+            onChange={(rate) => writeDiscount("tenant", { tenantId }, rate)}
+          />
+          {discountVendors.map((vendorName) => (
+            <ScopedDiscountInput
+              key={vendorName}
+              label={vendorName}
+              readOnly={!canEditDiscounts}
+              hint="Gælder alle produkter fra leverandøren for denne kunde"
+              value={getScopedDiscountRate(
+                "vendor",
+                { tenantId, vendorName },
+                today,
+              )}
+              error={getScopedWriteError("vendor", { tenantId, vendorName })}
+              onChange={(rate) =>
+                writeDiscount("vendor", { tenantId, vendorName }, rate)
+              }
+            />
+          ))}
+        </div>
+        {otherProductDiscounts.length > 0 && (
+          <div className="mt-4">
+            <h3 className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+              Produktrabatter uden fakturerede abonnementer
+            </h3>
+            <ul className="mt-2 space-y-1.5">
+              {otherProductDiscounts.map((discount) => (
+                <li
+                  key={`${discount.vendorName}::${discount.productName}`}
+                  className="flex items-center justify-between gap-3 text-xs text-slate-600 dark:text-slate-400"
+                >
+                  <span className="capitalize">
+                    {discount.productName}
+                    <span className="ml-1 text-[11px] text-slate-400">
+                      ({discount.vendorName})
+                    </span>
+                  </span>
+                  <ScopedDiscountInput
+                    label="Produkt"
+                    readOnly={!canEditDiscounts}
+                    value={discount.rate}
+                    error={getScopedWriteError("product", {
+                      tenantId,
+                      vendorName: discount.vendorName,
+                      productName: discount.productName,
+                    })}
+                    onChange={(rate) =>
+                      writeDiscount(
+                        "product",
+                        {
+                          tenantId,
+                          vendorName: discount.vendorName,
+                          productName: discount.productName,
+                        },
+                        rate,
+                      )
+                    }
+                  />
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {marginViolations.length > 0 && (
+          <ul className="mt-4 space-y-1 rounded-xl border border-amber-200 bg-amber-50 p-3 text-[11px] text-amber-800 dark:border-amber-900 dark:bg-amber-950/40 dark:text-amber-300">
+            {marginViolations.map((violation) => (
+              <li
+                key={`${violation.vendorName}::${violation.productName}`}
+                className="flex items-start gap-1.5"
+              >
+                <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                <span>
+                  {violation.productName}:{" "}
+                  {describeMarginViolation(violation)}
+                  {violation.enforcement === "block" &&
+                    " Rabatten er ikke gemt."}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default CustomerDetailPage;
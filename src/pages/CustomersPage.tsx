@@ -0,0 +1,361 @@
+// src/pages/CustomersPage.tsx
+import { useState, type FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Pencil, Search, Split } from "lucide-react";
+import { Button } from "../components/ui/Button";
+import { Skeleton } from "../components/ui/Skeleton";
+import { useCustomers } from "../hooks/useCustomers";
+import { useHasPermission } from "../hooks/useCurrentUser";
+import {
+  filterRegisteredCustomers,
+  type CustomerDiscountConflict,
+  type RegisteredCustomer,
+} from "../utils/customerRegistry";
+
+type CustomerForm = {
+  id: number;
+  name: string;
+  vatId: string;
+  mergeSourceId: string;
+};
+
+const inputClassName =
+  "h-8 w-full rounded-lg border border-slate-200 bg-white px-2 text-xs text-slate-800 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200";
+
+const labelClassName =
+  "text-[11px] font-medium text-slate-500 dark:text-slate-400";
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("da-DK", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+
+const formatRate = (value: number | null) =>
+  value === null ? "—" : `${value.toLocaleString("da-DK")}%`;
+
+const describeDiscountConflict = (conflict: CustomerDiscountConflict) =>
+  `${conflict.vendorName} · ${conflict.productName}: ${formatRate(
+    conflict.droppedRate,
+  )} droppet, ${formatRate(conflict.keptRate)} beholdt`;
+
+const toForm = (customer: RegisteredCustomer): CustomerForm => ({
+  id: customer.id,
+  name: customer.name,
+  vatId: customer.vatId,
+  mergeSourceId: "",
+});
+
+export const CustomersPage = () => {
+  const [form, setForm] = useState<CustomerForm | null>(null);
+  const [search, setSearch] = useState("");
+  const {
+    customersQuery,
+    updateCustomer,
+    mergeCustomers,
+    splitCustomer,
+  } = useCustomers();
+  const canEdit = useHasPermission("customers:write");
+  const customers = customersQuery.data ?? [];
+  const visibleCustomers = filterRegisteredCustomers(customers, search);
+  const mutationError =
+    updateCustomer.error ?? mergeCustomers.error ?? splitCustomer.error;
+  const discountConflicts = mergeCustomers.data?.discountConflicts ?? [];
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!form) return;
+    updateCustomer.mutate(
+      { id: form.id, name: form.name.trim(), vatId: form.vatId.trim() },
+      { onSuccess: () => setForm(null) },
+    );
+  };
+
+  const handleMerge = () => {
+    if (!form?.mergeSourceId) return;
+    splitCustomer.reset();
+    mergeCustomers.mutate(
+      { targetId: form.id, sourceId: Number(form.mergeSourceId) },
+      {
+        onSuccess: () =>
+          setForm((prev) => (prev ? { ...prev, mergeSourceId: "" } : prev)),
+      },
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <nav
+        className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400"
+        aria-label="Brødkrumme"
+      >
+        <Link
+          to="/"
+          className="inline-flex items-center gap-1 font-medium text-blue-600 transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Fakturaer
+        </Link>
+        <span aria-hidden>/</span>
+        <span className="font-medium text-slate-700 dark:text-slate-300">
+          Kunder
+        </span>
+      </nav>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <h1 className="text-xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+          Kunder
+        </h1>
+        <p className="mt-1 max-w-2xl text-xs text-slate-500 dark:text-slate-400">
+          Kunderegistret samler tenants på tværs af fakturaer. Nye tenants
+          tilknyttes automatisk, når en faktura åbnes: først på CVR-nummer,
+          derefter på kundenavnet uden selskabsform, medmindre begge har
+          forskellige CVR-numre. En tenant bliver hos sin
+          kunde, også hvis navnet ændres. Flet kunder der er oprettet dobbelt,
+          og udskil tenants der er havnet hos den forkerte kunde. Rabatter
+          hører til kunden og gælder for alle dens tenants; ved fletning
+          flyttes den flettede kundes rabatter med, medmindre kunden allerede
+          har en rabat på samme produkt; så slettes den flettede kundes rabat
+          og vises her. Udskilte tenants starter uden rabatter.
+        </p>
+      </section>
+
+      <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        {canEdit && form && (
+          <form
+            onSubmit={handleSubmit}
+            className="grid gap-2 border-b border-slate-100 p-4 sm:grid-cols-[2fr_1fr_auto] sm:items-end dark:border-slate-800"
+          >
+            <label className={labelClassName}>
+              Navn
+              <input
+                value={form.name}
+                onChange={(event) =>
+                  setForm({ ...form, name: event.target.value })
+                }
+                required
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className={labelClassName}>
+              CVR-nr.
+              <input
+                value={form.vatId}
+                onChange={(event) =>
+                  setForm({ ...form, vatId: event.target.value })
+                }
+                placeholder="DK12345678"
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <div className="flex gap-1">
+              <Button
+                type="submit"
+                size="sm"
+                isLoading={updateCustomer.isPending}
+              >
+                Gem
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => setForm(null)}
+              >
+                Annullér
+              </Button>
+            </div>
+            <label className={`${labelClassName} sm:col-span-2`}>
+              Flet en anden kunde ind i denne
+              <select
+                value={form.mergeSourceId}
+                onChange={(event) =>
+                  setForm({ ...form, mergeSourceId: event.target.value })
+                }
+                className={`mt-1 ${inputClassName}`}
+              >
+                <option value="">Vælg kunde</option>
+                {customers
+                  .filter((customer) => customer.id !== form.id)
+                  .map((customer) => (
+                    <option key={customer.id} value={customer.id}>
+                      {customer.name}
+                      {customer.vatId ? ` (${customer.vatId})` : ""}
+                    </option>
+                  ))}
+              </select>
+            </label>
+            <div>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={!form.mergeSourceId}
+                isLoading={mergeCustomers.isPending}
+                onClick={handleMerge}
+              >
+                Flet
+              </Button>
+            </div>
+          </form>
+        )}
+        {mutationError && (
+          <p className="px-4 pt-3 text-xs font-medium text-rose-600 dark:text-rose-400">
+            {mutationError.message}
+          </p>
+        )}
+        {discountConflicts.length > 0 && (
+          <div className="px-4 pt-3 text-xs text-amber-700 dark:text-amber-400">
+            <p className="font-medium">
+              Tenanten der nu bærer rabatterne havde allerede egne rabatter på
+              disse produkter, så de blev ikke flyttet (se rabathistorikken):
+            </p>
+            <ul className="mt-1 list-disc pl-4">
+              {discountConflicts.map((conflict) => (
+                <li key={conflict.productKey}>
+                  {describeDiscountConflict(conflict)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="border-b border-slate-100 p-4 dark:border-slate-800">
+          <div className="relative max-w-sm">
+            <Search
+              className="pointer-events-none absolute top-1/2 left-2.5 h-3.5 w-3.5 -translate-y-1/2 text-slate-400"
+              aria-hidden
+            />
+            <input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Søg på navn, CVR, reference, tenant eller domæne"
+              aria-label="Søg kunder"
+              className={`${inputClassName} pl-8`}
+            />
+          </div>
+        </div>
+
+        {customersQuery.isLoading ? (
+          <div className="space-y-2 p-4">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : visibleCustomers.length === 0 ? (
+          <p className="p-6 text-center text-xs text-slate-500 dark:text-slate-400">
+            {customers.length === 0
+              ? "Ingen kunder endnu. Kunder registreres, når en faktura åbnes."
+              : "Ingen kunder matcher søgningen."}
+          </p>
+        ) : (
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+              <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                <th className="px-4 py-2 text-left">Kunde</th>
+                <th className="px-4 py-2 text-left">Tenants</th>
+                <th className="px-4 py-2 text-left">Referencer</th>
+                {canEdit && <th className="px-4 py-2" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {visibleCustomers.map((customer) => (
+                <tr
+                  key={customer.id}
+                  className={`align-top text-slate-700 dark:text-slate-300 ${
+                    form?.id === customer.id
+                      ? "bg-blue-50/60 dark:bg-blue-950/30"
+                      : ""
+                  }`}
+                >
+                  <td className="px-4 py-2">
+                    <Link
+                      to={`/customers/${customer.id}`}
+                      className="font-medium text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300"
+                    >
+                      {customer.name}
+                    </Link>
+                    <span className="block text-[11px] text-slate-400">
+                      {customer.vatId ? `CVR ${customer.vatId}` : "Intet CVR"}
+                      {` · Kunde-id ${customer.id}`}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2">
+                    <ul className="space-y-1">
+                      {customer.tenants.map((tenant) => (
+                        <li
+                          key={tenant.tenantId}
+                          className="flex items-start gap-1.5"
+                        >
+                          <span>
+                            {tenant.customerName ||
+                              tenant.tenantName ||
+                              tenant.tenantId}
+                            {tenant.tenantId === customer.primaryTenantId && (
+                              <span className="ml-1 rounded-full bg-slate-100 px-1.5 py-0.5 text-[10px] font-semibold text-slate-500 dark:bg-slate-800 dark:text-slate-400">
+                                Primær
+                              </span>
+                            )}
+                            <span className="block font-mono text-[10px] text-slate-400">
+                              {tenant.lastSeen ? (
+                                <>
+                                  {tenant.domain || tenant.tenantName} · set{" "}
+                                  {formatDate(tenant.firstSeen)}–
+                                  {formatDate(tenant.lastSeen)}
+                                </>
+                              ) : (
+                                "Kun set i rabatter, ikke på en faktura"
+                              )}
+                            </span>
+                          </span>
+                          {canEdit && customer.tenants.length > 1 && (
+                            <button
+                              type="button"
+                              onClick={() => {
+                                mergeCustomers.reset();
+                                splitCustomer.mutate({
+                                  id: customer.id,
+                                  tenantIds: [tenant.tenantId],
+                                });
+                              }}
+                              aria-label={`Udskil ${tenant.customerName || tenant.tenantId} som ny kunde`}
+                              title="Udskil som ny kunde"
+                              className="rounded-full p-1 text-slate-400 hover:bg-slate-100 hover:text-slate-700 dark:hover:bg-slate-800 dark:hover:text-slate-200"
+                            >
+                              <Split className="h-3 w-3" aria-hidden />
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </td>
+                  <td className="px-4 py-2">
+                    {customer.references.length > 0 ? (
+                      customer.references.join(", ")
+                    ) : (
+                      <span className="text-slate-400">—</span>
+                    )}
+                  </td>
+                  {canEdit && (
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => setForm(toForm(customer))}
+                        aria-label={`Redigér ${customer.name}`}
+                        className="rounded-full p-1 text-slate-400 hover:bg-slate-100 hover:text-slate-700 dark:hover:bg-slate-800 dark:hover:text-slate-200"
+                      >
+                        <Pencil className="h-3.5 w-3.5" aria-hidden />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default CustomersPage;
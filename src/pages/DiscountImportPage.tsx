@@ -0,0 +1,377 @@
+// src/pages/DiscountImportPage.tsx
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Download, FileUp, Upload } from "lucide-react";
+import { Button } from "../components/ui/Button";
+import {
+  buildDiscountExportUrl,
+  useDiscountImport,
+  type DiscountImportRequest,
+  type DiscountImportStatus,
+  type KnownDiscountProduct,
+} from "../hooks/useDiscountImport";
+import { useHasPermission } from "../hooks/useCurrentUser";
+import { useInvoiceDetail } from "../hooks/useInvoiceDetail";
+import { useInvoices } from "../hooks/useInvoices";
+import { usePartner } from "../hooks/usePartner";
+import { aggregateVendorsFromSubscriptions } from "../utils/billingCalculations";
+
+type StatusFilter = "all" | DiscountImportStatus;
+
+const statusConfig: Record<
+  DiscountImportStatus,
+  { label: string; badge: string }
+> = {
+  created: {
+    label: "Oprettes",
+    badge:
+      "bg-emerald-50 text-emerald-700 ring-emerald-100 dark:bg-emerald-950/60 dark:text-emerald-400 dark:ring-emerald-900",
+  },
+  updated: {
+    label: "Opdateres",
+    badge:
+      "bg-blue-50 text-blue-700 ring-blue-100 dark:bg-blue-950/60 dark:text-blue-400 dark:ring-blue-900",
+  },
+  unchanged: {
+    label: "Uændret",
+    badge:
+      "bg-slate-50 text-slate-600 ring-slate-100 dark:bg-slate-800 dark:text-slate-400 dark:ring-slate-700",
+  },
+  rejected: {
+    label: "Afvist",
+    badge:
+      "bg-rose-50 text-rose-700 ring-rose-100 dark:bg-rose-950/60 dark:text-rose-400 dark:ring-rose-900",
+  },
+  unmatched: {
+    label: "Ikke fundet",
+    badge:
+      "bg-amber-50 text-amber-700 ring-amber-100 dark:bg-amber-950/60 dark:text-amber-400 dark:ring-amber-900",
+  },
+};
+
+const statusOrder: DiscountImportStatus[] = [
+  "created",
+  "updated",
+  "unchanged",
+  "unmatched",
+  "rejected",
+];
+
+const formatRate = (value: number | null) =>
+  value === null ? "—" : `${value.toLocaleString("da-DK")}%`;
+
+export const DiscountImportPage = () => {
+  const { partner } = usePartner();
+  const { data: invoices } = useInvoices();
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [validFrom, setValidFrom] = useState(() =>
+    new Date().toISOString().slice(0, 10),
+  );
+  const [matchInvoiceNo, setMatchInvoiceNo] = useState<string>("latest");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [previewedRequest, setPreviewedRequest] =
+    useState<DiscountImportRequest | null>(null);
+
+  const resolvedInvoiceNo =
+    matchInvoiceNo === "latest"
+      ? (invoices?.[0]?.invoiceNumber ?? null)
+      : matchInvoiceNo === "none"
+        ? null
+        : matchInvoiceNo;
+  const { data: matchDetail, isLoading: isMatchLoading } =
+    useInvoiceDetail(resolvedInvoiceNo);
+  const importMutation = useDiscountImport();
+  const canPreview = useHasPermission("discounts:write");
+  const canImport = useHasPermission("discounts:admin");
+
+  const knownProducts = useMemo<KnownDiscountProduct[] | undefined>(() => {
+    if (!resolvedInvoiceNo || !matchDetail) return undefined;
+    return (matchDetail.tenants ?? []).flatMap((tenant) =>
+      aggregateVendorsFromSubscriptions(tenant.subscriptions).flatMap(
+        (vendor) =>
+          vendor.products.map((product) => ({
+            tenantId: tenant.id,
+            vendorName: vendor.vendorName,
+            productName: product.displayName,
+            costAmount: product.costAmount,
+            amount: product.amount,
+          })),
+      ),
+    );
+  }, [matchDetail, resolvedInvoiceNo]);
+
+  const currentRequest: DiscountImportRequest = useMemo(
+    () => ({ csv, dryRun: true, validFrom, knownProducts }),
+    [csv, validFrom, knownProducts],
+  );
+
+  const result = importMutation.data;
+  const isPreviewCurrent =
+    previewedRequest !== null &&
+    previewedRequest.csv === currentRequest.csv &&
+    previewedRequest.validFrom === currentRequest.validFrom &&
+    previewedRequest.knownProducts === currentRequest.knownProducts;
+  const pendingWrites = result?.dryRun
+    ? result.summary.created + result.summary.updated
+    : 0;
+
+  const visibleRows = useMemo(
+    () =>
+      (result?.rows ?? []).filter(
+        (row) => statusFilter === "all" || row.status === statusFilter,
+      ),
+    [result, statusFilter],
+  );
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setCsv(await file.text());
+    importMutation.reset();
+  };
+
+  const runPreview = () => {
+    setPreviewedRequest(currentRequest);
+    importMutation.mutate(currentRequest);
+  };
+
+  const runImport = () => {
+    if (!previewedRequest) return;
+    importMutation.mutate(
+      { ...previewedRequest, dryRun: false },
+      { onSuccess: () => setPreviewedRequest(null) },
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <nav
+        className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400"
+        aria-label="Brødkrumme"
+      >
+        <Link
+          to="/"
+          className="inline-flex items-center gap-1 font-medium text-blue-600 transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Fakturaer
+        </Link>
+        <span aria-hidden>/</span>
+        <span className="font-medium text-slate-700 dark:text-slate-300">
+          Rabatter
+        </span>
+      </nav>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div className="space-y-1">
+            <h1 className="text-xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+              Import og eksport af rabatter
+            </h1>
+            <p className="max-w-2xl text-xs text-slate-500 dark:text-slate-400">
+              CSV med kolonnerne <code>tenantId</code>, <code>vendorName</code>,{" "}
+              <code>productName</code>, <code>rate</code> og valgfrit{" "}
+              <code>validFrom</code>. Brug <code>*</code> som produkt for en
+              leverandørrabat, <code>*</code> som leverandør og produkt for en
+              kunderabat og <code>*</code> som tenant for en global
+              leverandørrabat.
+            </p>
+          </div>
+          <a
+            href={buildDiscountExportUrl(partner.id)}
+            download
+            className="inline-flex shrink-0 items-center gap-1.5 rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 transition-all hover:border-blue-400 hover:text-blue-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:border-blue-500 dark:hover:text-blue-400"
+          >
+            <Download className="h-3.5 w-3.5" aria-hidden />
+            Eksportér gældende rabatter
+          </a>
+        </div>
+      </section>
+
+      <section className="space-y-4 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600 dark:text-slate-400">
+            CSV-fil
+            <span className="flex h-9 cursor-pointer items-center gap-2 rounded-xl border border-dashed border-slate-300 bg-slate-50 px-3 text-xs text-slate-600 hover:border-blue-400 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300">
+              <FileUp className="h-3.5 w-3.5" aria-hidden />
+              <span className="truncate">{fileName || "Vælg fil…"}</span>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="sr-only"
+                onChange={(event) => {
+                  void handleFile(event.target.files?.[0]);
+                }}
+              />
+            </span>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600 dark:text-slate-400">
+            Gyldig fra (når kolonnen mangler)
+            <input
+              type="date"
+              value={validFrom}
+              onChange={(event) => setValidFrom(event.target.value)}
+              className="h-9 rounded-xl border border-slate-200 bg-white px-3 text-xs text-slate-800 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600 dark:text-slate-400">
+            Match mod faktura
+            <select
+              value={matchInvoiceNo}
+              onChange={(event) => setMatchInvoiceNo(event.target.value)}
+              className="h-9 rounded-xl border border-slate-200 bg-white px-2 text-xs text-slate-800 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200"
+            >
+              <option value="latest">Seneste faktura</option>
+              <option value="none">Ingen matchning</option>
+              {(invoices ?? []).map((invoice) => (
+                <option key={invoice.invoiceNumber} value={invoice.invoiceNumber}>
+                  {invoice.invoiceNumber} ({invoice.postingDate.slice(0, 10)})
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <textarea
+          value={csv}
+          onChange={(event) => setCsv(event.target.value)}
+          rows={8}
+          spellCheck={false}
+          placeholder={"tenantId,vendorName,productName,rate\ntenant-123,Microsoft,M365 Business Premium,12.5"}
+          aria-label="CSV-indhold"
+          className="w-full rounded-xl border border-slate-200 bg-slate-50 p-3 font-mono text-[11px] text-slate-800 focus:border-blue-500 focus:bg-white focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200"
+        />
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={runPreview}
+            disabled={
+              !canPreview ||
+              !csv.trim() ||
+              (resolvedInvoiceNo !== null && isMatchLoading)
+            }
+            isLoading={importMutation.isPending && !!importMutation.variables?.dryRun}
+          >
+            Forhåndsvis
+          </Button>
+          <Button
+            size="sm"
+            leftIcon={<Upload className="h-3.5 w-3.5" />}
+            onClick={runImport}
+            disabled={!canImport || !isPreviewCurrent || pendingWrites === 0}
+            title={
+              canImport
+                ? undefined
+                : "Kun økonomi-admin kan importere rabatter"
+            }
+            isLoading={importMutation.isPending && !importMutation.variables?.dryRun}
+          >
+            Importér {pendingWrites > 0 ? `${pendingWrites} rækker` : ""}
+          </Button>
+          {!canPreview && (
+            <span className="text-xs text-slate-500 dark:text-slate-400">
+              Din rolle kan kun eksportere rabatter.
+            </span>
+          )}
+          {result && !result.dryRun && (
+            <span className="text-xs font-medium text-emerald-700 dark:text-emerald-400">
+              Importeret: {result.summary.created} oprettet,{" "}
+              {result.summary.updated} opdateret.
+            </span>
+          )}
+          {importMutation.isError && (
+            <span className="text-xs font-medium text-rose-600 dark:text-rose-400">
+              {importMutation.error.message}
+            </span>
+          )}
+        </div>
+      </section>
+
+      {result && (
+        <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+          <div
+            className="flex flex-wrap items-center gap-1.5 border-b border-slate-100 px-5 py-3 dark:border-slate-800"
+            role="group"
+            aria-label="Filtrer status"
+          >
+            <button
+              type="button"
+              onClick={() => setStatusFilter("all")}
+              className={`inline-flex items-center rounded-full border px-3 py-1 text-xs font-semibold transition-all ${
+                statusFilter === "all"
+                  ? "border-blue-500 bg-blue-50 text-blue-700 dark:border-blue-600 dark:bg-blue-950/60 dark:text-blue-400"
+                  : "border-slate-200 bg-white text-slate-600 hover:border-slate-300 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-400"
+              }`}
+            >
+              Alle ({result.rows.length})
+            </button>
+            {statusOrder.map((status) => (
+              <button
+                key={status}
+                type="button"
+                onClick={() => setStatusFilter(status)}
+                className={`inline-flex items-center rounded-full px-3 py-1 text-xs font-semibold ring-1 transition-all ${statusConfig[status].badge} ${
+                  statusFilter === status ? "ring-2" : ""
+                }`}
+              >
+                {statusConfig[status].label} ({result.summary[status]})
+              </button>
+            ))}
+          </div>
+          <div className="overflow-x-auto scrollbar-thin">
+            <table className="min-w-full text-xs">
+              <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+                <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                  <th className="px-4 py-2 text-left">Linje</th>
+                  <th className="px-4 py-2 text-left">Tenant</th>
+                  <th className="px-4 py-2 text-left">Leverandør</th>
+                  <th className="px-4 py-2 text-left">Produkt</th>
+                  <th className="px-4 py-2 text-right">Nuværende</th>
+                  <th className="px-4 py-2 text-right">Ny</th>
+                  <th className="px-4 py-2 text-left">Gyldig fra</th>
+                  <th className="px-4 py-2 text-left">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                {visibleRows.map((row) => (
+                  <tr key={row.line} className="text-slate-700 dark:text-slate-300">
+                    <td className="px-4 py-2 font-mono text-slate-400">
+                      {row.line}
+                    </td>
+                    <td className="px-4 py-2 font-mono">{row.tenantId || "—"}</td>
+                    <td className="px-4 py-2">{row.vendorName || "—"}</td>
+                    <td className="px-4 py-2">{row.productName || "—"}</td>
+                    <td className="px-4 py-2 text-right font-mono">
+                      {formatRate(row.currentRate)}
+                    </td>
+                    <td className="px-4 py-2 text-right font-mono font-semibold">
+                      {formatRate(row.rate)}
+                    </td>
+                    <td className="px-4 py-2">{row.validFrom ?? "—"}</td>
+                    <td className="px-4 py-2">
+                      <span
+                        className={`inline-flex rounded-full px-2 py-0.5 text-[10px] font-semibold ring-1 ${statusConfig[row.status].badge}`}
+                      >
+                        {statusConfig[row.status].label}
+                      </span>
+                      {row.reason && (
+                        <p className="mt-0.5 text-[10px] text-slate-500 dark:text-slate-400">
+                          {row.reason}
+                        </p>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default DiscountImportPage;
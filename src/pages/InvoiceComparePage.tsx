@@ -0,0 +1,497 @@
+// src/pages/InvoiceComparePage.tsx
+import { useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, ArrowLeftRight, Search } from "lucide-react";
+import { Skeleton } from "../components/ui/Skeleton";
+import { useCustomerSync } from "../hooks/useCustomers";
+import { useInvoiceDetail } from "../hooks/useInvoiceDetail";
+import { useInvoices } from "../hooks/useInvoices";
+import type { Invoice } from "../types/invoice";
+import {
+  compareInvoices,
+  sortByLargestChange,
+  type ComparisonSortKey,
+  type ComparisonStatus,
+  type CustomerComparisonRow,
+} from "../utils/invoiceComparison";
+
+type StatusFilter = "changes" | "added" | "removed" | "all";
+
+const statusFilterOptions: Array<{ value: StatusFilter; label: string }> = [
+  { value: "changes", label: "Ændringer" },
+  { value: "added", label: "Nye" },
+  { value: "removed", label: "Fjernede" },
+  { value: "all", label: "Alle" },
+];
+
+const sortOptions: Array<{ value: ComparisonSortKey; label: string }> = [
+  { value: "amountDelta", label: "Største beløbsændring" },
+  { value: "licenseDelta", label: "Største licensændring" },
+];
+
+const statusBadges: Record<ComparisonStatus, { label: string; badge: string }> =
+  {
+    added: {
+      label: "Ny",
+      badge:
+        "bg-emerald-50 text-emerald-700 ring-emerald-200 dark:bg-emerald-950/60 dark:text-emerald-400 dark:ring-emerald-800",
+    },
+    removed: {
+      label: "Fjernet",
+      badge:
+        "bg-rose-50 text-rose-700 ring-rose-200 dark:bg-rose-950/60 dark:text-rose-400 dark:ring-rose-800",
+    },
+    changed: {
+      label: "Ændret",
+      badge:
+        "bg-amber-50 text-amber-700 ring-amber-200 dark:bg-amber-950/60 dark:text-amber-400 dark:ring-amber-800",
+    },
+    unchanged: {
+      label: "Uændret",
+      badge:
+        "bg-slate-50 text-slate-500 ring-slate-200 dark:bg-slate-800 dark:text-slate-400 dark:ring-slate-700",
+    },
+  };
+
+const currencyFormatter = new Intl.NumberFormat("da-DK", {
+  style: "currency",
+  currency: "DKK",
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+const quantityFormatter = new Intl.NumberFormat("da-DK", {
+  maximumFractionDigits: 2,
+});
+
+const formatCurrency = (value: number) => currencyFormatter.format(value);
+
+const formatSigned = (value: number, format: (value: number) => string) =>
+  value > 0 ? `+${format(value)}` : format(value);
+
+// Rounded to øre so float noise is not shown as a change.
+const deltaClassName = (value: number) =>
+  Math.round(value * 100) > 0
+    ? "text-rose-600 dark:text-rose-400"
+    : Math.round(value * 100) < 0
+      ? "text-emerald-600 dark:text-emerald-400"
+      : "text-slate-400 dark:text-slate-500";
+
+const selectClassName =
+  "h-9 rounded-xl border border-slate-200 bg-white px-2 text-xs text-slate-800 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200";
+
+// Keeps an invoice that is not in the current list (e.g. an old link)
+// selectable instead of silently showing the first option.
+const InvoiceSelect = ({
+  label,
+  value,
+  invoices,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  invoices: Invoice[] | undefined;
+  onChange: (invoiceNo: string) => void;
+}) => (
+  <label className="flex flex-col gap-1 text-xs font-medium text-slate-600 dark:text-slate-400">
+    {label}
+    <select
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      className={selectClassName}
+    >
+      {!invoices?.some((invoice) => invoice.invoiceNumber === value) && (
+        <option value={value}>{value}</option>
+      )}
+      {(invoices ?? []).map((invoice) => (
+        <option key={invoice.invoiceNumber} value={invoice.invoiceNumber}>
+          {invoice.invoiceNumber} ({invoice.postingDate.slice(0, 10)})
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+const StatCard = ({
+  label,
+  value,
+  hint,
+  valueClassName = "text-slate-900 dark:text-slate-100",
+}: {
+  label: string;
+  value: string;
+  hint?: string;
+  valueClassName?: string;
+}) => (
+  <div className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+    <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+      {label}
+    </p>
+    <p className={`tabular mt-1 text-lg font-bold ${valueClassName}`}>
+      {value}
+    </p>
+    {hint && (
+      <p className="mt-0.5 text-[11px] text-slate-400 dark:text-slate-500">
+        {hint}
+      </p>
+    )}
+  </div>
+);
+
+const CustomerChangeList = ({
+  title,
+  customers,
+  emptyLabel,
+  amountKey,
+}: {
+  title: string;
+  customers: CustomerComparisonRow[];
+  emptyLabel: string;
+  amountKey: "amountA" | "amountB";
+}) => (
+  <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+    <h2 className="border-b border-slate-100 px-4 py-3 text-sm font-semibold tracking-tight text-slate-900 dark:border-slate-800 dark:text-slate-100">
+      {title}{" "}
+      <span className="text-xs font-normal text-slate-400">
+        ({customers.length})
+      </span>
+    </h2>
+    {customers.length === 0 ? (
+      <p className="px-4 py-4 text-xs text-slate-500 dark:text-slate-400">
+        {emptyLabel}
+      </p>
+    ) : (
+      <ul className="max-h-64 divide-y divide-slate-100 overflow-y-auto text-xs dark:divide-slate-800">
+        {customers.map((customer) => (
+          <li
+            key={customer.key}
+            className="flex items-center justify-between gap-3 px-4 py-2"
+          >
+            <span className="truncate font-medium text-slate-700 dark:text-slate-300">
+              {customer.name}
+            </span>
+            <span className="tabular shrink-0 text-slate-500 dark:text-slate-400">
+              {formatCurrency(customer[amountKey])}
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </section>
+);
+
+export const InvoiceComparePage = () => {
+  const { invoiceA = "", invoiceB = "" } = useParams<{
+    invoiceA: string;
+    invoiceB: string;
+  }>();
+  const navigate = useNavigate();
+  const { data: invoices } = useInvoices();
+  const detailA = useInvoiceDetail(invoiceA || null);
+  const detailB = useInvoiceDetail(invoiceB || null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("changes");
+  const [sortKey, setSortKey] = useState<ComparisonSortKey>("amountDelta");
+  const [search, setSearch] = useState("");
+  useCustomerSync(
+    detailA.data?.tenants,
+    (detailA.data?.periodStartDate ?? detailA.data?.postingDate)?.slice(0, 10),
+  );
+  const customerRegistry = useCustomerSync(
+    detailB.data?.tenants,
+    (detailB.data?.periodStartDate ?? detailB.data?.postingDate)?.slice(0, 10),
+  );
+
+  const comparison = useMemo(
+    () =>
+      detailA.data && detailB.data
+        ? compareInvoices(
+            detailA.data.tenants,
+            detailB.data.tenants,
+            customerRegistry,
+          )
+        : null,
+    [customerRegistry, detailA.data, detailB.data],
+  );
+
+  const visibleProducts = useMemo(() => {
+    if (!comparison) return [];
+    const normalizedSearch = search.trim().toLowerCase();
+    const filtered = comparison.products.filter((row) => {
+      const matchesStatus =
+        statusFilter === "all" ||
+        (statusFilter === "changes"
+          ? row.status !== "unchanged"
+          : row.status === statusFilter);
+      if (!matchesStatus) return false;
+      if (!normalizedSearch) return true;
+      return [row.customerName, row.vendorName, row.productName].some(
+        (value) => value.toLowerCase().includes(normalizedSearch),
+      );
+    });
+    return sortByLargestChange(filtered, sortKey);
+  }, [comparison, search, sortKey, statusFilter]);
+
+  const addedCustomers =
+    comparison?.customers.filter((customer) => customer.status === "added") ??
+    [];
+  const removedCustomers =
+    comparison?.customers.filter((customer) => customer.status === "removed") ??
+    [];
+
+  const goTo = (nextA: string, nextB: string) =>
+    navigate(
+      `/compare/${encodeURIComponent(nextA)}/${encodeURIComponent(nextB)}`,
+    );
+
+  const isLoading = detailA.isLoading || detailB.isLoading;
+  const isError = detailA.isError || detailB.isError;
+  const changePercent =
+    comparison && comparison.totals.amountA !== 0
+      ? (comparison.totals.amountDelta / Math.abs(comparison.totals.amountA)) *
+        100
+      : null;
+
+  return (
+    <div className="space-y-6">
+      <nav
+        className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400"
+        aria-label="Brødkrumme"
+      >
+        <Link
+          to="/"
+          className="inline-flex items-center gap-1 font-medium text-blue-600 transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Fakturaer
+        </Link>
+        <span aria-hidden>/</span>
+        <span className="font-medium text-slate-700 dark:text-slate-300">
+          Sammenligning
+        </span>
+      </nav>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <h1 className="text-xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+          Sammenlign fakturaer
+        </h1>
+        <p className="mt-1 max-w-2xl text-xs text-slate-500 dark:text-slate-400">
+          Kunder, leverandører og produkter matches på tværs af de to
+          fakturaer. Ændringer regnes fra den første til den anden faktura,
+          ekskl. moms.
+        </p>
+        <div className="mt-4 flex flex-wrap items-end gap-2">
+          <InvoiceSelect
+            label="Fra"
+            value={invoiceA}
+            invoices={invoices}
+            onChange={(value) => goTo(value, invoiceB)}
+          />
+          <button
+            type="button"
+            onClick={() => goTo(invoiceB, invoiceA)}
+            aria-label="Byt om på fakturaerne"
+            title="Byt om"
+            className="flex h-9 w-9 items-center justify-center rounded-xl border border-slate-200 text-slate-500 transition-colors hover:border-blue-400 hover:text-blue-700 dark:border-slate-700 dark:text-slate-400 dark:hover:border-blue-500 dark:hover:text-blue-400"
+          >
+            <ArrowLeftRight className="h-3.5 w-3.5" aria-hidden />
+          </button>
+          <InvoiceSelect
+            label="Til"
+            value={invoiceB}
+            invoices={invoices}
+            onChange={(value) => goTo(invoiceA, value)}
+          />
+        </div>
+      </section>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      ) : isError || !comparison ? (
+        <div
+          role="alert"
+          className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-800 dark:border-rose-800 dark:bg-rose-950/50 dark:text-rose-300"
+        >
+          Kunne ikke hente begge fakturaer.
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-3 sm:grid-cols-4">
+            <StatCard
+              label={`Faktura ${invoiceA}`}
+              value={formatCurrency(comparison.totals.amountA)}
+              hint={`${quantityFormatter.format(comparison.totals.licensesA)} licenser`}
+            />
+            <StatCard
+              label={`Faktura ${invoiceB}`}
+              value={formatCurrency(comparison.totals.amountB)}
+              hint={`${quantityFormatter.format(comparison.totals.licensesB)} licenser`}
+            />
+            <StatCard
+              label="Ændring i beløb"
+              value={formatSigned(comparison.totals.amountDelta, formatCurrency)}
+              hint={
+                changePercent === null
+                  ? undefined
+                  : `${formatSigned(changePercent, (value) => quantityFormatter.format(value))} %`
+              }
+              valueClassName={deltaClassName(comparison.totals.amountDelta)}
+            />
+            <StatCard
+              label="Ændring i licenser"
+              value={formatSigned(
+                comparison.totals.licenseDelta,
+                quantityFormatter.format,
+              )}
+              hint={`${addedCustomers.length} nye · ${removedCustomers.length} fjernede kunder`}
+              valueClassName={deltaClassName(comparison.totals.licenseDelta)}
+            />
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <CustomerChangeList
+              title="Nye kunder"
+              customers={addedCustomers}
+              emptyLabel="Ingen nye kunder."
+              amountKey="amountB"
+            />
+            <CustomerChangeList
+              title="Forsvundne kunder"
+              customers={removedCustomers}
+              emptyLabel="Ingen kunder er forsvundet."
+              amountKey="amountA"
+            />
+          </div>
+
+          <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+            <div className="flex flex-col gap-3 border-b border-slate-100 p-4 sm:flex-row sm:items-center sm:justify-between dark:border-slate-800">
+              <div className="relative w-full max-w-xs">
+                <Search
+                  className="pointer-events-none absolute left-3 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-slate-400"
+                  aria-hidden
+                />
+                <input
+                  className="h-9 w-full rounded-xl border border-slate-200 bg-slate-50 pl-9 pr-3 text-sm text-slate-900 placeholder:text-slate-400 focus:border-blue-500 focus:bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:placeholder:text-slate-500 dark:focus:bg-slate-700"
+                  placeholder="Søg kunde, leverandør eller produkt…"
+                  value={search}
+                  onChange={(event) => setSearch(event.target.value)}
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <div
+                  className="flex gap-0.5 rounded-full border border-slate-200 bg-slate-50 p-0.5 dark:border-slate-700 dark:bg-slate-800"
+                  role="group"
+                  aria-label="Vis rækker"
+                >
+                  {statusFilterOptions.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setStatusFilter(option.value)}
+                      className={`rounded-full px-3 py-1 text-xs font-medium transition-all ${
+                        statusFilter === option.value
+                          ? "bg-slate-900 text-white shadow-sm dark:bg-slate-100 dark:text-slate-900"
+                          : "text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <select
+                  value={sortKey}
+                  onChange={(event) =>
+                    setSortKey(event.target.value as ComparisonSortKey)
+                  }
+                  aria-label="Sortering"
+                  className={selectClassName}
+                >
+                  {sortOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {visibleProducts.length === 0 ? (
+              <p className="p-6 text-center text-xs text-slate-500 dark:text-slate-400">
+                Ingen produkter matcher filteret.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-xs">
+                  <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+                    <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                      <th className="px-4 py-2 text-left">Kunde</th>
+                      <th className="px-4 py-2 text-left">Produkt</th>
+                      <th className="px-4 py-2 text-left">Status</th>
+                      <th className="px-4 py-2 text-right">Licenser</th>
+                      <th className="px-4 py-2 text-right">Δ licenser</th>
+                      <th className="px-4 py-2 text-right">{invoiceA}</th>
+                      <th className="px-4 py-2 text-right">{invoiceB}</th>
+                      <th className="px-4 py-2 text-right">Δ beløb</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                    {visibleProducts.map((row) => (
+                      <tr
+                        key={row.key}
+                        className="text-slate-700 dark:text-slate-300"
+                      >
+                        <td className="px-4 py-2 font-medium">
+                          {row.customerName}
+                        </td>
+                        <td className="px-4 py-2">
+                          <span className="block">{row.productName}</span>
+                          <span className="text-[11px] text-slate-400">
+                            {row.vendorName}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2">
+                          <span
+                            className={`inline-flex rounded-full px-2 py-0.5 text-[10px] font-semibold ring-1 ${statusBadges[row.status].badge}`}
+                          >
+                            {statusBadges[row.status].label}
+                          </span>
+                        </td>
+                        <td className="tabular px-4 py-2 text-right text-slate-500 dark:text-slate-400">
+                          {quantityFormatter.format(row.licensesA)} →{" "}
+                          {quantityFormatter.format(row.licensesB)}
+                        </td>
+                        <td
+                          className={`tabular px-4 py-2 text-right font-semibold ${deltaClassName(row.licenseDelta)}`}
+                        >
+                          {formatSigned(
+                            row.licenseDelta,
+                            quantityFormatter.format,
+                          )}
+                        </td>
+                        <td className="tabular px-4 py-2 text-right">
+                          {formatCurrency(row.amountA)}
+                        </td>
+                        <td className="tabular px-4 py-2 text-right">
+                          {formatCurrency(row.amountB)}
+                        </td>
+                        <td
+                          className={`tabular px-4 py-2 text-right font-semibold ${deltaClassName(row.amountDelta)}`}
+                        >
+                          {formatSigned(row.amountDelta, formatCurrency)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InvoiceComparePage;
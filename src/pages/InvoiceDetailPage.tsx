@@ -7,53 +7,86 @@ import {
   useRef,
   useState,
 } from "react";
-import { Link, useParams } from "react-router-dom";
+import { Link, useParams, useSearchParams } from "react-router-dom";
 import {
   AlertTriangle,
   ArrowLeft,
+  ArrowLeftRight,
   ChevronDown,
   ChevronUp,
+  Download,
   FileText,
   FileSearch,
+  Receipt,
   Search,
 } from "lucide-react";
+import { AccountingExportControl } from "../components/AccountingExportControl";
+import { CreditReconciliationPanel } from "../components/CreditReconciliationPanel";
+import { DiscountHistoryPopover } from "../components/DiscountHistoryPopover";
+import { LicenseChangesPanel } from "../components/LicenseChangesPanel";
+import { MarginPanel } from "../components/MarginPanel";
+import { ProrationTimeline } from "../components/ProrationTimeline";
+import { ScopedDiscountInput } from "../components/ScopedDiscountInput";
+import { UblInvoiceButton } from "../components/UblInvoiceButton";
 import { Button } from "../components/ui/Button";
+import { RateInput } from "../components/ui/RateInput";
 import { Skeleton } from "../components/ui/Skeleton";
+import { useCustomerSync } from "../hooks/useCustomers";
+import { useHasPermission } from "../hooks/useCurrentUser";
 import { useInvoiceDetail } from "../hooks/useInvoiceDetail";
+import { useInvoices } from "../hooks/useInvoices";
+import { useMarginRules } from "../hooks/useMarginRules";
 import { useTenantDiscounts } from "../hooks/useTenantDiscounts";
+import { useWlPartners } from "../hooks/useWlPartners";
 import { useAmountDisplayStore } from "../store/useAmountDisplayStore";
-import type { InvoiceTenantBreakdown } from "../types/invoice";
+import type { Invoice } from "../types/invoice";
 import {
   aggregateVendorsFromSubscriptions,
   type AggregatedVendor,
 } from "../utils/billingCalculations";
+import {
+  translateBillingFrequency,
+  translateCommitmentTerm,
+} from "../utils/billingLabels";
 import { copyToClipboard } from "../utils/clipboard";
+import {
+  buildWlOptions,
+  filterTenants,
+  getCustomerWlCode,
+  groupCustomers,
+  type CustomerCard,
+} from "../utils/customerGrouping";
+import {
+  discountScopeLabels,
+  type DiscountScope,
+  type DiscountTarget,
+} from "../utils/discountScopes";
+import { toIsoDate } from "../utils/discountPeriods";
+import { downloadBlob, toSafeFileName } from "../utils/download";
+import {
+  collectDiscountPricing,
+  excludeOverriddenPricing,
+  describeMarginViolation,
+  evaluateMarginRules,
+  getPricingKey,
+  type MarginPricing,
+  type MarginViolation,
+} from "../utils/marginRules";
+import {
+  buildResaleExportRows,
+  resaleRowsToCsv,
+  resaleRowsToXlsx,
+} from "../utils/resaleExport";
+import {
+  findProductSubscriptions,
+  hasProratedLines,
+} from "../utils/prorationTimeline";
+import { getWlLabel, isWlExported } from "../utils/wlPartners";
+import { XLSX_MIME_TYPE } from "../utils/xlsx";
 
 type CopyState = "idle" | "copied" | "error";
 type CopyStateMap = Record<string, CopyState>;
 
-type GroupedCustomer = {
-  key: string;
-  id: string;
-  name: string;
-  domains: Set<string>;
-  references: Set<string>;
-  subscriptions: NonNullable<InvoiceTenantBreakdown["subscriptions"]>;
-};
-
-type CustomerCard = {
-  id: string;
-  name: string;
-  domains: string[];
-  references: string[];
-  subscriptions: NonNullable<InvoiceTenantBreakdown["subscriptions"]>;
-};
-
-type WlOption = {
-  label: string;
-  value: string;
-};
-
 const currencyFormatter = new Intl.NumberFormat("da-DK", {
   style: "currency",
   currency: "DKK",
@@ -68,15 +101,16 @@ const quantityFormatter = new Intl.NumberFormat("da-DK", {
 const formatCurrency = (value: number | null | undefined) =>
   currencyFormatter.format(typeof value === "number" ? value : 0);
 
+const formatDiscountDate = (value: string) =>
+  new Date(value).toLocaleDateString("da-DK", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+
 const formatQuantityValue = (value: number | null | undefined) =>
   quantityFormatter.format(typeof value === "number" ? value : 0);
 
-const getVendorQuantityLabel = (vendorName: string) => {
-  const normalized = vendorName.toLowerCase();
-  if (normalized.includes("keepit")) return "seats";
-  return "licenses";
-};
-
 const translateQuantityLabel = (label: string) => {
   const normalized = label.toLowerCase();
   if (normalized === "seats") return "seats";
@@ -102,77 +136,75 @@ const formatLicenseCountLabel = (value: number | null | undefined) => {
   return `${formatted} ${numeric === 1 ? "licens" : "licenser"}`;
 };
 
-const billingFrequencyMap: Record<string, string> = {
-  monthly: "Månedlig",
-  yearly: "Årlig",
-  annually: "Årlig",
-  quarterly: "Kvartalsvis",
-  weekly: "Ugentlig",
-  daily: "Daglig",
-  mixed: "Blandet",
-};
-
-const commitmentTermMap: Record<string, string> = {
-  monthly: "Månedlig",
-  yearly: "Årlig",
-  annually: "Årlig",
-  quarterly: "Kvartalsvis",
-  contract: "Kontrakt",
-  mixed: "Blandet",
-};
-
-const translateApiLabel = (
-  value: string | null | undefined,
-  dictionary: Record<string, string>,
-) => {
-  if (!value) return "—";
-  const normalized = value.trim().toLowerCase();
-  return dictionary[normalized] ?? value;
-};
-
-const translateBillingFrequency = (value: string | null | undefined) =>
-  translateApiLabel(value, billingFrequencyMap);
-
-const translateCommitmentTerm = (value: string | null | undefined) =>
-  translateApiLabel(value, commitmentTermMap);
-
 const pageSizeOptions = [5, 10, 20];
 
-const extractWlCode = (reference?: string | null) => {
-  if (!reference) return "";
-  const wlMatch = reference.match(/wl\s*(\d+)/i);
-  if (wlMatch?.[1]) return wlMatch[1];
-  const digits = reference.match(/(\d+)/);
-  return digits?.[1] ?? "";
-};
+type DetailTab = "customers" | "changes" | "margin" | "credits";
 
-const buildWlOptions = (
-  tenants: InvoiceTenantBreakdown[] | undefined,
-): WlOption[] => {
-  const codes = new Set<string>();
-  (tenants ?? []).forEach((tenant) => {
-    const code = extractWlCode(tenant.customerReference);
-    if (code) codes.add(code);
-  });
+const detailTabs: Array<{ value: DetailTab; label: string }> = [
+  { value: "customers", label: "Kunder" },
+  { value: "changes", label: "Ændringer" },
+  { value: "margin", label: "Margin" },
+  { value: "credits", label: "Krediteringer" },
+];
 
-  const entries = Array.from(codes).sort((a, b) => Number(a) - Number(b));
-  return [
-    { label: "Alle WL", value: "all" },
-    ...entries.map((code) => ({ label: `WL ${code}`, value: code })),
-  ];
-};
+const readDetailTab = (value: string | null): DetailTab =>
+  detailTabs.find((tab) => tab.value === value)?.value ?? "customers";
 
 export const InvoiceDetailPage = () => {
   const { invoiceNo } = useParams<{ invoiceNo: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTab = readDetailTab(searchParams.get("tab"));
   const amountDisplayMode = useAmountDisplayStore((state) => state.mode);
   const {
     data: detail,
     isLoading,
     isError,
   } = useInvoiceDetail(invoiceNo ?? null);
-  const { getDiscountRate, setDiscountRate } = useTenantDiscounts();
+  const { data: invoices } = useInvoices();
+  const previousInvoice = useMemo(() => {
+    if (!detail) return null;
+    return (invoices ?? [])
+      .filter((invoice) => invoice.postingDate < detail.postingDate)
+      .reduce<Invoice | null>(
+        (latest, invoice) =>
+          !latest || invoice.postingDate > latest.postingDate
+            ? invoice
+            : latest,
+        null,
+      );
+  }, [detail, invoices]);
+  const {
+    getDiscountRate,
+    resolveDiscount,
+    getScopedDiscountRate,
+    getScopedWriteError,
+    setScopedDiscountRate,
+  } = useTenantDiscounts();
+  const { rulesQuery: marginRulesQuery } = useMarginRules();
+  const { partnerMap: wlPartners } = useWlPartners();
+  const canEditDiscounts = useHasPermission("discounts:write");
+  const canEditVendorDefaults = useHasPermission("discounts:admin");
+  // Discounts resolve against the invoice's billing period so older invoices
+  // keep the rate that was in force when they were billed.
+  const discountDate = (
+    detail?.periodStartDate ??
+    detail?.postingDate ??
+    new Date().toISOString()
+  ).slice(0, 10);
+  const customerRegistry = useCustomerSync(
+    detail?.tenants,
+    detail ? discountDate : undefined,
+  );
+  // Rates edited here apply from this date, by default today, so editing an
+  // old invoice does not rewrite the rates later invoices were billed with.
+  const [effectiveFrom, setEffectiveFrom] = useState(() =>
+    toIsoDate(new Date()),
+  );
 
-  const [customerSearch, setCustomerSearch] = useState("");
+  // Links from other pages (e.g. the product catalogue) preset the search.
+  const [customerSearch, setCustomerSearch] = useState(
+    () => searchParams.get("customer") ?? "",
+  );
   const [wlFilter, setWlFilter] = useState<string>("all");
   const [pageSize, setPageSize] = useState<number>(5);
   const [currentPage, setCurrentPage] = useState(1);
@@ -183,11 +215,14 @@ export const InvoiceDetailPage = () => {
   const [expandedProductDetails, setExpandedProductDetails] = useState<
     Set<string>
   >(() => new Set());
+  const [marginViolations, setMarginViolations] = useState<
+    Record<string, MarginViolation>
+  >({});
   const vendorCopyTimeouts = useRef<Map<string, number>>(new Map());
 
   const wlOptions = useMemo(
-    () => buildWlOptions(detail?.tenants),
-    [detail?.tenants],
+    () => buildWlOptions(detail?.tenants, wlPartners),
+    [detail?.tenants, wlPartners],
   );
 
   useEffect(() => {
@@ -273,7 +308,7 @@ export const InvoiceDetailPage = () => {
       vendor: AggregatedVendor,
       vendorKey: string,
     ) => {
-      const quantityLabel = getVendorQuantityLabel(vendor.vendorName);
+      const quantityLabel = vendor.quantityUnit;
       const rows: string[][] = [
         ["Kunde", customer.name],
         ["Leverandør", vendor.vendorName],
@@ -300,6 +335,7 @@ export const InvoiceDetailPage = () => {
             customer.id,
             vendor.vendorName,
             product.displayName,
+            discountDate,
           ) ?? 0;
         const baseAmount = product.amount ?? 0;
         const discountedAmount = baseAmount * (1 - discountRate / 100);
@@ -333,7 +369,7 @@ export const InvoiceDetailPage = () => {
         scheduleCopyReset(vendorKey, 4000);
       }
     },
-    [getDiscountRate, scheduleCopyReset],
+    [discountDate, getDiscountRate, scheduleCopyReset],
   );
 
   const resetToFirstPage = useCallback(() => {
@@ -342,70 +378,125 @@ export const InvoiceDetailPage = () => {
     setExpandedProductDetails(() => new Set());
   }, []);
 
-  const filteredTenants = useMemo(() => {
-    const normalizedSearch = customerSearch.trim().toLowerCase();
-    return (detail?.tenants ?? []).filter((tenant) => {
-      const wlCode = extractWlCode(tenant.customerReference);
-      const matchesWl = wlFilter === "all" || wlCode === wlFilter;
+  const groupedCustomers = useMemo(
+    () =>
+      groupCustomers(
+        filterTenants(detail?.tenants, {
+          search: customerSearch,
+          wlFilter,
+        }),
+        customerRegistry,
+      ),
+    [detail?.tenants, customerRegistry, customerSearch, wlFilter],
+  );
 
-      if (!normalizedSearch) return matchesWl;
+  const allCustomers = useMemo(
+    () => groupCustomers(detail?.tenants ?? [], customerRegistry),
+    [customerRegistry, detail?.tenants],
+  );
+  const getInvoiceDiscountRate = useCallback(
+    (tenantId: string, vendorName: string, productName: string) =>
+      getDiscountRate(tenantId, vendorName, productName, discountDate),
+    [discountDate, getDiscountRate],
+  );
 
-      const haystack = [
-        tenant.name,
-        tenant.domain,
-        tenant.customerName,
-        tenant.customerReference,
-      ]
-        .filter(Boolean)
-        .map((value) => value!.toLowerCase());
+  const recordMarginViolations = useCallback(
+    (pricing: MarginPricing[], violations: MarginViolation[]) =>
+      setMarginViolations((prev) => {
+        const next = { ...prev };
+        pricing.forEach((item) => {
+          delete next[getPricingKey(item)];
+        });
+        violations.forEach((violation) => {
+          next[getPricingKey(violation)] = violation;
+        });
+        return next;
+      }),
+    [],
+  );
 
-      const matchesSearch = haystack.some((value) =>
-        value.includes(normalizedSearch),
+  // Checks the margin rules against every product the rate would apply to
+  // before writing, so a blocked rate never reaches the server. The server
+  // repeats the check and its 422 is recorded the same way, with its message
+  // shown at the input.
+  const writeScopedDiscount = useCallback(
+    (scope: DiscountScope, target: DiscountTarget, rate: number | null) => {
+      const pricing = collectDiscountPricing(allCustomers, scope, target);
+      const affected = excludeOverriddenPricing(
+        pricing,
+        scope,
+        (specificScope, specificTarget) =>
+          getScopedDiscountRate(specificScope, specificTarget, effectiveFrom),
       );
+      const violations =
+        rate === null
+          ? []
+          : evaluateMarginRules(marginRulesQuery.data ?? [], affected, rate);
+      recordMarginViolations(pricing, violations);
+      if (violations.some((violation) => violation.enforcement === "block")) {
+        return;
+      }
 
-      return matchesSearch && matchesWl;
-    });
-  }, [detail?.tenants, customerSearch, wlFilter]);
+      setScopedDiscountRate(scope, target, rate, effectiveFrom, {
+        pricing,
+        onMarginRejected: (rejected) =>
+          recordMarginViolations(pricing, rejected),
+      });
+    },
+    [
+      allCustomers,
+      effectiveFrom,
+      getScopedDiscountRate,
+      marginRulesQuery.data,
+      recordMarginViolations,
+      setScopedDiscountRate,
+    ],
+  );
 
-  const groupedCustomers: CustomerCard[] = useMemo(() => {
-    const map = new Map<string, GroupedCustomer>();
+  // Customers of WL partners that bill themselves stay out of the resale and
+  // accounting exports.
+  const buildExportRows = useCallback(
+    () =>
+      buildResaleExportRows(
+        groupedCustomers,
+        getInvoiceDiscountRate,
+        wlPartners,
+      ).filter((row) => isWlExported(row.wlCode, wlPartners)),
+    [getInvoiceDiscountRate, groupedCustomers, wlPartners],
+  );
 
-    filteredTenants.forEach((tenant) => {
-      const mapKey = (
-        tenant.customerName ??
-        tenant.name ??
-        tenant.id
-      ).toLowerCase();
-      const existing = map.get(mapKey);
+  const handleExport = useCallback(
+    (format: "csv" | "xlsx") => {
+      if (!detail) return;
+      const rows = buildExportRows();
+      const baseName = toSafeFileName(
+        [
+          "videresalg",
+          detail.invoiceNumber,
+          wlFilter !== "all" ? `wl${wlFilter}` : "",
+        ]
+          .filter(Boolean)
+          .join("-"),
+      );
 
-      if (existing) {
-        if (tenant.domain) existing.domains.add(tenant.domain);
-        if (tenant.customerReference)
-          existing.references.add(tenant.customerReference);
-        existing.subscriptions.push(...(tenant.subscriptions ?? []));
+      if (format === "csv") {
+        downloadBlob(
+          new Blob([resaleRowsToCsv(rows)], {
+            type: "text/csv;charset=utf-8",
+          }),
+          `${baseName}.csv`,
+        );
         return;
       }
-
-      map.set(mapKey, {
-        key: mapKey,
-        id: tenant.id,
-        name: tenant.customerName ?? tenant.name ?? "Kunde",
-        domains: new Set(tenant.domain ? [tenant.domain] : []),
-        references: new Set(
-          tenant.customerReference ? [tenant.customerReference] : [],
-        ),
-        subscriptions: [...(tenant.subscriptions ?? [])],
-      });
-    });
-
-    return Array.from(map.values()).map((group, index) => ({
-      id: group.id || `${group.key}-${index}`,
-      name: group.name,
-      domains: Array.from(group.domains),
-      references: Array.from(group.references),
-      subscriptions: group.subscriptions,
-    }));
-  }, [filteredTenants]);
+      downloadBlob(
+        new Blob([resaleRowsToXlsx(rows, `Faktura ${detail.invoiceNumber}`)], {
+          type: XLSX_MIME_TYPE,
+        }),
+        `${baseName}.xlsx`,
+      );
+    },
+    [buildExportRows, detail, wlFilter],
+  );
 
   const totalCustomers = groupedCustomers.length;
   const totalPages = Math.max(1, Math.ceil(totalCustomers / pageSize));
@@ -436,6 +527,7 @@ export const InvoiceDetailPage = () => {
                 customer.id,
                 vendor.vendorName,
                 product.displayName,
+                discountDate,
               ) ?? 0;
             const baseAmount = product.amount ?? 0;
             return sum + baseAmount * (1 - discountRate / 100);
@@ -452,6 +544,19 @@ export const InvoiceDetailPage = () => {
     const hasTenantDiscount =
       Math.abs(totals.totalAmount - totals.totalDiscountedAmount) > 0.005;
     const isReferenceMissing = customer.references.length === 0;
+    const customerMarginViolations = Object.values(marginViolations).filter(
+      (violation) => violation.tenantId === customer.id,
+    );
+    const hasBlockedMargin = customerMarginViolations.some(
+      (violation) => violation.enforcement === "block",
+    );
+    const wlCode = getCustomerWlCode(customer);
+    const wlDefaultRate = wlPartners.get(wlCode)?.defaultDiscountRate ?? null;
+    const customerDiscountRate = getScopedDiscountRate(
+      "tenant",
+      { tenantId: customer.id },
+      discountDate,
+    );
 
     return (
       <section
@@ -465,7 +570,16 @@ export const InvoiceDetailPage = () => {
         <div className="flex items-start justify-between gap-3 px-5 pt-5 pb-3">
           <div>
             <h2 className="text-sm font-semibold text-slate-800 dark:text-slate-200">
-              {customer.name}
+              {customer.customerId === null ? (
+                customer.name
+              ) : (
+                <Link
+                  to={`/customers/${customer.customerId}`}
+                  className="hover:text-blue-700 hover:underline dark:hover:text-blue-400"
+                >
+                  {customer.name}
+                </Link>
+              )}
             </h2>
             {customer.domains.length > 0 && (
               <p className="mt-0.5 text-xs text-slate-500 dark:text-slate-400">
@@ -474,6 +588,7 @@ export const InvoiceDetailPage = () => {
             )}
             {customer.references.length > 0 ? (
               <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">
+                {wlCode ? `${getWlLabel(wlCode, wlPartners)} · ` : ""}
                 Ref.: {customer.references.join(", ")}
               </p>
             ) : (
@@ -499,6 +614,73 @@ export const InvoiceDetailPage = () => {
               I alt for tenant ({formatQuantityValue(totals.totalLicenses)}{" "}
               enheder)
             </p>
+            <div className="mt-1.5 flex justify-end">
+              <ScopedDiscountInput
+                label="Kunderabat"
+                readOnly={!canEditDiscounts}
+                hint="Gælder alle produkter for kunden, medmindre leverandør eller produkt har egen rabat"
+                value={customerDiscountRate}
+                error={getScopedWriteError("tenant", {
+                  tenantId: customer.id,
+                })}
+                onChange={(rate) =>
+                  writeScopedDiscount(
+                    "tenant",
+                    { tenantId: customer.id },
+                    rate,
+                  )
+                }
+              />
+            </div>
+            {canEditDiscounts &&
+              customerDiscountRate === undefined &&
+              wlDefaultRate !== null && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    writeScopedDiscount(
+                      "tenant",
+                      { tenantId: customer.id },
+                      wlDefaultRate,
+                    )
+                  }
+                  className="mt-1 text-[10px] font-medium text-blue-600 hover:underline dark:text-blue-400"
+                >
+                  Brug WL-standard ({wlDefaultRate.toLocaleString("da-DK")}%)
+                </button>
+              )}
+            {customerMarginViolations.length > 0 && (
+              <p
+                className={`mt-1 text-[10px] font-medium ${
+                  hasBlockedMargin
+                    ? "text-rose-600 dark:text-rose-400"
+                    : "text-amber-600 dark:text-amber-400"
+                }`}
+              >
+                {customerMarginViolations.length}{" "}
+                {customerMarginViolations.length === 1
+                  ? "produkt"
+                  : "produkter"}{" "}
+                under minimumsmargin
+                {hasBlockedMargin ? " – rabatten blev ikke gemt" : ""}
+              </p>
+            )}
+            <div className="mt-1.5 flex justify-end">
+              <UblInvoiceButton
+                customer={customer}
+                invoiceNo={detail?.invoiceNumber ?? invoiceNo ?? ""}
+                periodStart={detail?.periodStartDate}
+                periodEnd={detail?.periodEndDate}
+                getDiscountRate={(tenantId, vendorName, productName) =>
+                  getDiscountRate(
+                    tenantId,
+                    vendorName,
+                    productName,
+                    discountDate,
+                  )
+                }
+              />
+            </div>
             <div className="mt-1.5 text-[11px] font-medium text-slate-400 dark:text-slate-500">
               Klik på en lev. for at kopiere
             </div>
@@ -527,7 +709,7 @@ export const InvoiceDetailPage = () => {
                 const vendorCopyKey = `${customer.id}-${vendor.vendorName}-copy`;
                 const vendorCopyState =
                   vendorCopyStates[vendorCopyKey] ?? "idle";
-                const quantityLabel = getVendorQuantityLabel(vendor.vendorName);
+                const quantityLabel = vendor.quantityUnit;
                 const vendorDiscountedTotal = vendor.products.reduce(
                   (sum, product) => {
                     const discountRate =
@@ -535,6 +717,7 @@ export const InvoiceDetailPage = () => {
                         customer.id,
                         vendor.vendorName,
                         product.displayName,
+                        discountDate,
                       ) ?? 0;
                     const baseAmount = product.amount ?? 0;
                     return sum + baseAmount * (1 - discountRate / 100);
@@ -629,6 +812,55 @@ export const InvoiceDetailPage = () => {
                       >
                         <td colSpan={3} className="px-4 pb-4">
                           <div className="overflow-hidden rounded-xl border border-blue-100 bg-gradient-to-br from-white to-blue-50 shadow-inner dark:border-blue-900 dark:from-slate-900 dark:to-blue-950/30">
+                            <div className="flex flex-wrap items-center justify-end gap-x-4 gap-y-1.5 border-b border-blue-100/70 px-3 py-2 dark:border-blue-900/50">
+                              <ScopedDiscountInput
+                                label={`${vendor.vendorName} for kunden`}
+                                readOnly={!canEditDiscounts}
+                                hint="Gælder alle produkter fra leverandøren for denne kunde"
+                                value={getScopedDiscountRate(
+                                  "vendor",
+                                  {
+                                    tenantId: customer.id,
+                                    vendorName: vendor.vendorName,
+                                  },
+                                  discountDate,
+                                )}
+                                error={getScopedWriteError("vendor", {
+                                  tenantId: customer.id,
+                                  vendorName: vendor.vendorName,
+                                })}
+                                onChange={(rate) =>
+                                  writeScopedDiscount(
+                                    "vendor",
+                                    {
+                                      tenantId: customer.id,
+                                      vendorName: vendor.vendorName,
+                                    },
+                                    rate,
+                                  )
+                                }
+                              />
+                              <ScopedDiscountInput
+                                label={`${vendor.vendorName} for alle kunder`}
+                                readOnly={!canEditVendorDefaults}
+                                hint="Standardrabat for leverandøren på tværs af alle kunder"
+                                value={getScopedDiscountRate(
+                                  "global-vendor",
+                                  { vendorName: vendor.vendorName },
+                                  discountDate,
+                                )}
+                                error={getScopedWriteError("global-vendor", {
+                                  vendorName: vendor.vendorName,
+                                })}
+                                onChange={(rate) =>
+                                  writeScopedDiscount(
+                                    "global-vendor",
+                                    { vendorName: vendor.vendorName },
+                                    rate,
+                                  )
+                                }
+                              />
+                            </div>
                             <div className="grid grid-cols-[minmax(0,2fr)_minmax(0,1fr)_minmax(0,1fr)_minmax(0,1fr)_minmax(0,1fr)_minmax(0,1fr)_minmax(0,1fr)] gap-2 bg-blue-100/70 px-3 py-2 text-[10px] font-semibold uppercase tracking-wide text-blue-700 dark:bg-blue-950/50 dark:text-blue-400">
                               <span>Produkt</span>
                               <span className="text-right">
@@ -641,13 +873,35 @@ export const InvoiceDetailPage = () => {
                               <span className="text-right">Beløb</span>
                             </div>
                             {vendor.products.map((product) => {
-                              const storedDiscount = getDiscountRate(
+                              const productTarget = {
+                                tenantId: customer.id,
+                                vendorName: vendor.vendorName,
+                                productName: product.displayName,
+                              };
+                              const storedDiscount = getScopedDiscountRate(
+                                "product",
+                                productTarget,
+                                discountDate,
+                              );
+                              const marginViolation =
+                                marginViolations[getPricingKey(productTarget)];
+                              const writeError = getScopedWriteError(
+                                "product",
+                                productTarget,
+                              );
+                              const resolvedDiscount = resolveDiscount(
                                 customer.id,
                                 vendor.vendorName,
                                 product.displayName,
+                                discountDate,
                               );
-                              const discountRate = storedDiscount ?? 0;
-                              const hasDiscount = (storedDiscount ?? 0) > 0;
+                              const inheritedDiscount =
+                                resolvedDiscount &&
+                                resolvedDiscount.scope !== "product"
+                                  ? resolvedDiscount
+                                  : undefined;
+                              const discountRate = resolvedDiscount?.rate ?? 0;
+                              const hasDiscount = discountRate > 0;
                               const baseAmount = product.amount ?? 0;
                               const discountAmount =
                                 (baseAmount * discountRate) / 100;
@@ -660,6 +914,19 @@ export const InvoiceDetailPage = () => {
                               const canShowDetails = detailEntries.length > 1;
                               const isProductDetailsExpanded =
                                 expandedProductDetails.has(productDetailsKey);
+                              // Shares the expanded set with the licence
+                              // details, so collapsing the vendor prunes both.
+                              const productTimelineKey = `${productDetailsKey}::timeline`;
+                              const productSubscriptions =
+                                findProductSubscriptions(
+                                  customer.subscriptions,
+                                  vendor.vendorName,
+                                  product.displayName,
+                                );
+                              const canShowTimeline =
+                                hasProratedLines(productSubscriptions);
+                              const isTimelineExpanded =
+                                expandedProductDetails.has(productTimelineKey);
 
                               return (
                                 <Fragment key={`${key}-${product.displayName}`}>
@@ -687,6 +954,23 @@ export const InvoiceDetailPage = () => {
                                             : "Vis licenser"}
                                         </button>
                                       )}
+                                      {canShowTimeline && (
+                                        <button
+                                          type="button"
+                                          onClick={() =>
+                                            toggleProductDetails(
+                                              productTimelineKey,
+                                            )
+                                          }
+                                          className="mt-1 ml-1 inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-slate-700 hover:border-slate-400 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300"
+                                          aria-expanded={isTimelineExpanded}
+                                          title="Vis hver opkrævning og kreditering med periode, dage og enhedspris"
+                                        >
+                                          {isTimelineExpanded
+                                            ? "Skjul forklaring"
+                                            : "Forklar linjer"}
+                                        </button>
+                                      )}
                                     </div>
                                     <div className="text-right">
                                       <span className="inline-flex min-w-[3rem] justify-end rounded-full bg-blue-100 px-3 py-0.5 font-mono text-[11px] font-semibold text-blue-900 shadow-sm">
@@ -717,41 +1001,81 @@ export const InvoiceDetailPage = () => {
                                         Rabat for {product.displayName}
                                       </label>
                                       <div className="flex items-center justify-end gap-1">
-                                        <input
-                                          id={discountInputId}
-                                          type="number"
-                                          min={0}
-                                          max={100}
-                                          step={0.5}
-                                          value={storedDiscount ?? ""}
-                                          placeholder="0"
-                                          className="w-20 rounded-lg border border-blue-200 bg-white px-2 py-1 text-right text-[11px] font-semibold text-blue-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500/30 dark:border-blue-800 dark:bg-slate-800 dark:text-blue-300"
-                                          onChange={(event) => {
-                                            const nextValue =
-                                              event.target.value;
-                                            if (nextValue === "") {
-                                              setDiscountRate(
-                                                customer.id,
-                                                vendor.vendorName,
-                                                product.displayName,
-                                                null,
-                                              );
-                                              return;
+                                        {canEditDiscounts ? (
+                                          <RateInput
+                                            id={discountInputId}
+                                            value={storedDiscount}
+                                            placeholder={
+                                              inheritedDiscount
+                                                ? String(inheritedDiscount.rate)
+                                                : "0"
                                             }
-                                            const parsed = Number(nextValue);
-                                            if (Number.isNaN(parsed)) return;
-                                            setDiscountRate(
-                                              customer.id,
-                                              vendor.vendorName,
-                                              product.displayName,
-                                              parsed,
-                                            );
-                                          }}
-                                        />
+                                            className="w-20 rounded-lg border border-blue-200 bg-white px-2 py-1 text-right text-[11px] font-semibold text-blue-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500/30 dark:border-blue-800 dark:bg-slate-800 dark:text-blue-300"
+                                            onCommit={(rate) =>
+                                              writeScopedDiscount(
+                                                "product",
+                                                productTarget,
+                                                rate,
+                                              )
+                                            }
+                                          />
+                                        ) : (
+                                          <span
+                                            id={discountInputId}
+                                            className="text-[11px] font-semibold text-blue-900 dark:text-blue-300"
+                                          >
+                                            {storedDiscount ??
+                                              inheritedDiscount?.rate ??
+                                              0}
+                                          </span>
+                                        )}
                                         <span className="text-[11px] font-semibold text-slate-500">
                                           %
                                         </span>
+                                        <DiscountHistoryPopover
+                                          tenantId={customer.id}
+                                          vendorName={vendor.vendorName}
+                                          productName={product.displayName}
+                                        />
                                       </div>
+                                      {inheritedDiscount && (
+                                        <p
+                                          className="mt-1 text-[10px] font-medium text-slate-500 dark:text-slate-400"
+                                          title="Indtast en sats for at overskrive den arvede rabat"
+                                        >
+                                          Arvet fra{" "}
+                                          {discountScopeLabels[
+                                            inheritedDiscount.scope
+                                          ].toLowerCase()}
+                                        </p>
+                                      )}
+                                      {marginViolation && (
+                                        <p
+                                          role="alert"
+                                          className={`mt-1 text-[10px] font-medium ${
+                                            marginViolation.enforcement ===
+                                            "block"
+                                              ? "text-rose-600 dark:text-rose-400"
+                                              : "text-amber-600 dark:text-amber-400"
+                                          }`}
+                                        >
+                                          {marginViolation.enforcement ===
+                                          "block"
+                                            ? "Afvist: "
+                                            : "Advarsel: "}
+                                          {describeMarginViolation(
+                                            marginViolation,
+                                          )}
+                                        </p>
+                                      )}
+                                      {writeError && !marginViolation && (
+                                        <p
+                                          role="alert"
+                                          className="mt-1 text-[10px] font-medium text-rose-600 dark:text-rose-400"
+                                        >
+                                          {writeError}
+                                        </p>
+                                      )}
                                       {hasDiscount && (
                                         <p className="mt-1 text-[10px] font-medium text-blue-700">
                                           -{formatCurrency(discountAmount)}
@@ -901,6 +1225,13 @@ export const InvoiceDetailPage = () => {
                                         </div>
                                       </div>
                                     )}
+                                  {canShowTimeline && isTimelineExpanded && (
+                                    <div className="border-t border-blue-100/70 bg-blue-50/40 dark:border-blue-900/50 dark:bg-blue-950/10">
+                                      <ProrationTimeline
+                                        subscriptions={productSubscriptions}
+                                      />
+                                    </div>
+                                  )}
                                 </Fragment>
                               );
                             })}
@@ -1098,144 +1429,281 @@ export const InvoiceDetailPage = () => {
             >
               Vis PDF
             </Button>
-          </div>
-        </div>
-      </section>
-
-      {/* Customer filter bar */}
-      <div className="flex flex-col gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-sm dark:border-slate-800 dark:bg-slate-900">
-        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
-          <div className="relative w-full max-w-sm">
-            <Search
-              className="pointer-events-none absolute left-3 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-slate-400"
-              aria-hidden
-            />
-            <input
-              className="h-9 w-full rounded-xl border border-slate-200 bg-slate-50 pl-9 pr-3 text-sm text-slate-900 placeholder:text-slate-400 focus:border-blue-500 focus:bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:placeholder:text-slate-500 dark:focus:bg-slate-700"
-              placeholder="Søg kunde, domæne eller reference…"
-              value={customerSearch}
-              onChange={(event) => {
-                setCustomerSearch(event.target.value);
-                resetToFirstPage();
-              }}
-              aria-label="Søg kunder"
-            />
-          </div>
-          <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
-            <label htmlFor="pageSize" className="font-medium">
-              Pr. side
-            </label>
-            <select
-              id="pageSize"
-              className="h-8 rounded-lg border border-slate-200 bg-white px-2 text-xs text-slate-700 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300"
-              value={pageSize}
-              onChange={(event) => {
-                setPageSize(Number(event.target.value));
-                resetToFirstPage();
-              }}
+            <Link
+              to={`/invoices/${encodeURIComponent(detail.invoiceNumber)}/rebilling`}
+              className="inline-flex items-center gap-1.5 rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 transition-all hover:border-blue-400 hover:text-blue-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:border-blue-500 dark:hover:text-blue-400"
             >
-              {pageSizeOptions.map((size) => (
-                <option key={size} value={size}>
-                  {size}
-                </option>
-              ))}
-            </select>
+              <Receipt className="h-3.5 w-3.5" aria-hidden />
+              Viderefakturering
+            </Link>
+            {previousInvoice && (
+              <Link
+                to={`/compare/${encodeURIComponent(previousInvoice.invoiceNumber)}/${encodeURIComponent(detail.invoiceNumber)}`}
+                className="inline-flex items-center gap-1.5 rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 transition-all hover:border-blue-400 hover:text-blue-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:border-blue-500 dark:hover:text-blue-400"
+              >
+                <ArrowLeftRight className="h-3.5 w-3.5" aria-hidden />
+                Sammenlign med {previousInvoice.invoiceNumber}
+              </Link>
+            )}
           </div>
         </div>
+      </section>
 
-        {wlOptions.length > 1 && (
-          <div
-            className="flex flex-wrap items-center gap-1.5"
-            role="group"
-            aria-label="Filtrer WL-kode"
+      {/* Tabs */}
+      <div
+        className="inline-flex gap-0.5 rounded-full border border-slate-200 bg-white p-0.5 shadow-sm dark:border-slate-800 dark:bg-slate-900"
+        role="tablist"
+        aria-label="Fakturavisning"
+      >
+        {detailTabs.map((tab) => (
+          <button
+            key={tab.value}
+            type="button"
+            role="tab"
+            aria-selected={activeTab === tab.value}
+            onClick={() =>
+              setSearchParams(
+                (prev) => {
+                  const next = new URLSearchParams(prev);
+                  if (tab.value === "customers") next.delete("tab");
+                  else next.set("tab", tab.value);
+                  return next;
+                },
+                { replace: true },
+              )
+            }
+            className={`rounded-full px-4 py-1.5 text-xs font-medium transition-all ${
+              activeTab === tab.value
+                ? "bg-slate-900 text-white shadow-sm dark:bg-slate-100 dark:text-slate-900"
+                : "text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100"
+            }`}
           >
-            {wlOptions.map((option) => (
-              <button
-                key={option.value}
-                type="button"
-                onClick={() => {
-                  setWlFilter(option.value);
-                  resetToFirstPage();
-                }}
-                className={`inline-flex items-center rounded-full border px-3 py-1 text-xs font-semibold transition-all ${
-                  wlFilter === option.value
-                    ? "border-blue-500 bg-blue-50 text-blue-700 dark:border-blue-600 dark:bg-blue-950/60 dark:text-blue-400"
-                    : "border-slate-200 bg-white text-slate-600 hover:border-slate-300 hover:text-slate-900 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-400 dark:hover:text-slate-200"
-                }`}
-              >
-                {option.label === "WL 1"
-                  ? "ipnordic"
-                  : option.label === "WL 71"
-                    ? "Enreach København"
-                    : option.label === "WL 74"
-                      ? "Enreach Hjørring"
-                      : option.label}
-              </button>
-            ))}
-          </div>
-        )}
+            {tab.label}
+          </button>
+        ))}
       </div>
 
-      {tenantCards.length > 0 ? (
+      {activeTab === "customers" && (
         <>
-          <div className="space-y-4">{tenantCards}</div>
-          <div className="flex flex-col items-start justify-between gap-3 rounded-2xl border border-slate-200 bg-white px-5 py-3.5 shadow-sm dark:border-slate-800 dark:bg-slate-900 sm:flex-row sm:items-center">
-            <p className="text-xs font-medium text-slate-500 dark:text-slate-400">
-              Viser{" "}
-              <span className="font-semibold text-slate-700 dark:text-slate-300">
-                {showingFrom}–{showingTo}
-              </span>{" "}
-              af{" "}
-              <span className="font-semibold text-slate-700 dark:text-slate-300">
-                {totalCustomers}
-              </span>{" "}
-              kunder
-            </p>
-            <div className="flex items-center gap-2">
-              <button
-                type="button"
-                onClick={() =>
-                  setCurrentPage((prev) => {
-                    const normalized = Math.min(prev, totalPages);
-                    return Math.max(normalized - 1, 1);
-                  })
-                }
-                disabled={safePage <= 1 || totalCustomers === 0}
-                className="rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition-colors hover:border-blue-400 hover:text-blue-700 disabled:cursor-not-allowed disabled:border-slate-100 disabled:text-slate-300 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:border-blue-500 dark:hover:text-blue-400 dark:disabled:border-slate-800 dark:disabled:text-slate-600"
+          {/* Customer filter bar */}
+          <div className="flex flex-col gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <div className="relative w-full max-w-sm">
+                <Search
+                  className="pointer-events-none absolute left-3 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-slate-400"
+                  aria-hidden
+                />
+                <input
+                  className="h-9 w-full rounded-xl border border-slate-200 bg-slate-50 pl-9 pr-3 text-sm text-slate-900 placeholder:text-slate-400 focus:border-blue-500 focus:bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:placeholder:text-slate-500 dark:focus:bg-slate-700"
+                  placeholder="Søg kunde, domæne eller reference…"
+                  value={customerSearch}
+                  onChange={(event) => {
+                    setCustomerSearch(event.target.value);
+                    resetToFirstPage();
+                  }}
+                  aria-label="Søg kunder"
+                />
+              </div>
+              <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+                <Button
+                  size="xs"
+                  variant="outline"
+                  leftIcon={<Download className="h-3 w-3" />}
+                  onClick={() => handleExport("csv")}
+                  disabled={groupedCustomers.length === 0}
+                  title="Eksportér kunder i det aktuelle filter som CSV"
+                >
+                  CSV
+                </Button>
+                <Button
+                  size="xs"
+                  variant="outline"
+                  leftIcon={<Download className="h-3 w-3" />}
+                  onClick={() => handleExport("xlsx")}
+                  disabled={groupedCustomers.length === 0}
+                  title="Eksportér kunder i det aktuelle filter som Excel"
+                >
+                  XLSX
+                </Button>
+                <AccountingExportControl
+                  invoiceNo={detail.invoiceNumber}
+                  postingDate={detail.postingDate}
+                  buildRows={buildExportRows}
+                  disabled={groupedCustomers.length === 0}
+                />
+                <label htmlFor="pageSize" className="ml-2 font-medium">
+                  Pr. side
+                </label>
+                <select
+                  id="pageSize"
+                  className="h-8 rounded-lg border border-slate-200 bg-white px-2 text-xs text-slate-700 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300"
+                  value={pageSize}
+                  onChange={(event) => {
+                    setPageSize(Number(event.target.value));
+                    resetToFirstPage();
+                  }}
+                >
+                  {pageSizeOptions.map((size) => (
+                    <option key={size} value={size}>
+                      {size}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1.5 text-[11px] text-slate-500 dark:text-slate-400">
+              <p>
+                Rabatter vises som gældende pr.{" "}
+                <span className="font-semibold text-slate-700 dark:text-slate-300">
+                  {formatDiscountDate(discountDate)}
+                </span>
+                .
+              </p>
+              {canEditDiscounts && (
+                <label className="flex items-center gap-1.5">
+                  Ændringer gælder fra
+                  <input
+                    type="date"
+                    value={effectiveFrom}
+                    onChange={(event) => {
+                      if (event.target.value) {
+                        setEffectiveFrom(event.target.value);
+                      }
+                    }}
+                    className="h-7 rounded-lg border border-slate-200 bg-white px-2 text-[11px] text-slate-800 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200"
+                  />
+                </label>
+              )}
+              {canEditDiscounts && (
+                <p>
+                  Nye satser gælder fra{" "}
+                  <span className="font-semibold text-slate-700 dark:text-slate-300">
+                    {formatDiscountDate(effectiveFrom)}
+                  </span>
+                  , indtil en senere sats tager over; fakturaer før den dato
+                  beholder deres rabat.
+                  {effectiveFrom > discountDate
+                    ? " Denne faktura ændres derfor ikke."
+                    : effectiveFrom < toIsoDate(new Date())
+                      ? " Allerede fakturerede perioder efter datoen får også den nye sats."
+                      : ""}
+                </p>
+              )}
+            </div>
+
+            {wlOptions.length > 1 && (
+              <div
+                className="flex flex-wrap items-center gap-1.5"
+                role="group"
+                aria-label="Filtrer WL-kode"
               >
-                ← Forrige
-              </button>
-              <span className="min-w-[4.5rem] text-center text-xs font-semibold text-slate-500 dark:text-slate-400">
-                {totalCustomers === 0 ? "0 / 0" : `${safePage} / ${totalPages}`}
+                {wlOptions.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => {
+                      setWlFilter(option.value);
+                      resetToFirstPage();
+                    }}
+                    className={`inline-flex items-center rounded-full border px-3 py-1 text-xs font-semibold transition-all ${
+                      wlFilter === option.value
+                        ? "border-blue-500 bg-blue-50 text-blue-700 dark:border-blue-600 dark:bg-blue-950/60 dark:text-blue-400"
+                        : "border-slate-200 bg-white text-slate-600 hover:border-slate-300 hover:text-slate-900 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-400 dark:hover:text-slate-200"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {tenantCards.length > 0 ? (
+            <>
+              <div className="space-y-4">{tenantCards}</div>
+              <div className="flex flex-col items-start justify-between gap-3 rounded-2xl border border-slate-200 bg-white px-5 py-3.5 shadow-sm dark:border-slate-800 dark:bg-slate-900 sm:flex-row sm:items-center">
+                <p className="text-xs font-medium text-slate-500 dark:text-slate-400">
+                  Viser{" "}
+                  <span className="font-semibold text-slate-700 dark:text-slate-300">
+                    {showingFrom}–{showingTo}
+                  </span>{" "}
+                  af{" "}
+                  <span className="font-semibold text-slate-700 dark:text-slate-300">
+                    {totalCustomers}
+                  </span>{" "}
+                  kunder
+                </p>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setCurrentPage((prev) => {
+                        const normalized = Math.min(prev, totalPages);
+                        return Math.max(normalized - 1, 1);
+                      })
+                    }
+                    disabled={safePage <= 1 || totalCustomers === 0}
+                    className="rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition-colors hover:border-blue-400 hover:text-blue-700 disabled:cursor-not-allowed disabled:border-slate-100 disabled:text-slate-300 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:border-blue-500 dark:hover:text-blue-400 dark:disabled:border-slate-800 dark:disabled:text-slate-600"
+                  >
+                    ← Forrige
+                  </button>
+                  <span className="min-w-[4.5rem] text-center text-xs font-semibold text-slate-500 dark:text-slate-400">
+                    {totalCustomers === 0 ? "0 / 0" : `${safePage} / ${totalPages}`}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setCurrentPage((prev) => {
+                        const normalized = Math.min(prev, totalPages);
+                        return Math.min(normalized + 1, totalPages);
+                      })
+                    }
+                    disabled={safePage >= totalPages || totalCustomers === 0}
+                    className="rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition-colors hover:border-blue-400 hover:text-blue-700 disabled:cursor-not-allowed disabled:border-slate-100 disabled:text-slate-300 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:border-blue-500 dark:hover:text-blue-400 dark:disabled:border-slate-800 dark:disabled:text-slate-600"
+                  >
+                    Næste →
+                  </button>
+                </div>
+              </div>
+            </>
+          ) : (
+            <div className="flex flex-col items-center gap-3 rounded-2xl border border-slate-200 bg-white py-14 text-center dark:border-slate-800 dark:bg-slate-900">
+              <span className="flex h-12 w-12 items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-800">
+                <FileSearch className="h-5 w-5 text-slate-400 dark:text-slate-500" />
               </span>
-              <button
-                type="button"
-                onClick={() =>
-                  setCurrentPage((prev) => {
-                    const normalized = Math.min(prev, totalPages);
-                    return Math.min(normalized + 1, totalPages);
-                  })
-                }
-                disabled={safePage >= totalPages || totalCustomers === 0}
-                className="rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition-colors hover:border-blue-400 hover:text-blue-700 disabled:cursor-not-allowed disabled:border-slate-100 disabled:text-slate-300 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:border-blue-500 dark:hover:text-blue-400 dark:disabled:border-slate-800 dark:disabled:text-slate-600"
-              >
-                Næste →
-              </button>
+              <p className="text-sm font-medium text-slate-600 dark:text-slate-400">
+                Ingen tenant-opdeling tilgængelig
+              </p>
+              <p className="text-xs text-slate-400 dark:text-slate-500">
+                Denne faktura har ikke nogen underliggende tenants.
+              </p>
             </div>
-          </div>
+          )}
         </>
-      ) : (
-        <div className="flex flex-col items-center gap-3 rounded-2xl border border-slate-200 bg-white py-14 text-center dark:border-slate-800 dark:bg-slate-900">
-          <span className="flex h-12 w-12 items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-800">
-            <FileSearch className="h-5 w-5 text-slate-400 dark:text-slate-500" />
-          </span>
-          <p className="text-sm font-medium text-slate-600 dark:text-slate-400">
-            Ingen tenant-opdeling tilgængelig
-          </p>
-          <p className="text-xs text-slate-400 dark:text-slate-500">
-            Denne faktura har ikke nogen underliggende tenants.
-          </p>
-        </div>
+      )}
+
+      {activeTab === "changes" && (
+        <LicenseChangesPanel
+          detail={detail}
+          previousInvoice={previousInvoice}
+        />
+      )}
+
+      {activeTab === "margin" && (
+        <MarginPanel
+          customers={allCustomers}
+          getDiscountRate={getInvoiceDiscountRate}
+          wlPartners={wlPartners}
+        />
+      )}
+
+      {activeTab === "credits" && (
+        <CreditReconciliationPanel
+          invoiceNumber={detail.invoiceNumber}
+          customers={allCustomers}
+          getDiscountRate={getInvoiceDiscountRate}
+        />
       )}
     </div>
   );
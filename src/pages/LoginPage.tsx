@@ -0,0 +1,306 @@
+// src/pages/LoginPage.tsx
+import { useState, type FormEvent } from "react";
+import { Navigate, useNavigate, useSearchParams } from "react-router-dom";
+import { KeyRound, LogOut } from "lucide-react";
+import { Button } from "../components/ui/Button";
+import { Skeleton } from "../components/ui/Skeleton";
+import { useCfSession } from "../hooks/useCfSession";
+import { useCurrentUser } from "../hooks/useCurrentUser";
+import { usePartner } from "../hooks/usePartner";
+import { useAuthStore } from "../store/useAuthStore";
+import { readLoginRedirect } from "../utils/loginRedirect";
+import { hasPermission } from "../utils/permissions";
+
+type LoginMode = "refresh" | "pair";
+
+const loginModes: Array<{ value: LoginMode; label: string }> = [
+  { value: "refresh", label: "Refresh token" },
+  { value: "pair", label: "Access + refresh token" },
+];
+
+const inputClassName =
+  "mt-1 block h-9 w-full rounded-lg border border-slate-200 bg-white px-3 text-sm text-slate-800 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200";
+
+const textareaClassName =
+  "mt-1 block w-full resize-none rounded-lg border border-slate-200 bg-white px-3 py-2 font-mono text-[11px] text-slate-800 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200";
+
+const formatExpiry = (value: string | null) => {
+  if (!value) return "Ukendt";
+  const expiry = new Date(value);
+  const formatted = expiry.toLocaleString("da-DK", {
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+  return expiry.getTime() <= Date.now() ? `Udløbet ${formatted}` : formatted;
+};
+
+const ErrorMessage = ({ message }: { message: string | null }) =>
+  message ? (
+    <p
+      role="alert"
+      className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700 dark:border-rose-800 dark:bg-rose-950/50 dark:text-rose-300"
+    >
+      {message}
+    </p>
+  ) : null;
+
+const UserLoginForm = ({ onSignedIn }: { onSignedIn: () => void }) => {
+  const { login } = useCurrentUser();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    login.mutate(
+      { username: username.trim(), password },
+      {
+        onSuccess: () => {
+          setPassword("");
+          onSignedIn();
+        },
+      },
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 space-y-3">
+      <label className="block text-xs font-medium text-slate-600 dark:text-slate-300">
+        Brugernavn
+        <input
+          value={username}
+          onChange={(event) => setUsername(event.target.value)}
+          autoComplete="username"
+          required
+          className={inputClassName}
+        />
+      </label>
+      <label className="block text-xs font-medium text-slate-600 dark:text-slate-300">
+        Adgangskode
+        <input
+          type="password"
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          autoComplete="current-password"
+          required
+          className={inputClassName}
+        />
+      </label>
+
+      <ErrorMessage message={login.isError ? login.error.message : null} />
+
+      <Button type="submit" className="w-full" isLoading={login.isPending}>
+        Log ind
+      </Button>
+    </form>
+  );
+};
+
+const CfSessionForm = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const authError = useAuthStore((state) => state.authError);
+  const { sessionQuery, signIn } = useCfSession();
+  const { partner, partners } = usePartner();
+  const session = sessionQuery.data;
+  const [mode, setMode] = useState<LoginMode>("refresh");
+  const [accessInput, setAccessInput] = useState("");
+  const [refreshInput, setRefreshInput] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (mode === "refresh" && !refreshInput.trim()) {
+      setFormError("Indsæt et refresh token.");
+      return;
+    }
+    if (mode === "pair" && !accessInput.trim()) {
+      setFormError("Indsæt et access token.");
+      return;
+    }
+    setFormError(null);
+    signIn.mutate(
+      mode === "pair"
+        ? {
+            accessToken: accessInput.trim(),
+            refreshToken: refreshInput.trim(),
+          }
+        : { refreshToken: refreshInput.trim() },
+      {
+        onSuccess: () =>
+          navigate(readLoginRedirect(searchParams), { replace: true }),
+      },
+    );
+  };
+
+  const errorMessage =
+    formError ?? (signIn.isError ? signIn.error.message : authError);
+
+  return (
+    <>
+      <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+        Forbind appen med et token fra Cloud Factory-portalen. Tokenet gemmes på
+        serveren og fornyes automatisk; det sendes aldrig tilbage til browseren.
+        Login med Cloud Factory-brugernavn og adgangskode understøttes ikke.
+      </p>
+      {partners.length > 1 && (
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          Forbindelsen gælder kun partnerkontoen{" "}
+          <span className="font-medium text-slate-700 dark:text-slate-300">
+            {partner.label || `Partner ${partner.id.slice(0, 8)}`}
+          </span>
+          ; hver konto forbindes for sig.
+        </p>
+      )}
+
+      <div
+        className="mt-4 flex gap-0.5 rounded-full border border-slate-200 bg-slate-50 p-0.5 dark:border-slate-700 dark:bg-slate-800"
+        role="group"
+        aria-label="Loginmetode"
+      >
+        {loginModes.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => {
+              setMode(option.value);
+              setFormError(null);
+            }}
+            className={`flex-1 rounded-full px-3 py-1 text-xs font-medium transition-all ${
+              mode === option.value
+                ? "bg-slate-900 text-white shadow-sm dark:bg-slate-100 dark:text-slate-900"
+                : "text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="mt-4 space-y-3">
+        {mode === "pair" && (
+          <label className="block text-xs font-medium text-slate-600 dark:text-slate-300">
+            Access token
+            <textarea
+              value={accessInput}
+              onChange={(event) => setAccessInput(event.target.value)}
+              rows={3}
+              autoComplete="off"
+              spellCheck={false}
+              className={textareaClassName}
+            />
+          </label>
+        )}
+        <label className="block text-xs font-medium text-slate-600 dark:text-slate-300">
+          Refresh token
+          {mode === "pair" && (
+            <span className="font-normal text-slate-400"> (valgfrit)</span>
+          )}
+          <textarea
+            value={refreshInput}
+            onChange={(event) => setRefreshInput(event.target.value)}
+            rows={3}
+            autoComplete="off"
+            spellCheck={false}
+            className={textareaClassName}
+          />
+        </label>
+
+        <ErrorMessage message={errorMessage} />
+
+        <Button type="submit" className="w-full" isLoading={signIn.isPending}>
+          Forbind Cloud Factory
+        </Button>
+      </form>
+
+      {session?.connected && (
+        <dl className="mt-5 grid grid-cols-2 gap-2 border-t border-slate-100 pt-4 text-xs dark:border-slate-800">
+          <dt className="text-slate-500 dark:text-slate-400">
+            Access token udløber
+          </dt>
+          <dd className="text-right font-medium text-slate-700 dark:text-slate-300">
+            {formatExpiry(session.accessTokenExpiresAt)}
+          </dd>
+          <dt className="text-slate-500 dark:text-slate-400">
+            Refresh token udløber
+          </dt>
+          <dd className="text-right font-medium text-slate-700 dark:text-slate-300">
+            {formatExpiry(session.refreshTokenExpiresAt)}
+          </dd>
+        </dl>
+      )}
+    </>
+  );
+};
+
+// Signing in is two steps: the user logs in with their own account, and the
+// app needs a Cloud Factory connection on the server. Only finance admins
+// may (re)connect Cloud Factory; everyone else continues once it exists.
+export const LoginPage = () => {
+  const [searchParams] = useSearchParams();
+  const { userQuery, logout } = useCurrentUser();
+  const user = userQuery.data ?? null;
+  const { sessionQuery } = useCfSession(user !== null);
+  const [justSignedIn, setJustSignedIn] = useState(false);
+  const canManageCf = hasPermission(user, "cf-session:write");
+  const cfConnected = sessionQuery.data?.connected ?? false;
+
+  // Finance admins open this page on purpose to replace the connection, so
+  // they are only sent on right after signing in.
+  if (user && cfConnected && (justSignedIn || !canManageCf)) {
+    return <Navigate to={readLoginRedirect(searchParams)} replace />;
+  }
+
+  const isLoading =
+    userQuery.isLoading || (user !== null && sessionQuery.isLoading);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-slate-50 px-4 dark:bg-slate-950">
+      <div className="w-full max-w-md rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <div className="flex items-center gap-2">
+          <KeyRound className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+          <h1 className="text-lg font-bold tracking-tight text-slate-900 dark:text-slate-100">
+            Log ind på CF Fakturering
+          </h1>
+        </div>
+
+        {isLoading ? (
+          <div className="mt-4 space-y-3">
+            <Skeleton className="h-9 w-full" />
+            <Skeleton className="h-9 w-full" />
+          </div>
+        ) : !user ? (
+          <UserLoginForm onSignedIn={() => setJustSignedIn(true)} />
+        ) : (
+          <>
+            <div className="mt-2 flex items-center justify-between gap-2 text-xs text-slate-500 dark:text-slate-400">
+              <span>
+                Logget ind som{" "}
+                <span className="font-medium text-slate-700 dark:text-slate-300">
+                  {user.displayName || user.username}
+                </span>
+              </span>
+              <Button
+                variant="ghost"
+                size="xs"
+                leftIcon={<LogOut className="h-3 w-3" aria-hidden />}
+                onClick={() => logout.mutate()}
+                isLoading={logout.isPending}
+              >
+                Log ud
+              </Button>
+            </div>
+            {canManageCf ? (
+              <CfSessionForm />
+            ) : (
+              <p className="mt-4 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800 dark:border-amber-800 dark:bg-amber-950/50 dark:text-amber-300">
+                Cloud Factory-forbindelsen mangler. Kontakt en økonomi-admin.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoginPage;
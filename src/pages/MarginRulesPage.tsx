@@ -0,0 +1,248 @@
+// src/pages/MarginRulesPage.tsx
+import { useState, type FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Pencil, Trash2 } from "lucide-react";
+import { Button } from "../components/ui/Button";
+import { Skeleton } from "../components/ui/Skeleton";
+import { useHasPermission } from "../hooks/useCurrentUser";
+import { useMarginRules } from "../hooks/useMarginRules";
+import {
+  MARGIN_RULE_DEFAULT_VENDOR,
+  marginEnforcementLabels,
+  type MarginEnforcement,
+} from "../utils/marginRules";
+
+type RuleForm = {
+  vendorName: string;
+  minMarginPercent: string;
+  enforcement: MarginEnforcement;
+};
+
+const emptyForm: RuleForm = {
+  vendorName: "",
+  minMarginPercent: "",
+  enforcement: "warn",
+};
+
+const enforcementOptions: MarginEnforcement[] = ["warn", "block"];
+
+const inputClassName =
+  "h-8 w-full rounded-lg border border-slate-200 bg-white px-2 text-xs text-slate-800 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200";
+
+const formatVendor = (vendorName: string) =>
+  vendorName === MARGIN_RULE_DEFAULT_VENDOR
+    ? "Standard (alle leverandører)"
+    : vendorName;
+
+const percentFormatter = new Intl.NumberFormat("da-DK", {
+  maximumFractionDigits: 2,
+});
+
+export const MarginRulesPage = () => {
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const { rulesQuery, saveRule, deleteRule } = useMarginRules();
+  const canEdit = useHasPermission("discounts:admin");
+  const rules = rulesQuery.data ?? [];
+  const hasDefault = rules.some(
+    (rule) => rule.vendorName === MARGIN_RULE_DEFAULT_VENDOR,
+  );
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    saveRule.mutate(
+      {
+        vendorName: form.vendorName.trim(),
+        minMarginPercent: Number(form.minMarginPercent.replace(",", ".")),
+        enforcement: form.enforcement,
+      },
+      { onSuccess: () => setForm(emptyForm) },
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <nav
+        className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400"
+        aria-label="Brødkrumme"
+      >
+        <Link
+          to="/"
+          className="inline-flex items-center gap-1 font-medium text-blue-600 transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Fakturaer
+        </Link>
+        <span aria-hidden>/</span>
+        <span className="font-medium text-slate-700 dark:text-slate-300">
+          Marginer
+        </span>
+      </nav>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <h1 className="text-xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+          Minimumsmargin for rabatter
+        </h1>
+        <p className="mt-1 max-w-2xl text-xs text-slate-500 dark:text-slate-400">
+          En rabat må ikke presse salgsprisen under kostprisen plus
+          minimumsmarginen. Leverandører uden egen regel bruger
+          standardreglen. &quot;Advar&quot; viser en advarsel ved produktet,
+          &quot;Blokér&quot; afviser rabatten både i appen og på serveren.
+          Importerede rabatter kontrolleres ikke.
+        </p>
+      </section>
+
+      <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        {canEdit && (
+          <form
+            onSubmit={handleSubmit}
+            className="grid gap-2 border-b border-slate-100 p-4 sm:grid-cols-[2fr_1fr_1fr_auto] sm:items-end dark:border-slate-800"
+          >
+            <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+              Leverandør
+              <input
+                value={form.vendorName}
+                onChange={(event) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    vendorName: event.target.value,
+                  }))
+                }
+                placeholder={hasDefault ? "fx Microsoft" : "* for standard"}
+                required
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+              Minimumsmargin (%)
+              <input
+                type="number"
+                min={0}
+                max={99.99}
+                step={0.5}
+                value={form.minMarginPercent}
+                onChange={(event) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    minMarginPercent: event.target.value,
+                  }))
+                }
+                required
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+              Håndhævelse
+              <select
+                value={form.enforcement}
+                onChange={(event) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    enforcement: event.target.value as MarginEnforcement,
+                  }))
+                }
+                className={`mt-1 ${inputClassName}`}
+              >
+                {enforcementOptions.map((option) => (
+                  <option key={option} value={option}>
+                    {marginEnforcementLabels[option]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <Button type="submit" size="sm" isLoading={saveRule.isPending}>
+              Gem
+            </Button>
+          </form>
+        )}
+        {(saveRule.isError || deleteRule.isError) && (
+          <p className="px-4 pt-3 text-xs font-medium text-rose-600 dark:text-rose-400">
+            {(saveRule.error ?? deleteRule.error)?.message}
+          </p>
+        )}
+
+        {rulesQuery.isLoading ? (
+          <div className="space-y-2 p-4">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="p-6 text-center text-xs text-slate-500 dark:text-slate-400">
+            Ingen marginregler endnu. Start med en standardregel med leverandør{" "}
+            <code>*</code>.
+          </p>
+        ) : (
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+              <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                <th className="px-4 py-2 text-left">Leverandør</th>
+                <th className="px-4 py-2 text-right">Minimumsmargin</th>
+                <th className="px-4 py-2 text-left">Håndhævelse</th>
+                <th className="px-4 py-2 text-left">Ændret af</th>
+                {canEdit && <th className="px-4 py-2" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {rules.map((rule) => (
+                <tr
+                  key={rule.vendorName}
+                  className="text-slate-700 dark:text-slate-300"
+                >
+                  <td className="px-4 py-2 font-medium">
+                    {formatVendor(rule.vendorName)}
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono">
+                    {percentFormatter.format(rule.minMarginPercent)} %
+                  </td>
+                  <td className="px-4 py-2">
+                    <span
+                      className={`inline-flex rounded-full px-2 py-0.5 text-[10px] font-semibold ${
+                        rule.enforcement === "block"
+                          ? "bg-rose-50 text-rose-700 dark:bg-rose-950/50 dark:text-rose-400"
+                          : "bg-amber-50 text-amber-700 dark:bg-amber-950/50 dark:text-amber-400"
+                      }`}
+                    >
+                      {marginEnforcementLabels[rule.enforcement]}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-slate-500 dark:text-slate-400">
+                    {rule.updatedBy ?? "—"}
+                  </td>
+                  {canEdit && (
+                    <td className="px-4 py-2 text-right">
+                      <div className="inline-flex gap-1">
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setForm({
+                              vendorName: rule.vendorName,
+                              minMarginPercent: String(rule.minMarginPercent),
+                              enforcement: rule.enforcement,
+                            })
+                          }
+                          aria-label={`Redigér ${formatVendor(rule.vendorName)}`}
+                          className="rounded-full p-1 text-slate-400 hover:bg-slate-100 hover:text-slate-700 dark:hover:bg-slate-800 dark:hover:text-slate-200"
+                        >
+                          <Pencil className="h-3.5 w-3.5" aria-hidden />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => deleteRule.mutate(rule.vendorName)}
+                          aria-label={`Slet ${formatVendor(rule.vendorName)}`}
+                          className="rounded-full p-1 text-slate-400 hover:bg-rose-50 hover:text-rose-600 dark:hover:bg-rose-950/40 dark:hover:text-rose-400"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" aria-hidden />
+                        </button>
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default MarginRulesPage;
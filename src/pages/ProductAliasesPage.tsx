@@ -0,0 +1,183 @@
+// src/pages/ProductAliasesPage.tsx
+import { useState, type FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, X } from "lucide-react";
+import { Button } from "../components/ui/Button";
+import { Skeleton } from "../components/ui/Skeleton";
+import { useHasPermission } from "../hooks/useCurrentUser";
+import { useProductAliases } from "../hooks/useProductAliases";
+import { groupProductAliases } from "../utils/productAliases";
+
+const emptyForm = { alias: "", canonicalName: "" };
+
+const inputClassName =
+  "h-8 w-full rounded-lg border border-slate-200 bg-white px-2 text-xs text-slate-800 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200";
+
+export const ProductAliasesPage = () => {
+  const [form, setForm] = useState(emptyForm);
+  const { aliasesQuery, saveAlias, deleteAlias } = useProductAliases();
+  const canEdit = useHasPermission("discounts:admin");
+  const groups = groupProductAliases(aliasesQuery.data ?? []);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    saveAlias.mutate(
+      {
+        alias: form.alias.trim(),
+        canonicalName: form.canonicalName.trim(),
+      },
+      // Keep the product so several old names can be added in a row.
+      { onSuccess: () => setForm((prev) => ({ ...prev, alias: "" })) },
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <nav
+        className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400"
+        aria-label="Brødkrumme"
+      >
+        <Link
+          to="/"
+          className="inline-flex items-center gap-1 font-medium text-blue-600 transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Fakturaer
+        </Link>
+        <span aria-hidden>/</span>
+        <span className="font-medium text-slate-700 dark:text-slate-300">
+          Produktnavne
+        </span>
+      </nav>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <h1 className="text-xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+          Produktnavne og aliaser
+        </h1>
+        <p className="mt-1 max-w-2xl text-xs text-slate-500 dark:text-slate-400">
+          Saml produkter der optræder under flere navne (omdøbt af
+          leverandøren, &quot;(Annual)&quot;-endelser osv.) under ét produkt.
+          Aliaser slås sammen på alle fakturaer, og rabatter gemt under et
+          alias gælder for produktet indtil der sættes en rabat på det nye
+          navn. Store og små bogstaver, mellemrum og &quot;(NCE)&quot;
+          ignoreres.
+        </p>
+      </section>
+
+      <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        {canEdit && (
+          <form
+            onSubmit={handleSubmit}
+            className="grid gap-2 border-b border-slate-100 p-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end dark:border-slate-800"
+          >
+            <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+              Alias (navn på fakturaen)
+              <input
+                value={form.alias}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, alias: event.target.value }))
+                }
+                placeholder="fx Microsoft 365 Business Basic (Annual)"
+                required
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+              Vis som produkt
+              <input
+                value={form.canonicalName}
+                onChange={(event) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    canonicalName: event.target.value,
+                  }))
+                }
+                placeholder="fx Microsoft 365 Business Basic"
+                list="product-alias-canonical-names"
+                required
+                className={`mt-1 ${inputClassName}`}
+              />
+              <datalist id="product-alias-canonical-names">
+                {groups.map((group) => (
+                  <option
+                    key={group.canonicalName}
+                    value={group.canonicalName}
+                  />
+                ))}
+              </datalist>
+            </label>
+            <Button type="submit" size="sm" isLoading={saveAlias.isPending}>
+              Tilføj alias
+            </Button>
+          </form>
+        )}
+        {(saveAlias.isError || deleteAlias.isError) && (
+          <p className="px-4 pt-3 text-xs font-medium text-rose-600 dark:text-rose-400">
+            {(saveAlias.error ?? deleteAlias.error)?.message}
+          </p>
+        )}
+
+        {aliasesQuery.isLoading ? (
+          <div className="space-y-2 p-4">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="p-6 text-center text-xs text-slate-500 dark:text-slate-400">
+            Ingen aliaser endnu.
+          </p>
+        ) : (
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+              <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                <th className="px-4 py-2 text-left">Produkt</th>
+                <th className="px-4 py-2 text-left">Aliaser</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {groups.map((group) => (
+                <tr
+                  key={group.canonicalName}
+                  className="align-top text-slate-700 dark:text-slate-300"
+                >
+                  <td className="px-4 py-2 font-medium">
+                    {group.canonicalName}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex flex-wrap gap-1.5">
+                      {group.aliases.map((entry) => (
+                        <span
+                          key={entry.alias}
+                          title={
+                            entry.updatedBy
+                              ? `Tilføjet af ${entry.updatedBy}`
+                              : undefined
+                          }
+                          className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-slate-50 px-2 py-0.5 text-[11px] dark:border-slate-700 dark:bg-slate-800"
+                        >
+                          {entry.alias}
+                          {canEdit && (
+                            <button
+                              type="button"
+                              onClick={() => deleteAlias.mutate(entry.alias)}
+                              aria-label={`Fjern alias ${entry.alias}`}
+                              className="rounded-full text-slate-400 hover:text-rose-600 dark:hover:text-rose-400"
+                            >
+                              <X className="h-3 w-3" aria-hidden />
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ProductAliasesPage;
@@ -0,0 +1,339 @@
+// src/pages/ProductsPage.tsx
+import { Fragment, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, ChevronDown, ChevronUp, Search } from "lucide-react";
+import { Skeleton } from "../components/ui/Skeleton";
+import { useCustomerSync } from "../hooks/useCustomers";
+import { useInvoiceDetail } from "../hooks/useInvoiceDetail";
+import { useInvoices } from "../hooks/useInvoices";
+import { useTenantDiscounts } from "../hooks/useTenantDiscounts";
+import type { QuantityUnit } from "../types/invoice";
+import { groupCustomers } from "../utils/customerGrouping";
+import {
+  buildProductCatalogue,
+  filterCatalogueProducts,
+  sortCatalogueProducts,
+  type CatalogueSortKey,
+  type PriceRange,
+} from "../utils/productCatalogue";
+
+const sortOptions: Array<{ value: CatalogueSortKey; label: string }> = [
+  { value: "seats", label: "Flest licenser" },
+  { value: "customers", label: "Flest kunder" },
+  { value: "name", label: "Navn" },
+];
+
+const currencyFormatter = new Intl.NumberFormat("da-DK", {
+  style: "currency",
+  currency: "DKK",
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+const quantityFormatter = new Intl.NumberFormat("da-DK", {
+  maximumFractionDigits: 2,
+});
+
+const percentFormatter = new Intl.NumberFormat("da-DK", {
+  maximumFractionDigits: 2,
+});
+
+const formatCurrency = (value: number) => currencyFormatter.format(value);
+
+const quantityUnitLabels: Record<QuantityUnit, string> = {
+  licenses: "licenser",
+  seats: "seats",
+  gb: "GB",
+};
+
+const formatPriceRange = (range: PriceRange | null) => {
+  if (!range) return "—";
+  return range.min === range.max
+    ? formatCurrency(range.min)
+    : `${formatCurrency(range.min)} – ${formatCurrency(range.max)}`;
+};
+
+const formatDiscountRange = (range: PriceRange | null) => {
+  if (!range) return "—";
+  return range.min === range.max
+    ? `${percentFormatter.format(range.min)}%`
+    : `${percentFormatter.format(range.min)}–${percentFormatter.format(range.max)}%`;
+};
+
+const selectClassName =
+  "h-8 rounded-lg border border-slate-200 bg-white px-2 text-xs text-slate-700 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200";
+
+const linkClassName =
+  "font-medium text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300";
+
+export const ProductsPage = () => {
+  const [selectedInvoiceNo, setSelectedInvoiceNo] = useState("");
+  const [search, setSearch] = useState("");
+  const [sortKey, setSortKey] = useState<CatalogueSortKey>("seats");
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const { data: invoices, isLoading: isLoadingInvoices } = useInvoices();
+  // The invoice list is sorted newest first, so the latest invoice is the
+  // default.
+  const invoiceNo = selectedInvoiceNo || invoices?.[0]?.invoiceNumber || null;
+  const { data: detail, isLoading: isLoadingDetail } =
+    useInvoiceDetail(invoiceNo);
+  const { getDiscountRate } = useTenantDiscounts();
+  const discountDate = (
+    detail?.periodStartDate ??
+    detail?.postingDate ??
+    new Date().toISOString()
+  ).slice(0, 10);
+  const customerRegistry = useCustomerSync(
+    detail?.tenants,
+    detail ? discountDate : undefined,
+  );
+
+  const catalogue = buildProductCatalogue(
+    groupCustomers(detail?.tenants ?? [], customerRegistry),
+    (tenantId, vendorName, productName) =>
+      getDiscountRate(tenantId, vendorName, productName, discountDate),
+  );
+  const products = sortCatalogueProducts(
+    filterCatalogueProducts(catalogue, search),
+    sortKey,
+  );
+  const isLoading = isLoadingInvoices || isLoadingDetail;
+
+  return (
+    <div className="space-y-6">
+      <nav
+        className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400"
+        aria-label="Brødkrumme"
+      >
+        <Link
+          to="/"
+          className="inline-flex items-center gap-1 font-medium text-blue-600 transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Fakturaer
+        </Link>
+        <span aria-hidden>/</span>
+        <span className="font-medium text-slate-700 dark:text-slate-300">
+          Produkter
+        </span>
+      </nav>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <h1 className="text-xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+          Produkter
+        </h1>
+        <p className="mt-1 max-w-2xl text-xs text-slate-500 dark:text-slate-400">
+          Alle produkter på fakturaen samlet pr. produkt-id og SKU på tværs af
+          kunder: antal licenser, hvilke kunder der har produktet, kostpris og
+          listepris pr. enhed, og hvilke rabatter kunderne får. Fold et
+          produkt ud for at se kunderne.
+        </p>
+        <div className="mt-4 flex flex-wrap items-end gap-3">
+          <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+            Faktura
+            <select
+              value={invoiceNo ?? ""}
+              onChange={(event) => {
+                setSelectedInvoiceNo(event.target.value);
+                setExpandedKey(null);
+              }}
+              className={`mt-1 block ${selectClassName}`}
+            >
+              {(invoices ?? []).map((invoice) => (
+                <option
+                  key={invoice.invoiceNumber}
+                  value={invoice.invoiceNumber}
+                >
+                  {invoice.invoiceNumber} · {invoice.postingDate.slice(0, 10)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+            Sortér efter
+            <select
+              value={sortKey}
+              onChange={(event) =>
+                setSortKey(event.target.value as CatalogueSortKey)
+              }
+              className={`mt-1 block ${selectClassName}`}
+            >
+              {sortOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="relative min-w-60 flex-1">
+            <Search
+              className="pointer-events-none absolute top-1/2 left-2.5 h-3.5 w-3.5 -translate-y-1/2 text-slate-400"
+              aria-hidden
+            />
+            <input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Søg på produkt, leverandør, produkt-id eller SKU"
+              aria-label="Søg produkter"
+              className={`${selectClassName} w-full pl-8`}
+            />
+          </div>
+        </div>
+      </section>
+
+      <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        {isLoading ? (
+          <div className="space-y-2 p-4">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : products.length === 0 ? (
+          <p className="p-6 text-center text-xs text-slate-500 dark:text-slate-400">
+            {catalogue.length === 0
+              ? "Fakturaen har ingen kundeopdeling."
+              : "Ingen produkter matcher søgningen."}
+          </p>
+        ) : (
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+              <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                <th className="px-4 py-2 text-left">Produkt</th>
+                <th className="px-4 py-2 text-right">Antal</th>
+                <th className="px-4 py-2 text-right">Kunder</th>
+                <th className="px-4 py-2 text-right">Kostpris/enhed</th>
+                <th className="px-4 py-2 text-right">Listepris/enhed</th>
+                <th className="px-4 py-2 text-right">Rabat</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {products.map((product) => {
+                const isExpanded = expandedKey === product.key;
+                return (
+                  <Fragment key={product.key}>
+                    <tr className="align-top text-slate-700 dark:text-slate-300">
+                      <td className="px-4 py-2">
+                        <span className="font-medium">
+                          {product.productName}
+                        </span>
+                        <span className="block text-[11px] text-slate-400">
+                          {product.vendorName} ·{" "}
+                          <span className="font-mono">
+                            {product.productId === product.skuId
+                              ? product.skuId
+                              : `${product.productId}/${product.skuId}`}
+                          </span>
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono">
+                        {quantityFormatter.format(product.totalSeats)}{" "}
+                        {quantityUnitLabels[product.quantityUnit]}
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono">
+                        {product.holders.length}
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono">
+                        {formatPriceRange(product.costUnitPrice)}
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono">
+                        {formatPriceRange(product.retailUnitPrice)}
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono">
+                        {formatDiscountRange(product.discountRange)}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setExpandedKey(isExpanded ? null : product.key)
+                          }
+                          aria-expanded={isExpanded}
+                          aria-label={`${isExpanded ? "Skjul" : "Vis"} kunder med ${product.productName}`}
+                          className="rounded-full p-1 text-slate-400 hover:bg-slate-100 hover:text-slate-700 dark:hover:bg-slate-800 dark:hover:text-slate-200"
+                        >
+                          {isExpanded ? (
+                            <ChevronUp className="h-3.5 w-3.5" aria-hidden />
+                          ) : (
+                            <ChevronDown className="h-3.5 w-3.5" aria-hidden />
+                          )}
+                        </button>
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr>
+                        <td
+                          colSpan={7}
+                          className="bg-slate-50/60 px-4 py-3 dark:bg-slate-800/30"
+                        >
+                          <table className="min-w-full text-[11px]">
+                            <thead>
+                              <tr className="font-semibold uppercase tracking-wide text-slate-400">
+                                <th className="py-1 text-left">Kunde</th>
+                                <th className="py-1 text-right">Antal</th>
+                                <th className="py-1 text-right">Kostpris</th>
+                                <th className="py-1 text-right">Listepris</th>
+                                <th className="py-1 text-right">Rabat</th>
+                                <th className="py-1" />
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {product.holders.map((holder) => (
+                                <tr
+                                  key={holder.tenantId}
+                                  className="text-slate-600 dark:text-slate-400"
+                                >
+                                  <td className="py-1">
+                                    {holder.customerId === null ? (
+                                      holder.customerName
+                                    ) : (
+                                      <Link
+                                        to={`/customers/${holder.customerId}`}
+                                        className={linkClassName}
+                                      >
+                                        {holder.customerName}
+                                      </Link>
+                                    )}
+                                  </td>
+                                  <td className="py-1 text-right font-mono">
+                                    {quantityFormatter.format(holder.seats)}
+                                  </td>
+                                  <td className="py-1 text-right font-mono">
+                                    {formatCurrency(holder.costAmount)}
+                                  </td>
+                                  <td className="py-1 text-right font-mono">
+                                    {formatCurrency(holder.retailAmount)}
+                                  </td>
+                                  <td className="py-1 text-right font-mono">
+                                    {percentFormatter.format(
+                                      holder.discountRate,
+                                    )}
+                                    %
+                                  </td>
+                                  <td className="py-1 text-right">
+                                    <Link
+                                      to={`/invoices/${invoiceNo}?customer=${encodeURIComponent(holder.customerName)}`}
+                                      className={linkClassName}
+                                    >
+                                      På fakturaen
+                                    </Link>
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ProductsPage;
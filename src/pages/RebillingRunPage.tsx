@@ -0,0 +1,453 @@
+// src/pages/RebillingRunPage.tsx
+import { useMemo } from "react";
+import { Link, useParams } from "react-router-dom";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Download,
+  Lock,
+  RefreshCw,
+  Trash2,
+} from "lucide-react";
+import { Button } from "../components/ui/Button";
+import { Skeleton } from "../components/ui/Skeleton";
+import { useCustomerSync } from "../hooks/useCustomers";
+import { useHasPermission } from "../hooks/useCurrentUser";
+import { useInvoiceDetail } from "../hooks/useInvoiceDetail";
+import { useRebillingRun } from "../hooks/useRebillingRun";
+import { useTenantDiscounts } from "../hooks/useTenantDiscounts";
+import { useWlPartners } from "../hooks/useWlPartners";
+import { groupCustomers } from "../utils/customerGrouping";
+import { downloadBlob, toSafeFileName } from "../utils/download";
+import {
+  REBILLING_VAT_RATE,
+  buildRebillingDrafts,
+  rebillingDraftsToCsv,
+  rebillingDraftsToXlsx,
+  summarizeDrafts,
+  type RebillingDraft,
+} from "../utils/rebilling";
+import { getWlLabel, type WlPartnerMap } from "../utils/wlPartners";
+import { XLSX_MIME_TYPE } from "../utils/xlsx";
+
+const currencyFormatter = new Intl.NumberFormat("da-DK", {
+  style: "currency",
+  currency: "DKK",
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+const quantityFormatter = new Intl.NumberFormat("da-DK", {
+  maximumFractionDigits: 0,
+});
+
+const formatCurrency = (value: number) => currencyFormatter.format(value);
+
+// SQLite stores CURRENT_TIMESTAMP as UTC without a zone marker.
+const formatTimestamp = (value: string | null) => {
+  if (!value) return "—";
+  const parsed = new Date(`${value.replace(" ", "T")}Z`);
+  if (Number.isNaN(parsed.getTime())) return value;
+  return parsed.toLocaleString("da-DK", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+const DraftCard = ({
+  draft,
+  wlPartners,
+}: {
+  draft: RebillingDraft;
+  wlPartners: WlPartnerMap;
+}) => (
+  <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+    <div className="flex items-start justify-between gap-3 px-5 pt-4 pb-3">
+      <div>
+        <h2 className="text-sm font-semibold text-slate-800 dark:text-slate-200">
+          {draft.customerName}
+        </h2>
+        <p className="mt-0.5 text-[11px] text-slate-500 dark:text-slate-400">
+          {draft.wlCode ? `${getWlLabel(draft.wlCode, wlPartners)} · ` : ""}
+          {draft.customerReference ? (
+            `Ref.: ${draft.customerReference}`
+          ) : (
+            <span className="inline-flex items-center gap-1 font-semibold text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="h-3 w-3" /> Reference mangler
+            </span>
+          )}
+        </p>
+      </div>
+      <div className="shrink-0 text-right">
+        <p className="font-mono text-sm font-semibold text-slate-900 dark:text-slate-100">
+          {formatCurrency(draft.total)}
+        </p>
+        <p className="text-[11px] text-slate-400 dark:text-slate-500">
+          inkl. moms
+        </p>
+      </div>
+    </div>
+    <div className="overflow-x-auto scrollbar-thin">
+      <table className="min-w-full text-xs">
+        <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+          <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+            <th className="px-4 py-2 text-left">Leverandør</th>
+            <th className="px-4 py-2 text-left">Produkt</th>
+            <th className="px-4 py-2 text-right">Mængde</th>
+            <th className="px-4 py-2 text-right">Før rabat</th>
+            <th className="px-4 py-2 text-right">Rabat</th>
+            <th className="px-4 py-2 text-right">Beløb</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+          {draft.lines.map((line) => (
+            <tr
+              key={`${line.vendorName}-${line.productName}`}
+              className="text-slate-700 dark:text-slate-300"
+            >
+              <td className="px-4 py-2">{line.vendorName}</td>
+              <td className="px-4 py-2">{line.productName}</td>
+              <td className="px-4 py-2 text-right font-mono">
+                {quantityFormatter.format(line.quantity)} {line.quantityUnit}
+              </td>
+              <td className="px-4 py-2 text-right font-mono">
+                {formatCurrency(line.amountBeforeDiscount)}
+              </td>
+              <td className="px-4 py-2 text-right font-mono">
+                {line.discountRate
+                  ? `${line.discountRate.toLocaleString("da-DK")}%`
+                  : "—"}
+              </td>
+              <td className="px-4 py-2 text-right font-mono">
+                {formatCurrency(line.amount)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="border-t border-slate-200 bg-slate-50/60 text-slate-700 dark:border-slate-700 dark:bg-slate-800/40 dark:text-slate-300">
+          <tr>
+            <td colSpan={5} className="px-4 py-1.5 text-right">
+              Subtotal
+            </td>
+            <td className="px-4 py-1.5 text-right font-mono">
+              {formatCurrency(draft.subtotal)}
+            </td>
+          </tr>
+          <tr>
+            <td colSpan={5} className="px-4 py-1.5 text-right">
+              Moms ({REBILLING_VAT_RATE * 100}%)
+            </td>
+            <td className="px-4 py-1.5 text-right font-mono">
+              {formatCurrency(draft.vatAmount)}
+            </td>
+          </tr>
+          <tr className="font-semibold">
+            <td colSpan={5} className="px-4 py-1.5 text-right">
+              I alt
+            </td>
+            <td className="px-4 py-1.5 text-right font-mono">
+              {formatCurrency(draft.total)}
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  </section>
+);
+
+export const RebillingRunPage = () => {
+  const { invoiceNo } = useParams<{ invoiceNo: string }>();
+  const {
+    data: detail,
+    isLoading: isDetailLoading,
+    isError: isDetailError,
+  } = useInvoiceDetail(invoiceNo ?? null);
+  const { getDiscountRate } = useTenantDiscounts();
+  const { partnerMap: wlPartners } = useWlPartners();
+  const { runQuery, createRun, regenerateRun, lockRun, deleteRun } =
+    useRebillingRun(invoiceNo ?? null);
+  const canManageRuns = useHasPermission("rebilling:write");
+
+  const discountDate = (
+    detail?.periodStartDate ??
+    detail?.postingDate ??
+    new Date().toISOString()
+  ).slice(0, 10);
+  const customerRegistry = useCustomerSync(
+    detail?.tenants,
+    detail ? discountDate : undefined,
+  );
+
+  const computedDrafts = useMemo(
+    () =>
+      buildRebillingDrafts(
+        groupCustomers(detail?.tenants ?? [], customerRegistry),
+        (tenantId, vendorName, productName) =>
+          getDiscountRate(tenantId, vendorName, productName, discountDate),
+        wlPartners,
+      ),
+    [
+      customerRegistry,
+      detail?.tenants,
+      discountDate,
+      getDiscountRate,
+      wlPartners,
+    ],
+  );
+
+  const run = runQuery.data ?? null;
+  const drafts = run?.drafts ?? computedDrafts;
+  const totals = summarizeDrafts(drafts);
+  const computedTotals = summarizeDrafts(computedDrafts);
+  const isLocked = run?.status === "locked";
+  const isOutdated =
+    run?.status === "draft" &&
+    (run.drafts.length !== computedDrafts.length ||
+      Math.abs(totals.subtotal - computedTotals.subtotal) > 0.005);
+
+  const mutationError =
+    createRun.error ??
+    regenerateRun.error ??
+    lockRun.error ??
+    deleteRun.error ??
+    null;
+  const isMutating =
+    createRun.isPending ||
+    regenerateRun.isPending ||
+    lockRun.isPending ||
+    deleteRun.isPending;
+
+  const handleExport = (format: "csv" | "xlsx") => {
+    if (!invoiceNo) return;
+    const baseName = toSafeFileName(
+      `viderefakturering-${invoiceNo}${run ? "" : "-forhaandsvisning"}`,
+    );
+    if (format === "csv") {
+      downloadBlob(
+        new Blob([rebillingDraftsToCsv(drafts, wlPartners)], {
+          type: "text/csv;charset=utf-8",
+        }),
+        `${baseName}.csv`,
+      );
+      return;
+    }
+    downloadBlob(
+      new Blob(
+        [rebillingDraftsToXlsx(drafts, `Faktura ${invoiceNo}`, wlPartners)],
+        { type: XLSX_MIME_TYPE },
+      ),
+      `${baseName}.xlsx`,
+    );
+  };
+
+  if (isDetailLoading || runQuery.isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-3 w-48" />
+        <Skeleton className="h-28 w-full rounded-2xl" />
+        {[...Array(3)].map((_, idx) => (
+          <Skeleton key={idx} className="h-36 w-full rounded-2xl" />
+        ))}
+      </div>
+    );
+  }
+
+  if (isDetailError || runQuery.isError || !detail || !invoiceNo) {
+    return (
+      <div className="flex flex-col items-center gap-3 rounded-2xl border border-rose-200 bg-rose-50 p-10 text-center dark:border-rose-800 dark:bg-rose-950/40">
+        <span className="flex h-12 w-12 items-center justify-center rounded-2xl bg-rose-100 dark:bg-rose-900/60">
+          <AlertTriangle className="h-5 w-5 text-rose-600 dark:text-rose-400" />
+        </span>
+        <p className="text-sm font-semibold text-rose-800 dark:text-rose-300">
+          Kunne ikke hente viderefakturering
+        </p>
+        <p className="text-xs text-rose-600 dark:text-rose-400">
+          Prøv at genindlæse siden.
+        </p>
+      </div>
+    );
+  }
+
+  const statusBadge = !run
+    ? {
+        label: "Ikke oprettet",
+        badge:
+          "bg-slate-50 text-slate-600 ring-slate-100 dark:bg-slate-800 dark:text-slate-400 dark:ring-slate-700",
+      }
+    : isLocked
+      ? {
+          label: "Låst",
+          badge:
+            "bg-emerald-50 text-emerald-700 ring-emerald-100 dark:bg-emerald-950/60 dark:text-emerald-400 dark:ring-emerald-900",
+        }
+      : {
+          label: "Kladde",
+          badge:
+            "bg-amber-50 text-amber-700 ring-amber-100 dark:bg-amber-950/60 dark:text-amber-400 dark:ring-amber-900",
+        };
+
+  const draftPayload = { discountDate, drafts: computedDrafts };
+
+  return (
+    <div className="space-y-6">
+      <nav
+        className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400"
+        aria-label="Brødkrumme"
+      >
+        <Link
+          to="/"
+          className="inline-flex items-center gap-1 font-medium text-blue-600 transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Fakturaer
+        </Link>
+        <span aria-hidden>/</span>
+        <Link
+          to={`/invoices/${encodeURIComponent(invoiceNo)}`}
+          className="font-medium text-blue-600 transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          {invoiceNo}
+        </Link>
+        <span aria-hidden>/</span>
+        <span className="font-medium text-slate-700 dark:text-slate-300">
+          Viderefakturering
+        </span>
+      </nav>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <div className="flex flex-col gap-5 sm:flex-row sm:items-start sm:justify-between">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <h1 className="text-xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+                Viderefakturering af {invoiceNo}
+              </h1>
+              <span
+                className={`inline-flex rounded-full px-2.5 py-0.5 text-[11px] font-semibold ring-1 ${statusBadge.badge}`}
+              >
+                {statusBadge.label}
+              </span>
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {run
+                ? `Oprettet af ${run.createdBy} ${formatTimestamp(run.createdAt)}`
+                : "Forhåndsvisning beregnet ud fra fakturaen og de gældende rabatter. Intet er gemt endnu."}
+              {run?.lockedAt &&
+                ` · Låst af ${run.lockedBy ?? "ukendt"} ${formatTimestamp(run.lockedAt)}`}
+            </p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {drafts.length} kunder · {formatCurrency(totals.subtotal)} ekskl.
+              moms · {formatCurrency(totals.vatAmount)} moms
+            </p>
+          </div>
+          <div className="flex flex-col items-start gap-2 sm:items-end">
+            <p className="tabular text-2xl font-bold text-slate-900 dark:text-slate-100">
+              {formatCurrency(totals.total)}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {canManageRuns && !run && (
+                <Button
+                  size="sm"
+                  onClick={() => createRun.mutate(draftPayload)}
+                  disabled={computedDrafts.length === 0 || isMutating}
+                  isLoading={createRun.isPending}
+                >
+                  Opret kørsel
+                </Button>
+              )}
+              {canManageRuns && run && !isLocked && (
+                <>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    leftIcon={<RefreshCw className="h-3.5 w-3.5" />}
+                    onClick={() => regenerateRun.mutate(draftPayload)}
+                    disabled={isMutating}
+                    isLoading={regenerateRun.isPending}
+                  >
+                    Genberegn
+                  </Button>
+                  <Button
+                    size="sm"
+                    leftIcon={<Lock className="h-3.5 w-3.5" />}
+                    onClick={() => {
+                      if (
+                        window.confirm(
+                          "Når kørslen er låst kan den ikke ændres eller slettes. Fortsæt?",
+                        )
+                      ) {
+                        lockRun.mutate();
+                      }
+                    }}
+                    disabled={isMutating}
+                    isLoading={lockRun.isPending}
+                  >
+                    Lås
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="danger"
+                    leftIcon={<Trash2 className="h-3.5 w-3.5" />}
+                    onClick={() => deleteRun.mutate()}
+                    disabled={isMutating}
+                    isLoading={deleteRun.isPending}
+                  >
+                    Slet
+                  </Button>
+                </>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                leftIcon={<Download className="h-3.5 w-3.5" />}
+                onClick={() => handleExport("csv")}
+                disabled={drafts.length === 0}
+              >
+                CSV
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                leftIcon={<Download className="h-3.5 w-3.5" />}
+                onClick={() => handleExport("xlsx")}
+                disabled={drafts.length === 0}
+              >
+                XLSX
+              </Button>
+            </div>
+          </div>
+        </div>
+        {mutationError && (
+          <p className="mt-3 text-xs font-medium text-rose-600 dark:text-rose-400">
+            {mutationError.message}
+          </p>
+        )}
+        {isOutdated && (
+          <p className="mt-3 inline-flex items-center gap-1.5 rounded-lg bg-amber-50 px-2.5 py-1.5 text-xs font-medium text-amber-800 dark:bg-amber-950/40 dark:text-amber-300">
+            <AlertTriangle className="h-3.5 w-3.5" />
+            Rabatterne er ændret siden kladden blev gemt. Genberegn for at
+            opdatere den.
+          </p>
+        )}
+      </section>
+
+      {drafts.length === 0 ? (
+        <p className="rounded-2xl border border-slate-200 bg-white p-6 text-center text-sm text-slate-500 shadow-sm dark:border-slate-800 dark:bg-slate-900 dark:text-slate-400">
+          Fakturaen indeholder ingen kunder.
+        </p>
+      ) : (
+        drafts.map((draft) => (
+          <DraftCard
+            key={draft.tenantId}
+            draft={draft}
+            wlPartners={wlPartners}
+          />
+        ))
+      )}
+    </div>
+  );
+};
+
+export default RebillingRunPage;
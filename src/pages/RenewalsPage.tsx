@@ -0,0 +1,297 @@
+// src/pages/RenewalsPage.tsx
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, CalendarPlus, RefreshCw, Search } from "lucide-react";
+import { Button } from "../components/ui/Button";
+import { Skeleton } from "../components/ui/Skeleton";
+import { useCustomerSync } from "../hooks/useCustomers";
+import { useInvoiceDetails } from "../hooks/useInvoiceDetail";
+import { useInvoices } from "../hooks/useInvoices";
+import { translateCommitmentTerm } from "../utils/billingLabels";
+import { groupCustomers } from "../utils/customerGrouping";
+import { toIsoDate } from "../utils/discountPeriods";
+import { downloadBlob } from "../utils/download";
+import {
+  AUTO_RENEW_NOTICE_DAYS,
+  RENEWAL_HORIZONS,
+  collectRenewals,
+  filterRenewals,
+  renewalsToIcs,
+} from "../utils/renewals";
+
+// Subscriptions billed upfront for the whole term only appear on the invoice
+// of the month they were bought or renewed, so a year of invoices is read.
+const RENEWAL_INVOICE_COUNT = 12;
+
+const quantityFormatter = new Intl.NumberFormat("da-DK", {
+  maximumFractionDigits: 2,
+});
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("da-DK", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+
+const selectClassName =
+  "h-8 rounded-lg border border-slate-200 bg-white px-2 text-xs text-slate-700 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200";
+
+const linkClassName =
+  "font-medium text-blue-600 hover:text-blue-800 hover:underline dark:text-blue-400 dark:hover:text-blue-300";
+
+export const RenewalsPage = () => {
+  const [horizonDays, setHorizonDays] = useState(90);
+  const [includeMonthly, setIncludeMonthly] = useState(false);
+  const [search, setSearch] = useState("");
+  const { data: invoices, isLoading: isLoadingInvoices } = useInvoices();
+  const today = toIsoDate(new Date());
+
+  const invoiceNos = useMemo(
+    () =>
+      (invoices ?? [])
+        .slice(0, RENEWAL_INVOICE_COUNT)
+        .map((invoice) => invoice.invoiceNumber),
+    [invoices],
+  );
+  const detailQueries = useInvoiceDetails(invoiceNos);
+  const isLoadingDetails = detailQueries.some((query) => query.isLoading);
+  const failedCount = detailQueries.filter((query) => query.isError).length;
+
+  // The invoice list is sorted newest first.
+  const latestDetail = detailQueries[0]?.data;
+  const customerRegistry = useCustomerSync(
+    latestDetail?.tenants,
+    latestDetail
+      ? (latestDetail.periodStartDate ?? latestDetail.postingDate).slice(0, 10)
+      : undefined,
+  );
+
+  const renewals = collectRenewals(
+    detailQueries.flatMap(({ data: detail }) =>
+      detail?.tenants
+        ? [
+            {
+              invoiceNumber: detail.invoiceNumber,
+              periodDate: (
+                detail.periodStartDate ?? detail.postingDate
+              ).slice(0, 10),
+              customers: groupCustomers(detail.tenants, customerRegistry),
+            },
+          ]
+        : [],
+    ),
+    today,
+  );
+  const visibleRenewals = filterRenewals(renewals, {
+    horizonDays,
+    includeMonthly,
+    search,
+  });
+  const autoRenewCount = visibleRenewals.filter(
+    (renewal) => renewal.autoRenewsSoon,
+  ).length;
+  const isLoading = isLoadingInvoices || isLoadingDetails;
+
+  const handleExport = () => {
+    downloadBlob(
+      new Blob([renewalsToIcs(visibleRenewals, { generatedAt: new Date() })], {
+        type: "text/calendar;charset=utf-8",
+      }),
+      `fornyelser-${today}.ics`,
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <nav
+        className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400"
+        aria-label="Brødkrumme"
+      >
+        <Link
+          to="/"
+          className="inline-flex items-center gap-1 font-medium text-blue-600 transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Fakturaer
+        </Link>
+        <span aria-hidden>/</span>
+        <span className="font-medium text-slate-700 dark:text-slate-300">
+          Fornyelser
+        </span>
+      </nav>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <h1 className="text-xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+          Fornyelser
+        </h1>
+        <p className="mt-1 max-w-2xl text-xs text-slate-500 dark:text-slate-400">
+          NCE-bindinger der udløber de næste dage, pr. kunde og produkt, læst
+          fra de seneste {RENEWAL_INVOICE_COUNT} fakturaer. Årlige bindinger
+          fornyes automatisk for en ny periode ved udløb og markeres{" "}
+          {AUTO_RENEW_NOTICE_DAYS} dage før. Er en slutdato passeret på den
+          nyeste faktura, vises den næste fornyelse. Hent listen som kalender
+          (.ics) med påmindelse 14 dage før hver udløbsdato.
+        </p>
+        <div className="mt-4 flex flex-wrap items-end gap-3">
+          <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+            Udløber inden for
+            <select
+              value={horizonDays}
+              onChange={(event) => setHorizonDays(Number(event.target.value))}
+              className={`mt-1 block ${selectClassName}`}
+            >
+              {RENEWAL_HORIZONS.map((days) => (
+                <option key={days} value={days}>
+                  {days} dage
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="inline-flex h-8 items-center gap-1.5 text-xs text-slate-600 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={includeMonthly}
+              onChange={(event) => setIncludeMonthly(event.target.checked)}
+              className="h-3.5 w-3.5 rounded border-slate-300"
+            />
+            Medtag månedlige bindinger
+          </label>
+          <div className="relative min-w-60 flex-1">
+            <Search
+              className="pointer-events-none absolute top-1/2 left-2.5 h-3.5 w-3.5 -translate-y-1/2 text-slate-400"
+              aria-hidden
+            />
+            <input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Søg på kunde, produkt eller leverandør"
+              aria-label="Søg fornyelser"
+              className={`${selectClassName} w-full pl-8`}
+            />
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            leftIcon={<CalendarPlus className="h-3.5 w-3.5" />}
+            onClick={handleExport}
+            disabled={visibleRenewals.length === 0}
+            title="Hent de viste fornyelser som iCalendar-fil"
+          >
+            Eksportér kalender (.ics)
+          </Button>
+        </div>
+        {!isLoading && renewals.length > 0 && (
+          <p className="mt-3 text-[11px] text-slate-500 dark:text-slate-400">
+            {visibleRenewals.length} bindinger udløber inden for{" "}
+            {horizonDays} dage, heraf {autoRenewCount} årlige der fornyes
+            automatisk inden for {AUTO_RENEW_NOTICE_DAYS} dage.
+          </p>
+        )}
+        {failedCount > 0 && (
+          <p className="mt-3 text-[11px] text-amber-600 dark:text-amber-400">
+            {failedCount} fakturaer kunne ikke hentes og er ikke medtaget.
+          </p>
+        )}
+      </section>
+
+      <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        {isLoading ? (
+          <div className="space-y-2 p-4">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : visibleRenewals.length === 0 ? (
+          <p className="p-6 text-center text-xs text-slate-500 dark:text-slate-400">
+            {renewals.length === 0
+              ? "Fakturaerne har ingen bindinger med slutdato."
+              : "Ingen bindinger udløber inden for perioden."}
+          </p>
+        ) : (
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+              <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                <th className="px-4 py-2 text-left">Udløber</th>
+                <th className="px-4 py-2 text-left">Kunde</th>
+                <th className="px-4 py-2 text-left">Produkt</th>
+                <th className="px-4 py-2 text-right">Antal</th>
+                <th className="px-4 py-2 text-left">Binding</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {visibleRenewals.map((renewal) => (
+                <tr
+                  key={renewal.key}
+                  className="align-top text-slate-700 dark:text-slate-300"
+                >
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    <span className="font-medium">
+                      {formatDate(renewal.commitmentEndDate)}
+                    </span>
+                    <span className="block text-[11px] text-slate-400">
+                      {renewal.daysLeft === 0
+                        ? "I dag"
+                        : `Om ${renewal.daysLeft} dage`}
+                      {renewal.isProjected && " · næste fornyelse"}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2">
+                    {renewal.customerId === null ? (
+                      <span className="font-medium">
+                        {renewal.customerName}
+                      </span>
+                    ) : (
+                      <Link
+                        to={`/customers/${renewal.customerId}`}
+                        className={linkClassName}
+                      >
+                        {renewal.customerName}
+                      </Link>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    <span className="font-medium">{renewal.productName}</span>
+                    <span className="block text-[11px] text-slate-400">
+                      {renewal.vendorName}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono">
+                    {quantityFormatter.format(renewal.seats)}
+                  </td>
+                  <td className="px-4 py-2">
+                    {renewal.commitment
+                      ? translateCommitmentTerm(renewal.commitment)
+                      : "—"}
+                    {renewal.commitmentStartDate && (
+                      <span className="block text-[11px] text-slate-400">
+                        Startede {formatDate(renewal.commitmentStartDate)}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <div className="flex flex-col items-end gap-1">
+                      {renewal.autoRenewsSoon && (
+                        <span className="inline-flex items-center gap-1 rounded-full bg-amber-50 px-2 py-0.5 text-[10px] font-semibold text-amber-700 ring-1 ring-amber-200 dark:bg-amber-950/40 dark:text-amber-300 dark:ring-amber-900">
+                          <RefreshCw className="h-2.5 w-2.5" aria-hidden />
+                          Fornyes automatisk
+                        </span>
+                      )}
+                      <Link
+                        to={`/invoices/${renewal.invoiceNumber}?customer=${encodeURIComponent(renewal.customerName)}`}
+                        className={`text-[11px] ${linkClassName}`}
+                      >
+                        På fakturaen
+                      </Link>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
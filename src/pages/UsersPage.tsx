@@ -0,0 +1,442 @@
+// src/pages/UsersPage.tsx
+import { useState, type FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, KeyRound, Trash2 } from "lucide-react";
+import { Button } from "../components/ui/Button";
+import { Skeleton } from "../components/ui/Skeleton";
+import { useApiKeys, type CreatedApiKey } from "../hooks/useApiKeys";
+import { useCfSession } from "../hooks/useCfSession";
+import { useCurrentUser } from "../hooks/useCurrentUser";
+import { useUsers, type UserAccount } from "../hooks/useUsers";
+import {
+  USER_ROLES,
+  hasPermission,
+  roleLabels,
+  type UserRole,
+} from "../utils/permissions";
+
+type NewUserForm = {
+  username: string;
+  displayName: string;
+  role: UserRole;
+  password: string;
+};
+
+const emptyUserForm: NewUserForm = {
+  username: "",
+  displayName: "",
+  role: "viewer",
+  password: "",
+};
+
+const inputClassName =
+  "h-8 w-full rounded-lg border border-slate-200 bg-white px-2 text-xs text-slate-800 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200";
+
+const formatTimestamp = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString("da-DK", {
+        dateStyle: "short",
+        timeStyle: "short",
+      })
+    : "—";
+
+const ApiKeysSection = () => {
+  const { apiKeysQuery, createApiKey, deleteApiKey } = useApiKeys();
+  const [name, setName] = useState("");
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+  const apiKeys = apiKeysQuery.data ?? [];
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    createApiKey.mutate(name.trim(), {
+      onSuccess: (key) => {
+        setCreatedKey(key);
+        setName("");
+      },
+    });
+  };
+
+  return (
+    <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+      <div className="border-b border-slate-100 px-6 py-4 dark:border-slate-800">
+        <h2 className="text-sm font-semibold tracking-tight text-slate-900 dark:text-slate-100">
+          Mine API-nøgler
+        </h2>
+        <p className="mt-0.5 text-xs text-slate-500 dark:text-slate-400">
+          Scripts og integrationer bruger en nøgle i headeren{" "}
+          <code>X-Api-Key</code> og får samme rettigheder som din bruger.
+        </p>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="flex items-end gap-2 border-b border-slate-100 p-4 dark:border-slate-800"
+      >
+        <label className="flex-1 text-[11px] font-medium text-slate-500 dark:text-slate-400">
+          Navn
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="fx Månedlig eksport"
+            required
+            className={`mt-1 ${inputClassName}`}
+          />
+        </label>
+        <Button
+          type="submit"
+          size="sm"
+          leftIcon={<KeyRound className="h-3 w-3" aria-hidden />}
+          isLoading={createApiKey.isPending}
+        >
+          Opret nøgle
+        </Button>
+      </form>
+      {(createApiKey.isError || deleteApiKey.isError) && (
+        <p className="px-4 pt-3 text-xs font-medium text-rose-600 dark:text-rose-400">
+          {(createApiKey.error ?? deleteApiKey.error)?.message}
+        </p>
+      )}
+      {createdKey && (
+        <div className="m-4 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800 dark:border-amber-800 dark:bg-amber-950/50 dark:text-amber-300">
+          <p className="font-semibold">
+            Kopiér nøglen “{createdKey.name}” nu — den vises kun én gang.
+          </p>
+          <code className="mt-1 block break-all font-mono">
+            {createdKey.key}
+          </code>
+        </div>
+      )}
+
+      {apiKeysQuery.isLoading ? (
+        <div className="space-y-2 p-4">
+          <Skeleton className="h-8 w-full" />
+        </div>
+      ) : apiKeys.length === 0 ? (
+        <p className="p-6 text-center text-xs text-slate-500 dark:text-slate-400">
+          Du har ingen API-nøgler.
+        </p>
+      ) : (
+        <table className="min-w-full text-xs">
+          <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+            <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+              <th className="px-4 py-2 text-left">Navn</th>
+              <th className="px-4 py-2 text-left">Oprettet</th>
+              <th className="px-4 py-2 text-left">Sidst brugt</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+            {apiKeys.map((apiKey) => (
+              <tr key={apiKey.id} className="text-slate-700 dark:text-slate-300">
+                <td className="px-4 py-2 font-medium">{apiKey.name}</td>
+                <td className="px-4 py-2">
+                  {formatTimestamp(apiKey.createdAt)}
+                </td>
+                <td className="px-4 py-2">
+                  {formatTimestamp(apiKey.lastUsedAt)}
+                </td>
+                <td className="px-4 py-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (window.confirm(`Slet API-nøglen “${apiKey.name}”?`)) {
+                        deleteApiKey.mutate(apiKey.id);
+                      }
+                    }}
+                    aria-label={`Slet ${apiKey.name}`}
+                    className="rounded-full p-1 text-slate-400 hover:bg-rose-50 hover:text-rose-600 dark:hover:bg-rose-950/40 dark:hover:text-rose-400"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" aria-hidden />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
+
+const UserAdminSection = ({ currentUserId }: { currentUserId: number }) => {
+  const { usersQuery, createUser, updateUser } = useUsers();
+  const [form, setForm] = useState<NewUserForm>(emptyUserForm);
+  const users = usersQuery.data ?? [];
+
+  const updateForm = <K extends keyof NewUserForm>(
+    field: K,
+    value: NewUserForm[K],
+  ) => setForm((prev) => ({ ...prev, [field]: value }));
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    createUser.mutate(
+      { ...form, username: form.username.trim() },
+      { onSuccess: () => setForm(emptyUserForm) },
+    );
+  };
+
+  const resetPassword = (user: UserAccount) => {
+    const password = window.prompt(
+      `Ny adgangskode til ${user.username} (mindst 10 tegn). Brugeren logges ud.`,
+    );
+    if (password) updateUser.mutate({ id: user.id, password });
+  };
+
+  return (
+    <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+      <div className="border-b border-slate-100 px-6 py-4 dark:border-slate-800">
+        <h2 className="text-sm font-semibold tracking-tight text-slate-900 dark:text-slate-100">
+          Brugere
+        </h2>
+        <p className="mt-0.5 text-xs text-slate-500 dark:text-slate-400">
+          Læseadgang kan kun se fakturaer. Salg kan ændre kunde- og
+          produktrabatter. Økonomi-admin kan desuden ændre standardrabatter,
+          importere, køre viderefakturering og administrere brugere.
+        </p>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="grid gap-2 border-b border-slate-100 p-4 sm:grid-cols-[1fr_1fr_1fr_1fr_auto] sm:items-end dark:border-slate-800"
+      >
+        <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+          Brugernavn
+          <input
+            value={form.username}
+            onChange={(event) => updateForm("username", event.target.value)}
+            autoComplete="off"
+            required
+            className={`mt-1 ${inputClassName}`}
+          />
+        </label>
+        <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+          Navn
+          <input
+            value={form.displayName}
+            onChange={(event) => updateForm("displayName", event.target.value)}
+            className={`mt-1 ${inputClassName}`}
+          />
+        </label>
+        <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+          Rolle
+          <select
+            value={form.role}
+            onChange={(event) =>
+              updateForm("role", event.target.value as UserRole)
+            }
+            className={`mt-1 ${inputClassName}`}
+          >
+            {USER_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {roleLabels[role]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-[11px] font-medium text-slate-500 dark:text-slate-400">
+          Adgangskode
+          <input
+            type="password"
+            value={form.password}
+            onChange={(event) => updateForm("password", event.target.value)}
+            autoComplete="new-password"
+            minLength={10}
+            required
+            className={`mt-1 ${inputClassName}`}
+          />
+        </label>
+        <Button type="submit" size="sm" isLoading={createUser.isPending}>
+          Opret
+        </Button>
+      </form>
+      {(createUser.isError || updateUser.isError) && (
+        <p className="px-4 pt-3 text-xs font-medium text-rose-600 dark:text-rose-400">
+          {(createUser.error ?? updateUser.error)?.message}
+        </p>
+      )}
+
+      {usersQuery.isLoading ? (
+        <div className="space-y-2 p-4">
+          <Skeleton className="h-8 w-full" />
+          <Skeleton className="h-8 w-full" />
+        </div>
+      ) : (
+        <table className="min-w-full text-xs">
+          <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+            <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+              <th className="px-4 py-2 text-left">Brugernavn</th>
+              <th className="px-4 py-2 text-left">Navn</th>
+              <th className="px-4 py-2 text-left">Rolle</th>
+              <th className="px-4 py-2 text-left">Status</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+            {users.map((user) => {
+              const isSelf = user.id === currentUserId;
+              return (
+                <tr
+                  key={user.id}
+                  className={`text-slate-700 dark:text-slate-300 ${
+                    user.disabled ? "opacity-60" : ""
+                  }`}
+                >
+                  <td className="px-4 py-2 font-mono">{user.username}</td>
+                  <td className="px-4 py-2 font-medium">{user.displayName}</td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={user.role}
+                      disabled={isSelf}
+                      onChange={(event) =>
+                        updateUser.mutate({
+                          id: user.id,
+                          role: event.target.value as UserRole,
+                        })
+                      }
+                      aria-label={`Rolle for ${user.username}`}
+                      className={`${inputClassName} w-36 disabled:opacity-60`}
+                    >
+                      {USER_ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {roleLabels[role]}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2">
+                    <Button
+                      variant={user.disabled ? "danger" : "subtle"}
+                      size="xs"
+                      disabled={isSelf}
+                      onClick={() =>
+                        updateUser.mutate({
+                          id: user.id,
+                          disabled: !user.disabled,
+                        })
+                      }
+                      title={user.disabled ? "Genåbn brugeren" : "Spær brugeren"}
+                    >
+                      {user.disabled ? "Spærret" : "Aktiv"}
+                    </Button>
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <Button
+                      variant="ghost"
+                      size="xs"
+                      onClick={() => resetPassword(user)}
+                    >
+                      Ny adgangskode
+                    </Button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
+
+const CfConnectionSection = () => {
+  const { sessionQuery, signOut } = useCfSession();
+  const session = sessionQuery.data;
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+      <h2 className="text-sm font-semibold tracking-tight text-slate-900 dark:text-slate-100">
+        Cloud Factory-forbindelse
+      </h2>
+      <p className="mt-0.5 text-xs text-slate-500 dark:text-slate-400">
+        Forbindelsen deles af alle brugere. Uden den kan ingen se fakturaer.
+      </p>
+      <dl className="mt-4 grid max-w-md grid-cols-2 gap-2 text-xs">
+        <dt className="text-slate-500 dark:text-slate-400">
+          Access token udløber
+        </dt>
+        <dd className="font-medium text-slate-700 dark:text-slate-300">
+          {formatTimestamp(session?.accessTokenExpiresAt ?? null)}
+        </dd>
+        <dt className="text-slate-500 dark:text-slate-400">
+          Refresh token udløber
+        </dt>
+        <dd className="font-medium text-slate-700 dark:text-slate-300">
+          {formatTimestamp(session?.refreshTokenExpiresAt ?? null)}
+        </dd>
+      </dl>
+      <div className="mt-4 flex gap-2">
+        <Link
+          to="/login?redirect=%2Fsettings%2Fusers"
+          className="inline-flex items-center rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 transition-colors hover:border-blue-400 hover:text-blue-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:border-blue-500 dark:hover:text-blue-400"
+        >
+          Nyt token
+        </Link>
+        <Button
+          variant="danger"
+          size="sm"
+          isLoading={signOut.isPending}
+          onClick={() => {
+            if (
+              window.confirm(
+                "Afbryd Cloud Factory-forbindelsen for alle brugere af appen?",
+              )
+            ) {
+              signOut.mutate();
+            }
+          }}
+        >
+          Afbryd
+        </Button>
+      </div>
+    </section>
+  );
+};
+
+export const UsersPage = () => {
+  const { userQuery } = useCurrentUser();
+  const user = userQuery.data;
+  const isAdmin = hasPermission(user, "users:admin");
+
+  return (
+    <div className="space-y-6">
+      <nav
+        className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400"
+        aria-label="Brødkrumme"
+      >
+        <Link
+          to="/"
+          className="inline-flex items-center gap-1 font-medium text-blue-600 transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Fakturaer
+        </Link>
+        <span aria-hidden>/</span>
+        <span className="font-medium text-slate-700 dark:text-slate-300">
+          Brugere
+        </span>
+      </nav>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <h1 className="text-xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+          Brugere og adgang
+        </h1>
+        {user && (
+          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+            Du er logget ind som{" "}
+            <span className="font-medium text-slate-700 dark:text-slate-300">
+              {user.displayName || user.username}
+            </span>{" "}
+            med rollen {roleLabels[user.role]}.
+          </p>
+        )}
+      </section>
+
+      <ApiKeysSection />
+      {user && isAdmin && <UserAdminSection currentUserId={user.id} />}
+      {isAdmin && <CfConnectionSection />}
+    </div>
+  );
+};
+
+export default UsersPage;
@@ -0,0 +1,322 @@
+// src/pages/VendorRulesPage.tsx
+import { useState, type FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Pencil, Trash2 } from "lucide-react";
+import { Button } from "../components/ui/Button";
+import { Skeleton } from "../components/ui/Skeleton";
+import { useHasPermission } from "../hooks/useCurrentUser";
+import { useVendorRules } from "../hooks/useVendorRules";
+import type { AmountSource, QuantityUnit } from "../types/invoice";
+import {
+  AMOUNT_SOURCES,
+  QUANTITY_UNITS,
+  VENDOR_RULE_FIELDS,
+  amountSourceLabels,
+  quantityUnitLabels,
+  sortVendorRules,
+  vendorRuleFieldLabels,
+  type VendorRule,
+  type VendorRuleField,
+} from "../utils/vendorRules";
+
+type RuleForm = {
+  id?: number;
+  priority: string;
+  field: VendorRuleField;
+  pattern: string;
+  vendorName: string;
+  amountSource: AmountSource;
+  quantityUnit: QuantityUnit;
+};
+
+const emptyForm: RuleForm = {
+  priority: "",
+  field: "billingType",
+  pattern: "",
+  vendorName: "",
+  amountSource: "retail",
+  quantityUnit: "licenses",
+};
+
+const inputClassName =
+  "h-8 w-full rounded-lg border border-slate-200 bg-white px-2 text-xs text-slate-800 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200";
+
+const labelClassName =
+  "text-[11px] font-medium text-slate-500 dark:text-slate-400";
+
+const toForm = (rule: VendorRule): RuleForm => ({
+  id: rule.id,
+  priority: String(rule.priority),
+  field: rule.field,
+  pattern: rule.pattern,
+  vendorName: rule.vendorName,
+  amountSource: rule.amountSource,
+  quantityUnit: rule.quantityUnit,
+});
+
+export const VendorRulesPage = () => {
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const { rulesQuery, saveRule, deleteRule } = useVendorRules();
+  const canEdit = useHasPermission("discounts:admin");
+  const rules = sortVendorRules(rulesQuery.data ?? []);
+  const nextPriority =
+    rules.reduce((max, rule) => Math.max(max, rule.priority), 0) + 10;
+
+  const updateForm = <Field extends keyof RuleForm>(
+    field: Field,
+    value: RuleForm[Field],
+  ) => setForm((prev) => ({ ...prev, [field]: value }));
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    saveRule.mutate(
+      {
+        id: form.id,
+        priority: form.priority
+          ? Math.round(Number(form.priority))
+          : nextPriority,
+        field: form.field,
+        pattern: form.pattern.trim(),
+        vendorName: form.vendorName.trim(),
+        amountSource: form.amountSource,
+        quantityUnit: form.quantityUnit,
+      },
+      { onSuccess: () => setForm(emptyForm) },
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <nav
+        className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400"
+        aria-label="Brødkrumme"
+      >
+        <Link
+          to="/"
+          className="inline-flex items-center gap-1 font-medium text-blue-600 transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Fakturaer
+        </Link>
+        <span aria-hidden>/</span>
+        <span className="font-medium text-slate-700 dark:text-slate-300">
+          Leverandørregler
+        </span>
+      </nav>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <h1 className="text-xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+          Leverandørregler
+        </h1>
+        <p className="mt-1 max-w-2xl text-xs text-slate-500 dark:text-slate-400">
+          Reglerne afgør hvilken leverandør en fakturalinje hører til, om
+          beløbet er vejledende udsalgspris eller kostpris, og hvilken enhed
+          mængden vises i. Første regel (laveste prioritet) hvis tekst findes i
+          feltet, bruges. Beskrivelse og kaldenavn bruges kun for linjer uden
+          faktureringstype. Linjer uden match bruger kostpris og licenser.
+        </p>
+      </section>
+
+      <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        {canEdit && (
+          <form
+            onSubmit={handleSubmit}
+            className="grid gap-2 border-b border-slate-100 p-4 sm:grid-cols-[5rem_1fr_1.5fr_1.5fr_1fr_1fr_auto] sm:items-end dark:border-slate-800"
+          >
+            <label className={labelClassName}>
+              Prioritet
+              <input
+                type="number"
+                step={1}
+                value={form.priority}
+                onChange={(event) =>
+                  updateForm("priority", event.target.value)
+                }
+                placeholder={String(nextPriority)}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className={labelClassName}>
+              Felt
+              <select
+                value={form.field}
+                onChange={(event) =>
+                  updateForm("field", event.target.value as VendorRuleField)
+                }
+                className={`mt-1 ${inputClassName}`}
+              >
+                {VENDOR_RULE_FIELDS.map((option) => (
+                  <option key={option} value={option}>
+                    {vendorRuleFieldLabels[option]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={labelClassName}>
+              Indeholder
+              <input
+                value={form.pattern}
+                onChange={(event) => updateForm("pattern", event.target.value)}
+                placeholder="fx keepit"
+                required
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className={labelClassName}>
+              Leverandør
+              <input
+                value={form.vendorName}
+                onChange={(event) =>
+                  updateForm("vendorName", event.target.value)
+                }
+                placeholder="Tom = behold navnet"
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className={labelClassName}>
+              Beløb
+              <select
+                value={form.amountSource}
+                onChange={(event) =>
+                  updateForm(
+                    "amountSource",
+                    event.target.value as AmountSource,
+                  )
+                }
+                className={`mt-1 ${inputClassName}`}
+              >
+                {AMOUNT_SOURCES.map((option) => (
+                  <option key={option} value={option}>
+                    {amountSourceLabels[option]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={labelClassName}>
+              Enhed
+              <select
+                value={form.quantityUnit}
+                onChange={(event) =>
+                  updateForm(
+                    "quantityUnit",
+                    event.target.value as QuantityUnit,
+                  )
+                }
+                className={`mt-1 ${inputClassName}`}
+              >
+                {QUANTITY_UNITS.map((option) => (
+                  <option key={option} value={option}>
+                    {quantityUnitLabels[option]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="flex gap-1">
+              <Button type="submit" size="sm" isLoading={saveRule.isPending}>
+                {form.id === undefined ? "Tilføj" : "Gem"}
+              </Button>
+              {form.id !== undefined && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setForm(emptyForm)}
+                >
+                  Annullér
+                </Button>
+              )}
+            </div>
+          </form>
+        )}
+        {(saveRule.isError || deleteRule.isError) && (
+          <p className="px-4 pt-3 text-xs font-medium text-rose-600 dark:text-rose-400">
+            {(saveRule.error ?? deleteRule.error)?.message}
+          </p>
+        )}
+
+        {rulesQuery.isLoading ? (
+          <div className="space-y-2 p-4">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="p-6 text-center text-xs text-slate-500 dark:text-slate-400">
+            Ingen leverandørregler. Alle linjer bruger faktureringstypen som
+            leverandør og kostprisen som beløb.
+          </p>
+        ) : (
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+              <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                <th className="px-4 py-2 text-right">Prioritet</th>
+                <th className="px-4 py-2 text-left">Felt</th>
+                <th className="px-4 py-2 text-left">Indeholder</th>
+                <th className="px-4 py-2 text-left">Leverandør</th>
+                <th className="px-4 py-2 text-left">Beløb</th>
+                <th className="px-4 py-2 text-left">Enhed</th>
+                {canEdit && <th className="px-4 py-2" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {rules.map((rule) => (
+                <tr
+                  key={rule.id ?? `${rule.field}-${rule.pattern}`}
+                  className={`text-slate-700 dark:text-slate-300 ${
+                    rule.id !== undefined && rule.id === form.id
+                      ? "bg-blue-50/60 dark:bg-blue-950/30"
+                      : ""
+                  }`}
+                >
+                  <td className="px-4 py-2 text-right font-mono">
+                    {rule.priority}
+                  </td>
+                  <td className="px-4 py-2">
+                    {vendorRuleFieldLabels[rule.field]}
+                  </td>
+                  <td className="px-4 py-2 font-mono">{rule.pattern}</td>
+                  <td className="px-4 py-2 font-medium">
+                    {rule.vendorName || (
+                      <span className="font-normal text-slate-400">
+                        Behold navnet
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    {amountSourceLabels[rule.amountSource]}
+                  </td>
+                  <td className="px-4 py-2">
+                    {quantityUnitLabels[rule.quantityUnit]}
+                  </td>
+                  {canEdit && rule.id !== undefined && (
+                    <td className="px-4 py-2 text-right">
+                      <div className="inline-flex gap-1">
+                        <button
+                          type="button"
+                          onClick={() => setForm(toForm(rule))}
+                          aria-label={`Redigér regel for ${rule.pattern}`}
+                          className="rounded-full p-1 text-slate-400 hover:bg-slate-100 hover:text-slate-700 dark:hover:bg-slate-800 dark:hover:text-slate-200"
+                        >
+                          <Pencil className="h-3.5 w-3.5" aria-hidden />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => deleteRule.mutate(rule.id as number)}
+                          aria-label={`Slet regel for ${rule.pattern}`}
+                          className="rounded-full p-1 text-slate-400 hover:bg-rose-50 hover:text-rose-600 dark:hover:bg-rose-950/40 dark:hover:text-rose-400"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" aria-hidden />
+                        </button>
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default VendorRulesPage;
@@ -0,0 +1,328 @@
+// src/pages/WlPartnersPage.tsx
+import { useState, type FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Pencil, Trash2 } from "lucide-react";
+import { Button } from "../components/ui/Button";
+import { Skeleton } from "../components/ui/Skeleton";
+import { useHasPermission } from "../hooks/useCurrentUser";
+import { useWlPartners } from "../hooks/useWlPartners";
+import { sortWlPartners, type WlPartner } from "../utils/wlPartners";
+
+type PartnerForm = {
+  isEditing: boolean;
+  code: string;
+  displayName: string;
+  contactName: string;
+  contactEmail: string;
+  defaultDiscountRate: string;
+  exportLabel: string;
+  includeInExports: boolean;
+};
+
+const emptyForm: PartnerForm = {
+  isEditing: false,
+  code: "",
+  displayName: "",
+  contactName: "",
+  contactEmail: "",
+  defaultDiscountRate: "",
+  exportLabel: "",
+  includeInExports: true,
+};
+
+const inputClassName =
+  "h-8 w-full rounded-lg border border-slate-200 bg-white px-2 text-xs text-slate-800 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200";
+
+const labelClassName =
+  "text-[11px] font-medium text-slate-500 dark:text-slate-400";
+
+const toForm = (partner: WlPartner): PartnerForm => ({
+  isEditing: true,
+  code: partner.code,
+  displayName: partner.displayName,
+  contactName: partner.contactName,
+  contactEmail: partner.contactEmail,
+  defaultDiscountRate:
+    partner.defaultDiscountRate === null
+      ? ""
+      : String(partner.defaultDiscountRate),
+  exportLabel: partner.exportLabel,
+  includeInExports: partner.includeInExports,
+});
+
+export const WlPartnersPage = () => {
+  const [form, setForm] = useState<PartnerForm>(emptyForm);
+  const { partnersQuery, savePartner, deletePartner } = useWlPartners();
+  const canEdit = useHasPermission("discounts:admin");
+  const partners = sortWlPartners(partnersQuery.data ?? []);
+
+  const updateForm = <Field extends keyof PartnerForm>(
+    field: Field,
+    value: PartnerForm[Field],
+  ) => setForm((prev) => ({ ...prev, [field]: value }));
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    savePartner.mutate(
+      {
+        code: form.code.trim(),
+        displayName: form.displayName.trim(),
+        contactName: form.contactName.trim(),
+        contactEmail: form.contactEmail.trim(),
+        defaultDiscountRate: form.defaultDiscountRate
+          ? Number(form.defaultDiscountRate)
+          : null,
+        exportLabel: form.exportLabel.trim(),
+        includeInExports: form.includeInExports,
+      },
+      { onSuccess: () => setForm(emptyForm) },
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <nav
+        className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400"
+        aria-label="Brødkrumme"
+      >
+        <Link
+          to="/"
+          className="inline-flex items-center gap-1 font-medium text-blue-600 transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Fakturaer
+        </Link>
+        <span aria-hidden>/</span>
+        <span className="font-medium text-slate-700 dark:text-slate-300">
+          WL-partnere
+        </span>
+      </nav>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <h1 className="text-xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+          WL-partnere
+        </h1>
+        <p className="mt-1 max-w-2xl text-xs text-slate-500 dark:text-slate-400">
+          White-label-partnere genkendes på WL-koden i kundens reference.
+          Navnet bruges i filtrene på fakturaen, i marginrapporten og i
+          eksporterne; eksportnavnet erstatter det i filerne, hvis det er
+          udfyldt.
+          Standardrabatten kan overføres til partnerens kunder med ét klik.
+          Partnere, der selv fakturerer deres kunder, kan udelades af
+          videresalgs-, bogførings- og viderefaktureringseksporterne.
+        </p>
+      </section>
+
+      <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        {canEdit && (
+          <form
+            onSubmit={handleSubmit}
+            className="grid gap-2 border-b border-slate-100 p-4 sm:grid-cols-[4rem_1.5fr_1fr_1.5fr_5rem_1fr_auto_auto] sm:items-end dark:border-slate-800"
+          >
+            <label className={labelClassName}>
+              WL-kode
+              <input
+                value={form.code}
+                onChange={(event) => updateForm("code", event.target.value)}
+                placeholder="71"
+                inputMode="numeric"
+                pattern="\d+"
+                required
+                readOnly={form.isEditing}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className={labelClassName}>
+              Navn
+              <input
+                value={form.displayName}
+                onChange={(event) =>
+                  updateForm("displayName", event.target.value)
+                }
+                required
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className={labelClassName}>
+              Kontaktperson
+              <input
+                value={form.contactName}
+                onChange={(event) =>
+                  updateForm("contactName", event.target.value)
+                }
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className={labelClassName}>
+              E-mail
+              <input
+                type="email"
+                value={form.contactEmail}
+                onChange={(event) =>
+                  updateForm("contactEmail", event.target.value)
+                }
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className={labelClassName}>
+              Standardrabat %
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={0.5}
+                value={form.defaultDiscountRate}
+                onChange={(event) =>
+                  updateForm("defaultDiscountRate", event.target.value)
+                }
+                placeholder="—"
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className={labelClassName}>
+              Eksportnavn
+              <input
+                value={form.exportLabel}
+                onChange={(event) =>
+                  updateForm("exportLabel", event.target.value)
+                }
+                placeholder="Tom = navnet"
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+            <label className="flex h-8 items-center gap-1.5 text-xs font-medium text-slate-600 dark:text-slate-400">
+              <input
+                type="checkbox"
+                checked={form.includeInExports}
+                onChange={(event) =>
+                  updateForm("includeInExports", event.target.checked)
+                }
+                className="rounded border-slate-300 dark:border-slate-600"
+              />
+              Eksportér
+            </label>
+            <div className="flex gap-1">
+              <Button type="submit" size="sm" isLoading={savePartner.isPending}>
+                {form.isEditing ? "Gem" : "Tilføj"}
+              </Button>
+              {form.isEditing && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setForm(emptyForm)}
+                >
+                  Annullér
+                </Button>
+              )}
+            </div>
+          </form>
+        )}
+        {(savePartner.isError || deletePartner.isError) && (
+          <p className="px-4 pt-3 text-xs font-medium text-rose-600 dark:text-rose-400">
+            {(savePartner.error ?? deletePartner.error)?.message}
+          </p>
+        )}
+
+        {partnersQuery.isLoading ? (
+          <div className="space-y-2 p-4">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : partners.length === 0 ? (
+          <p className="p-6 text-center text-xs text-slate-500 dark:text-slate-400">
+            Ingen WL-partnere. Kunder vises med deres WL-kode og medtages i
+            alle eksporter.
+          </p>
+        ) : (
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50/80 dark:bg-slate-800/50">
+              <tr className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                <th className="px-4 py-2 text-left">WL</th>
+                <th className="px-4 py-2 text-left">Navn</th>
+                <th className="px-4 py-2 text-left">Kontakt</th>
+                <th className="px-4 py-2 text-right">Standardrabat</th>
+                <th className="px-4 py-2 text-left">Eksport</th>
+                {canEdit && <th className="px-4 py-2" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {partners.map((partner) => (
+                <tr
+                  key={partner.code}
+                  className={`text-slate-700 dark:text-slate-300 ${
+                    form.isEditing && partner.code === form.code
+                      ? "bg-blue-50/60 dark:bg-blue-950/30"
+                      : ""
+                  }`}
+                >
+                  <td className="px-4 py-2 font-mono">{partner.code}</td>
+                  <td className="px-4 py-2 font-medium">
+                    {partner.displayName}
+                  </td>
+                  <td className="px-4 py-2">
+                    {partner.contactName || partner.contactEmail ? (
+                      <>
+                        {partner.contactName}
+                        {partner.contactEmail && (
+                          <a
+                            href={`mailto:${partner.contactEmail}`}
+                            className="block text-[11px] text-blue-600 hover:underline dark:text-blue-400"
+                          >
+                            {partner.contactEmail}
+                          </a>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-slate-400">—</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono">
+                    {partner.defaultDiscountRate === null
+                      ? "—"
+                      : `${partner.defaultDiscountRate.toLocaleString("da-DK")}%`}
+                  </td>
+                  <td className="px-4 py-2">
+                    {partner.includeInExports ? (
+                      partner.exportLabel || (
+                        <span className="text-slate-400">Navnet</span>
+                      )
+                    ) : (
+                      <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[10px] font-semibold text-slate-500 dark:bg-slate-800 dark:text-slate-400">
+                        Udeladt
+                      </span>
+                    )}
+                  </td>
+                  {canEdit && (
+                    <td className="px-4 py-2 text-right">
+                      <div className="inline-flex gap-1">
+                        <button
+                          type="button"
+                          onClick={() => setForm(toForm(partner))}
+                          aria-label={`Redigér WL ${partner.code}`}
+                          className="rounded-full p-1 text-slate-400 hover:bg-slate-100 hover:text-slate-700 dark:hover:bg-slate-800 dark:hover:text-slate-200"
+                        >
+                          <Pencil className="h-3.5 w-3.5" aria-hidden />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => deletePartner.mutate(partner.code)}
+                          aria-label={`Slet WL ${partner.code}`}
+                          className="rounded-full p-1 text-slate-400 hover:bg-rose-50 hover:text-rose-600 dark:hover:bg-rose-950/40 dark:hover:text-rose-400"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" aria-hidden />
+                        </button>
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default WlPartnersPage;
@@ -0,0 +1,20 @@
+// src/store/useMarginThresholdStore.ts
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { DEFAULT_MARGIN_THRESHOLD } from "../utils/marginAnalysis";
+
+interface MarginThresholdState {
+  threshold: number;
+  setThreshold: (threshold: number) => void;
+}
+
+// Margin percentage below which lines are highlighted in the margin view.
+export const useMarginThresholdStore = create<MarginThresholdState>()(
+  persist(
+    (set) => ({
+      threshold: DEFAULT_MARGIN_THRESHOLD,
+      setThreshold: (threshold) => set({ threshold }),
+    }),
+    { name: "partner-billing-margin-threshold" },
+  ),
+);
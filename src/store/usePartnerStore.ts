@@ -0,0 +1,20 @@
+// src/store/usePartnerStore.ts
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+interface PartnerState {
+  partnerId: string;
+  setPartnerId: (partnerId: string) => void;
+}
+
+// Last selected partner account. A `?partner=` parameter in the URL takes
+// precedence, so links to a specific partner keep working.
+export const usePartnerStore = create<PartnerState>()(
+  persist(
+    (set) => ({
+      partnerId: "",
+      setPartnerId: (partnerId) => set({ partnerId }),
+    }),
+    { name: "partner-billing-partner" },
+  ),
+);
@@ -8,6 +8,8 @@ export interface Invoice {
   status: "Paid" | "Unpaid" | "Overdue";
   invoicePdf: string;
   billingDataExcel: string;
+  periodStartDate?: string;
+  periodEndDate?: string;
 }
 
 export interface InvoiceTenantEntry {
@@ -33,6 +35,15 @@ export interface InvoiceTenantEntry {
   commitmentEndDate?: string;
 }
 
+export type AmountSource = "retail" | "cost";
+export type QuantityUnit = "licenses" | "seats" | "gb";
+
+export interface ResolvedVendor {
+  vendorName: string;
+  amountSource: AmountSource;
+  quantityUnit: QuantityUnit;
+}
+
 export interface InvoiceSubscriptionBreakdown {
   id: string;
   description: string;
@@ -43,6 +54,10 @@ export interface InvoiceSubscriptionBreakdown {
   billingTypeId?: string;
   billingTypeDescription?: string;
   entries: InvoiceTenantEntry[];
+  // Set from the vendor rules and product aliases when the invoice detail is
+  // loaded.
+  vendor?: ResolvedVendor;
+  canonicalProductName?: string;
 }
 
 export interface InvoiceTenantBreakdown {
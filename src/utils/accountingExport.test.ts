@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildAccountingExport,
+  buildJournalLines,
+  type AccountingMapping,
+} from "./accountingExport";
+import type { ResaleExportRow } from "./resaleExport";
+
+const buildRow = (
+  vendorName: string,
+  productName: string,
+  resaleAmount: number,
+): ResaleExportRow => ({
+  wlCode: "74",
+  wlName: "WL 74",
+  customerId: null,
+  customerName: "Kunde A",
+  tenantId: "a",
+  references: "WL74 a",
+  vendorName,
+  productName,
+  quantity: 1,
+  quantityUnit: "stk",
+  billing: "Månedlig",
+  commitment: "",
+  costAmount: resaleAmount,
+  listAmount: resaleAmount,
+  discountRate: 0,
+  amountBeforeDiscount: resaleAmount,
+  discountAmount: 0,
+  resaleAmount,
+});
+
+const mappings: AccountingMapping[] = [
+  {
+    system: "economic",
+    vendorName: "*",
+    accountNumber: "1000",
+    contraAccountNumber: "5600",
+    vatCode: "U25",
+  },
+  {
+    system: "economic",
+    vendorName: "Microsoft",
+    accountNumber: "1010",
+    contraAccountNumber: "",
+    vatCode: "",
+  },
+];
+
+const options = { date: "2026-09-30", documentNo: "INV-1" };
+
+describe("buildJournalLines", () => {
+  it("uses vendor accounts and falls back to the default row", () => {
+    const { lines, unmappedVendors } = buildJournalLines(
+      [
+        buildRow("microsoft", "Office 365", 120.5),
+        buildRow("Cisco", "Calling", 80),
+        buildRow("Cisco", "Gratis", 0),
+      ],
+      mappings,
+      options,
+    );
+
+    expect(unmappedVendors).toEqual([]);
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({
+      accountNumber: "1010",
+      contraAccountNumber: "5600",
+      vatCode: "U25",
+      amount: 120.5,
+    });
+    expect(lines[1].accountNumber).toBe("1000");
+  });
+
+  it("reports vendors without an account when no default exists", () => {
+    const { lines, unmappedVendors } = buildJournalLines(
+      [buildRow("Microsoft", "Office 365", 10), buildRow("Cisco", "A", 5)],
+      mappings.slice(1),
+      options,
+    );
+
+    expect(lines).toHaveLength(1);
+    expect(unmappedVendors).toEqual(["Cisco"]);
+  });
+});
+
+describe("buildAccountingExport", () => {
+  const { lines } = buildJournalLines(
+    [buildRow("Cisco", "Calling", 80.25)],
+    mappings,
+    options,
+  );
+
+  it("writes an e-conomic cash journal with Danish dates and credits", () => {
+    const file = buildAccountingExport("economic", lines);
+    const rows = file.content.replace("\uFEFF", "").trim().split("\r\n");
+
+    expect(file.extension).toBe("csv");
+    expect(rows[0]).toBe("Dato;Bilag;Tekst;Konto;Modkonto;Beløb;Momskode");
+    expect(rows[1]).toBe(
+      "30-09-2026;INV-1;Kunde A - Cisco Calling;1000;5600;-80,25;U25",
+    );
+  });
+
+  it("writes Business Central journal lines in en-US format", () => {
+    const file = buildAccountingExport("business-central", lines);
+    const rows = file.content.replace("\uFEFF", "").trim().split("\r\n");
+
+    expect(rows[1]).toBe(
+      "2026-09-30,Invoice,INV-1,G/L Account,1000,Kunde A - Cisco Calling,U25,-80.25,G/L Account,5600",
+    );
+  });
+
+  it("builds a Dinero manual voucher", () => {
+    const file = buildAccountingExport("dinero", lines);
+
+    expect(file.extension).toBe("json");
+    expect(JSON.parse(file.content)).toEqual({
+      VoucherDate: "2026-09-30",
+      ExternalReference: "INV-1",
+      Lines: [
+        {
+          Description: "Kunde A - Cisco Calling",
+          AccountNumber: 1000,
+          BalancingAccountNumber: 5600,
+          Amount: -80.25,
+          AccountVatCode: "U25",
+        },
+      ],
+    });
+  });
+});
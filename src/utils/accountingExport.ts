@@ -0,0 +1,211 @@
+import { buildCsv } from "./csv";
+import type { ResaleExportRow } from "./resaleExport";
+
+export type AccountingSystem = "economic" | "dinero" | "business-central";
+
+export type AccountingMapping = {
+  system: AccountingSystem;
+  vendorName: string;
+  accountNumber: string;
+  contraAccountNumber: string;
+  vatCode: string;
+};
+
+export type JournalLine = {
+  date: string;
+  documentNo: string;
+  text: string;
+  accountNumber: string;
+  contraAccountNumber: string;
+  vatCode: string;
+  // Revenue excl. VAT; positive amounts are posted as credits.
+  amount: number;
+};
+
+export type AccountingExportFile = {
+  content: string;
+  mimeType: string;
+  extension: "csv" | "json";
+};
+
+export const ACCOUNTING_SYSTEMS: AccountingSystem[] = [
+  "economic",
+  "dinero",
+  "business-central",
+];
+
+export const accountingSystemLabels: Record<AccountingSystem, string> = {
+  economic: "e-conomic",
+  dinero: "Dinero",
+  "business-central": "Business Central",
+};
+
+export const DEFAULT_MAPPING_VENDOR = "*";
+
+// Business Central limits journal descriptions to 100 characters; the other
+// systems allow more but gain nothing from longer texts.
+const MAX_TEXT_LENGTH = 100;
+
+export const resolveVendorMapping = (
+  mappings: AccountingMapping[],
+  vendorName: string,
+) => {
+  const normalized = vendorName.toLowerCase();
+  const own = mappings.find(
+    (mapping) => mapping.vendorName.toLowerCase() === normalized,
+  );
+  const fallback = mappings.find(
+    (mapping) => mapping.vendorName === DEFAULT_MAPPING_VENDOR,
+  );
+  if (!own) return fallback;
+  return {
+    ...own,
+    contraAccountNumber:
+      own.contraAccountNumber || fallback?.contraAccountNumber || "",
+    vatCode: own.vatCode || fallback?.vatCode || "",
+  };
+};
+
+export const buildJournalLines = (
+  rows: ResaleExportRow[],
+  mappings: AccountingMapping[],
+  { date, documentNo }: { date: string; documentNo: string },
+) => {
+  const unmappedVendors = new Set<string>();
+  const lines: JournalLine[] = [];
+
+  rows.forEach((row) => {
+    if (Math.abs(row.resaleAmount) < 0.005) return;
+    const mapping = resolveVendorMapping(mappings, row.vendorName);
+    if (!mapping) {
+      unmappedVendors.add(row.vendorName);
+      return;
+    }
+
+    lines.push({
+      date,
+      documentNo,
+      text: `${row.customerName} - ${row.vendorName} ${row.productName}`.slice(
+        0,
+        MAX_TEXT_LENGTH,
+      ),
+      accountNumber: mapping.accountNumber,
+      contraAccountNumber: mapping.contraAccountNumber,
+      vatCode: mapping.vatCode,
+      amount: row.resaleAmount,
+    });
+  });
+
+  return { lines, unmappedVendors: Array.from(unmappedVendors).sort() };
+};
+
+const toDanishDate = (isoDate: string) => {
+  const [year, month, day] = isoDate.slice(0, 10).split("-");
+  return `${day}-${month}-${year}`;
+};
+
+const toAccountNumber = (value: string) =>
+  /^\d+$/.test(value) ? Number(value) : value;
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+// e-conomic cash journal ("kassekladde") import: a positive amount debits
+// Konto, so revenue is written as a negative amount against the contra
+// account.
+const buildEconomicFile = (lines: JournalLine[]): AccountingExportFile => ({
+  content: buildCsv(
+    [
+      { header: "Dato" },
+      { header: "Bilag" },
+      { header: "Tekst" },
+      { header: "Konto" },
+      { header: "Modkonto" },
+      { header: "Beløb" },
+      { header: "Momskode" },
+    ],
+    lines.map((line) => [
+      toDanishDate(line.date),
+      line.documentNo,
+      line.text,
+      line.accountNumber,
+      line.contraAccountNumber,
+      -line.amount,
+      line.vatCode,
+    ]),
+  ),
+  mimeType: "text/csv;charset=utf-8",
+  extension: "csv",
+});
+
+// Body for Dinero's manual voucher endpoint (`POST /vouchers/manuel`).
+const buildDineroFile = (lines: JournalLine[]): AccountingExportFile => ({
+  content: JSON.stringify(
+    {
+      VoucherDate: lines[0]?.date.slice(0, 10) ?? "",
+      ExternalReference: lines[0]?.documentNo ?? "",
+      Lines: lines.map((line) => ({
+        Description: line.text,
+        AccountNumber: toAccountNumber(line.accountNumber),
+        BalancingAccountNumber: line.contraAccountNumber
+          ? toAccountNumber(line.contraAccountNumber)
+          : null,
+        Amount: roundAmount(-line.amount),
+        AccountVatCode: line.vatCode || null,
+      })),
+    },
+    null,
+    2,
+  ),
+  mimeType: "application/json;charset=utf-8",
+  extension: "json",
+});
+
+// Business Central general journal lines, in the column order of the
+// "General Journal" configuration package (en-US number format).
+const buildBusinessCentralFile = (
+  lines: JournalLine[],
+): AccountingExportFile => ({
+  content: buildCsv(
+    [
+      { header: "Posting Date" },
+      { header: "Document Type" },
+      { header: "Document No." },
+      { header: "Account Type" },
+      { header: "Account No." },
+      { header: "Description" },
+      { header: "VAT Prod. Posting Group" },
+      { header: "Amount" },
+      { header: "Bal. Account Type" },
+      { header: "Bal. Account No." },
+    ],
+    lines.map((line) => [
+      line.date.slice(0, 10),
+      "Invoice",
+      line.documentNo,
+      "G/L Account",
+      line.accountNumber,
+      line.text,
+      line.vatCode,
+      -line.amount,
+      line.contraAccountNumber ? "G/L Account" : "",
+      line.contraAccountNumber,
+    ]),
+    { delimiter: ",", decimalSeparator: "." },
+  ),
+  mimeType: "text/csv;charset=utf-8",
+  extension: "csv",
+});
+
+export const buildAccountingExport = (
+  system: AccountingSystem,
+  lines: JournalLine[],
+): AccountingExportFile => {
+  switch (system) {
+    case "economic":
+      return buildEconomicFile(lines);
+    case "dinero":
+      return buildDineroFile(lines);
+    case "business-central":
+      return buildBusinessCentralFile(lines);
+  }
+};
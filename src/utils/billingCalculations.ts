@@ -3,7 +3,10 @@ import type {
   Invoice,
   InvoiceTenantBreakdown,
   InvoiceSubscriptionBreakdown,
+  QuantityUnit,
+  ResolvedVendor,
 } from "../types/invoice";
+import { DEFAULT_VENDOR_RULES, resolveVendorRule } from "./vendorRules";
 
 export type BillingMetrics = {
   totalInvoiced: number;
@@ -134,32 +137,21 @@ const formatProductLabel = (label: string) => {
   return withoutPrefix.length > 0 ? withoutPrefix : trimmed;
 };
 
-const normalizeLabel = (label: string) =>
+export const normalizeLabel = (label: string) =>
   formatProductLabel(label).replace(/\s+/g, " ").trim().toLowerCase();
 
-const identifyVendorFromProduct = (productLabel: string) => {
-  const normalized = productLabel.toLowerCase();
-  if (normalized.includes("exclaimer")) return "Exclaimer";
-  if (normalized.includes("keepit")) return "Keepit";
-  if (normalized.includes("adobe")) return "Adobe";
-  if (normalized.includes("microsoft")) return "Microsoft";
-  return undefined;
-};
-
-const shouldUseRetailAmount = (vendorName: string) => {
-  const normalized = vendorName.toLowerCase();
-  return (
-    normalized.includes("keepit") ||
-    normalized.includes("adobe") ||
-    normalized.includes("microsoft")
-  );
-};
+// Subscriptions loaded through useInvoiceDetail carry the vendor resolved by
+// the configured rules; anything else falls back to the default rules.
+export const resolveSubscriptionVendor = (
+  sub: InvoiceSubscriptionBreakdown,
+): ResolvedVendor =>
+  sub.vendor ?? resolveVendorRule(sub, DEFAULT_VENDOR_RULES);
 
 const getAmountForVendor = (
   sub: InvoiceSubscriptionBreakdown,
-  vendorName: string,
+  vendor: ResolvedVendor,
 ) => {
-  const prefersRetail = shouldUseRetailAmount(vendorName);
+  const prefersRetail = vendor.amountSource === "retail";
   const hasRetail = typeof sub.retailAmount === "number";
   const hasAmount = typeof sub.amount === "number";
 
@@ -174,8 +166,19 @@ const getAmountForVendor = (
   return 0;
 };
 
+export const getSubscriptionVendorName = (
+  sub: InvoiceSubscriptionBreakdown,
+) => resolveSubscriptionVendor(sub).vendorName;
+
+export const getSubscriptionProductLabel = (
+  sub: InvoiceSubscriptionBreakdown,
+) =>
+  sub.canonicalProductName ??
+  formatProductLabel((sub.description || sub.nickname || "Line item").trim());
+
 export type AggregatedVendor = {
   vendorName: string;
+  quantityUnit: QuantityUnit;
   totalLicenses: number;
   totalAmount: number;
   products: Array<{
@@ -203,6 +206,7 @@ export const aggregateVendorsFromSubscriptions = (
     string,
     {
       vendorName: string;
+      quantityUnit: QuantityUnit;
       totalLicenses: number;
       totalAmount: number;
       productsMap: Map<
@@ -231,28 +235,20 @@ export const aggregateVendorsFromSubscriptions = (
   >();
 
   (subscriptions ?? []).forEach((sub: InvoiceSubscriptionBreakdown) => {
-    const vendorName =
-      sub.billingTypeDescription?.trim() ||
-      identifyVendorFromProduct(sub.description || sub.nickname || "Product") ||
-      sub.nickname ||
-      sub.description ||
-      "Product";
-    const rawProductLabel = (
-      sub.description ||
-      sub.nickname ||
-      "Line item"
-    ).trim();
-    const productLabel = formatProductLabel(rawProductLabel);
+    const vendor = resolveSubscriptionVendor(sub);
+    const { vendorName } = vendor;
+    const productLabel = getSubscriptionProductLabel(sub);
     const productKey = normalizeLabel(productLabel);
 
     const vendorEntry = vendorMap.get(vendorName) ?? {
       vendorName,
+      quantityUnit: vendor.quantityUnit,
       totalLicenses: 0,
       totalAmount: 0,
       productsMap: new Map(),
     };
 
-    const effectiveAmount = getAmountForVendor(sub, vendorName);
+    const effectiveAmount = getAmountForVendor(sub, vendor);
     const licenses = sub.licensQuantity ?? 0;
 
     vendorEntry.totalLicenses += licenses;
@@ -328,6 +324,7 @@ export const aggregateVendorsFromSubscriptions = (
   return Array.from(vendorMap.values())
     .map((vendor) => ({
       vendorName: vendor.vendorName,
+      quantityUnit: vendor.quantityUnit,
       totalLicenses: vendor.totalLicenses,
       totalAmount: vendor.totalAmount,
       products: Array.from(vendor.productsMap.values())
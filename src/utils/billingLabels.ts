@@ -0,0 +1,35 @@
+// Danish labels for billing terms returned by the Cloud Factory API.
+
+const billingFrequencyMap: Record<string, string> = {
+  monthly: "Månedlig",
+  yearly: "Årlig",
+  annually: "Årlig",
+  quarterly: "Kvartalsvis",
+  weekly: "Ugentlig",
+  daily: "Daglig",
+  mixed: "Blandet",
+};
+
+const commitmentTermMap: Record<string, string> = {
+  monthly: "Månedlig",
+  yearly: "Årlig",
+  annually: "Årlig",
+  quarterly: "Kvartalsvis",
+  contract: "Kontrakt",
+  mixed: "Blandet",
+};
+
+const translateApiLabel = (
+  value: string | null | undefined,
+  dictionary: Record<string, string>,
+) => {
+  if (!value) return "—";
+  const normalized = value.trim().toLowerCase();
+  return dictionary[normalized] ?? value;
+};
+
+export const translateBillingFrequency = (value: string | null | undefined) =>
+  translateApiLabel(value, billingFrequencyMap);
+
+export const translateCommitmentTerm = (value: string | null | undefined) =>
+  translateApiLabel(value, commitmentTermMap);
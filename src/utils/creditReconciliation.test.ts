@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import type {
+  InvoiceSubscriptionBreakdown,
+  InvoiceTenantEntry,
+} from "../types/invoice";
+import { reconcileCredits, totalCredits } from "./creditReconciliation";
+import type { CustomerCard } from "./customerGrouping";
+
+const buildEntry = (
+  overrides: Partial<InvoiceTenantEntry>,
+): InvoiceTenantEntry => ({
+  productId: "CFQ7TTC0LCHC",
+  skuId: "0001",
+  description: "Microsoft 365 Business Premium",
+  nickname: "Microsoft 365 Business Premium",
+  unitPrice: 155,
+  billingStartDate: "2026-09-01",
+  billingEndDate: "2026-09-30",
+  ...overrides,
+});
+
+const buildSubscription = (
+  id: string,
+  entries: InvoiceTenantEntry[],
+): InvoiceSubscriptionBreakdown => ({
+  id,
+  description: "Microsoft 365 Business Premium",
+  nickname: "Microsoft 365 Business Premium",
+  licensQuantity: 15,
+  amount: entries.reduce((sum, entry) => sum + (entry.amount ?? 0), 0),
+  retailAmount: 0,
+  vendor: {
+    vendorName: "Microsoft",
+    amountSource: "retail",
+    quantityUnit: "licenses",
+  },
+  entries,
+});
+
+const buildCustomer = (
+  id: string,
+  name: string,
+  subscriptions: InvoiceSubscriptionBreakdown[],
+): CustomerCard => ({
+  id,
+  customerId: null,
+  name,
+  vatId: "",
+  domains: [],
+  references: [],
+  subscriptions,
+});
+
+const customers = [
+  buildCustomer("t1", "Acme", [
+    buildSubscription("sub-1", [
+      buildEntry({ quantity: 10, amount: 1550, retailAmount: 1860 }),
+      buildEntry({
+        invoicingType: "Refund",
+        quantity: -10,
+        startDate: "2026-09-16",
+        endDate: "2026-09-30",
+        amount: -775,
+        retailAmount: -930,
+      }),
+      buildEntry({
+        quantity: 15,
+        startDate: "2026-09-16",
+        endDate: "2026-09-30",
+        amount: 1162.5,
+      }),
+    ]),
+  ]),
+  buildCustomer("t2", "Beta", [
+    buildSubscription("sub-2", [
+      buildEntry({ quantity: 5, amount: 775 }),
+      // Credits seats billed upfront on an earlier invoice.
+      buildEntry({
+        skuId: "0002",
+        invoicingType: "Refund",
+        quantity: 2,
+        amount: 200,
+        retailAmount: 240,
+      }),
+    ]),
+  ]),
+  buildCustomer("t3", "Gamma", [
+    buildSubscription("sub-3", [buildEntry({ quantity: 1, amount: 155 })]),
+  ]),
+];
+
+describe("reconcileCredits", () => {
+  it("pairs credits with the charge they reverse", () => {
+    const summaries = reconcileCredits(customers, (tenantId) =>
+      tenantId === "t2" ? 25 : undefined,
+    );
+
+    expect(summaries.map((summary) => summary.customerName)).toEqual([
+      "Beta",
+      "Acme",
+    ]);
+    const [beta, acme] = summaries;
+    expect(acme).toMatchObject({
+      chargedAmount: 2712.5,
+      creditedAmount: -775,
+      netAmount: 1937.5,
+      unmatchedCreditAmount: 0,
+    });
+    expect(acme.credits[0]).toMatchObject({
+      quantity: 10,
+      startDate: "2026-09-16",
+      endDate: "2026-09-30",
+      costAmount: -775,
+      retailAmount: -930,
+      matchedCharge: {
+        quantity: 10,
+        startDate: "2026-09-01",
+        endDate: "2026-09-30",
+        amount: 1550,
+      },
+    });
+    expect(beta).toMatchObject({
+      chargedAmount: 775,
+      creditedAmount: -200,
+      netAmount: 575,
+      unmatchedCreditAmount: -200,
+      unmatchedResaleAmount: -180,
+    });
+    expect(beta.credits[0]).toMatchObject({
+      skuId: "0002",
+      discountRate: 25,
+      matchedCharge: null,
+    });
+  });
+
+  it("matches each charge once", () => {
+    const [summary] = reconcileCredits(
+      [
+        buildCustomer("t1", "Acme", [
+          buildSubscription("sub-1", [
+            buildEntry({ quantity: 3, amount: 465 }),
+            buildEntry({ quantity: -3, amount: -465 }),
+            buildEntry({ quantity: -3, amount: -465 }),
+          ]),
+        ]),
+      ],
+      () => undefined,
+    );
+
+    expect(
+      summary.credits.map((credit) => credit.matchedCharge !== null),
+    ).toEqual([true, false]);
+    expect(totalCredits([summary])).toEqual({
+      creditCount: 2,
+      unmatchedCount: 1,
+      creditedAmount: -930,
+      unmatchedCreditAmount: -465,
+      unmatchedResaleAmount: -465,
+    });
+  });
+});
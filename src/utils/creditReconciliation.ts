@@ -0,0 +1,246 @@
+import type {
+  InvoiceSubscriptionBreakdown,
+  InvoiceTenantEntry,
+} from "../types/invoice";
+import {
+  getSubscriptionProductLabel,
+  getSubscriptionVendorName,
+} from "./billingCalculations";
+import type { CustomerCard } from "./customerGrouping";
+import type { DiscountLookup } from "./resaleExport";
+
+// The charge on the same invoice that a credit reverses.
+export type MatchedCharge = {
+  quantity: number;
+  startDate: string | null;
+  endDate: string | null;
+  amount: number;
+};
+
+export type CreditLine = {
+  key: string;
+  tenantId: string;
+  customerId: number | null;
+  customerName: string;
+  vendorName: string;
+  productName: string;
+  subscriptionId: string;
+  skuId: string;
+  quantity: number;
+  startDate: string | null;
+  endDate: string | null;
+  costAmount: number;
+  retailAmount: number;
+  // The credit at the customer's price: list price after their discount.
+  resaleAmount: number;
+  discountRate: number;
+  matchedCharge: MatchedCharge | null;
+};
+
+export type TenantCreditSummary = {
+  tenantId: string;
+  customerId: number | null;
+  customerName: string;
+  chargedAmount: number;
+  creditedAmount: number;
+  netAmount: number;
+  unmatchedCreditAmount: number;
+  unmatchedResaleAmount: number;
+  credits: CreditLine[];
+};
+
+export type CreditTotals = {
+  creditCount: number;
+  unmatchedCount: number;
+  creditedAmount: number;
+  unmatchedCreditAmount: number;
+  unmatchedResaleAmount: number;
+};
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const toDate = (value: string | undefined) => value?.slice(0, 10) || null;
+
+// Refund rows have a negative quantity or invoicingType "Refund"; the
+// vendor breakdown leaves them out of the licence count.
+const isCreditEntry = (entry: InvoiceTenantEntry) => {
+  const quantity = entry.quantity ?? entry.days ?? null;
+  return (
+    entry.invoicingType?.trim().toLowerCase() === "refund" ||
+    (quantity !== null && quantity < 0)
+  );
+};
+
+const getEntrySkuKey = (entry: InvoiceTenantEntry) =>
+  `${entry.productId}/${entry.skuId || entry.productId}`;
+
+const getEntryPeriod = (entry: InvoiceTenantEntry) => ({
+  startDate: toDate(entry.startDate) ?? toDate(entry.billingStartDate),
+  endDate: toDate(entry.endDate) ?? toDate(entry.billingEndDate),
+});
+
+const getEntryQuantity = (entry: InvoiceTenantEntry) =>
+  Math.abs(entry.quantity ?? entry.licensQuantity ?? 0);
+
+// A charge covers a credit when it is for the same SKU and its period spans
+// the credited days. Lines without dates are taken to cover the whole
+// billing period.
+const coversCredit = (
+  charge: InvoiceTenantEntry,
+  credit: InvoiceTenantEntry,
+) => {
+  if (getEntrySkuKey(charge) !== getEntrySkuKey(credit)) return false;
+  const chargePeriod = getEntryPeriod(charge);
+  const creditPeriod = getEntryPeriod(credit);
+  return (
+    (!chargePeriod.startDate ||
+      !creditPeriod.startDate ||
+      chargePeriod.startDate <= creditPeriod.startDate) &&
+    (!chargePeriod.endDate ||
+      !creditPeriod.endDate ||
+      chargePeriod.endDate >= creditPeriod.endDate)
+  );
+};
+
+// Pairs each credit with one charge of the subscription, preferring a charge
+// for the same number of seats. Each charge is matched at most once; credits
+// left over reverse charges from earlier invoices.
+const matchCredits = (sub: InvoiceSubscriptionBreakdown) => {
+  const charges = sub.entries.filter((entry) => !isCreditEntry(entry));
+  const used = new Set<InvoiceTenantEntry>();
+
+  return sub.entries.filter(isCreditEntry).map((credit) => {
+    const candidates = charges.filter(
+      (charge) => !used.has(charge) && coversCredit(charge, credit),
+    );
+    const match =
+      candidates.find(
+        (charge) => getEntryQuantity(charge) === getEntryQuantity(credit),
+      ) ?? candidates[0];
+    if (match) used.add(match);
+    return { credit, match: match ?? null };
+  });
+};
+
+const sumEntryAmounts = (sub: InvoiceSubscriptionBreakdown) =>
+  sub.entries.length > 0
+    ? sub.entries.reduce(
+        (totals, entry) => {
+          const amount = entry.amount ?? 0;
+          if (isCreditEntry(entry)) {
+            totals.credited -= Math.abs(amount);
+          } else {
+            totals.charged += amount;
+          }
+          return totals;
+        },
+        { charged: 0, credited: 0 },
+      )
+    : { charged: sub.amount ?? 0, credited: 0 };
+
+// Every credit on the invoice per tenant with the charge it reverses, the
+// tenant's net effect and what is left to pass on to the end customer.
+// Tenants without credits are left out; tenants with unmatched credits come
+// first.
+export const reconcileCredits = (
+  customers: CustomerCard[],
+  getDiscountRate: DiscountLookup,
+): TenantCreditSummary[] =>
+  customers
+    .flatMap((customer) => {
+      let chargedAmount = 0;
+      let creditedAmount = 0;
+      const credits: CreditLine[] = [];
+
+      customer.subscriptions.forEach((sub) => {
+        const totals = sumEntryAmounts(sub);
+        chargedAmount += totals.charged;
+        creditedAmount += totals.credited;
+
+        const vendorName = getSubscriptionVendorName(sub);
+        const productName = getSubscriptionProductLabel(sub);
+        const discountRate =
+          getDiscountRate(customer.id, vendorName, productName) ?? 0;
+
+        matchCredits(sub).forEach(({ credit, match }, index) => {
+          const costAmount = -Math.abs(credit.amount ?? 0);
+          const retailAmount = -Math.abs(
+            credit.retailAmount ?? credit.amount ?? 0,
+          );
+          credits.push({
+            key: `${customer.id}|${sub.id}|${index}`,
+            tenantId: customer.id,
+            customerId: customer.customerId,
+            customerName: customer.name,
+            vendorName,
+            productName,
+            subscriptionId: sub.id,
+            skuId: credit.skuId || credit.productId,
+            quantity: getEntryQuantity(credit),
+            ...getEntryPeriod(credit),
+            costAmount: roundAmount(costAmount),
+            retailAmount: roundAmount(retailAmount),
+            resaleAmount: roundAmount(retailAmount * (1 - discountRate / 100)),
+            discountRate,
+            matchedCharge: match
+              ? {
+                  quantity: getEntryQuantity(match),
+                  ...getEntryPeriod(match),
+                  amount: match.amount ?? 0,
+                }
+              : null,
+          });
+        });
+      });
+
+      if (credits.length === 0) return [];
+      const unmatched = credits.filter((credit) => !credit.matchedCharge);
+      return [
+        {
+          tenantId: customer.id,
+          customerId: customer.customerId,
+          customerName: customer.name,
+          chargedAmount: roundAmount(chargedAmount),
+          creditedAmount: roundAmount(creditedAmount),
+          netAmount: roundAmount(chargedAmount + creditedAmount),
+          unmatchedCreditAmount: roundAmount(
+            unmatched.reduce((sum, credit) => sum + credit.costAmount, 0),
+          ),
+          unmatchedResaleAmount: roundAmount(
+            unmatched.reduce((sum, credit) => sum + credit.resaleAmount, 0),
+          ),
+          credits,
+        },
+      ];
+    })
+    .sort(
+      (a, b) =>
+        a.unmatchedResaleAmount - b.unmatchedResaleAmount ||
+        a.customerName.localeCompare(b.customerName, "da"),
+    );
+
+export const totalCredits = (summaries: TenantCreditSummary[]) =>
+  summaries.reduce<CreditTotals>(
+    (totals, summary) => ({
+      creditCount: totals.creditCount + summary.credits.length,
+      unmatchedCount:
+        totals.unmatchedCount +
+        summary.credits.filter((credit) => !credit.matchedCharge).length,
+      creditedAmount: roundAmount(
+        totals.creditedAmount + summary.creditedAmount,
+      ),
+      unmatchedCreditAmount: roundAmount(
+        totals.unmatchedCreditAmount + summary.unmatchedCreditAmount,
+      ),
+      unmatchedResaleAmount: roundAmount(
+        totals.unmatchedResaleAmount + summary.unmatchedResaleAmount,
+      ),
+    }),
+    {
+      creditCount: 0,
+      unmatchedCount: 0,
+      creditedAmount: 0,
+      unmatchedCreditAmount: 0,
+      unmatchedResaleAmount: 0,
+    },
+  );
@@ -0,0 +1,37 @@
+import type { SheetCell, SheetColumn } from "./xlsx";
+
+export type CsvOptions = {
+  delimiter?: string;
+  decimalSeparator?: "," | ".";
+};
+
+const escapeCsvValue = (value: string, delimiter: string) =>
+  value.includes(delimiter) || /["\n\r]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+const formatCsvNumber = (value: number, decimalSeparator: string) => {
+  const rounded = Math.round(value * 100) / 100;
+  const text = String(rounded);
+  return decimalSeparator === "." ? text : text.replace(".", decimalSeparator);
+};
+
+// Defaults to semicolons and decimal commas so the file opens directly in a
+// Danish Excel; systems that import en-US CSV can override both.
+export const buildCsv = (
+  columns: Array<Pick<SheetColumn, "header">>,
+  rows: SheetCell[][],
+  { delimiter = ";", decimalSeparator = "," }: CsvOptions = {},
+) => {
+  const lines = [
+    columns.map((column) => escapeCsvValue(column.header, delimiter)),
+    ...rows.map((cells) =>
+      cells.map((cell) =>
+        typeof cell === "number"
+          ? formatCsvNumber(cell, decimalSeparator)
+          : escapeCsvValue(cell ?? "", delimiter),
+      ),
+    ),
+  ];
+  return `\uFEFF${lines.map((cells) => cells.join(delimiter)).join("\r\n")}\r\n`;
+};
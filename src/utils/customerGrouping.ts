@@ -0,0 +1,151 @@
+import type { InvoiceTenantBreakdown } from "../types/invoice";
+import type { CustomerRegistry } from "./customerRegistry";
+import { getWlLabel, type WlPartnerMap } from "./wlPartners";
+
+export type CustomerSubscriptions = NonNullable<
+  InvoiceTenantBreakdown["subscriptions"]
+>;
+
+export type CustomerCard = {
+  id: string;
+  // Id in the customer registry; null until the tenants are registered.
+  customerId: number | null;
+  name: string;
+  vatId: string;
+  domains: string[];
+  references: string[];
+  subscriptions: CustomerSubscriptions;
+};
+
+export type WlOption = {
+  label: string;
+  value: string;
+};
+
+export type TenantFilter = {
+  search: string;
+  wlFilter: string;
+};
+
+export const extractWlCode = (reference?: string | null) => {
+  if (!reference) return "";
+  const wlMatch = reference.match(/wl\s*(\d+)/i);
+  if (wlMatch?.[1]) return wlMatch[1];
+  const digits = reference.match(/(\d+)/);
+  return digits?.[1] ?? "";
+};
+
+export const buildWlOptions = (
+  tenants: InvoiceTenantBreakdown[] | undefined,
+  partners: WlPartnerMap = new Map(),
+): WlOption[] => {
+  const codes = new Set<string>();
+  (tenants ?? []).forEach((tenant) => {
+    const code = extractWlCode(tenant.customerReference);
+    if (code) codes.add(code);
+  });
+
+  const entries = Array.from(codes).sort((a, b) => Number(a) - Number(b));
+  return [
+    { label: "Alle WL", value: "all" },
+    ...entries.map((code) => ({
+      label: getWlLabel(code, partners),
+      value: code,
+    })),
+  ];
+};
+
+export const filterTenants = (
+  tenants: InvoiceTenantBreakdown[] | undefined,
+  { search, wlFilter }: TenantFilter,
+) => {
+  const normalizedSearch = search.trim().toLowerCase();
+  return (tenants ?? []).filter((tenant) => {
+    const wlCode = extractWlCode(tenant.customerReference);
+    const matchesWl = wlFilter === "all" || wlCode === wlFilter;
+
+    if (!normalizedSearch) return matchesWl;
+
+    const haystack = [
+      tenant.name,
+      tenant.domain,
+      tenant.customerName,
+      tenant.customerReference,
+    ]
+      .filter(Boolean)
+      .map((value) => value!.toLowerCase());
+
+    const matchesSearch = haystack.some((value) =>
+      value.includes(normalizedSearch),
+    );
+
+    return matchesSearch && matchesWl;
+  });
+};
+
+type GroupedCustomer = {
+  key: string;
+  id: string;
+  customerId: number | null;
+  name: string;
+  vatId: string;
+  domains: Set<string>;
+  references: Set<string>;
+  subscriptions: CustomerSubscriptions;
+};
+
+// Registered tenants are grouped by their customer in the registry, which
+// uses the customer's primary tenant as id so discounts stay attached to it.
+// Tenants not registered yet fall back to sharing a customer name, keeping
+// the first tenant's id.
+export const groupCustomers = (
+  tenants: InvoiceTenantBreakdown[],
+  registry: CustomerRegistry = new Map(),
+): CustomerCard[] => {
+  const map = new Map<string, GroupedCustomer>();
+
+  tenants.forEach((tenant) => {
+    const registered = registry.get(tenant.id);
+    const mapKey = registered
+      ? `customer:${registered.id}`
+      : (tenant.customerName ?? tenant.name ?? tenant.id).toLowerCase();
+    const existing = map.get(mapKey);
+
+    if (existing) {
+      if (!existing.vatId && tenant.customerVatId) {
+        existing.vatId = tenant.customerVatId;
+      }
+      if (tenant.domain) existing.domains.add(tenant.domain);
+      if (tenant.customerReference)
+        existing.references.add(tenant.customerReference);
+      existing.subscriptions.push(...(tenant.subscriptions ?? []));
+      return;
+    }
+
+    map.set(mapKey, {
+      key: mapKey,
+      id: registered?.primaryTenantId ?? tenant.id,
+      customerId: registered?.id ?? null,
+      name: registered?.name ?? tenant.customerName ?? tenant.name ?? "Kunde",
+      vatId: registered?.vatId || (tenant.customerVatId ?? ""),
+      domains: new Set(tenant.domain ? [tenant.domain] : []),
+      references: new Set(
+        tenant.customerReference ? [tenant.customerReference] : [],
+      ),
+      subscriptions: [...(tenant.subscriptions ?? [])],
+    });
+  });
+
+  return Array.from(map.values()).map((group, index) => ({
+    id: group.id || `${group.key}-${index}`,
+    customerId: group.customerId,
+    name: group.name,
+    vatId: group.vatId,
+    domains: Array.from(group.domains),
+    references: Array.from(group.references),
+    subscriptions: group.subscriptions,
+  }));
+};
+
+export const getCustomerWlCode = (customer: CustomerCard) =>
+  customer.references.map(extractWlCode).find(Boolean) ?? "";
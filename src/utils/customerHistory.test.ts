@@ -0,0 +1,201 @@
+import { describe, expect, it } from "vitest";
+import type {
+  InvoiceDetail,
+  InvoiceSubscriptionBreakdown,
+  InvoiceTenantBreakdown,
+} from "../types/invoice";
+import {
+  buildMonthlyVendorSpend,
+  collectCustomerInvoices,
+  listProductDiscounts,
+  summarizeCustomerSubscriptions,
+} from "./customerHistory";
+import { buildCustomerRegistry } from "./customerRegistry";
+
+const buildSubscription = (
+  vendorName: string,
+  description: string,
+  licensQuantity: number,
+  amount: number,
+  commitmentEndDate?: string,
+): InvoiceSubscriptionBreakdown => ({
+  id: `${vendorName}-${description}`,
+  description,
+  nickname: description,
+  licensQuantity,
+  amount,
+  retailAmount: amount,
+  vendor: { vendorName, amountSource: "cost", quantityUnit: "licenses" },
+  entries: [
+    {
+      productId: description,
+      skuId: description,
+      description,
+      nickname: description,
+      licensQuantity,
+      amount,
+      commitmentEndDate,
+    },
+  ],
+});
+
+const buildTenant = (
+  id: string,
+  subscriptions: InvoiceSubscriptionBreakdown[],
+): InvoiceTenantBreakdown => ({
+  id,
+  name: `${id}.onmicrosoft.com`,
+  domain: `${id}.dk`,
+  amount: 0,
+  retailAmount: 0,
+  customerName: `Kunde ${id}`,
+  customerVatId: "",
+  customerReference: "",
+  subscriptions,
+});
+
+const buildDetail = (
+  invoiceNumber: string,
+  periodStartDate: string,
+  tenants: InvoiceTenantBreakdown[],
+): InvoiceDetail => ({
+  invoiceNumber,
+  postingDate: periodStartDate,
+  periodStartDate,
+  amount: 0,
+  amountInclVat: 0,
+  dueDate: periodStartDate,
+  status: "Paid",
+  invoicePdf: "",
+  billingDataExcel: "",
+  customerName: "Partner",
+  lines: [],
+  tenants,
+});
+
+const registry = buildCustomerRegistry([
+  {
+    id: 7,
+    name: "Acme A/S",
+    vatId: "",
+    primaryTenantId: "t1",
+    references: [],
+    tenants: ["t1", "t2"].map((tenantId) => ({
+      tenantId,
+      tenantName: `${tenantId}.onmicrosoft.com`,
+      domain: "",
+      customerName: "Acme A/S",
+      reference: "",
+      firstSeen: "2026-01-01",
+      lastSeen: "2026-03-01",
+    })),
+  },
+]);
+
+const details = [
+  buildDetail("INV-3", "2026-03-01", [
+    buildTenant("t1", [
+      buildSubscription("Microsoft", "Business Premium", 12, 1200, "2027-01-31"),
+    ]),
+    buildTenant("t9", [
+      buildSubscription("Microsoft", "Business Basic", 1, 50),
+    ]),
+  ]),
+  buildDetail("INV-1", "2026-01-01", [
+    buildTenant("t1", [
+      buildSubscription("Microsoft", "Business Premium", 10, 1000, "2026-12-31"),
+    ]),
+    buildTenant("t2", [buildSubscription("Acronis", "Backup", 100, 300)]),
+  ]),
+  buildDetail("INV-2", "2026-02-01", [
+    buildTenant("t9", [
+      buildSubscription("Microsoft", "Business Basic", 1, 50),
+    ]),
+  ]),
+];
+
+describe("collectCustomerInvoices", () => {
+  it("picks the customer's tenants out of each invoice, oldest first", () => {
+    const invoices = collectCustomerInvoices(details, registry, 7);
+
+    expect(invoices.map((invoice) => invoice.invoiceNumber)).toEqual([
+      "INV-1",
+      "INV-3",
+    ]);
+    expect(invoices[0].month).toBe("2026-01");
+    expect(invoices[0].customer.id).toBe("t1");
+    expect(invoices[0].customer.subscriptions).toHaveLength(2);
+  });
+});
+
+describe("buildMonthlyVendorSpend", () => {
+  it("totals each month per vendor after the discount for its period", () => {
+    const invoices = collectCustomerInvoices(details, registry, 7);
+    const spend = buildMonthlyVendorSpend(
+      invoices,
+      (_tenantId, vendorName, _productName, effectiveDate) =>
+        vendorName === "Microsoft" && effectiveDate >= "2026-03-01"
+          ? 10
+          : undefined,
+    );
+
+    expect(spend).toEqual([
+      {
+        month: "2026-01",
+        vendors: { Acronis: 300, Microsoft: 1000 },
+        total: 1300,
+      },
+      { month: "2026-03", vendors: { Microsoft: 1080 }, total: 1080 },
+    ]);
+  });
+});
+
+describe("summarizeCustomerSubscriptions", () => {
+  it("reports current seats and commitment end dates from the latest invoice", () => {
+    const invoices = collectCustomerInvoices(details, registry, 7);
+    const subscriptions = summarizeCustomerSubscriptions(invoices);
+
+    expect(subscriptions).toEqual([
+      expect.objectContaining({
+        vendorName: "Microsoft",
+        productName: "Business Premium",
+        seats: 12,
+        commitmentEndDate: "2027-01-31",
+        firstMonth: "2026-01",
+        lastMonth: "2026-03",
+        isActive: true,
+      }),
+      expect.objectContaining({
+        vendorName: "Acronis",
+        productName: "Backup",
+        seats: 100,
+        commitmentEndDate: null,
+        lastMonth: "2026-01",
+        isActive: false,
+      }),
+    ]);
+  });
+});
+
+describe("listProductDiscounts", () => {
+  it("lists product rates in force and skips vendor and customer scopes", () => {
+    const discounts = listProductDiscounts(
+      {
+        "microsoft::business premium": [
+          { validFrom: null, validTo: "2026-06-01", rate: 5 },
+          { validFrom: "2026-06-01", validTo: null, rate: 8 },
+        ],
+        "microsoft::*": [{ validFrom: null, validTo: null, rate: 3 }],
+        "*::*": [{ validFrom: null, validTo: null, rate: 2 }],
+        "acronis::backup": [
+          { validFrom: "2026-09-01", validTo: null, rate: 10 },
+        ],
+      },
+      "2026-07-01",
+    );
+
+    expect(discounts).toEqual([
+      { vendorName: "microsoft", productName: "business premium", rate: 8 },
+    ]);
+  });
+});
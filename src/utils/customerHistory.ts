@@ -0,0 +1,211 @@
+import type { InvoiceDetail, QuantityUnit } from "../types/invoice";
+import {
+  aggregateVendorsFromSubscriptions,
+  getSubscriptionProductLabel,
+  getSubscriptionVendorName,
+  normalizeLabel,
+} from "./billingCalculations";
+import { groupCustomers, type CustomerCard } from "./customerGrouping";
+import type { CustomerRegistry } from "./customerRegistry";
+import { resolveRateAt, type DiscountPeriod } from "./discountPeriods";
+
+export type DatedDiscountLookup = (
+  tenantId: string,
+  vendorName: string,
+  productName: string,
+  effectiveDate: string,
+) => number | undefined;
+
+// The customer's part of one invoice, grouped as on the invoice page.
+export type CustomerInvoice = {
+  invoiceNumber: string;
+  // Billing period start (or posting date); discounts resolve against it.
+  periodDate: string;
+  month: string;
+  customer: CustomerCard;
+};
+
+export type MonthlyVendorSpend = {
+  month: string;
+  vendors: Record<string, number>;
+  total: number;
+};
+
+export type CustomerSubscription = {
+  vendorName: string;
+  productName: string;
+  quantityUnit: QuantityUnit;
+  // Seats on the latest invoice the product appears on.
+  seats: number;
+  amount: number;
+  billing?: string;
+  commitment?: string;
+  commitmentEndDate: string | null;
+  firstMonth: string;
+  lastMonth: string;
+  // Still billed on the customer's latest invoice.
+  isActive: boolean;
+};
+
+const getPeriodDate = (detail: InvoiceDetail) =>
+  (detail.periodStartDate ?? detail.postingDate).slice(0, 10);
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+// Picks the customer out of every loaded invoice, oldest first. Invoices the
+// customer is not billed on are left out.
+export const collectCustomerInvoices = (
+  details: Array<InvoiceDetail | null | undefined>,
+  registry: CustomerRegistry,
+  customerId: number,
+): CustomerInvoice[] =>
+  details
+    .flatMap((detail) => {
+      if (!detail?.tenants) return [];
+      const customer = groupCustomers(detail.tenants, registry).find(
+        (card) => card.customerId === customerId,
+      );
+      if (!customer) return [];
+      const periodDate = getPeriodDate(detail);
+      return [
+        {
+          invoiceNumber: detail.invoiceNumber,
+          periodDate,
+          month: periodDate.slice(0, 7),
+          customer,
+        },
+      ];
+    })
+    .sort(
+      (a, b) =>
+        a.periodDate.localeCompare(b.periodDate) ||
+        a.invoiceNumber.localeCompare(b.invoiceNumber),
+    );
+
+// Spend per billing month and vendor after the discount in force for each
+// invoice's period. Several invoices in one month are added together.
+export const buildMonthlyVendorSpend = (
+  invoices: CustomerInvoice[],
+  getDiscountRate: DatedDiscountLookup,
+): MonthlyVendorSpend[] => {
+  const months = new Map<string, MonthlyVendorSpend>();
+
+  invoices.forEach(({ month, periodDate, customer }) => {
+    const entry = months.get(month) ?? { month, vendors: {}, total: 0 };
+    aggregateVendorsFromSubscriptions(customer.subscriptions).forEach(
+      (vendor) => {
+        const amount = vendor.products.reduce((sum, product) => {
+          const rate =
+            getDiscountRate(
+              customer.id,
+              vendor.vendorName,
+              product.displayName,
+              periodDate,
+            ) ?? 0;
+          return sum + product.amount * (1 - rate / 100);
+        }, 0);
+        entry.vendors[vendor.vendorName] = roundAmount(
+          (entry.vendors[vendor.vendorName] ?? 0) + amount,
+        );
+        entry.total = roundAmount(entry.total + amount);
+      },
+    );
+    months.set(month, entry);
+  });
+
+  return Array.from(months.values()).sort((a, b) =>
+    a.month.localeCompare(b.month),
+  );
+};
+
+const getCommitmentEndDate = (
+  subscriptions: CustomerCard["subscriptions"],
+  vendorName: string,
+  productKey: string,
+) =>
+  subscriptions
+    .filter(
+      (sub) =>
+        getSubscriptionVendorName(sub) === vendorName &&
+        normalizeLabel(getSubscriptionProductLabel(sub)) === productKey,
+    )
+    .flatMap((sub) => sub.entries)
+    .reduce<string | null>((latest, entry) => {
+      const endDate = entry.commitmentEndDate?.slice(0, 10);
+      return endDate && (!latest || endDate > latest) ? endDate : latest;
+    }, null);
+
+// One row per vendor and product the customer has been billed for. Each row
+// reflects the latest invoice the product appears on, so seats and
+// commitment end dates are current for products still billed.
+export const summarizeCustomerSubscriptions = (
+  invoices: CustomerInvoice[],
+): CustomerSubscription[] => {
+  const latestMonth = invoices.at(-1)?.month;
+  const products = new Map<string, CustomerSubscription>();
+
+  invoices.forEach(({ month, customer }) => {
+    aggregateVendorsFromSubscriptions(customer.subscriptions).forEach(
+      (vendor) => {
+        vendor.products.forEach((product) => {
+          const productKey = normalizeLabel(product.displayName);
+          const key = `${vendor.vendorName.toLowerCase()}::${productKey}`;
+          const previous = products.get(key);
+          products.set(key, {
+            vendorName: vendor.vendorName,
+            productName: product.displayName,
+            quantityUnit: vendor.quantityUnit,
+            seats: product.licenses,
+            amount: roundAmount(product.amount),
+            billing: product.billing,
+            commitment: product.commitment,
+            commitmentEndDate: getCommitmentEndDate(
+              customer.subscriptions,
+              vendor.vendorName,
+              productKey,
+            ),
+            firstMonth: previous?.firstMonth ?? month,
+            lastMonth: month,
+            isActive: month === latestMonth,
+          });
+        });
+      },
+    );
+  });
+
+  return Array.from(products.values()).sort(
+    (a, b) =>
+      Number(b.isActive) - Number(a.isActive) ||
+      a.vendorName.localeCompare(b.vendorName, "da") ||
+      a.productName.localeCompare(b.productName, "da"),
+  );
+};
+
+export type ConfiguredProductDiscount = {
+  vendorName: string;
+  productName: string;
+  rate: number;
+};
+
+const WILDCARD = "*";
+
+// Product-level rates in force on `date` under the customer's tenant. The
+// discount API stores names lowercased, so callers match them up with the
+// billed products case-insensitively.
+export const listProductDiscounts = (
+  tenantDiscounts: Record<string, DiscountPeriod[]> | undefined,
+  date: string,
+): ConfiguredProductDiscount[] =>
+  Object.entries(tenantDiscounts ?? {})
+    .flatMap(([productKey, periods]) => {
+      const [vendorName, productName] = productKey.split("::");
+      if (!vendorName || !productName) return [];
+      if (vendorName === WILDCARD || productName === WILDCARD) return [];
+      const rate = resolveRateAt(periods, date);
+      return rate === undefined ? [] : [{ vendorName, productName, rate }];
+    })
+    .sort(
+      (a, b) =>
+        a.vendorName.localeCompare(b.vendorName, "da") ||
+        a.productName.localeCompare(b.productName, "da"),
+    );
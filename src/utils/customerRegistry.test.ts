@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import type { InvoiceTenantBreakdown } from "../types/invoice";
+import { groupCustomers } from "./customerGrouping";
+import {
+  buildCustomerRegistry,
+  filterRegisteredCustomers,
+  toTenantObservations,
+  type RegisteredCustomer,
+} from "./customerRegistry";
+
+const buildTenant = (
+  id: string,
+  customerName: string,
+): InvoiceTenantBreakdown => ({
+  id,
+  name: `${id}.onmicrosoft.com`,
+  domain: `${id}.dk`,
+  amount: 0,
+  retailAmount: 0,
+  customerName,
+  customerVatId: "",
+  customerReference: `WL71 - ${id}`,
+  subscriptions: [],
+});
+
+const buildCustomer = (
+  id: number,
+  name: string,
+  tenantIds: string[],
+): RegisteredCustomer => ({
+  id,
+  name,
+  vatId: "DK12345678",
+  primaryTenantId: tenantIds[0],
+  references: [],
+  tenants: tenantIds.map((tenantId) => ({
+    tenantId,
+    tenantName: `${tenantId}.onmicrosoft.com`,
+    domain: "",
+    customerName: name,
+    reference: "",
+    firstSeen: "2026-01-01",
+    lastSeen: "2026-02-01",
+  })),
+});
+
+describe("groupCustomers with a registry", () => {
+  it("groups registered tenants by customer regardless of spelling", () => {
+    const registry = buildCustomerRegistry([
+      buildCustomer(1, "Acme A/S", ["t1", "t2"]),
+    ]);
+    const customers = groupCustomers(
+      [
+        buildTenant("t2", "ACME ApS"),
+        buildTenant("t1", "Acme A/S"),
+        buildTenant("t3", "Beta"),
+      ],
+      registry,
+    );
+
+    expect(
+      customers.map((customer) => [
+        customer.id,
+        customer.customerId,
+        customer.name,
+        customer.vatId,
+        customer.domains,
+      ]),
+    ).toEqual([
+      ["t1", 1, "Acme A/S", "DK12345678", ["t2.dk", "t1.dk"]],
+      ["t3", null, "Beta", "", ["t3.dk"]],
+    ]);
+  });
+});
+
+describe("toTenantObservations", () => {
+  it("maps invoice tenants to the sync payload", () => {
+    expect(toTenantObservations([buildTenant("t1", "Acme")])).toEqual([
+      {
+        tenantId: "t1",
+        tenantName: "t1.onmicrosoft.com",
+        domain: "t1.dk",
+        customerName: "Acme",
+        vatId: "",
+        reference: "WL71 - t1",
+      },
+    ]);
+  });
+});
+
+describe("filterRegisteredCustomers", () => {
+  it("searches names, VAT ids and tenants", () => {
+    const customers = [
+      buildCustomer(1, "Acme A/S", ["t1"]),
+      buildCustomer(2, "Beta", ["t2"]),
+    ];
+
+    expect(filterRegisteredCustomers(customers, "beta")).toEqual([
+      customers[1],
+    ]);
+    expect(filterRegisteredCustomers(customers, "t1.onmicrosoft")).toEqual([
+      customers[0],
+    ]);
+    expect(filterRegisteredCustomers(customers, " ")).toEqual(customers);
+  });
+});
@@ -0,0 +1,89 @@
+import type { InvoiceTenantBreakdown } from "../types/invoice";
+
+export type RegisteredTenant = {
+  tenantId: string;
+  tenantName: string;
+  domain: string;
+  customerName: string;
+  reference: string;
+  firstSeen: string;
+  lastSeen: string;
+};
+
+export type RegisteredCustomer = {
+  id: number;
+  name: string;
+  vatId: string;
+  // The customer's id on the invoice page; discounts are listed under it.
+  primaryTenantId: string;
+  tenants: RegisteredTenant[];
+  references: string[];
+  updatedAt?: string;
+  updatedBy?: string | null;
+};
+
+// A discount of a merged customer that was dropped because the target
+// customer already had its own rate for the product.
+export type CustomerDiscountConflict = {
+  productKey: string;
+  vendorName: string;
+  productName: string;
+  droppedRate: number | null;
+  keptRate: number | null;
+};
+
+// Registered customers keyed by each of their tenant ids.
+export type CustomerRegistry = Map<string, RegisteredCustomer>;
+
+export type TenantObservation = {
+  tenantId: string;
+  tenantName: string;
+  domain: string;
+  customerName: string;
+  vatId: string;
+  reference: string;
+};
+
+export const buildCustomerRegistry = (
+  customers: RegisteredCustomer[],
+): CustomerRegistry =>
+  new Map(
+    customers.flatMap((customer) =>
+      customer.tenants.map((tenant) => [tenant.tenantId, customer] as const),
+    ),
+  );
+
+export const toTenantObservations = (
+  tenants: InvoiceTenantBreakdown[],
+): TenantObservation[] =>
+  tenants
+    .filter((tenant) => tenant.id)
+    .map((tenant) => ({
+      tenantId: tenant.id,
+      tenantName: tenant.name,
+      domain: tenant.domain,
+      customerName: tenant.customerName,
+      vatId: tenant.customerVatId,
+      reference: tenant.customerReference,
+    }));
+
+export const filterRegisteredCustomers = (
+  customers: RegisteredCustomer[],
+  search: string,
+) => {
+  const normalizedSearch = search.trim().toLowerCase();
+  if (!normalizedSearch) return customers;
+  return customers.filter((customer) =>
+    [
+      customer.name,
+      customer.vatId,
+      ...customer.references,
+      ...customer.tenants.flatMap((tenant) => [
+        tenant.tenantId,
+        tenant.tenantName,
+        tenant.domain,
+        tenant.customerName,
+      ]),
+    ].some((value) => value.toLowerCase().includes(normalizedSearch)),
+  );
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyRateFrom,
+  resolveRateAt,
+  type DiscountPeriod,
+} from "./discountPeriods";
+
+describe("resolveRateAt", () => {
+  const periods: DiscountPeriod[] = [
+    { validFrom: null, validTo: "2026-01-01", rate: 5 },
+    { validFrom: "2026-01-01", validTo: null, rate: 10 },
+  ];
+
+  it("returns the rate in force on the given date", () => {
+    expect(resolveRateAt(periods, "2025-12-31")).toBe(5);
+    expect(resolveRateAt(periods, "2026-01-01")).toBe(10);
+    expect(resolveRateAt(periods, "2027-06-01")).toBe(10);
+  });
+
+  it("returns undefined outside every period", () => {
+    expect(
+      resolveRateAt(
+        [{ validFrom: "2026-01-01", validTo: "2026-02-01", rate: 5 }],
+        "2026-02-01",
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("applyRateFrom", () => {
+  it("splits the current period so earlier dates keep the old rate", () => {
+    const next = applyRateFrom(
+      [{ validFrom: null, validTo: null, rate: 5 }],
+      "2026-03-01",
+      8,
+    );
+
+    expect(next).toEqual([
+      { validFrom: null, validTo: "2026-03-01", rate: 5 },
+      { validFrom: "2026-03-01", validTo: null, rate: 8 },
+    ]);
+  });
+
+  it("stops a new period where a later one already begins", () => {
+    const next = applyRateFrom(
+      [{ validFrom: "2026-03-01", validTo: null, rate: 10 }],
+      "2026-01-01",
+      7,
+    );
+
+    expect(resolveRateAt(next, "2026-02-15")).toBe(7);
+    expect(resolveRateAt(next, "2026-03-01")).toBe(10);
+  });
+
+  it("updates the rate in place when the period starts on the same date", () => {
+    const next = applyRateFrom(
+      [{ validFrom: "2026-03-01", validTo: null, rate: 10 }],
+      "2026-03-01",
+      12,
+    );
+
+    expect(next).toEqual([{ validFrom: "2026-03-01", validTo: null, rate: 12 }]);
+  });
+
+  it("ends the discount from the given date when cleared", () => {
+    const next = applyRateFrom(
+      [{ validFrom: null, validTo: null, rate: 5 }],
+      "2026-03-01",
+      null,
+    );
+
+    expect(resolveRateAt(next, "2026-02-28")).toBe(5);
+    expect(resolveRateAt(next, "2026-03-01")).toBeUndefined();
+  });
+});
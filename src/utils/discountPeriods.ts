@@ -0,0 +1,82 @@
+// src/utils/discountPeriods.ts
+
+// A discount rate in force from `validFrom` (inclusive) until `validTo`
+// (exclusive). `null` bounds are open-ended. Dates are ISO yyyy-MM-dd strings,
+// so plain string comparison orders them correctly.
+export type DiscountPeriod = {
+  validFrom: string | null;
+  validTo: string | null;
+  rate: number;
+};
+
+const startsOnOrBefore = (period: DiscountPeriod, date: string) =>
+  period.validFrom === null || period.validFrom <= date;
+
+const endsAfter = (period: DiscountPeriod, date: string) =>
+  period.validTo === null || period.validTo > date;
+
+const sortPeriods = (periods: DiscountPeriod[]) =>
+  [...periods].sort((a, b) =>
+    (a.validFrom ?? "").localeCompare(b.validFrom ?? ""),
+  );
+
+export const toIsoDate = (value: string | Date) =>
+  (typeof value === "string" ? value : value.toISOString()).slice(0, 10);
+
+export const findPeriodAt = (
+  periods: DiscountPeriod[] | undefined,
+  date: string,
+) =>
+  (periods ?? []).find(
+    (period) => startsOnOrBefore(period, date) && endsAfter(period, date),
+  );
+
+export const resolveRateAt = (
+  periods: DiscountPeriod[] | undefined,
+  date: string,
+) => findPeriodAt(periods, date)?.rate;
+
+// Mirrors the API: the rate applies from `date` until the next period that
+// already starts later; a null rate ends the discount at `date`. Periods
+// before `date` are never changed.
+export const applyRateFrom = (
+  periods: DiscountPeriod[] | undefined,
+  date: string,
+  rate: number | null,
+): DiscountPeriod[] => {
+  const list = sortPeriods(periods ?? []);
+  const current = findPeriodAt(list, date);
+
+  if (rate === null) {
+    if (!current) return list;
+    if (current.validFrom === date) {
+      return list.filter((period) => period !== current);
+    }
+    return list.map((period) =>
+      period === current ? { ...period, validTo: date } : period,
+    );
+  }
+
+  if (current?.validFrom === date) {
+    return list.map((period) =>
+      period === current ? { ...period, rate } : period,
+    );
+  }
+
+  if (current) {
+    return sortPeriods([
+      ...list.map((period) =>
+        period === current ? { ...period, validTo: date } : period,
+      ),
+      { validFrom: date, validTo: current.validTo, rate },
+    ]);
+  }
+
+  const next = list.find(
+    (period) => period.validFrom !== null && period.validFrom > date,
+  );
+  return sortPeriods([
+    ...list,
+    { validFrom: date, validTo: next?.validFrom ?? null, rate },
+  ]);
+};
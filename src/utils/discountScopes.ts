@@ -0,0 +1,54 @@
+// src/utils/discountScopes.ts
+
+// Scopes from most to least specific. The discount API stores them in the
+// same tenant/product-key space using "*" as a wildcard.
+export type DiscountScope = "product" | "vendor" | "tenant" | "global-vendor";
+
+export type DiscountTarget = {
+  tenantId?: string;
+  vendorName?: string;
+  productName?: string;
+};
+
+export const DISCOUNT_SCOPE_ORDER: DiscountScope[] = [
+  "product",
+  "vendor",
+  "tenant",
+  "global-vendor",
+];
+
+export const discountScopeLabels: Record<DiscountScope, string> = {
+  product: "Produkt",
+  vendor: "Leverandør (kunde)",
+  tenant: "Kunde",
+  "global-vendor": "Leverandør (alle kunder)",
+};
+
+const WILDCARD = "*";
+
+export const makeProductKey = (vendorName: string, productName: string) =>
+  `${vendorName ?? "vendor"}::${productName ?? "product"}`.toLowerCase();
+
+// Returns the [tenantId, productKey] pair a scope is stored under, or null
+// when the target lacks the fields that scope needs.
+export const getScopeStorageKey = (
+  scope: DiscountScope,
+  { tenantId, vendorName, productName }: DiscountTarget,
+): [string, string] | null => {
+  switch (scope) {
+    case "product":
+      return tenantId && vendorName && productName
+        ? [tenantId, makeProductKey(vendorName, productName)]
+        : null;
+    case "vendor":
+      return tenantId && vendorName
+        ? [tenantId, makeProductKey(vendorName, WILDCARD)]
+        : null;
+    case "tenant":
+      return tenantId ? [tenantId, makeProductKey(WILDCARD, WILDCARD)] : null;
+    case "global-vendor":
+      return vendorName
+        ? [WILDCARD, makeProductKey(vendorName, WILDCARD)]
+        : null;
+  }
+};
@@ -0,0 +1,23 @@
+/**
+ * Triggers a browser download for generated content. The object URL is
+ * revoked on the next tick, after the click has been dispatched.
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.style.display = "none";
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Keeps generated file names portable across operating systems.
+export const toSafeFileName = (value: string) =>
+  value
+    .trim()
+    .replace(/[^a-zA-Z0-9æøåÆØÅ._-]+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import type { InvoiceTenantBreakdown } from "../types/invoice";
+import { buildCustomerRegistry } from "./customerRegistry";
+import { compareInvoices, sortByLargestChange } from "./invoiceComparison";
+
+const buildTenant = (
+  customerName: string,
+  subscriptions: Array<[string, number, number]>,
+): InvoiceTenantBreakdown => ({
+  id: `tenant-${customerName}`,
+  name: customerName,
+  domain: `${customerName.toLowerCase()}.dk`,
+  amount: 0,
+  retailAmount: 0,
+  customerName,
+  customerVatId: "",
+  customerReference: "",
+  subscriptions: subscriptions.map(([description, licenses, amount], index) => ({
+    id: `${customerName}-sub-${index}`,
+    description,
+    nickname: description,
+    licensQuantity: licenses,
+    amount,
+    retailAmount: amount,
+    billingTypeDescription: "Microsoft",
+    entries: [],
+  })),
+});
+
+describe("compareInvoices", () => {
+  it("aligns products across invoices using the aggregation normalisation", () => {
+    const comparison = compareInvoices(
+      [buildTenant("Acme", [["(NCE) Microsoft 365 E3", 10, 1000]])],
+      [buildTenant("Acme", [["Microsoft  365 E3", 12, 1200]])],
+    );
+
+    expect(comparison.products).toHaveLength(1);
+    expect(comparison.products[0]).toMatchObject({
+      customerName: "Acme",
+      vendorName: "Microsoft",
+      licensesA: 10,
+      licensesB: 12,
+      licenseDelta: 2,
+      amountDelta: 200,
+      status: "changed",
+    });
+    expect(comparison.customers[0].status).toBe("changed");
+  });
+
+  it("marks added and removed customers and products", () => {
+    const comparison = compareInvoices(
+      [
+        buildTenant("Acme", [["Teams", 5, 50]]),
+        buildTenant("Beta", [["Exchange", 3, 90]]),
+      ],
+      [
+        buildTenant("Acme", [
+          ["Teams", 5, 50],
+          ["Visio", 1, 40],
+        ]),
+        buildTenant("Gamma", [["Exchange", 2, 60]]),
+      ],
+    );
+
+    const statusByCustomer = Object.fromEntries(
+      comparison.customers.map((customer) => [customer.name, customer.status]),
+    );
+    expect(statusByCustomer).toEqual({
+      Acme: "changed",
+      Beta: "removed",
+      Gamma: "added",
+    });
+
+    const statusByProduct = Object.fromEntries(
+      comparison.products.map((row) => [
+        `${row.customerName}/${row.productName}`,
+        row.status,
+      ]),
+    );
+    expect(statusByProduct).toEqual({
+      "Acme/Teams": "unchanged",
+      "Acme/Visio": "added",
+      "Beta/Exchange": "removed",
+      "Gamma/Exchange": "added",
+    });
+    expect(comparison.totals).toMatchObject({
+      amountA: 140,
+      amountB: 150,
+      amountDelta: 10,
+      licenseDelta: 0,
+    });
+  });
+
+  it("matches a renamed customer through the registry", () => {
+    const registry = buildCustomerRegistry([
+      {
+        id: 7,
+        name: "Acme",
+        vatId: "",
+        primaryTenantId: "tenant-Acme",
+        references: [],
+        tenants: ["tenant-Acme", "tenant-Acme Holding"].map((tenantId) => ({
+          tenantId,
+          tenantName: "",
+          domain: "",
+          customerName: "",
+          reference: "",
+          firstSeen: "2026-01-01",
+          lastSeen: "2026-01-01",
+        })),
+      },
+    ]);
+    const comparison = compareInvoices(
+      [buildTenant("Acme", [["Teams", 5, 50]])],
+      [buildTenant("Acme Holding", [["Teams", 6, 60]])],
+      registry,
+    );
+
+    expect(comparison.customers).toHaveLength(1);
+    expect(comparison.customers[0]).toMatchObject({
+      name: "Acme",
+      tenantId: "tenant-Acme",
+      status: "changed",
+    });
+  });
+});
+
+describe("sortByLargestChange", () => {
+  it("orders by absolute change for the chosen measure", () => {
+    const rows = [
+      { key: "a", amountDelta: 10, licenseDelta: -5 },
+      { key: "b", amountDelta: -30, licenseDelta: 1 },
+      { key: "c", amountDelta: 20, licenseDelta: 0 },
+    ];
+
+    expect(
+      sortByLargestChange(rows, "amountDelta").map((row) => row.key),
+    ).toEqual(["b", "c", "a"]);
+    expect(
+      sortByLargestChange(rows, "licenseDelta").map((row) => row.key),
+    ).toEqual(["a", "b", "c"]);
+  });
+});
@@ -0,0 +1,229 @@
+import type { InvoiceTenantBreakdown } from "../types/invoice";
+import {
+  aggregateVendorsFromSubscriptions,
+  normalizeLabel,
+} from "./billingCalculations";
+import { groupCustomers, type CustomerCard } from "./customerGrouping";
+import type { CustomerRegistry } from "./customerRegistry";
+
+export type ComparisonStatus = "added" | "removed" | "changed" | "unchanged";
+
+export type ProductComparisonRow = {
+  key: string;
+  customerKey: string;
+  customerName: string;
+  vendorName: string;
+  productName: string;
+  licensesA: number;
+  licensesB: number;
+  licenseDelta: number;
+  amountA: number;
+  amountB: number;
+  amountDelta: number;
+  status: ComparisonStatus;
+};
+
+export type CustomerComparisonRow = {
+  key: string;
+  name: string;
+  tenantId: string;
+  amountA: number;
+  amountB: number;
+  amountDelta: number;
+  status: ComparisonStatus;
+};
+
+export type InvoiceComparison = {
+  customers: CustomerComparisonRow[];
+  products: ProductComparisonRow[];
+  totals: {
+    amountA: number;
+    amountB: number;
+    amountDelta: number;
+    licensesA: number;
+    licensesB: number;
+    licenseDelta: number;
+  };
+};
+
+export type ComparisonSortKey = "amountDelta" | "licenseDelta";
+
+type Side = "a" | "b";
+
+type ProductTotals = {
+  customerKey: string;
+  customerName: string;
+  vendorName: string;
+  productName: string;
+  licenses: Record<Side, number>;
+  amount: Record<Side, number>;
+};
+
+type CustomerTotals = {
+  name: string;
+  tenantId: string;
+  present: Record<Side, boolean>;
+  amount: Record<Side, number>;
+};
+
+// Differences below half an øre are float noise from summing many lines.
+const AMOUNT_EPSILON = 0.005;
+
+// Registered customers match across invoices even if they were renamed;
+// the rest match on the name groupCustomers merges tenants on.
+const customerKeyFor = (customer: CustomerCard) =>
+  customer.customerId !== null
+    ? `customer:${customer.customerId}`
+    : customer.name.trim().toLowerCase();
+
+const resolveStatus = (
+  presentA: boolean,
+  presentB: boolean,
+  changed: boolean,
+): ComparisonStatus => {
+  if (!presentA) return "added";
+  if (!presentB) return "removed";
+  return changed ? "changed" : "unchanged";
+};
+
+// Aligns two invoices customer by customer (grouped like the invoice page)
+// and product by product, using the vendor and product normalisation from
+// aggregateVendorsFromSubscriptions. Invoice A is the baseline, so deltas
+// are B minus A.
+export const compareInvoices = (
+  tenantsA: InvoiceTenantBreakdown[] | undefined,
+  tenantsB: InvoiceTenantBreakdown[] | undefined,
+  registry: CustomerRegistry = new Map(),
+): InvoiceComparison => {
+  const customers = new Map<string, CustomerTotals>();
+  const products = new Map<string, ProductTotals>();
+
+  const collect = (
+    side: Side,
+    tenants: InvoiceTenantBreakdown[] | undefined,
+  ) => {
+    groupCustomers(tenants ?? [], registry).forEach((customer) => {
+      const customerKey = customerKeyFor(customer);
+      const customerEntry = customers.get(customerKey) ?? {
+        name: customer.name,
+        tenantId: customer.id,
+        present: { a: false, b: false },
+        amount: { a: 0, b: 0 },
+      };
+      customerEntry.present[side] = true;
+
+      aggregateVendorsFromSubscriptions(customer.subscriptions).forEach(
+        (vendor) => {
+          customerEntry.amount[side] += vendor.totalAmount;
+
+          vendor.products.forEach((product) => {
+            const key = [
+              customerKey,
+              normalizeLabel(vendor.vendorName),
+              normalizeLabel(product.displayName),
+            ].join("|");
+            const productEntry = products.get(key) ?? {
+              customerKey,
+              customerName: customer.name,
+              vendorName: vendor.vendorName,
+              productName: product.displayName,
+              licenses: { a: 0, b: 0 },
+              amount: { a: 0, b: 0 },
+            };
+            productEntry.licenses[side] += product.licenses;
+            productEntry.amount[side] += product.amount;
+            products.set(key, productEntry);
+          });
+        },
+      );
+
+      customers.set(customerKey, customerEntry);
+    });
+  };
+
+  collect("a", tenantsA);
+  collect("b", tenantsB);
+
+  const productRows = Array.from(products, ([key, entry]) => {
+    const customer = customers.get(entry.customerKey);
+    const licenseDelta = entry.licenses.b - entry.licenses.a;
+    const amountDelta = entry.amount.b - entry.amount.a;
+    const presentA = entry.licenses.a !== 0 || entry.amount.a !== 0;
+    const presentB = entry.licenses.b !== 0 || entry.amount.b !== 0;
+    return {
+      key,
+      customerKey: entry.customerKey,
+      customerName: customer?.name ?? entry.customerName,
+      vendorName: entry.vendorName,
+      productName: entry.productName,
+      licensesA: entry.licenses.a,
+      licensesB: entry.licenses.b,
+      licenseDelta,
+      amountA: entry.amount.a,
+      amountB: entry.amount.b,
+      amountDelta,
+      status: resolveStatus(
+        presentA,
+        presentB,
+        licenseDelta !== 0 || Math.abs(amountDelta) >= AMOUNT_EPSILON,
+      ),
+    };
+  });
+
+  const customerRows = Array.from(customers, ([key, entry]) => {
+    const amountDelta = entry.amount.b - entry.amount.a;
+    return {
+      key,
+      name: entry.name,
+      tenantId: entry.tenantId,
+      amountA: entry.amount.a,
+      amountB: entry.amount.b,
+      amountDelta,
+      status: resolveStatus(
+        entry.present.a,
+        entry.present.b,
+        Math.abs(amountDelta) >= AMOUNT_EPSILON,
+      ),
+    };
+  });
+
+  const totals = productRows.reduce(
+    (acc, row) => ({
+      amountA: acc.amountA + row.amountA,
+      amountB: acc.amountB + row.amountB,
+      amountDelta: acc.amountDelta + row.amountDelta,
+      licensesA: acc.licensesA + row.licensesA,
+      licensesB: acc.licensesB + row.licensesB,
+      licenseDelta: acc.licenseDelta + row.licenseDelta,
+    }),
+    {
+      amountA: 0,
+      amountB: 0,
+      amountDelta: 0,
+      licensesA: 0,
+      licensesB: 0,
+      licenseDelta: 0,
+    },
+  );
+
+  return {
+    customers: sortByLargestChange(customerRows, "amountDelta"),
+    products: sortByLargestChange(productRows, "amountDelta"),
+    totals,
+  };
+};
+
+// Largest absolute change first; ties fall back to name so the order is
+// stable between renders.
+export const sortByLargestChange = <
+  T extends { amountDelta: number; licenseDelta?: number; key: string },
+>(
+  rows: T[],
+  sortKey: ComparisonSortKey,
+): T[] =>
+  [...rows].sort((left, right) => {
+    const difference =
+      Math.abs(right[sortKey] ?? 0) - Math.abs(left[sortKey] ?? 0);
+    if (difference !== 0) return difference;
+    return left.key.localeCompare(right.key, "da");
+  });
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import type {
+  InvoiceSubscriptionBreakdown,
+  InvoiceTenantBreakdown,
+} from "../types/invoice";
+import { countLicenseChanges, detectLicenseChanges } from "./licenseChanges";
+
+const buildSubscription = (
+  id: string,
+  description: string,
+  licensQuantity: number,
+  billing = "Monthly",
+  commitment = "Annual",
+): InvoiceSubscriptionBreakdown => ({
+  id,
+  description,
+  nickname: description,
+  licensQuantity,
+  amount: 0,
+  retailAmount: 0,
+  billingTypeDescription: "Microsoft",
+  entries: [
+    {
+      productId: "p",
+      skuId: "s",
+      description,
+      nickname: description,
+      quantity: licensQuantity,
+      billing,
+      commitment,
+    },
+  ],
+});
+
+const buildTenant = (
+  id: string,
+  subscriptions: InvoiceSubscriptionBreakdown[],
+): InvoiceTenantBreakdown => ({
+  id,
+  name: `Tenant ${id}`,
+  domain: `${id}.dk`,
+  amount: 0,
+  retailAmount: 0,
+  customerName: `Kunde ${id}`,
+  customerVatId: "",
+  customerReference: "WL74",
+  subscriptions,
+});
+
+describe("detectLicenseChanges", () => {
+  it("reports seat changes, new subscriptions and cancellations", () => {
+    const changes = detectLicenseChanges(
+      [
+        buildTenant("a", [
+          buildSubscription("s1", "Microsoft 365 E3", 10),
+          buildSubscription("s2", "Exchange Online", 4),
+        ]),
+      ],
+      [
+        buildTenant("a", [
+          buildSubscription("s1", "Microsoft 365 E3", 12),
+          buildSubscription("s3", "Teams Premium", 2),
+        ]),
+      ],
+    );
+
+    expect(
+      changes.map(({ type, productName, delta }) => ({
+        type,
+        productName,
+        delta,
+      })),
+    ).toEqual([
+      { type: "seat-increase", productName: "Microsoft 365 E3", delta: 2 },
+      { type: "new-subscription", productName: "Teams Premium", delta: 2 },
+      { type: "cancellation", productName: "Exchange Online", delta: -4 },
+    ]);
+    expect(changes[0]).toMatchObject({ tenantName: "Kunde a", wlCode: "74" });
+  });
+
+  it("matches re-created subscriptions by product and flags term changes", () => {
+    const changes = detectLicenseChanges(
+      [buildTenant("a", [buildSubscription("old", "(NCE) Visio Plan 2", 5)])],
+      [
+        buildTenant("a", [
+          buildSubscription("new", "Visio Plan 2", 3, "Annual", "Triennial"),
+        ]),
+      ],
+    );
+
+    expect(changes.map((change) => change.type)).toEqual([
+      "seat-decrease",
+      "billing-change",
+      "commitment-change",
+    ]);
+    expect(changes[1]).toMatchObject({
+      previousValue: "Monthly",
+      value: "Annual",
+    });
+  });
+
+  it("treats tenants missing on one side as all new or all cancelled", () => {
+    const changes = detectLicenseChanges(
+      [buildTenant("gone", [buildSubscription("s1", "Keepit", 20)])],
+      [buildTenant("fresh", [buildSubscription("s2", "Keepit", 7)])],
+    );
+
+    expect(countLicenseChanges(changes)).toMatchObject({
+      "new-subscription": 1,
+      cancellation: 1,
+      "seat-increase": 0,
+    });
+  });
+});
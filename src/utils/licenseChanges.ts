@@ -0,0 +1,234 @@
+import type {
+  InvoiceSubscriptionBreakdown,
+  InvoiceTenantBreakdown,
+} from "../types/invoice";
+import {
+  getSubscriptionProductLabel,
+  getSubscriptionVendorName,
+  normalizeLabel,
+} from "./billingCalculations";
+import { extractWlCode } from "./customerGrouping";
+
+export type LicenseChangeType =
+  | "new-subscription"
+  | "seat-increase"
+  | "seat-decrease"
+  | "cancellation"
+  | "billing-change"
+  | "commitment-change";
+
+export const LICENSE_CHANGE_TYPES: LicenseChangeType[] = [
+  "new-subscription",
+  "seat-increase",
+  "seat-decrease",
+  "cancellation",
+  "billing-change",
+  "commitment-change",
+];
+
+export const licenseChangeLabels: Record<LicenseChangeType, string> = {
+  "new-subscription": "Nyt abonnement",
+  "seat-increase": "Flere licenser",
+  "seat-decrease": "Færre licenser",
+  cancellation: "Opsagt",
+  "billing-change": "Ny fakturering",
+  "commitment-change": "Ny binding",
+};
+
+export type LicenseChange = {
+  key: string;
+  type: LicenseChangeType;
+  tenantId: string;
+  tenantName: string;
+  customerReference: string;
+  wlCode: string;
+  subscriptionId: string;
+  vendorName: string;
+  productName: string;
+  previousQuantity: number;
+  quantity: number;
+  delta: number;
+  previousValue?: string;
+  value?: string;
+};
+
+type SubscriptionSnapshot = {
+  id: string;
+  labelKey: string;
+  vendorName: string;
+  productName: string;
+  quantity: number;
+  billing: string;
+  commitment: string;
+};
+
+// The billing and commitment of a subscription are only recorded on its
+// entry lines; refund rows describe the plan being left, so they are skipped.
+const readEntryValue = (
+  sub: InvoiceSubscriptionBreakdown,
+  field: "billing" | "commitment",
+) => {
+  const entry = (sub.entries ?? []).find((candidate) => {
+    const quantity = candidate.quantity ?? candidate.days ?? 0;
+    return (
+      Boolean(candidate[field]) &&
+      candidate.invoicingType?.trim().toLowerCase() !== "refund" &&
+      quantity >= 0
+    );
+  });
+  return entry?.[field]?.trim() ?? "";
+};
+
+const toSnapshot = (
+  sub: InvoiceSubscriptionBreakdown,
+): SubscriptionSnapshot => {
+  const productName = getSubscriptionProductLabel(sub);
+  const vendorName = getSubscriptionVendorName(sub);
+  return {
+    id: sub.id,
+    labelKey: `${normalizeLabel(vendorName)}|${normalizeLabel(productName)}`,
+    vendorName,
+    productName,
+    quantity: sub.licensQuantity ?? 0,
+    billing: readEntryValue(sub, "billing"),
+    commitment: readEntryValue(sub, "commitment"),
+  };
+};
+
+// Subscriptions are matched on their id first; whatever is left is matched
+// on vendor and product name, so a subscription that was re-created under a
+// new id is not reported as a cancellation plus a new subscription.
+const pairSubscriptions = (
+  previous: SubscriptionSnapshot[],
+  current: SubscriptionSnapshot[],
+) => {
+  const unmatchedPrevious = new Map(previous.map((sub) => [sub.id, sub]));
+  const pairs: Array<[SubscriptionSnapshot | null, SubscriptionSnapshot]> = [];
+  const byLabel: SubscriptionSnapshot[] = [];
+
+  current.forEach((sub) => {
+    const match = sub.id ? unmatchedPrevious.get(sub.id) : undefined;
+    if (match) {
+      unmatchedPrevious.delete(match.id);
+      pairs.push([match, sub]);
+    } else {
+      byLabel.push(sub);
+    }
+  });
+
+  byLabel.forEach((sub) => {
+    const match = Array.from(unmatchedPrevious.values()).find(
+      (candidate) => candidate.labelKey === sub.labelKey,
+    );
+    if (match) unmatchedPrevious.delete(match.id);
+    pairs.push([match ?? null, sub]);
+  });
+
+  return { pairs, removed: Array.from(unmatchedPrevious.values()) };
+};
+
+// Diffs two consecutive invoices tenant by tenant and subscription by
+// subscription. A subscription can produce several events, e.g. a seat
+// increase together with a move from monthly to annual billing.
+export const detectLicenseChanges = (
+  previousTenants: InvoiceTenantBreakdown[] | undefined,
+  currentTenants: InvoiceTenantBreakdown[] | undefined,
+): LicenseChange[] => {
+  const previousById = new Map(
+    (previousTenants ?? []).map((tenant) => [tenant.id, tenant]),
+  );
+  const currentById = new Map(
+    (currentTenants ?? []).map((tenant) => [tenant.id, tenant]),
+  );
+  const tenantIds = new Set([...currentById.keys(), ...previousById.keys()]);
+  const changes: LicenseChange[] = [];
+
+  tenantIds.forEach((tenantId) => {
+    const previousTenant = previousById.get(tenantId);
+    const currentTenant = currentById.get(tenantId);
+    const tenant = (currentTenant ?? previousTenant)!;
+    const customerReference = tenant.customerReference ?? "";
+    const base = {
+      tenantId,
+      tenantName: tenant.customerName || tenant.name || tenantId,
+      customerReference,
+      wlCode: extractWlCode(customerReference),
+    };
+
+    const push = (
+      type: LicenseChangeType,
+      previous: SubscriptionSnapshot | null,
+      current: SubscriptionSnapshot | null,
+      values?: { previousValue: string; value: string },
+    ) => {
+      const subscription = (current ?? previous)!;
+      const previousQuantity = previous?.quantity ?? 0;
+      const quantity = current?.quantity ?? 0;
+      changes.push({
+        ...base,
+        key: `${tenantId}|${subscription.id || subscription.labelKey}|${type}`,
+        type,
+        subscriptionId: subscription.id,
+        vendorName: subscription.vendorName,
+        productName: subscription.productName,
+        previousQuantity,
+        quantity,
+        delta: quantity - previousQuantity,
+        ...values,
+      });
+    };
+
+    const { pairs, removed } = pairSubscriptions(
+      (previousTenant?.subscriptions ?? []).map(toSnapshot),
+      (currentTenant?.subscriptions ?? []).map(toSnapshot),
+    );
+
+    pairs.forEach(([previous, current]) => {
+      if (!previous) {
+        push("new-subscription", null, current);
+        return;
+      }
+      if (current.quantity > previous.quantity) {
+        push("seat-increase", previous, current);
+      } else if (current.quantity < previous.quantity) {
+        push("seat-decrease", previous, current);
+      }
+      // A side without entry lines says nothing about billing or commitment.
+      if (
+        previous.billing &&
+        current.billing &&
+        previous.billing !== current.billing
+      ) {
+        push("billing-change", previous, current, {
+          previousValue: previous.billing,
+          value: current.billing,
+        });
+      }
+      if (
+        previous.commitment &&
+        current.commitment &&
+        previous.commitment !== current.commitment
+      ) {
+        push("commitment-change", previous, current, {
+          previousValue: previous.commitment,
+          value: current.commitment,
+        });
+      }
+    });
+
+    removed.forEach((previous) => push("cancellation", previous, null));
+  });
+
+  return changes;
+};
+
+export const countLicenseChanges = (changes: LicenseChange[]) =>
+  changes.reduce(
+    (counts, change) => {
+      counts[change.type] += 1;
+      return counts;
+    },
+    Object.fromEntries(
+      LICENSE_CHANGE_TYPES.map((type) => [type, 0]),
+    ) as Record<LicenseChangeType, number>,
+  );
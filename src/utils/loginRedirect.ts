@@ -0,0 +1,36 @@
+import { PARTNER_SEARCH_PARAM } from "./partners";
+
+export const LOGIN_PATH = "/login";
+const REDIRECT_PARAM = "redirect";
+
+// The partner account is carried along so the login page connects the
+// session of the account the user was looking at.
+export const buildLoginPath = (
+  {
+    pathname,
+    search,
+  }: {
+    pathname: string;
+    search: string;
+  },
+  partnerId?: string,
+) => {
+  const params = new URLSearchParams();
+  if (partnerId) params.set(PARTNER_SEARCH_PARAM, partnerId);
+  if (pathname !== "/" || search) {
+    params.set(REDIRECT_PARAM, `${pathname}${search}`);
+  }
+  const query = params.toString();
+  return query ? `${LOGIN_PATH}?${query}` : LOGIN_PATH;
+};
+
+// Only same-origin paths are accepted so the login page cannot be used as an
+// open redirect.
+export const readLoginRedirect = (searchParams: URLSearchParams) => {
+  const redirect = searchParams.get(REDIRECT_PARAM) ?? "";
+  return redirect.startsWith("/") &&
+    !redirect.startsWith("//") &&
+    !redirect.startsWith(LOGIN_PATH)
+    ? redirect
+    : "/";
+};
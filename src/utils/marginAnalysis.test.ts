@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildMarginLines,
+  classifyMargin,
+  summarizeMarginsByWl,
+  totalMargins,
+} from "./marginAnalysis";
+import type { ResaleExportRow } from "./resaleExport";
+import { buildWlPartnerMap, DEFAULT_WL_PARTNERS } from "./wlPartners";
+
+const buildRow = (
+  overrides: Partial<ResaleExportRow> &
+    Pick<ResaleExportRow, "costAmount" | "resaleAmount">,
+): ResaleExportRow => ({
+  wlCode: "74",
+  wlName: "WL 74",
+  customerId: null,
+  customerName: "Acme",
+  tenantId: "acme",
+  references: "WL74",
+  vendorName: "Microsoft",
+  productName: "M365 E3",
+  quantity: 1,
+  quantityUnit: "licenser",
+  billing: "Månedlig",
+  commitment: "Årlig",
+  listAmount: overrides.resaleAmount,
+  discountRate: 0,
+  amountBeforeDiscount: overrides.resaleAmount,
+  discountAmount: 0,
+  ...overrides,
+});
+
+const rows = [
+  buildRow({ costAmount: 80, resaleAmount: 100 }),
+  buildRow({ productName: "Visio", costAmount: 50, resaleAmount: 40 }),
+  buildRow({
+    tenantId: "beta",
+    customerName: "Beta",
+    wlCode: "71",
+    vendorName: "Keepit",
+    productName: "Backup",
+    costAmount: 95,
+    resaleAmount: 100,
+  }),
+];
+
+describe("buildMarginLines", () => {
+  it("rolls rows up per customer", () => {
+    const lines = buildMarginLines(rows, "customer");
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({
+      label: "Acme",
+      costAmount: 130,
+      resaleAmount: 140,
+      margin: 10,
+    });
+    expect(lines[0].marginPercent).toBeCloseTo(7.14, 2);
+  });
+
+  it("keeps one line per product at product level", () => {
+    const lines = buildMarginLines(rows, "product");
+
+    expect(lines.map((line) => [line.label, line.margin])).toEqual([
+      ["M365 E3", 20],
+      ["Visio", -10],
+      ["Backup", 5],
+    ]);
+  });
+});
+
+describe("summarizeMarginsByWl", () => {
+  it("totals per WL code in numeric order", () => {
+    const summary = summarizeMarginsByWl([
+      ...rows,
+      buildRow({ wlCode: "", costAmount: 10, resaleAmount: 20 }),
+    ]);
+
+    expect(summary.map((line) => [line.label, line.margin])).toEqual([
+      ["WL 71", 5],
+      ["WL 74", 10],
+      ["Uden WL", 10],
+    ]);
+    expect(totalMargins(rows).margin).toBe(15);
+  });
+
+  it("names WL codes from the partner catalogue", () => {
+    const summary = summarizeMarginsByWl(
+      rows,
+      buildWlPartnerMap(DEFAULT_WL_PARTNERS),
+    );
+
+    expect(summary.map((line) => [line.label, line.detail])).toEqual([
+      ["Enreach København", "WL 71"],
+      ["Enreach Hjørring", "WL 74"],
+    ]);
+  });
+});
+
+describe("classifyMargin", () => {
+  it("flags negative and below-threshold margins", () => {
+    expect(classifyMargin({ margin: -1, marginPercent: -5 }, 10)).toBe(
+      "negative",
+    );
+    expect(classifyMargin({ margin: 5, marginPercent: 5 }, 10)).toBe(
+      "below-threshold",
+    );
+    expect(classifyMargin({ margin: 20, marginPercent: 20 }, 10)).toBe("ok");
+    expect(classifyMargin({ margin: 0, marginPercent: null }, 10)).toBe("ok");
+  });
+});
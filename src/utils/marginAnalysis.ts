@@ -0,0 +1,155 @@
+import type { ResaleExportRow } from "./resaleExport";
+import { getWlLabel, type WlPartnerMap } from "./wlPartners";
+
+export type MarginLevel = "customer" | "vendor" | "product";
+
+export type MarginStatus = "negative" | "below-threshold" | "ok";
+
+export type MarginLine = {
+  key: string;
+  label: string;
+  detail: string;
+  wlCode: string;
+  costAmount: number;
+  listAmount: number;
+  discountAmount: number;
+  resaleAmount: number;
+  margin: number;
+  marginPercent: number | null;
+};
+
+export const DEFAULT_MARGIN_THRESHOLD = 10;
+
+export const marginLevelLabels: Record<MarginLevel, string> = {
+  customer: "Kunder",
+  vendor: "Leverandører",
+  product: "Produkter",
+};
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+// Margin is measured against the discounted resale price (dækningsgrad), so
+// it is undefined when nothing is sold.
+export const calculateMarginPercent = (
+  margin: number,
+  resaleAmount: number,
+) => (resaleAmount === 0 ? null : (margin / resaleAmount) * 100);
+
+const keyForLevel = (row: ResaleExportRow, level: MarginLevel) => {
+  if (level === "customer") return row.tenantId;
+  if (level === "vendor") return `${row.tenantId}|${row.vendorName}`;
+  return `${row.tenantId}|${row.vendorName}|${row.productName}`;
+};
+
+const labelForLevel = (row: ResaleExportRow, level: MarginLevel) => {
+  if (level === "customer") {
+    return { label: row.customerName, detail: row.references };
+  }
+  if (level === "vendor") {
+    return { label: row.vendorName, detail: row.customerName };
+  }
+  return {
+    label: row.productName,
+    detail: `${row.customerName} · ${row.vendorName}`,
+  };
+};
+
+const sumRows = (
+  rows: ResaleExportRow[],
+  keyOf: (row: ResaleExportRow) => string,
+  describe: (row: ResaleExportRow) => { label: string; detail: string },
+): MarginLine[] => {
+  const lines = new Map<string, MarginLine>();
+
+  rows.forEach((row) => {
+    const key = keyOf(row);
+    const line = lines.get(key) ?? {
+      key,
+      ...describe(row),
+      wlCode: row.wlCode,
+      costAmount: 0,
+      listAmount: 0,
+      discountAmount: 0,
+      resaleAmount: 0,
+      margin: 0,
+      marginPercent: null,
+    };
+    line.costAmount += row.costAmount;
+    line.listAmount += row.listAmount;
+    line.discountAmount += row.discountAmount;
+    line.resaleAmount += row.resaleAmount;
+    lines.set(key, line);
+  });
+
+  return Array.from(lines.values()).map((line) => {
+    const margin = roundAmount(line.resaleAmount - line.costAmount);
+    return {
+      ...line,
+      costAmount: roundAmount(line.costAmount),
+      listAmount: roundAmount(line.listAmount),
+      discountAmount: roundAmount(line.discountAmount),
+      resaleAmount: roundAmount(line.resaleAmount),
+      margin,
+      marginPercent: calculateMarginPercent(margin, line.resaleAmount),
+    };
+  });
+};
+
+// Rolls the resale export rows (one per customer, vendor and product) up to
+// the requested level, so the margin view and the export agree on amounts.
+export const buildMarginLines = (
+  rows: ResaleExportRow[],
+  level: MarginLevel,
+): MarginLine[] =>
+  sumRows(
+    rows,
+    (row) => keyForLevel(row, level),
+    (row) => labelForLevel(row, level),
+  );
+
+export const summarizeMarginsByWl = (
+  rows: ResaleExportRow[],
+  wlPartners: WlPartnerMap = new Map(),
+) =>
+  sumRows(
+    rows,
+    (row) => row.wlCode,
+    (row) => ({
+      label: getWlLabel(row.wlCode, wlPartners),
+      detail:
+        row.wlCode && wlPartners.has(row.wlCode) ? `WL ${row.wlCode}` : "",
+    }),
+  ).sort((left, right) => {
+    if (!left.wlCode) return 1;
+    if (!right.wlCode) return -1;
+    return Number(left.wlCode) - Number(right.wlCode);
+  });
+
+export const totalMargins = (rows: ResaleExportRow[]): MarginLine =>
+  sumRows(
+    rows,
+    () => "total",
+    () => ({ label: "I alt", detail: "" }),
+  )[0] ?? {
+    key: "total",
+    label: "I alt",
+    detail: "",
+    wlCode: "",
+    costAmount: 0,
+    listAmount: 0,
+    discountAmount: 0,
+    resaleAmount: 0,
+    margin: 0,
+    marginPercent: null,
+  };
+
+export const classifyMargin = (
+  line: Pick<MarginLine, "margin" | "marginPercent">,
+  thresholdPercent: number,
+): MarginStatus => {
+  if (line.margin < 0) return "negative";
+  if (line.marginPercent !== null && line.marginPercent < thresholdPercent) {
+    return "below-threshold";
+  }
+  return "ok";
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import type { CustomerCard } from "./customerGrouping";
+import {
+  calculateMaxDiscountRate,
+  collectDiscountPricing,
+  describeMarginViolation,
+  evaluateMarginRules,
+  excludeOverriddenPricing,
+  resolveMarginRule,
+  type MarginPricing,
+  type MarginRule,
+} from "./marginRules";
+
+const rules: MarginRule[] = [
+  { vendorName: "*", minMarginPercent: 10, enforcement: "warn" },
+  { vendorName: "Microsoft", minMarginPercent: 5, enforcement: "block" },
+];
+
+const pricing = (
+  vendorName: string,
+  costAmount: number,
+  amount: number,
+): MarginPricing => ({
+  tenantId: "t1",
+  vendorName,
+  productName: "Produkt",
+  costAmount,
+  amount,
+});
+
+describe("resolveMarginRule", () => {
+  it("prefers the vendor rule and falls back to the global rule", () => {
+    expect(resolveMarginRule(rules, "microsoft")?.minMarginPercent).toBe(5);
+    expect(resolveMarginRule(rules, "Keepit")?.vendorName).toBe("*");
+    expect(resolveMarginRule([], "Keepit")).toBeUndefined();
+  });
+});
+
+describe("evaluateMarginRules", () => {
+  it("accepts discounts that keep the minimum margin", () => {
+    // Resale 90 against cost 80 leaves 11.1 % margin.
+    expect(evaluateMarginRules(rules, [pricing("Keepit", 80, 100)], 10)).toEqual(
+      [],
+    );
+  });
+
+  it("reports the margin, minimum and highest allowed rate", () => {
+    const [violation] = evaluateMarginRules(
+      rules,
+      [pricing("Microsoft", 90, 100)],
+      10,
+    );
+
+    expect(violation).toMatchObject({
+      rate: 10,
+      marginPercent: 0,
+      minMarginPercent: 5,
+      enforcement: "block",
+    });
+    // 90 / 0.95 = 94.74 resale, so at most 5.26 % discount.
+    expect(violation.maxRate).toBe(5.26);
+    expect(describeMarginViolation(violation)).toBe(
+      "10 % rabat giver 0 % margin; minimum er 5 % (maks. rabat 5,26 %)",
+    );
+  });
+
+  it("ignores products without a list amount or a rule", () => {
+    expect(
+      evaluateMarginRules(
+        [rules[1]],
+        [pricing("Keepit", 90, 100), pricing("Microsoft", 10, 0)],
+        50,
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("calculateMaxDiscountRate", () => {
+  it("never goes below zero when the cost exceeds the list price", () => {
+    expect(calculateMaxDiscountRate(120, 100, 10)).toBe(0);
+  });
+});
+
+describe("collectDiscountPricing", () => {
+  const customer: CustomerCard = {
+    id: "t1",
+    customerId: null,
+    name: "Acme",
+    vatId: "",
+    domains: [],
+    references: [],
+    subscriptions: ["Teams", "Visio"].map((description, index) => ({
+      id: `sub-${index}`,
+      description,
+      nickname: description,
+      licensQuantity: 1,
+      amount: 80,
+      retailAmount: 100,
+      billingTypeDescription: "Microsoft",
+      entries: [],
+    })),
+  };
+
+  it("collects the products of the targeted customer", () => {
+    const pricing = collectDiscountPricing(
+      [customer, { ...customer, id: "t2" }],
+      "tenant",
+      { tenantId: "t1" },
+    );
+
+    expect(pricing.map((item) => [item.tenantId, item.productName])).toEqual([
+      ["t1", "Teams"],
+      ["t1", "Visio"],
+    ]);
+  });
+});
+
+describe("excludeOverriddenPricing", () => {
+  it("skips products that have a more specific rate of their own", () => {
+    const items = [
+      pricing("Microsoft", 80, 100),
+      { ...pricing("Microsoft", 80, 100), productName: "Visio" },
+    ];
+
+    expect(
+      excludeOverriddenPricing(items, "tenant", (scope, target) =>
+        scope === "product" && target.productName === "Visio" ? 5 : undefined,
+      ),
+    ).toEqual([items[0]]);
+  });
+});
@@ -0,0 +1,195 @@
+import { aggregateVendorsFromSubscriptions } from "./billingCalculations";
+import type { CustomerCard } from "./customerGrouping";
+import {
+  DISCOUNT_SCOPE_ORDER,
+  type DiscountScope,
+  type DiscountTarget,
+} from "./discountScopes";
+
+export type MarginEnforcement = "warn" | "block";
+
+export type MarginRule = {
+  vendorName: string;
+  minMarginPercent: number;
+  enforcement: MarginEnforcement;
+  updatedAt?: string;
+  updatedBy?: string | null;
+};
+
+// Cost and list amount of one product a discount write affects. The server
+// has no invoice data, so writers send these along with the rate.
+export type MarginPricing = {
+  tenantId: string;
+  vendorName: string;
+  productName: string;
+  costAmount: number;
+  amount: number;
+};
+
+export type MarginViolation = {
+  tenantId: string;
+  vendorName: string;
+  productName: string;
+  rate: number;
+  marginPercent: number | null;
+  minMarginPercent: number;
+  maxRate: number;
+  enforcement: MarginEnforcement;
+};
+
+export const MARGIN_RULE_DEFAULT_VENDOR = "*";
+export const MARGIN_BELOW_MINIMUM = "MARGIN_BELOW_MINIMUM";
+export const MARGIN_PRICING_REQUIRED = "MARGIN_PRICING_REQUIRED";
+
+export const marginEnforcementLabels: Record<MarginEnforcement, string> = {
+  warn: "Advar",
+  block: "Blokér",
+};
+
+export const getPricingKey = ({
+  tenantId,
+  vendorName,
+  productName,
+}: Pick<MarginPricing, "tenantId" | "vendorName" | "productName">) =>
+  `${tenantId}|${vendorName.toLowerCase()}|${productName.toLowerCase()}`;
+
+export const resolveMarginRule = (
+  rules: MarginRule[],
+  vendorName: string,
+): MarginRule | undefined => {
+  const normalized = vendorName.toLowerCase();
+  return (
+    rules.find((rule) => rule.vendorName.toLowerCase() === normalized) ??
+    rules.find((rule) => rule.vendorName === MARGIN_RULE_DEFAULT_VENDOR)
+  );
+};
+
+const roundDown = (value: number) => Math.floor(value * 100) / 100;
+
+// Highest discount that keeps the margin at the minimum.
+export const calculateMaxDiscountRate = (
+  costAmount: number,
+  amount: number,
+  minMarginPercent: number,
+) => {
+  const minShare = minMarginPercent / 100;
+  if (minShare >= 1 || amount <= 0) return 0;
+  return Math.min(
+    100,
+    Math.max(0, roundDown((1 - costAmount / ((1 - minShare) * amount)) * 100)),
+  );
+};
+
+// Mirrors findBlockingMarginViolations in server/index.js. The margin is
+// measured against the discounted resale price, which must cover the cost
+// plus the minimum share of itself.
+export const evaluateMarginRules = (
+  rules: MarginRule[],
+  pricing: MarginPricing[],
+  rate: number,
+): MarginViolation[] =>
+  pricing.flatMap((item) => {
+    const rule = resolveMarginRule(rules, item.vendorName);
+    if (!rule || item.amount <= 0) return [];
+
+    const resaleAmount = item.amount * (1 - rate / 100);
+    const minShare = rule.minMarginPercent / 100;
+    if (resaleAmount * (1 - minShare) >= item.costAmount) return [];
+
+    return [
+      {
+        tenantId: item.tenantId,
+        vendorName: item.vendorName,
+        productName: item.productName,
+        rate,
+        marginPercent:
+          resaleAmount > 0
+            ? ((resaleAmount - item.costAmount) / resaleAmount) * 100
+            : null,
+        minMarginPercent: rule.minMarginPercent,
+        maxRate: calculateMaxDiscountRate(
+          item.costAmount,
+          item.amount,
+          rule.minMarginPercent,
+        ),
+        enforcement: rule.enforcement,
+      },
+    ];
+  });
+
+const percentFormatter = new Intl.NumberFormat("da-DK", {
+  maximumFractionDigits: 2,
+});
+
+export const describeMarginViolation = (violation: MarginViolation) => {
+  const margin =
+    violation.marginPercent === null
+      ? "ingen salgspris"
+      : `${percentFormatter.format(violation.marginPercent)} % margin`;
+  return `${violation.rate} % rabat giver ${margin}; minimum er ${percentFormatter.format(
+    violation.minMarginPercent,
+  )} % (maks. rabat ${percentFormatter.format(violation.maxRate)} %)`;
+};
+
+type ScopedRateLookup = (
+  scope: DiscountScope,
+  target: DiscountTarget,
+) => number | undefined;
+
+// Products on the invoice that a write to `scope`/`target` covers. The server
+// is sent all of them and skips those a more specific rate overrides itself,
+// so a rate that reaches no product is not refused for lack of prices.
+export const collectDiscountPricing = (
+  customers: CustomerCard[],
+  scope: DiscountScope,
+  target: DiscountTarget,
+): MarginPricing[] => {
+  const vendorFilter = target.vendorName?.toLowerCase();
+  const productFilter = target.productName?.toLowerCase();
+
+  return customers
+    .filter(
+      (customer) =>
+        scope === "global-vendor" || customer.id === target.tenantId,
+    )
+    .flatMap((customer) =>
+      aggregateVendorsFromSubscriptions(customer.subscriptions)
+        .filter(
+          (vendor) =>
+            !vendorFilter || vendor.vendorName.toLowerCase() === vendorFilter,
+        )
+        .flatMap((vendor) =>
+          vendor.products
+            .filter(
+              (product) =>
+                scope !== "product" ||
+                product.displayName.toLowerCase() === productFilter,
+            )
+            .map((product) => ({
+              tenantId: customer.id,
+              vendorName: vendor.vendorName,
+              productName: product.displayName,
+              costAmount: product.costAmount,
+              amount: product.amount,
+            })),
+        ),
+    );
+};
+
+// The products whose price the rate actually changes: a product is skipped
+// when a more specific scope already has its own rate.
+export const excludeOverriddenPricing = (
+  pricing: MarginPricing[],
+  scope: DiscountScope,
+  getScopedRate: ScopedRateLookup,
+): MarginPricing[] => {
+  const moreSpecificScopes = DISCOUNT_SCOPE_ORDER.slice(
+    0,
+    DISCOUNT_SCOPE_ORDER.indexOf(scope),
+  );
+  return pricing.filter((item) =>
+    moreSpecificScopes.every(
+      (specificScope) => getScopedRate(specificScope, item) === undefined,
+    ),
+  );
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { parsePartnerAccounts } from "./partners";
+
+describe("parsePartnerAccounts", () => {
+  it("parses ids with optional labels", () => {
+    expect(
+      parsePartnerAccounts(
+        "885A11B7-E83A-4E6A-8656-E01DE8DDDBFB:ipnordic A/S, 0f3c2a1e-1111-4222-8333-944455556666",
+      ),
+    ).toEqual([
+      { id: "885a11b7-e83a-4e6a-8656-e01de8dddbfb", label: "ipnordic A/S" },
+      { id: "0f3c2a1e-1111-4222-8333-944455556666", label: "" },
+    ]);
+  });
+
+  it("skips invalid and duplicate entries", () => {
+    expect(
+      parsePartnerAccounts(
+        "not-a-guid:Test,,885a11b7-e83a-4e6a-8656-e01de8dddbfb:A,885a11b7-e83a-4e6a-8656-e01de8dddbfb:B",
+      ),
+    ).toEqual([{ id: "885a11b7-e83a-4e6a-8656-e01de8dddbfb", label: "A" }]);
+  });
+});
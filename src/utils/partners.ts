@@ -0,0 +1,46 @@
+import { readRuntimeConfig } from "./runtimeConfig";
+
+export type PartnerAccount = {
+  id: string;
+  // Optional label from the configuration; the API's partner name wins once
+  // the account has been loaded.
+  label: string;
+};
+
+// The original single partner account, used when no list is configured.
+export const DEFAULT_PARTNER_ID = "885a11b7-e83a-4e6a-8656-e01de8dddbfb";
+
+export const PARTNER_SEARCH_PARAM = "partner";
+
+// The server keeps discounts, re-billing runs and the Cloud Factory session
+// per partner account and reads the account from this header.
+export const PARTNER_HEADER = "X-Partner-Id";
+
+const GUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Format: `guid:Navn,guid:Navn`. The label is optional and may contain colons.
+export const parsePartnerAccounts = (value: string): PartnerAccount[] => {
+  const accounts: PartnerAccount[] = [];
+  value.split(",").forEach((entry) => {
+    const separatorIndex = entry.indexOf(":");
+    const hasLabel = separatorIndex !== -1;
+    const id = (hasLabel ? entry.slice(0, separatorIndex) : entry)
+      .trim()
+      .toLowerCase();
+    if (!GUID_PATTERN.test(id)) return;
+    if (accounts.some((account) => account.id === id)) return;
+    accounts.push({
+      id,
+      label: hasLabel ? entry.slice(separatorIndex + 1).trim() : "",
+    });
+  });
+  return accounts;
+};
+
+export const getPartnerAccounts = (): PartnerAccount[] => {
+  const accounts = parsePartnerAccounts(readRuntimeConfig("VITE_PARTNERS"));
+  return accounts.length > 0
+    ? accounts
+    : [{ id: DEFAULT_PARTNER_ID, label: "" }];
+};
@@ -0,0 +1,35 @@
+// Mirrors ROLE_PERMISSIONS in server/index.js. The server enforces the
+// rules; the client only uses them to hide actions a role cannot perform.
+export type UserRole = "viewer" | "sales" | "finance-admin";
+
+export type Permission =
+  | "discounts:write"
+  | "discounts:admin"
+  | "customers:write"
+  | "rebilling:write"
+  | "accounting:write"
+  | "cf-session:write"
+  | "users:admin";
+
+export type CurrentUser = {
+  id: number;
+  username: string;
+  displayName: string;
+  role: UserRole;
+  disabled: boolean;
+  createdAt: string;
+  permissions: Permission[];
+};
+
+export const USER_ROLES: UserRole[] = ["viewer", "sales", "finance-admin"];
+
+export const roleLabels: Record<UserRole, string> = {
+  viewer: "Læseadgang",
+  sales: "Salg",
+  "finance-admin": "Økonomi-admin",
+};
+
+export const hasPermission = (
+  user: CurrentUser | null | undefined,
+  permission: Permission,
+) => Boolean(user?.permissions.includes(permission));
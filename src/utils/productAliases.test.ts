@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type {
+  InvoiceDetail,
+  InvoiceSubscriptionBreakdown,
+} from "../types/invoice";
+import { aggregateVendorsFromSubscriptions } from "./billingCalculations";
+import {
+  applyProductAliases,
+  groupProductAliases,
+  type ProductAlias,
+} from "./productAliases";
+
+const buildSubscription = (
+  id: string,
+  description: string,
+): InvoiceSubscriptionBreakdown => ({
+  id,
+  description,
+  nickname: description,
+  licensQuantity: 2,
+  amount: 80,
+  retailAmount: 100,
+  billingTypeDescription: "Microsoft",
+  entries: [],
+});
+
+const aliases: ProductAlias[] = [
+  {
+    alias: "Microsoft 365 Business Basic (Annual)",
+    canonicalName: "Microsoft 365 Business Basic",
+  },
+  { alias: "Office 365 E1", canonicalName: "Microsoft 365 E1" },
+];
+
+describe("applyProductAliases", () => {
+  it("merges aliased labels into the canonical product", () => {
+    const detail = {
+      tenants: [
+        {
+          id: "t1",
+          subscriptions: [
+            buildSubscription("sub-1", "Microsoft 365 Business Basic"),
+            buildSubscription(
+              "sub-2",
+              "(NCE) Microsoft 365  Business Basic (annual)",
+            ),
+          ],
+        },
+      ],
+    } as InvoiceDetail;
+
+    const [tenant] = applyProductAliases(detail, aliases)?.tenants ?? [];
+    const [vendor] = aggregateVendorsFromSubscriptions(tenant.subscriptions);
+
+    expect(vendor.products).toHaveLength(1);
+    expect(vendor.products[0]).toMatchObject({
+      displayName: "Microsoft 365 Business Basic",
+      licenses: 4,
+    });
+  });
+});
+
+describe("groupProductAliases", () => {
+  it("groups aliases by canonical product", () => {
+    expect(
+      groupProductAliases([
+        ...aliases,
+        { alias: "M365 Basic", canonicalName: "microsoft 365 business basic" },
+      ]).map((group) => [group.canonicalName, group.aliases.length]),
+    ).toEqual([
+      ["Microsoft 365 Business Basic", 2],
+      ["Microsoft 365 E1", 1],
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import type { InvoiceDetail } from "../types/invoice";
+import {
+  getSubscriptionProductLabel,
+  normalizeLabel,
+} from "./billingCalculations";
+
+export type ProductAlias = {
+  alias: string;
+  canonicalName: string;
+  updatedAt?: string;
+  updatedBy?: string | null;
+};
+
+export type ProductAliasGroup = {
+  canonicalName: string;
+  aliases: ProductAlias[];
+};
+
+// Keyed by the normalized alias, matching the server's alias_key.
+export const buildProductAliasMap = (aliases: ProductAlias[]) =>
+  new Map(
+    aliases.map((entry) => [normalizeLabel(entry.alias), entry.canonicalName]),
+  );
+
+export const resolveProductAlias = (
+  label: string,
+  aliasMap: Map<string, string>,
+) => aliasMap.get(normalizeLabel(label)) ?? label;
+
+export const groupProductAliases = (
+  aliases: ProductAlias[],
+): ProductAliasGroup[] => {
+  const groups = new Map<string, ProductAliasGroup>();
+  aliases.forEach((entry) => {
+    const key = normalizeLabel(entry.canonicalName);
+    const group = groups.get(key) ?? {
+      canonicalName: entry.canonicalName,
+      aliases: [],
+    };
+    group.aliases.push(entry);
+    groups.set(key, group);
+  });
+  return Array.from(groups.values()).sort((a, b) =>
+    a.canonicalName.localeCompare(b.canonicalName, "da"),
+  );
+};
+
+// Renamed products merge into their canonical product on every view that
+// aggregates subscriptions. Run after the vendor rules.
+export const applyProductAliases = (
+  detail: InvoiceDetail | null,
+  aliases: ProductAlias[],
+): InvoiceDetail | null => {
+  if (!detail || aliases.length === 0) return detail;
+  const aliasMap = buildProductAliasMap(aliases);
+
+  return {
+    ...detail,
+    tenants: detail.tenants?.map((tenant) => ({
+      ...tenant,
+      subscriptions: tenant.subscriptions.map((sub) => {
+        const canonicalName = aliasMap.get(
+          normalizeLabel(getSubscriptionProductLabel(sub)),
+        );
+        return canonicalName
+          ? { ...sub, canonicalProductName: canonicalName }
+          : sub;
+      }),
+    })),
+  };
+};
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import type {
+  InvoiceSubscriptionBreakdown,
+  InvoiceTenantEntry,
+} from "../types/invoice";
+import type { CustomerCard } from "./customerGrouping";
+import {
+  buildProductCatalogue,
+  filterCatalogueProducts,
+  sortCatalogueProducts,
+} from "./productCatalogue";
+
+const buildEntry = (
+  skuId: string,
+  licensQuantity: number,
+  amount: number,
+  overrides: Partial<InvoiceTenantEntry> = {},
+): InvoiceTenantEntry => ({
+  productId: "CFQ7TTC0LCHC",
+  skuId,
+  description: "Microsoft 365 Business Premium",
+  nickname: "Microsoft 365 Business Premium",
+  licensQuantity,
+  quantity: licensQuantity,
+  unitPrice: 150,
+  retailUnitPrice: 180,
+  amount,
+  retailAmount: amount * 1.2,
+  ...overrides,
+});
+
+const buildSubscription = (
+  licensQuantity: number,
+  entries: InvoiceTenantEntry[],
+): InvoiceSubscriptionBreakdown => ({
+  id: `sub-${licensQuantity}`,
+  description: "Microsoft 365 Business Premium",
+  nickname: "Microsoft 365 Business Premium",
+  licensQuantity,
+  amount: entries.reduce((sum, entry) => sum + (entry.amount ?? 0), 0),
+  retailAmount: 0,
+  vendor: {
+    vendorName: "Microsoft",
+    amountSource: "retail",
+    quantityUnit: "licenses",
+  },
+  entries,
+});
+
+const buildCustomer = (
+  id: string,
+  name: string,
+  subscriptions: InvoiceSubscriptionBreakdown[],
+): CustomerCard => ({
+  id,
+  customerId: null,
+  name,
+  vatId: "",
+  domains: [],
+  references: [],
+  subscriptions,
+});
+
+const customers = [
+  buildCustomer("t1", "Acme", [
+    buildSubscription(10, [
+      buildEntry("0001", 10, 1500),
+      buildEntry("0001", -2, -300, { invoicingType: "Refund" }),
+    ]),
+  ]),
+  buildCustomer("t2", "Beta", [
+    buildSubscription(5, [
+      buildEntry("0001", 3, 450),
+      buildEntry("0002", 2, 280, { unitPrice: 140 }),
+    ]),
+  ]),
+];
+
+describe("buildProductCatalogue", () => {
+  it("groups entry lines by product and SKU across customers", () => {
+    const catalogue = buildProductCatalogue(customers, (tenantId) =>
+      tenantId === "t1" ? 10 : undefined,
+    );
+
+    expect(catalogue).toHaveLength(2);
+    const [premium, other] = catalogue;
+    expect(premium).toMatchObject({
+      key: "CFQ7TTC0LCHC/0001",
+      vendorName: "Microsoft",
+      productName: "Microsoft 365 Business Premium",
+      totalSeats: 13,
+      costAmount: 1650,
+      costUnitPrice: { min: 150, max: 150 },
+      retailUnitPrice: { min: 180, max: 180 },
+      discountRange: { min: 0, max: 10 },
+    });
+    expect(
+      premium.holders.map(({ customerName, seats, discountRate }) => ({
+        customerName,
+        seats,
+        discountRate,
+      })),
+    ).toEqual([
+      { customerName: "Acme", seats: 10, discountRate: 10 },
+      { customerName: "Beta", seats: 3, discountRate: 0 },
+    ]);
+    expect(other).toMatchObject({
+      skuId: "0002",
+      totalSeats: 2,
+      costUnitPrice: { min: 140, max: 140 },
+    });
+  });
+
+  it("stands in a subscription without entry lines for one line", () => {
+    const [product] = buildProductCatalogue(
+      [buildCustomer("t1", "Acme", [buildSubscription(4, [])])],
+      () => undefined,
+    );
+
+    expect(product).toMatchObject({
+      key: "sub-4/sub-4",
+      totalSeats: 4,
+      costUnitPrice: null,
+      discountRange: { min: 0, max: 0 },
+    });
+  });
+});
+
+describe("filterCatalogueProducts and sortCatalogueProducts", () => {
+  it("matches SKUs and orders by seats", () => {
+    const catalogue = buildProductCatalogue(customers, () => undefined);
+
+    expect(
+      filterCatalogueProducts(catalogue, "0002").map((product) => product.key),
+    ).toEqual(["CFQ7TTC0LCHC/0002"]);
+    expect(
+      sortCatalogueProducts(catalogue, "seats").map(
+        (product) => product.totalSeats,
+      ),
+    ).toEqual([13, 2]);
+  });
+});
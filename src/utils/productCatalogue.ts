@@ -0,0 +1,233 @@
+import type {
+  InvoiceSubscriptionBreakdown,
+  InvoiceTenantEntry,
+  QuantityUnit,
+} from "../types/invoice";
+import {
+  getSubscriptionProductLabel,
+  resolveSubscriptionVendor,
+} from "./billingCalculations";
+import type { CustomerCard } from "./customerGrouping";
+import type { DiscountLookup } from "./resaleExport";
+
+export type PriceRange = { min: number; max: number };
+
+// One customer's holding of a catalogue product.
+export type CatalogueHolder = {
+  tenantId: string;
+  customerId: number | null;
+  customerName: string;
+  seats: number;
+  costAmount: number;
+  retailAmount: number;
+  discountRate: number;
+};
+
+export type CatalogueProduct = {
+  key: string;
+  productId: string;
+  skuId: string;
+  vendorName: string;
+  productName: string;
+  quantityUnit: QuantityUnit;
+  totalSeats: number;
+  costAmount: number;
+  retailAmount: number;
+  costUnitPrice: PriceRange | null;
+  retailUnitPrice: PriceRange | null;
+  discountRange: PriceRange | null;
+  holders: CatalogueHolder[];
+};
+
+export type CatalogueSortKey = "seats" | "customers" | "name";
+
+type ProductAccumulator = Omit<
+  CatalogueProduct,
+  "costUnitPrice" | "retailUnitPrice" | "discountRange" | "holders"
+> & {
+  costUnitPrices: number[];
+  retailUnitPrices: number[];
+  holders: Map<string, CatalogueHolder>;
+};
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const toRange = (values: number[]): PriceRange | null =>
+  values.length === 0
+    ? null
+    : { min: Math.min(...values), max: Math.max(...values) };
+
+// Refund rows credit seats leaving a plan; they carry money but no seats.
+const isRefundEntry = (entry: InvoiceTenantEntry) => {
+  const quantity = entry.quantity ?? entry.days ?? null;
+  return (
+    entry.invoicingType?.trim().toLowerCase() === "refund" ||
+    (quantity !== null && quantity < 0)
+  );
+};
+
+const getEntrySku = (entry: InvoiceTenantEntry) => ({
+  productId: entry.productId,
+  skuId: entry.skuId || entry.productId,
+});
+
+// Entry lines of a subscription grouped by SKU. A subscription without lines
+// stands in for one line with its own totals.
+const groupEntriesBySku = (sub: InvoiceSubscriptionBreakdown) => {
+  const entries: InvoiceTenantEntry[] =
+    sub.entries.length > 0
+      ? sub.entries
+      : [
+          {
+            productId: sub.id,
+            skuId: sub.id,
+            description: sub.description,
+            nickname: sub.nickname,
+            licensQuantity: sub.licensQuantity,
+            amount: sub.amount,
+            retailAmount: sub.retailAmount,
+          },
+        ];
+  const groups = new Map<string, InvoiceTenantEntry[]>();
+  entries.forEach((entry) => {
+    const { productId, skuId } = getEntrySku(entry);
+    const key = `${productId}/${skuId}`;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  });
+  return groups;
+};
+
+// Flattens every subscription and entry line of the grouped customers into
+// one row per product/SKU. A subscription billed on a single SKU counts its
+// own seat total, as the customer cards do; with several SKUs each SKU
+// counts the seats on its non-refund lines.
+export const buildProductCatalogue = (
+  customers: CustomerCard[],
+  getDiscountRate: DiscountLookup,
+): CatalogueProduct[] => {
+  const products = new Map<string, ProductAccumulator>();
+
+  customers.forEach((customer) => {
+    customer.subscriptions.forEach((sub) => {
+      const vendor = resolveSubscriptionVendor(sub);
+      const { vendorName } = vendor;
+      const productName = getSubscriptionProductLabel(sub);
+      const skuGroups = groupEntriesBySku(sub);
+
+      skuGroups.forEach((entries, key) => {
+        const { productId, skuId } = getEntrySku(entries[0]);
+        const product = products.get(key) ?? {
+          key,
+          productId,
+          skuId,
+          vendorName,
+          productName,
+          quantityUnit: vendor.quantityUnit,
+          totalSeats: 0,
+          costAmount: 0,
+          retailAmount: 0,
+          costUnitPrices: [],
+          retailUnitPrices: [],
+          holders: new Map<string, CatalogueHolder>(),
+        };
+
+        const seats =
+          skuGroups.size === 1
+            ? (sub.licensQuantity ?? 0)
+            : entries
+                .filter((entry) => !isRefundEntry(entry))
+                .reduce(
+                  (sum, entry) =>
+                    sum + (entry.licensQuantity ?? entry.quantity ?? 0),
+                  0,
+                );
+        const costAmount = entries.reduce(
+          (sum, entry) => sum + (entry.amount ?? 0),
+          0,
+        );
+        const retailAmount = entries.reduce(
+          (sum, entry) => sum + (entry.retailAmount ?? entry.amount ?? 0),
+          0,
+        );
+        entries
+          .filter((entry) => !isRefundEntry(entry))
+          .forEach((entry) => {
+            if (typeof entry.unitPrice === "number") {
+              product.costUnitPrices.push(entry.unitPrice);
+            }
+            if (typeof entry.retailUnitPrice === "number") {
+              product.retailUnitPrices.push(entry.retailUnitPrice);
+            }
+          });
+
+        const holder = product.holders.get(customer.id) ?? {
+          tenantId: customer.id,
+          customerId: customer.customerId,
+          customerName: customer.name,
+          seats: 0,
+          costAmount: 0,
+          retailAmount: 0,
+          discountRate:
+            getDiscountRate(customer.id, vendorName, productName) ?? 0,
+        };
+        holder.seats += seats;
+        holder.costAmount = roundAmount(holder.costAmount + costAmount);
+        holder.retailAmount = roundAmount(holder.retailAmount + retailAmount);
+        product.holders.set(customer.id, holder);
+
+        product.totalSeats += seats;
+        product.costAmount = roundAmount(product.costAmount + costAmount);
+        product.retailAmount = roundAmount(product.retailAmount + retailAmount);
+        products.set(key, product);
+      });
+    });
+  });
+
+  return Array.from(products.values()).map(
+    ({ costUnitPrices, retailUnitPrices, holders, ...product }) => {
+      const holderList = Array.from(holders.values()).sort(
+        (a, b) =>
+          b.seats - a.seats || a.customerName.localeCompare(b.customerName),
+      );
+      return {
+        ...product,
+        costUnitPrice: toRange(costUnitPrices),
+        retailUnitPrice: toRange(retailUnitPrices),
+        discountRange: toRange(
+          holderList.map((holder) => holder.discountRate),
+        ),
+        holders: holderList,
+      };
+    },
+  );
+};
+
+export const filterCatalogueProducts = (
+  products: CatalogueProduct[],
+  search: string,
+) => {
+  const normalizedSearch = search.trim().toLowerCase();
+  if (!normalizedSearch) return products;
+  return products.filter((product) =>
+    [product.productName, product.vendorName, product.productId, product.skuId]
+      .filter(Boolean)
+      .some((value) => value.toLowerCase().includes(normalizedSearch)),
+  );
+};
+
+export const sortCatalogueProducts = (
+  products: CatalogueProduct[],
+  sortKey: CatalogueSortKey,
+) =>
+  [...products].sort((a, b) => {
+    if (sortKey === "seats" && b.totalSeats !== a.totalSeats) {
+      return b.totalSeats - a.totalSeats;
+    }
+    if (sortKey === "customers" && b.holders.length !== a.holders.length) {
+      return b.holders.length - a.holders.length;
+    }
+    return (
+      a.productName.localeCompare(b.productName, "da") ||
+      a.vendorName.localeCompare(b.vendorName, "da")
+    );
+  });
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import type {
+  InvoiceSubscriptionBreakdown,
+  InvoiceTenantEntry,
+} from "../types/invoice";
+import {
+  buildProrationTimeline,
+  countDays,
+  getTimelineOffsets,
+  hasProratedLines,
+} from "./prorationTimeline";
+
+const buildEntry = (
+  overrides: Partial<InvoiceTenantEntry>,
+): InvoiceTenantEntry => ({
+  productId: "CFQ7TTC0LCHC",
+  skuId: "0001",
+  description: "Microsoft 365 Business Premium",
+  nickname: "Microsoft 365 Business Premium",
+  unitPrice: 155,
+  billingStartDate: "2026-09-01",
+  billingEndDate: "2026-09-30",
+  billing: "Monthly",
+  commitment: "Annual",
+  ...overrides,
+});
+
+const buildSubscription = (
+  entries: InvoiceTenantEntry[],
+): InvoiceSubscriptionBreakdown => ({
+  id: "sub-1",
+  description: "Microsoft 365 Business Premium",
+  nickname: "Microsoft 365 Business Premium",
+  licensQuantity: 15,
+  amount: entries.reduce((sum, entry) => sum + (entry.amount ?? 0), 0),
+  retailAmount: 0,
+  entries,
+});
+
+// Ten seats for September, raised to fifteen from the 16th.
+const upgrade = buildSubscription([
+  buildEntry({ quantity: 10, amount: 1550 }),
+  buildEntry({
+    invoicingType: "Refund",
+    quantity: -10,
+    startDate: "2026-09-16",
+    endDate: "2026-09-30",
+    amount: -775,
+  }),
+  buildEntry({
+    quantity: 15,
+    startDate: "2026-09-16",
+    endDate: "2026-09-30",
+    amount: 1162.5,
+  }),
+]);
+
+describe("buildProrationTimeline", () => {
+  it("explains each charge and credit of a mid-period change", () => {
+    const [sub] = buildProrationTimeline([upgrade]);
+
+    expect(sub).toMatchObject({
+      subscriptionId: "sub-1",
+      productName: "Microsoft 365 Business Premium",
+      timelineStart: "2026-09-01",
+      timelineEnd: "2026-09-30",
+      chargedAmount: 2712.5,
+      creditedAmount: -775,
+      netAmount: 1937.5,
+    });
+    expect(
+      sub.lines.map((line) => ({
+        kind: line.kind,
+        startDate: line.startDate,
+        days: line.days,
+        periodDays: line.periodDays,
+        isPartial: line.isPartial,
+        quantity: line.quantity,
+        expectedAmount: line.expectedAmount,
+      })),
+    ).toEqual([
+      {
+        kind: "charge",
+        startDate: "2026-09-01",
+        days: 30,
+        periodDays: 30,
+        isPartial: false,
+        quantity: 10,
+        expectedAmount: 1550,
+      },
+      {
+        kind: "credit",
+        startDate: "2026-09-16",
+        days: 15,
+        periodDays: 30,
+        isPartial: true,
+        quantity: -10,
+        expectedAmount: -775,
+      },
+      {
+        kind: "charge",
+        startDate: "2026-09-16",
+        days: 15,
+        periodDays: 30,
+        isPartial: true,
+        quantity: 15,
+        expectedAmount: 1162.5,
+      },
+    ]);
+  });
+
+  it("prefers the billed days over the dates and leaves unknowns empty", () => {
+    const [sub] = buildProrationTimeline([
+      buildSubscription([
+        buildEntry({ days: 10, quantity: 2, amount: 103.33 }),
+        buildEntry({
+          unitPrice: undefined,
+          billingStartDate: undefined,
+          billingEndDate: undefined,
+          quantity: 1,
+          amount: 50,
+        }),
+      ]),
+    ]);
+
+    expect(sub.lines[0]).toMatchObject({
+      days: null,
+      periodDays: null,
+      expectedAmount: null,
+      isPartial: false,
+    });
+    expect(sub.lines[1]).toMatchObject({
+      days: 10,
+      periodDays: 30,
+      isPartial: true,
+      expectedAmount: 103.33,
+    });
+  });
+});
+
+describe("hasProratedLines", () => {
+  it("is false for one full-period line", () => {
+    expect(
+      hasProratedLines([
+        buildSubscription([buildEntry({ quantity: 10, amount: 1550 })]),
+      ]),
+    ).toBe(false);
+    expect(hasProratedLines([upgrade])).toBe(true);
+  });
+});
+
+describe("getTimelineOffsets", () => {
+  it("places a line within its subscription period", () => {
+    const [sub] = buildProrationTimeline([upgrade]);
+
+    expect(countDays("2026-09-01", "2026-09-30")).toBe(30);
+    expect(getTimelineOffsets(sub, sub.lines[0])).toEqual({
+      left: 0,
+      width: 100,
+    });
+    expect(getTimelineOffsets(sub, sub.lines[2])).toEqual({
+      left: 50,
+      width: 50,
+    });
+  });
+});
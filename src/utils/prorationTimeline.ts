@@ -0,0 +1,200 @@
+import type {
+  InvoiceSubscriptionBreakdown,
+  InvoiceTenantEntry,
+} from "../types/invoice";
+import {
+  getSubscriptionProductLabel,
+  getSubscriptionVendorName,
+  normalizeLabel,
+} from "./billingCalculations";
+
+export type ProrationLineKind = "charge" | "credit";
+
+// One entry line of a subscription, with the part of the billing period it
+// covers.
+export type ProrationLine = {
+  key: string;
+  kind: ProrationLineKind;
+  label: string;
+  startDate: string | null;
+  endDate: string | null;
+  billingStartDate: string | null;
+  billingEndDate: string | null;
+  days: number | null;
+  periodDays: number | null;
+  isPartial: boolean;
+  quantity: number;
+  unitPrice: number | null;
+  amount: number;
+  retailAmount: number;
+  // Unit price × quantity × days / period days. Null when the line lacks a
+  // unit price or a period to prorate against.
+  expectedAmount: number | null;
+  billing?: string;
+  commitment?: string;
+};
+
+export type ProrationSubscription = {
+  subscriptionId: string;
+  productName: string;
+  seats: number;
+  timelineStart: string | null;
+  timelineEnd: string | null;
+  lines: ProrationLine[];
+  chargedAmount: number;
+  creditedAmount: number;
+  netAmount: number;
+};
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const toDate = (value: string | undefined) => value?.slice(0, 10) || null;
+
+// Both ends count as billed days, as on the Cloud Factory billing file.
+export const countDays = (start: string | null, end: string | null) => {
+  if (!start || !end) return null;
+  const days =
+    Math.round((Date.parse(end) - Date.parse(start)) / MS_PER_DAY) + 1;
+  return days > 0 ? days : null;
+};
+
+const isCreditEntry = (entry: InvoiceTenantEntry) => {
+  const quantity = entry.quantity ?? entry.days ?? null;
+  return (
+    entry.invoicingType?.trim().toLowerCase() === "refund" ||
+    (quantity !== null && quantity < 0) ||
+    (entry.amount ?? 0) < 0
+  );
+};
+
+const buildProrationLine = (
+  entry: InvoiceTenantEntry,
+  index: number,
+  fallbackLabel: string,
+): ProrationLine => {
+  const kind: ProrationLineKind = isCreditEntry(entry) ? "credit" : "charge";
+  const billingStartDate = toDate(entry.billingStartDate);
+  const billingEndDate = toDate(entry.billingEndDate);
+  const startDate = toDate(entry.startDate) ?? billingStartDate;
+  const endDate = toDate(entry.endDate) ?? billingEndDate;
+  const periodDays = countDays(billingStartDate, billingEndDate);
+  const days =
+    typeof entry.days === "number" && entry.days !== 0
+      ? Math.abs(entry.days)
+      : countDays(startDate, endDate);
+  const quantity = Math.abs(entry.quantity ?? entry.licensQuantity ?? 0);
+  const unitPrice =
+    typeof entry.unitPrice === "number" ? entry.unitPrice : null;
+  const amount = entry.amount ?? 0;
+  const sign = kind === "credit" ? -1 : 1;
+  const share = days !== null && periodDays ? days / periodDays : null;
+
+  return {
+    key: `${index}`,
+    kind,
+    label: entry.description?.trim() || fallbackLabel,
+    startDate,
+    endDate,
+    billingStartDate,
+    billingEndDate,
+    days,
+    periodDays,
+    isPartial: share !== null && share < 1,
+    quantity: sign * quantity,
+    unitPrice,
+    amount,
+    retailAmount: entry.retailAmount ?? amount,
+    expectedAmount:
+      unitPrice !== null && share !== null
+        ? roundAmount(sign * unitPrice * quantity * share)
+        : null,
+    billing: entry.billing || undefined,
+    commitment: entry.commitment || undefined,
+  };
+};
+
+const compareNullableDates = (a: string | null, b: string | null) =>
+  (a ?? "").localeCompare(b ?? "");
+
+// Every charge and credit of each subscription in period order, so a
+// mid-period change reads as the credit for the old seats followed by the
+// charges for the new ones.
+export const buildProrationTimeline = (
+  subscriptions: InvoiceSubscriptionBreakdown[],
+): ProrationSubscription[] =>
+  subscriptions.map((sub) => {
+    const productName = getSubscriptionProductLabel(sub);
+    const lines = sub.entries
+      .map((entry, index) => buildProrationLine(entry, index, productName))
+      .sort(
+        (a, b) =>
+          compareNullableDates(a.startDate, b.startDate) ||
+          (a.kind === b.kind ? 0 : a.kind === "credit" ? -1 : 1),
+      );
+    const dates = lines
+      .flatMap((line) => [
+        line.billingStartDate ?? line.startDate,
+        line.billingEndDate ?? line.endDate,
+      ])
+      .filter((date): date is string => Boolean(date))
+      .sort();
+    const chargedAmount = lines
+      .filter((line) => line.kind === "charge")
+      .reduce((sum, line) => sum + line.amount, 0);
+    const creditedAmount = lines
+      .filter((line) => line.kind === "credit")
+      .reduce((sum, line) => sum + line.amount, 0);
+
+    return {
+      subscriptionId: sub.id,
+      productName,
+      seats: sub.licensQuantity ?? 0,
+      timelineStart: dates[0] ?? null,
+      timelineEnd: dates.at(-1) ?? null,
+      lines,
+      chargedAmount: roundAmount(chargedAmount),
+      creditedAmount: roundAmount(creditedAmount),
+      netAmount: roundAmount(chargedAmount + creditedAmount),
+    };
+  });
+
+// The subscriptions behind one product row of the vendor breakdown.
+export const findProductSubscriptions = (
+  subscriptions: InvoiceSubscriptionBreakdown[],
+  vendorName: string,
+  productName: string,
+) =>
+  subscriptions.filter(
+    (sub) =>
+      getSubscriptionVendorName(sub) === vendorName &&
+      normalizeLabel(getSubscriptionProductLabel(sub)) ===
+        normalizeLabel(productName),
+  );
+
+// Whether the subscriptions have anything a timeline explains beyond one
+// full-period line each.
+export const hasProratedLines = (
+  subscriptions: InvoiceSubscriptionBreakdown[],
+) =>
+  buildProrationTimeline(subscriptions).some(
+    (sub) =>
+      sub.lines.length > 1 ||
+      sub.lines.some((line) => line.isPartial || line.kind === "credit"),
+  );
+
+// Position of a line on its subscription's timeline, as percentages.
+export const getTimelineOffsets = (
+  sub: Pick<ProrationSubscription, "timelineStart" | "timelineEnd">,
+  line: Pick<ProrationLine, "startDate" | "endDate">,
+) => {
+  const totalDays = countDays(sub.timelineStart, sub.timelineEnd);
+  const days = countDays(line.startDate, line.endDate);
+  if (!totalDays || !days || !sub.timelineStart || !line.startDate) {
+    return { left: 0, width: 100 };
+  }
+  const offset = (countDays(sub.timelineStart, line.startDate) ?? 1) - 1;
+  const left = Math.min(Math.max((offset / totalDays) * 100, 0), 100);
+  return { left, width: Math.min((days / totalDays) * 100, 100 - left) };
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { CustomerCard } from "./customerGrouping";
+import { buildRebillingDrafts, summarizeDrafts } from "./rebilling";
+import { buildWlPartnerMap } from "./wlPartners";
+
+const buildCustomer = (
+  id: string,
+  subscriptions: Array<[string, number]>,
+): CustomerCard => ({
+  id,
+  customerId: null,
+  name: `Kunde ${id}`,
+  vatId: "",
+  domains: [],
+  references: [`WL74 ${id}`],
+  subscriptions: subscriptions.map(([description, amount], index) => ({
+    id: `${id}-sub-${index}`,
+    description,
+    nickname: description,
+    licensQuantity: 1,
+    amount,
+    retailAmount: amount,
+    billingTypeDescription: "Cisco",
+    entries: [],
+  })),
+});
+
+describe("buildRebillingDrafts", () => {
+  it("creates one draft per customer with discounted lines and VAT", () => {
+    const drafts = buildRebillingDrafts(
+      [
+        buildCustomer("a", [
+          ["Calling", 100],
+          ["Meetings", 50],
+        ]),
+        buildCustomer("b", [["Calling", 80]]),
+      ],
+      (tenantId, _vendor, product) =>
+        tenantId === "a" && product === "Calling" ? 20 : undefined,
+    );
+
+    expect(drafts).toHaveLength(2);
+    expect(drafts[0]).toMatchObject({
+      tenantId: "a",
+      wlCode: "74",
+      subtotal: 130,
+      vatAmount: 32.5,
+      total: 162.5,
+    });
+    expect(drafts[0].lines.map((line) => line.amount)).toEqual([80, 50]);
+    expect(summarizeDrafts(drafts)).toEqual({
+      subtotal: 210,
+      vatAmount: 52.5,
+      total: 262.5,
+    });
+  });
+
+  it("skips customers of WL partners excluded from exports", () => {
+    const drafts = buildRebillingDrafts(
+      [buildCustomer("a", [["Calling", 100]])],
+      () => undefined,
+      buildWlPartnerMap([
+        {
+          code: "74",
+          displayName: "Enreach Hjørring",
+          contactName: "",
+          contactEmail: "",
+          defaultDiscountRate: null,
+          exportLabel: "",
+          includeInExports: false,
+        },
+      ]),
+    );
+
+    expect(drafts).toEqual([]);
+  });
+});
@@ -0,0 +1,179 @@
+import type { CustomerCard } from "./customerGrouping";
+import { buildCsv } from "./csv";
+import { buildResaleExportRows, type DiscountLookup } from "./resaleExport";
+import {
+  getWlExportLabel,
+  isWlExported,
+  type WlPartnerMap,
+} from "./wlPartners";
+import { buildXlsx, type SheetCell, type SheetColumn } from "./xlsx";
+
+// Danish standard VAT; the server applies the same rate when it recalculates
+// draft totals.
+export const REBILLING_VAT_RATE = 0.25;
+
+export type RebillingLine = {
+  vendorName: string;
+  productName: string;
+  quantity: number;
+  quantityUnit: string;
+  billing: string;
+  commitment: string;
+  amountBeforeDiscount: number;
+  discountRate: number;
+  amount: number;
+};
+
+export type RebillingDraft = {
+  tenantId: string;
+  customerName: string;
+  customerReference: string;
+  wlCode: string;
+  lines: RebillingLine[];
+  subtotal: number;
+  vatAmount: number;
+  total: number;
+};
+
+export type RebillingRunStatus = "draft" | "locked";
+
+export type RebillingRun = {
+  invoiceNo: string;
+  status: RebillingRunStatus;
+  discountDate: string | null;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  lockedBy: string | null;
+  lockedAt: string | null;
+  vatRate: number;
+  drafts: RebillingDraft[];
+};
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const summarizeLines = (lines: RebillingLine[]) => {
+  const subtotal = roundAmount(
+    lines.reduce((sum, line) => sum + line.amount, 0),
+  );
+  const vatAmount = roundAmount(subtotal * REBILLING_VAT_RATE);
+  return { subtotal, vatAmount, total: roundAmount(subtotal + vatAmount) };
+};
+
+// One draft per grouped customer, built from the same rows as the resale
+// export so both always agree on amounts and discounts. Customers of WL
+// partners that are excluded from exports bill themselves and get no draft.
+export const buildRebillingDrafts = (
+  customers: CustomerCard[],
+  getDiscountRate: DiscountLookup,
+  wlPartners: WlPartnerMap = new Map(),
+): RebillingDraft[] => {
+  const rows = buildResaleExportRows(customers, getDiscountRate, wlPartners);
+  const drafts = new Map<string, RebillingDraft>();
+
+  rows.forEach((row) => {
+    if (!isWlExported(row.wlCode, wlPartners)) return;
+    const draft = drafts.get(row.tenantId) ?? {
+      tenantId: row.tenantId,
+      customerName: row.customerName,
+      customerReference: row.references,
+      wlCode: row.wlCode,
+      lines: [],
+      subtotal: 0,
+      vatAmount: 0,
+      total: 0,
+    };
+    draft.lines.push({
+      vendorName: row.vendorName,
+      productName: row.productName,
+      quantity: row.quantity,
+      quantityUnit: row.quantityUnit,
+      billing: row.billing,
+      commitment: row.commitment,
+      amountBeforeDiscount: row.amountBeforeDiscount,
+      discountRate: row.discountRate,
+      amount: row.resaleAmount,
+    });
+    drafts.set(row.tenantId, draft);
+  });
+
+  return Array.from(drafts.values()).map((draft) => ({
+    ...draft,
+    ...summarizeLines(draft.lines),
+  }));
+};
+
+export const summarizeDrafts = (drafts: RebillingDraft[]) =>
+  drafts.reduce(
+    (acc, draft) => ({
+      subtotal: roundAmount(acc.subtotal + draft.subtotal),
+      vatAmount: roundAmount(acc.vatAmount + draft.vatAmount),
+      total: roundAmount(acc.total + draft.total),
+    }),
+    { subtotal: 0, vatAmount: 0, total: 0 },
+  );
+
+const REBILLING_EXPORT_COLUMNS: SheetColumn[] = [
+  { header: "WL", width: 6 },
+  { header: "WL-partner", width: 20 },
+  { header: "Kunde", width: 32 },
+  { header: "Tenant-id", width: 38 },
+  { header: "Reference", width: 18 },
+  { header: "Leverandør", width: 18 },
+  { header: "Produkt", width: 40 },
+  { header: "Mængde", width: 10, format: "number" },
+  { header: "Enhed", width: 10 },
+  { header: "Fakturering", width: 12 },
+  { header: "Binding", width: 12 },
+  { header: "Beløb før rabat (DKK)", width: 18, format: "number" },
+  { header: "Rabat %", width: 9, format: "percent" },
+  { header: "Beløb ekskl. moms (DKK)", width: 18, format: "number" },
+  { header: "Moms (DKK)", width: 12, format: "number" },
+  { header: "Beløb inkl. moms (DKK)", width: 18, format: "number" },
+];
+
+// Stored drafts only keep the WL code, so the partner name is looked up when
+// the file is written.
+const toSheetRows = (
+  drafts: RebillingDraft[],
+  wlPartners: WlPartnerMap,
+): SheetCell[][] =>
+  drafts.flatMap((draft) =>
+    draft.lines.map((line) => {
+      const vatAmount = roundAmount(line.amount * REBILLING_VAT_RATE);
+      return [
+        draft.wlCode,
+        getWlExportLabel(draft.wlCode, wlPartners),
+        draft.customerName,
+        draft.tenantId,
+        draft.customerReference,
+        line.vendorName,
+        line.productName,
+        line.quantity,
+        line.quantityUnit,
+        line.billing,
+        line.commitment,
+        line.amountBeforeDiscount,
+        line.discountRate,
+        line.amount,
+        vatAmount,
+        roundAmount(line.amount + vatAmount),
+      ];
+    }),
+  );
+
+export const rebillingDraftsToCsv = (
+  drafts: RebillingDraft[],
+  wlPartners: WlPartnerMap = new Map(),
+) => buildCsv(REBILLING_EXPORT_COLUMNS, toSheetRows(drafts, wlPartners));
+
+export const rebillingDraftsToXlsx = (
+  drafts: RebillingDraft[],
+  sheetName: string,
+  wlPartners: WlPartnerMap = new Map(),
+) =>
+  buildXlsx(
+    sheetName,
+    REBILLING_EXPORT_COLUMNS,
+    toSheetRows(drafts, wlPartners),
+  );
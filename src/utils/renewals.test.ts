@@ -0,0 +1,236 @@
+import { describe, expect, it } from "vitest";
+import type {
+  InvoiceSubscriptionBreakdown,
+  InvoiceTenantEntry,
+} from "../types/invoice";
+import type { CustomerCard } from "./customerGrouping";
+import {
+  collectRenewals,
+  filterRenewals,
+  getCommitmentTermMonths,
+  renewalsToIcs,
+} from "./renewals";
+
+const buildSubscription = (
+  id: string,
+  description: string,
+  commitment: string,
+  commitmentEndDate: string,
+  overrides: Partial<InvoiceTenantEntry> = {},
+): InvoiceSubscriptionBreakdown => ({
+  id,
+  description,
+  nickname: description,
+  licensQuantity: 5,
+  amount: 500,
+  retailAmount: 600,
+  vendor: {
+    vendorName: "Microsoft",
+    amountSource: "retail",
+    quantityUnit: "licenses",
+  },
+  entries: [
+    {
+      productId: id,
+      skuId: "0001",
+      description,
+      nickname: description,
+      licensQuantity: 5,
+      quantity: 5,
+      amount: 500,
+      commitment,
+      commitmentEndDate,
+      ...overrides,
+    },
+  ],
+});
+
+const buildCustomer = (
+  id: string,
+  name: string,
+  subscriptions: InvoiceSubscriptionBreakdown[],
+): CustomerCard => ({
+  id,
+  customerId: 7,
+  name,
+  vatId: "",
+  domains: [],
+  references: [],
+  subscriptions,
+});
+
+describe("getCommitmentTermMonths", () => {
+  it("reads the term from labels and falls back to the period length", () => {
+    expect(getCommitmentTermMonths("Annual")).toBe(12);
+    expect(getCommitmentTermMonths("Årlig")).toBe(12);
+    expect(getCommitmentTermMonths("P3Y")).toBe(36);
+    expect(getCommitmentTermMonths("Monthly")).toBe(1);
+    expect(getCommitmentTermMonths("", "2026-01-01", "2026-12-31")).toBe(12);
+    expect(getCommitmentTermMonths(undefined)).toBeNull();
+  });
+});
+
+describe("collectRenewals", () => {
+  const sources = [
+    {
+      invoiceNumber: "INV-2",
+      periodDate: "2026-10-01",
+      customers: [
+        buildCustomer("t1", "Acme", [
+          buildSubscription("s1", "Microsoft 365 E3", "Annual", "2026-11-05"),
+          buildSubscription("s2", "Exchange Online", "Monthly", "2026-10-10"),
+        ]),
+      ],
+    },
+    {
+      invoiceNumber: "INV-1",
+      periodDate: "2026-09-01",
+      customers: [
+        buildCustomer("t1", "Acme", [
+          buildSubscription("s1", "Microsoft 365 E3", "Annual", "2026-11-05"),
+          buildSubscription("s3", "Defender", "Annual", "2027-01-15"),
+          buildSubscription("s4", "Visio", "Annual", "2026-09-30"),
+        ]),
+      ],
+    },
+  ];
+
+  it("takes each subscription from its newest invoice", () => {
+    const renewals = collectRenewals(sources, "2026-10-19");
+
+    expect(
+      renewals.map((renewal) => ({
+        subscriptionId: renewal.subscriptionId,
+        commitmentEndDate: renewal.commitmentEndDate,
+        isProjected: renewal.isProjected,
+        invoiceNumber: renewal.invoiceNumber,
+      })),
+    ).toEqual([
+      {
+        subscriptionId: "s1",
+        commitmentEndDate: "2026-11-05",
+        isProjected: false,
+        invoiceNumber: "INV-2",
+      },
+      {
+        subscriptionId: "s2",
+        commitmentEndDate: "2026-11-10",
+        isProjected: true,
+        invoiceNumber: "INV-2",
+      },
+      {
+        subscriptionId: "s3",
+        commitmentEndDate: "2027-01-15",
+        isProjected: false,
+        invoiceNumber: "INV-1",
+      },
+    ]);
+    expect(renewals[0]).toMatchObject({
+      customerName: "Acme",
+      customerId: 7,
+      vendorName: "Microsoft",
+      daysLeft: 17,
+      termMonths: 12,
+      autoRenewsSoon: true,
+    });
+    expect(renewals[2].autoRenewsSoon).toBe(false);
+  });
+
+  it("ignores refund lines", () => {
+    const renewals = collectRenewals(
+      [
+        {
+          invoiceNumber: "INV-1",
+          periodDate: "2026-10-01",
+          customers: [
+            buildCustomer("t1", "Acme", [
+              buildSubscription("s1", "Visio", "Annual", "2026-12-01", {
+                quantity: -1,
+                invoicingType: "Refund",
+              }),
+            ]),
+          ],
+        },
+      ],
+      "2026-10-19",
+    );
+
+    expect(renewals).toEqual([]);
+  });
+});
+
+describe("filterRenewals", () => {
+  it("limits to the horizon and hides monthly commitments", () => {
+    const renewals = collectRenewals(
+      [
+        {
+          invoiceNumber: "INV-1",
+          periodDate: "2026-10-01",
+          customers: [
+            buildCustomer("t1", "Acme", [
+              buildSubscription("s1", "E3", "Annual", "2026-11-05"),
+              buildSubscription("s2", "Exchange", "Monthly", "2026-11-01"),
+              buildSubscription("s3", "Defender", "Annual", "2027-01-15"),
+            ]),
+          ],
+        },
+      ],
+      "2026-10-19",
+    );
+    const ids = (filter: Parameters<typeof filterRenewals>[1]) =>
+      filterRenewals(renewals, filter).map((renewal) => renewal.subscriptionId);
+
+    expect(ids({ horizonDays: 30, includeMonthly: false, search: "" })).toEqual(
+      ["s1"],
+    );
+    expect(ids({ horizonDays: 90, includeMonthly: true, search: "" })).toEqual(
+      ["s2", "s1", "s3"],
+    );
+    expect(
+      ids({ horizonDays: 90, includeMonthly: true, search: "defender" }),
+    ).toEqual(["s3"]);
+  });
+});
+
+describe("renewalsToIcs", () => {
+  it("writes escaped all-day events with a reminder", () => {
+    const [renewal] = collectRenewals(
+      [
+        {
+          invoiceNumber: "INV-1",
+          periodDate: "2026-10-01",
+          customers: [
+            buildCustomer("t1", "Acme, Inc; Denmark", [
+              buildSubscription(
+                "s1",
+                "Microsoft 365 E3 with a rather long product name to fold",
+                "Annual",
+                "2026-11-05",
+              ),
+            ]),
+          ],
+        },
+      ],
+      "2026-10-19",
+    );
+    const ics = renewalsToIcs([renewal], {
+      generatedAt: new Date("2026-10-19T08:30:00Z"),
+    });
+    const lines = ics.split("\r\n");
+
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(lines).toContain("UID:t1-s1-20261105@partner-billing");
+    expect(lines).toContain("DTSTAMP:20261019T083000Z");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20261105");
+    expect(lines).toContain("DTEND;VALUE=DATE:20261106");
+    expect(lines).toContain("TRIGGER:-P14D");
+    expect(ics.replace(/\r\n /g, "")).toContain(
+      "SUMMARY:Binding udløber: Microsoft 365 E3 with a rather long product " +
+        "name to fold – Acme\\, Inc\\; Denmark",
+    );
+    lines.forEach((line) =>
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75),
+    );
+  });
+});
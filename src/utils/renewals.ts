@@ -0,0 +1,285 @@
+import type { InvoiceTenantEntry } from "../types/invoice";
+import {
+  getSubscriptionProductLabel,
+  getSubscriptionVendorName,
+} from "./billingCalculations";
+import type { CustomerCard } from "./customerGrouping";
+
+// The customers on one invoice, grouped as on the invoice page.
+export type RenewalSource = {
+  invoiceNumber: string;
+  periodDate: string;
+  customers: CustomerCard[];
+};
+
+export type Renewal = {
+  key: string;
+  tenantId: string;
+  customerId: number | null;
+  customerName: string;
+  vendorName: string;
+  productName: string;
+  subscriptionId: string;
+  seats: number;
+  commitment: string;
+  termMonths: number | null;
+  commitmentStartDate: string | null;
+  commitmentEndDate: string;
+  daysLeft: number;
+  // The end date on the invoice has passed and was rolled forward by the
+  // commitment term, as NCE renews automatically.
+  isProjected: boolean;
+  autoRenewsSoon: boolean;
+  invoiceNumber: string;
+};
+
+export type RenewalFilter = {
+  horizonDays: number;
+  includeMonthly: boolean;
+  search: string;
+};
+
+export const RENEWAL_HORIZONS = [30, 60, 90];
+
+// Annual NCE commitments renew for another term on their end date unless
+// they are changed before it, so they are flagged this many days ahead.
+export const AUTO_RENEW_NOTICE_DAYS = 30;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * MS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+
+const addMonths = (date: string, months: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  const day = next.getUTCDate();
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + months);
+  const lastDay = new Date(
+    Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  next.setUTCDate(Math.min(day, lastDay));
+  return next.toISOString().slice(0, 10);
+};
+
+// Reads the term from the commitment label ("Annual", "Monthly", "P1Y",
+// ...) and falls back to the length of the commitment period.
+export const getCommitmentTermMonths = (
+  commitment: string | undefined,
+  startDate?: string | null,
+  endDate?: string | null,
+): number | null => {
+  const normalized = commitment?.trim().toLowerCase() ?? "";
+  if (/p3y|triennial|3\s*year/.test(normalized)) return 36;
+  if (/p1y|year|annual|årlig/.test(normalized)) return 12;
+  if (/quarter|p3m|kvartal/.test(normalized)) return 3;
+  if (/p1m|month|månedlig/.test(normalized)) return 1;
+  if (!startDate || !endDate) return null;
+  const months = Math.round(daysBetween(startDate, endDate) / 30.44);
+  return months > 0 ? months : null;
+};
+
+const isRefundEntry = (entry: InvoiceTenantEntry) => {
+  const quantity = entry.quantity ?? entry.days ?? null;
+  return (
+    entry.invoicingType?.trim().toLowerCase() === "refund" ||
+    (quantity !== null && quantity < 0)
+  );
+};
+
+// The commitment a subscription is currently in: the non-refund line with
+// the latest end date.
+const findCommitmentEntry = (entries: InvoiceTenantEntry[]) =>
+  entries
+    .filter((entry) => !isRefundEntry(entry) && entry.commitmentEndDate)
+    .reduce<InvoiceTenantEntry | null>(
+      (latest, entry) =>
+        !latest ||
+        (entry.commitmentEndDate ?? "") > (latest.commitmentEndDate ?? "")
+          ? entry
+          : latest,
+      null,
+    );
+
+// One renewal per customer subscription, read from the newest invoice the
+// subscription appears on. Subscriptions still billed on the newest invoice
+// have past end dates rolled forward by their term; subscriptions missing
+// from it are only kept while their commitment is still running, since they
+// are either cancelled or billed upfront for the whole term.
+export const collectRenewals = (
+  sources: RenewalSource[],
+  today: string,
+): Renewal[] => {
+  const ordered = [...sources].sort((a, b) =>
+    b.periodDate.localeCompare(a.periodDate),
+  );
+  const newestInvoice = ordered[0]?.invoiceNumber;
+  const renewals = new Map<string, Renewal>();
+
+  ordered.forEach(({ invoiceNumber, customers }) => {
+    customers.forEach((customer) => {
+      customer.subscriptions.forEach((sub) => {
+        const key = `${customer.id}|${sub.id}`;
+        if (renewals.has(key)) return;
+        const entry = findCommitmentEntry(sub.entries);
+        if (!entry?.commitmentEndDate) return;
+
+        const commitmentStartDate =
+          entry.commitmentStartDate?.slice(0, 10) ?? null;
+        const invoiceEndDate = entry.commitmentEndDate.slice(0, 10);
+        const termMonths = getCommitmentTermMonths(
+          entry.commitment,
+          commitmentStartDate,
+          invoiceEndDate,
+        );
+        let commitmentEndDate = invoiceEndDate;
+        if (invoiceNumber === newestInvoice && termMonths) {
+          while (commitmentEndDate < today) {
+            commitmentEndDate = addMonths(commitmentEndDate, termMonths);
+          }
+        }
+        if (commitmentEndDate < today) return;
+
+        const daysLeft = daysBetween(today, commitmentEndDate);
+        renewals.set(key, {
+          key,
+          tenantId: customer.id,
+          customerId: customer.customerId,
+          customerName: customer.name,
+          vendorName: getSubscriptionVendorName(sub),
+          productName: getSubscriptionProductLabel(sub),
+          subscriptionId: sub.id,
+          seats: sub.licensQuantity ?? 0,
+          commitment: entry.commitment?.trim() ?? "",
+          termMonths,
+          commitmentStartDate,
+          commitmentEndDate,
+          daysLeft,
+          isProjected: commitmentEndDate !== invoiceEndDate,
+          autoRenewsSoon:
+            termMonths !== null &&
+            termMonths >= 12 &&
+            daysLeft <= AUTO_RENEW_NOTICE_DAYS,
+          invoiceNumber,
+        });
+      });
+    });
+  });
+
+  return Array.from(renewals.values()).sort(
+    (a, b) =>
+      a.commitmentEndDate.localeCompare(b.commitmentEndDate) ||
+      a.customerName.localeCompare(b.customerName, "da") ||
+      a.productName.localeCompare(b.productName, "da"),
+  );
+};
+
+// Monthly commitments renew every month, so they are hidden unless asked
+// for.
+export const filterRenewals = (
+  renewals: Renewal[],
+  { horizonDays, includeMonthly, search }: RenewalFilter,
+) => {
+  const normalizedSearch = search.trim().toLowerCase();
+  return renewals.filter(
+    (renewal) =>
+      renewal.daysLeft <= horizonDays &&
+      (includeMonthly || renewal.termMonths !== 1) &&
+      (!normalizedSearch ||
+        [renewal.customerName, renewal.productName, renewal.vendorName].some(
+          (value) => value.toLowerCase().includes(normalizedSearch),
+        )),
+  );
+};
+
+export type IcsOptions = {
+  generatedAt: Date;
+  reminderDays?: number;
+};
+
+const escapeIcsText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// RFC 5545 limits content lines to 75 octets; longer lines continue on the
+// next line after a single space.
+const foldIcsLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  Array.from(line).forEach((char) => {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  });
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const toIcsDate = (date: string) => date.replace(/-/g, "");
+
+const toIcsTimestamp = (date: Date) =>
+  `${date.toISOString().slice(0, 19).replace(/[-:]/g, "")}Z`;
+
+// An all-day event on each commitment end date with a reminder ahead of it,
+// for import into Outlook or Google Calendar.
+export const renewalsToIcs = (
+  renewals: Renewal[],
+  { generatedAt, reminderDays = 14 }: IcsOptions,
+) => {
+  const stamp = toIcsTimestamp(generatedAt);
+  const events = renewals.flatMap((renewal) => {
+    const description = [
+      `Kunde: ${renewal.customerName}`,
+      `Leverandør: ${renewal.vendorName}`,
+      `Antal: ${renewal.seats}`,
+      renewal.commitment ? `Binding: ${renewal.commitment}` : "",
+      renewal.autoRenewsSoon ? "Fornyes automatisk ved udløb." : "",
+      `Tenant: ${renewal.tenantId}`,
+    ].filter(Boolean);
+
+    const endDate = toIcsDate(renewal.commitmentEndDate);
+    const summary = `Binding udløber: ${renewal.productName} – ${renewal.customerName}`;
+
+    return [
+      "BEGIN:VEVENT",
+      `UID:${renewal.tenantId}-${renewal.subscriptionId}-${endDate}@partner-billing`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${endDate}`,
+      `DTEND;VALUE=DATE:${toIcsDate(addDays(renewal.commitmentEndDate, 1))}`,
+      `SUMMARY:${escapeIcsText(summary)}`,
+      `DESCRIPTION:${escapeIcsText(description.join("\n"))}`,
+      "TRANSP:TRANSPARENT",
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeIcsText(`Binding udløber om ${reminderDays} dage`)}`,
+      `TRIGGER:-P${reminderDays}D`,
+      "END:VALARM",
+      "END:VEVENT",
+    ];
+  });
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Partner Billing//Fornyelser//DA",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Fornyelser",
+    ...events,
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+};
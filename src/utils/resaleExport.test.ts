@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import type { CustomerCard } from "./customerGrouping";
+import {
+  buildResaleExportRows,
+  resaleRowsToCsv,
+  resaleRowsToXlsx,
+} from "./resaleExport";
+import { buildWlPartnerMap, DEFAULT_WL_PARTNERS } from "./wlPartners";
+
+const customer: CustomerCard = {
+  id: "tenant-1",
+  customerId: null,
+  name: "Kunde; A/S",
+  vatId: "DK12345678",
+  domains: ["kunde.dk"],
+  references: ["WL71 - 1002"],
+  subscriptions: [
+    {
+      id: "sub-1",
+      description: "Microsoft 365 E5",
+      nickname: "Microsoft 365 E5",
+      licensQuantity: 4,
+      amount: 300,
+      retailAmount: 400,
+      billingTypeDescription: "Microsoft",
+      entries: [
+        {
+          productId: "prod-1",
+          skuId: "sku-1",
+          description: "Microsoft 365 E5",
+          nickname: "Microsoft 365 E5",
+          quantity: 4,
+          amount: 300,
+          retailAmount: 400,
+          billing: "Monthly",
+          commitment: "Yearly",
+        },
+      ],
+    },
+  ],
+};
+
+describe("buildResaleExportRows", () => {
+  it("applies the resolved discount to each product", () => {
+    const [row] = buildResaleExportRows([customer], (tenantId, vendor) =>
+      tenantId === "tenant-1" && vendor === "Microsoft" ? 10 : undefined,
+    );
+
+    expect(row).toMatchObject({
+      wlCode: "71",
+      wlName: "WL 71",
+      customerName: "Kunde; A/S",
+      vendorName: "Microsoft",
+      productName: "Microsoft 365 E5",
+      quantity: 4,
+      billing: "Månedlig",
+      commitment: "Årlig",
+      costAmount: 300,
+      listAmount: 400,
+      discountRate: 10,
+      amountBeforeDiscount: 400,
+      discountAmount: 40,
+      resaleAmount: 360,
+    });
+  });
+
+  it("names the WL partner by its export label", () => {
+    const partners = buildWlPartnerMap(
+      DEFAULT_WL_PARTNERS.map((partner) =>
+        partner.code === "71"
+          ? { ...partner, exportLabel: "Enreach Kbh." }
+          : partner,
+      ),
+    );
+    const [row] = buildResaleExportRows([customer], () => 0, partners);
+
+    expect(row.wlName).toBe("Enreach Kbh.");
+  });
+
+  it("exports the full amount for products without a discount", () => {
+    const [row] = buildResaleExportRows([customer], () => undefined);
+
+    expect(row).toMatchObject({
+      discountRate: 0,
+      discountAmount: 0,
+      resaleAmount: 400,
+    });
+  });
+
+  it("falls back to the aggregated amount as list price without entries", () => {
+    const [subscription] = customer.subscriptions;
+    const [row] = buildResaleExportRows(
+      [{ ...customer, subscriptions: [{ ...subscription, entries: [] }] }],
+      () => 0,
+    );
+
+    expect(row.listAmount).toBe(row.amountBeforeDiscount);
+  });
+});
+
+describe("resaleRowsToCsv", () => {
+  it("writes semicolon separated rows with decimal commas", () => {
+    const rows = buildResaleExportRows([customer], () => 12.5);
+    const lines = resaleRowsToCsv(rows).replace(/^\uFEFF/, "").split("\r\n");
+
+    expect(lines[0].startsWith("WL;WL-partner;Kunde-id;Kunde;Tenant-id")).toBe(
+      true,
+    );
+    expect(lines[1]).toContain('"Kunde; A/S"');
+    expect(lines[1].endsWith(";12,5;400;50;350")).toBe(true);
+  });
+});
+
+describe("resaleRowsToXlsx", () => {
+  it("produces a zip container with the worksheet", () => {
+    const bytes = resaleRowsToXlsx(
+      buildResaleExportRows([customer], () => 0),
+      "Ark",
+    );
+    const text = new TextDecoder().decode(bytes);
+
+    expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    expect(text).toContain("xl/worksheets/sheet1.xml");
+    expect(text).toContain("Microsoft 365 E5");
+  });
+});
@@ -0,0 +1,140 @@
+import type { QuantityUnit } from "../types/invoice";
+import { aggregateVendorsFromSubscriptions } from "./billingCalculations";
+import {
+  translateBillingFrequency,
+  translateCommitmentTerm,
+} from "./billingLabels";
+import { buildCsv } from "./csv";
+import { getCustomerWlCode, type CustomerCard } from "./customerGrouping";
+import { getWlExportLabel, type WlPartnerMap } from "./wlPartners";
+import { buildXlsx, type SheetCell, type SheetColumn } from "./xlsx";
+
+export type DiscountLookup = (
+  tenantId: string,
+  vendorName: string,
+  productName: string,
+) => number | undefined;
+
+export type ResaleExportRow = {
+  wlCode: string;
+  wlName: string;
+  customerId: number | null;
+  customerName: string;
+  tenantId: string;
+  references: string;
+  vendorName: string;
+  productName: string;
+  quantity: number;
+  quantityUnit: string;
+  billing: string;
+  commitment: string;
+  costAmount: number;
+  listAmount: number;
+  discountRate: number;
+  amountBeforeDiscount: number;
+  discountAmount: number;
+  resaleAmount: number;
+};
+
+type ResaleExportColumn = SheetColumn & { key: keyof ResaleExportRow };
+
+export const RESALE_EXPORT_COLUMNS: ResaleExportColumn[] = [
+  { key: "wlCode", header: "WL", width: 6 },
+  { key: "wlName", header: "WL-partner", width: 20 },
+  { key: "customerId", header: "Kunde-id", width: 9 },
+  { key: "customerName", header: "Kunde", width: 32 },
+  { key: "tenantId", header: "Tenant-id", width: 38 },
+  { key: "references", header: "Reference", width: 18 },
+  { key: "vendorName", header: "Leverandør", width: 18 },
+  { key: "productName", header: "Produkt", width: 40 },
+  { key: "quantity", header: "Mængde", width: 10, format: "number" },
+  { key: "quantityUnit", header: "Enhed", width: 10 },
+  { key: "billing", header: "Fakturering", width: 12 },
+  { key: "commitment", header: "Binding", width: 12 },
+  { key: "costAmount", header: "Kostpris (DKK)", width: 14, format: "number" },
+  { key: "listAmount", header: "Listepris (DKK)", width: 14, format: "number" },
+  { key: "discountRate", header: "Rabat %", width: 9, format: "percent" },
+  {
+    key: "amountBeforeDiscount",
+    header: "Beløb før rabat (DKK)",
+    width: 18,
+    format: "number",
+  },
+  { key: "discountAmount", header: "Rabat (DKK)", width: 12, format: "number" },
+  { key: "resaleAmount", header: "Salgspris (DKK)", width: 14, format: "number" },
+];
+
+const quantityUnitLabels: Record<QuantityUnit, string> = {
+  licenses: "licenser",
+  seats: "seats",
+  gb: "GB",
+};
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+// One row per customer, vendor and product, using the same aggregation and
+// discount resolution as the customer cards on the invoice page. The WL
+// partner is named by its export label from the catalogue.
+export const buildResaleExportRows = (
+  customers: CustomerCard[],
+  getDiscountRate: DiscountLookup,
+  wlPartners: WlPartnerMap = new Map(),
+): ResaleExportRow[] =>
+  customers.flatMap((customer) => {
+    const wlCode = getCustomerWlCode(customer);
+    const wlName = getWlExportLabel(wlCode, wlPartners);
+    const references = customer.references.join(", ");
+
+    return aggregateVendorsFromSubscriptions(customer.subscriptions).flatMap(
+      (vendor) => {
+        return vendor.products.map((product) => {
+          const discountRate =
+            getDiscountRate(
+              customer.id,
+              vendor.vendorName,
+              product.displayName,
+            ) ?? 0;
+          const amountBeforeDiscount = product.amount ?? 0;
+          const discountAmount = amountBeforeDiscount * (discountRate / 100);
+          // Without entry lines the aggregated amount is the best list price.
+          const listAmount =
+            product.details.length > 0
+              ? product.details.reduce(
+                  (sum, detail) => sum + detail.retailAmount,
+                  0,
+                )
+              : amountBeforeDiscount;
+
+          return {
+            wlCode,
+            wlName,
+            customerId: customer.customerId,
+            customerName: customer.name,
+            tenantId: customer.id,
+            references,
+            vendorName: vendor.vendorName,
+            productName: product.displayName,
+            quantity: product.licenses,
+            quantityUnit: quantityUnitLabels[vendor.quantityUnit],
+            billing: translateBillingFrequency(product.billing),
+            commitment: translateCommitmentTerm(product.commitment),
+            costAmount: roundAmount(product.costAmount),
+            listAmount: roundAmount(listAmount),
+            discountRate,
+            amountBeforeDiscount: roundAmount(amountBeforeDiscount),
+            discountAmount: roundAmount(discountAmount),
+            resaleAmount: roundAmount(amountBeforeDiscount - discountAmount),
+          };
+        });
+      },
+    );
+  });
+
+const toSheetRows = (rows: ResaleExportRow[]): SheetCell[][] =>
+  rows.map((row) => RESALE_EXPORT_COLUMNS.map((column) => row[column.key]));
+
+export const resaleRowsToCsv = (rows: ResaleExportRow[]) =>
+  buildCsv(RESALE_EXPORT_COLUMNS, toSheetRows(rows));
+
+export const resaleRowsToXlsx = (rows: ResaleExportRow[], sheetName: string) =>
+  buildXlsx(sheetName, RESALE_EXPORT_COLUMNS, toSheetRows(rows));
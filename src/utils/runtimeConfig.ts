@@ -0,0 +1,47 @@
+// Values injected at container start through env-config.js take precedence
+// over build-time Vite variables, so one image can serve several setups.
+type RuntimeConfig = NonNullable<Window["__APP_CONFIG__"]>;
+
+// envsubst leaves unset variables as empty strings, and an unprocessed
+// template still contains the literal placeholder.
+const isSet = (value: string | undefined): value is string =>
+  typeof value === "string" &&
+  value.trim() !== "" &&
+  !/^\$\{.+\}$/.test(value.trim());
+
+export const readRuntimeConfig = (key: keyof RuntimeConfig) => {
+  const runtimeValue = window.__APP_CONFIG__?.[key];
+  if (isSet(runtimeValue)) return runtimeValue.trim();
+  const buildValue = (import.meta.env as Record<string, string | undefined>)[
+    key
+  ];
+  return isSet(buildValue) ? buildValue.trim() : "";
+};
+
+export type SupplierConfig = {
+  name: string;
+  vatId: string;
+  street: string;
+  postalCode: string;
+  city: string;
+  countryCode: string;
+  email: string;
+  iban: string;
+  paymentDays: number;
+};
+
+export const getSupplierConfig = (): SupplierConfig => {
+  const paymentDays = Number(readRuntimeConfig("VITE_SUPPLIER_PAYMENT_DAYS"));
+  return {
+    name: readRuntimeConfig("VITE_SUPPLIER_NAME"),
+    vatId: readRuntimeConfig("VITE_SUPPLIER_VAT_ID"),
+    street: readRuntimeConfig("VITE_SUPPLIER_STREET"),
+    postalCode: readRuntimeConfig("VITE_SUPPLIER_POSTAL_CODE"),
+    city: readRuntimeConfig("VITE_SUPPLIER_CITY"),
+    countryCode: readRuntimeConfig("VITE_SUPPLIER_COUNTRY") || "DK",
+    email: readRuntimeConfig("VITE_SUPPLIER_EMAIL"),
+    iban: readRuntimeConfig("VITE_SUPPLIER_IBAN"),
+    paymentDays:
+      Number.isFinite(paymentDays) && paymentDays > 0 ? paymentDays : 8,
+  };
+};
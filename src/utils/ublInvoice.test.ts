@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildUblInvoiceXml,
+  normalizeDanishVatId,
+  validateUblInvoice,
+  type UblInvoiceInput,
+} from "./ublInvoice";
+
+const buildInput = (
+  overrides: Partial<UblInvoiceInput> = {},
+): UblInvoiceInput => ({
+  invoiceId: "INV-1-abcdef12",
+  issueDate: "2026-03-05",
+  dueDate: "2026-03-13",
+  currency: "DKK",
+  vatRate: 0.25,
+  buyerReference: "WL71 1002",
+  supplier: {
+    name: "Leverandør A/S",
+    vatId: "DK12345678",
+    street: "Vej 1",
+    postalCode: "8000",
+    city: "Aarhus C",
+    countryCode: "DK",
+  },
+  customer: { name: "Kunde & Co", vatId: "87654321", countryCode: "DK" },
+  lines: [
+    {
+      name: "Microsoft 365 E5",
+      quantity: 3,
+      amountBeforeDiscount: 100,
+      discountRate: 10,
+      amount: 90,
+    },
+    {
+      name: "Refusion",
+      quantity: 1,
+      amountBeforeDiscount: -20,
+      discountRate: 10,
+      amount: -18,
+    },
+  ],
+  ...overrides,
+});
+
+describe("validateUblInvoice", () => {
+  it("accepts a complete invoice", () => {
+    expect(validateUblInvoice(buildInput())).toEqual([]);
+  });
+
+  it("reports missing buyer data by rule", () => {
+    const rules = validateUblInvoice(
+      buildInput({
+        buyerReference: "",
+        customer: { name: "Kunde", vatId: "", countryCode: "DK" },
+      }),
+    ).map((issue) => issue.rule);
+
+    expect(rules).toEqual(["PEPPOL-EN16931-R010", "PEPPOL-EN16931-R003"]);
+  });
+});
+
+describe("buildUblInvoiceXml", () => {
+  it("writes totals, escaped parties and credit lines", () => {
+    const xml = buildUblInvoiceXml(buildInput());
+
+    expect(xml).toContain("<cbc:Name>Kunde &amp; Co</cbc:Name>");
+    expect(xml).toContain(
+      '<cbc:EndpointID schemeID="0184">87654321</cbc:EndpointID>',
+    );
+    expect(xml).toContain(
+      '<cbc:TaxExclusiveAmount currencyID="DKK">72.00</cbc:TaxExclusiveAmount>',
+    );
+    expect(xml).toContain(
+      '<cbc:PayableAmount currencyID="DKK">90.00</cbc:PayableAmount>',
+    );
+    expect(xml).toContain(
+      '<cbc:InvoicedQuantity unitCode="C62">-1</cbc:InvoicedQuantity>',
+    );
+    expect(xml).toContain("<cbc:ChargeIndicator>true</cbc:ChargeIndicator>");
+  });
+});
+
+describe("normalizeDanishVatId", () => {
+  it("accepts common CVR spellings", () => {
+    expect(normalizeDanishVatId("DK 1234 5678")).toBe("12345678");
+    expect(normalizeDanishVatId("1234567")).toBeNull();
+  });
+});
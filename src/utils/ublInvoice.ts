@@ -0,0 +1,381 @@
+/**
+ * PEPPOL BIS Billing 3.0 (UBL 2.1) invoice output for re-billing drafts.
+ * NemHandel accepts BIS 3.0 alongside OIOUBL, so a single format covers both
+ * public-sector and business receivers.
+ */
+import type { RebillingDraft } from "./rebilling";
+import type { SupplierConfig } from "./runtimeConfig";
+
+export type UblParty = {
+  name: string;
+  vatId: string;
+  street?: string;
+  postalCode?: string;
+  city?: string;
+  countryCode: string;
+  email?: string;
+};
+
+export type UblInvoiceLine = {
+  name: string;
+  description?: string;
+  quantity: number;
+  amountBeforeDiscount: number;
+  discountRate: number;
+  amount: number;
+};
+
+export type UblInvoiceInput = {
+  invoiceId: string;
+  issueDate: string;
+  dueDate: string;
+  currency: string;
+  vatRate: number;
+  buyerReference: string;
+  note?: string;
+  periodStart?: string;
+  periodEnd?: string;
+  supplier: UblParty;
+  customer: UblParty;
+  iban?: string;
+  lines: UblInvoiceLine[];
+};
+
+export type UblValidationIssue = {
+  rule: string;
+  message: string;
+};
+
+const CUSTOMIZATION_ID =
+  "urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0";
+const PROFILE_ID = "urn:fdc:peppol.eu:2017:poacc:billing:01:1.0";
+// Danish CVR numbers in the PEPPOL participant identifier scheme.
+const DK_CVR_SCHEME = "0184";
+// UN/ECE rec 20 "one", used for licences and seats alike.
+const UNIT_CODE = "C62";
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+const formatAmount = (value: number) => roundAmount(value).toFixed(2);
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const isIsoDate = (value: string | undefined) =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Accepts "12345678", "DK12345678" and "DK 1234 5678".
+export const normalizeDanishVatId = (value: string) => {
+  const compact = value.replace(/\s+/g, "").toUpperCase();
+  const digits = compact.startsWith("DK") ? compact.slice(2) : compact;
+  return /^\d{8}$/.test(digits) ? digits : null;
+};
+
+const partyVatNumber = (party: UblParty) => {
+  if (party.countryCode === "DK") {
+    const cvr = normalizeDanishVatId(party.vatId);
+    return cvr ? `DK${cvr}` : null;
+  }
+  const compact = party.vatId.replace(/\s+/g, "").toUpperCase();
+  return compact || null;
+};
+
+const lineTotals = (lines: UblInvoiceLine[], vatRate: number) => {
+  const lineExtension = roundAmount(
+    lines.reduce((sum, line) => sum + roundAmount(line.amount), 0),
+  );
+  const taxAmount = roundAmount(lineExtension * vatRate);
+  return {
+    lineExtension,
+    taxAmount,
+    taxInclusive: roundAmount(lineExtension + taxAmount),
+  };
+};
+
+/**
+ * Checks the subset of EN 16931 / PEPPOL rules the generated document can
+ * violate given our input. This is not schema validation: the XML is built
+ * from the fixed template below, written in the element order of the UBL
+ * schema, but it is never checked against the XSD or the PEPPOL schematron,
+ * neither of which ships with the project.
+ */
+export const validateUblInvoice = (
+  input: UblInvoiceInput,
+): UblValidationIssue[] => {
+  const issues: UblValidationIssue[] = [];
+  const add = (rule: string, message: string) =>
+    issues.push({ rule, message });
+
+  if (!input.invoiceId.trim()) add("BR-02", "Fakturanummer mangler");
+  if (!isIsoDate(input.issueDate)) add("BR-03", "Ugyldig fakturadato");
+  if (input.dueDate && !isIsoDate(input.dueDate)) {
+    add("BR-CO-25", "Ugyldig forfaldsdato");
+  }
+  if (!/^[A-Z]{3}$/.test(input.currency)) add("BR-05", "Ugyldig valuta");
+  if (!input.supplier.name.trim()) add("BR-06", "Leverandørens navn mangler");
+  if (!input.customer.name.trim()) add("BR-07", "Kundens navn mangler");
+  if (!input.supplier.countryCode) add("BR-09", "Leverandørens land mangler");
+  if (!input.customer.countryCode) add("BR-11", "Kundens land mangler");
+  // The CVR number doubles as the PEPPOL electronic address for both parties.
+  if (!partyVatNumber(input.supplier)) {
+    add(
+      "PEPPOL-EN16931-R020",
+      "Leverandørens CVR-nummer mangler eller er ugyldigt",
+    );
+  }
+  if (!partyVatNumber(input.customer)) {
+    add("PEPPOL-EN16931-R010", "Kundens CVR-nummer mangler eller er ugyldigt");
+  }
+  if (!input.buyerReference.trim()) {
+    add("PEPPOL-EN16931-R003", "Kundereference mangler");
+  }
+  if (input.lines.length === 0) add("BR-16", "Fakturaen har ingen linjer");
+  if (
+    input.periodStart &&
+    input.periodEnd &&
+    input.periodEnd < input.periodStart
+  ) {
+    add("BR-29", "Periodens slutdato ligger før startdatoen");
+  }
+
+  input.lines.forEach((line, index) => {
+    const lineNo = index + 1;
+    if (!line.name.trim()) add("BR-25", `Linje ${lineNo} mangler varenavn`);
+    if (line.discountRate < 0 || line.discountRate > 100) {
+      add("BR-41", `Linje ${lineNo} har en ugyldig rabat`);
+    }
+    const expected = roundAmount(
+      line.amountBeforeDiscount * (1 - line.discountRate / 100),
+    );
+    if (Math.abs(expected - roundAmount(line.amount)) > 0.01) {
+      add("BR-CO-10", `Linje ${lineNo} stemmer ikke med rabatten`);
+    }
+  });
+
+  const { taxInclusive } = lineTotals(input.lines, input.vatRate);
+  if (taxInclusive < 0) {
+    add("BR-CO-16", "Negativ total kræver en kreditnota");
+  }
+
+  return issues;
+};
+
+const renderParty = (party: UblParty) => {
+  const cvr =
+    party.countryCode === "DK" ? normalizeDanishVatId(party.vatId) : null;
+  const vatNumber = partyVatNumber(party) ?? "";
+  const endpoint = cvr
+    ? `<cbc:EndpointID schemeID="${DK_CVR_SCHEME}">${cvr}</cbc:EndpointID>`
+    : "";
+  const legalId = cvr
+    ? `<cbc:CompanyID schemeID="${DK_CVR_SCHEME}">${cvr}</cbc:CompanyID>`
+    : "";
+  const address = [
+    party.street
+      ? `<cbc:StreetName>${escapeXml(party.street)}</cbc:StreetName>`
+      : "",
+    party.city ? `<cbc:CityName>${escapeXml(party.city)}</cbc:CityName>` : "",
+    party.postalCode
+      ? `<cbc:PostalZone>${escapeXml(party.postalCode)}</cbc:PostalZone>`
+      : "",
+    `<cac:Country><cbc:IdentificationCode>${escapeXml(party.countryCode)}</cbc:IdentificationCode></cac:Country>`,
+  ].join("");
+  const contact = party.email
+    ? `<cac:Contact><cbc:ElectronicMail>${escapeXml(party.email)}</cbc:ElectronicMail></cac:Contact>`
+    : "";
+
+  return (
+    "<cac:Party>" +
+    endpoint +
+    `<cac:PartyName><cbc:Name>${escapeXml(party.name)}</cbc:Name></cac:PartyName>` +
+    `<cac:PostalAddress>${address}</cac:PostalAddress>` +
+    (vatNumber
+      ? `<cac:PartyTaxScheme><cbc:CompanyID>${escapeXml(vatNumber)}</cbc:CompanyID><cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>`
+      : "") +
+    `<cac:PartyLegalEntity><cbc:RegistrationName>${escapeXml(party.name)}</cbc:RegistrationName>${legalId}</cac:PartyLegalEntity>` +
+    contact +
+    "</cac:Party>"
+  );
+};
+
+const renderTaxCategory = (tag: string, vatRate: number) =>
+  `<cac:${tag}><cbc:ID>S</cbc:ID><cbc:Percent>${roundAmount(vatRate * 100)}</cbc:Percent><cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:${tag}>`;
+
+// The price is expressed per `BaseQuantity` equal to the invoiced quantity,
+// so quantity × price reproduces the line amount exactly (PEPPOL-EN16931-R120)
+// even when the per-unit price has more than two decimals. Credit lines keep
+// a positive price and carry the sign on the quantity instead (BR-27).
+const renderLine = (
+  line: UblInvoiceLine,
+  index: number,
+  currency: string,
+  vatRate: number,
+) => {
+  const gross = roundAmount(line.amountBeforeDiscount);
+  const net = roundAmount(line.amount);
+  const isCredit = gross < 0;
+  const baseQuantity = Math.abs(line.quantity) || 1;
+  const invoicedQuantity = isCredit ? -baseQuantity : baseQuantity;
+  const adjustment = roundAmount(Math.abs(net - gross));
+  const allowanceCharge =
+    adjustment > 0
+      ? `<cac:AllowanceCharge><cbc:ChargeIndicator>${isCredit}</cbc:ChargeIndicator>` +
+        `<cbc:AllowanceChargeReason>Rabat ${line.discountRate}%</cbc:AllowanceChargeReason>` +
+        `<cbc:Amount currencyID="${currency}">${formatAmount(adjustment)}</cbc:Amount>` +
+        "</cac:AllowanceCharge>"
+      : "";
+
+  return (
+    "<cac:InvoiceLine>" +
+    `<cbc:ID>${index + 1}</cbc:ID>` +
+    `<cbc:InvoicedQuantity unitCode="${UNIT_CODE}">${invoicedQuantity}</cbc:InvoicedQuantity>` +
+    `<cbc:LineExtensionAmount currencyID="${currency}">${formatAmount(net)}</cbc:LineExtensionAmount>` +
+    allowanceCharge +
+    "<cac:Item>" +
+    (line.description
+      ? `<cbc:Description>${escapeXml(line.description)}</cbc:Description>`
+      : "") +
+    `<cbc:Name>${escapeXml(line.name)}</cbc:Name>` +
+    renderTaxCategory("ClassifiedTaxCategory", vatRate) +
+    "</cac:Item>" +
+    "<cac:Price>" +
+    `<cbc:PriceAmount currencyID="${currency}">${formatAmount(Math.abs(gross))}</cbc:PriceAmount>` +
+    `<cbc:BaseQuantity unitCode="${UNIT_CODE}">${baseQuantity}</cbc:BaseQuantity>` +
+    "</cac:Price>" +
+    "</cac:InvoiceLine>"
+  );
+};
+
+export const buildUblInvoiceXml = (input: UblInvoiceInput) => {
+  const { currency, vatRate } = input;
+  const totals = lineTotals(input.lines, vatRate);
+  const money = (value: number) =>
+    `currencyID="${currency}">${formatAmount(value)}`;
+
+  const period =
+    input.periodStart || input.periodEnd
+      ? "<cac:InvoicePeriod>" +
+        (input.periodStart
+          ? `<cbc:StartDate>${input.periodStart}</cbc:StartDate>`
+          : "") +
+        (input.periodEnd
+          ? `<cbc:EndDate>${input.periodEnd}</cbc:EndDate>`
+          : "") +
+        "</cac:InvoicePeriod>"
+      : "";
+
+  const paymentMeans = input.iban
+    ? "<cac:PaymentMeans><cbc:PaymentMeansCode>58</cbc:PaymentMeansCode>" +
+      `<cbc:PaymentID>${escapeXml(input.invoiceId)}</cbc:PaymentID>` +
+      `<cac:PayeeFinancialAccount><cbc:ID>${escapeXml(input.iban.replace(/\s+/g, ""))}</cbc:ID></cac:PayeeFinancialAccount>` +
+      "</cac:PaymentMeans>"
+    : "";
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"' +
+    ' xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"' +
+    ' xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">' +
+    `<cbc:CustomizationID>${CUSTOMIZATION_ID}</cbc:CustomizationID>` +
+    `<cbc:ProfileID>${PROFILE_ID}</cbc:ProfileID>` +
+    `<cbc:ID>${escapeXml(input.invoiceId)}</cbc:ID>` +
+    `<cbc:IssueDate>${input.issueDate}</cbc:IssueDate>` +
+    (input.dueDate ? `<cbc:DueDate>${input.dueDate}</cbc:DueDate>` : "") +
+    "<cbc:InvoiceTypeCode>380</cbc:InvoiceTypeCode>" +
+    (input.note ? `<cbc:Note>${escapeXml(input.note)}</cbc:Note>` : "") +
+    `<cbc:DocumentCurrencyCode>${currency}</cbc:DocumentCurrencyCode>` +
+    `<cbc:BuyerReference>${escapeXml(input.buyerReference)}</cbc:BuyerReference>` +
+    period +
+    `<cac:AccountingSupplierParty>${renderParty(input.supplier)}</cac:AccountingSupplierParty>` +
+    `<cac:AccountingCustomerParty>${renderParty(input.customer)}</cac:AccountingCustomerParty>` +
+    paymentMeans +
+    "<cac:TaxTotal>" +
+    `<cbc:TaxAmount ${money(totals.taxAmount)}</cbc:TaxAmount>` +
+    "<cac:TaxSubtotal>" +
+    `<cbc:TaxableAmount ${money(totals.lineExtension)}</cbc:TaxableAmount>` +
+    `<cbc:TaxAmount ${money(totals.taxAmount)}</cbc:TaxAmount>` +
+    renderTaxCategory("TaxCategory", vatRate) +
+    "</cac:TaxSubtotal>" +
+    "</cac:TaxTotal>" +
+    "<cac:LegalMonetaryTotal>" +
+    `<cbc:LineExtensionAmount ${money(totals.lineExtension)}</cbc:LineExtensionAmount>` +
+    `<cbc:TaxExclusiveAmount ${money(totals.lineExtension)}</cbc:TaxExclusiveAmount>` +
+    `<cbc:TaxInclusiveAmount ${money(totals.taxInclusive)}</cbc:TaxInclusiveAmount>` +
+    `<cbc:PayableAmount ${money(totals.taxInclusive)}</cbc:PayableAmount>` +
+    "</cac:LegalMonetaryTotal>" +
+    input.lines
+      .map((line, index) => renderLine(line, index, currency, vatRate))
+      .join("") +
+    "</Invoice>\n"
+  );
+};
+
+const addDays = (isoDate: string, days: number) => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+// Tenant ids are GUIDs, so their first block keeps the per-customer invoice
+// number stable regardless of the filter or page the card was opened from.
+export const buildCustomerInvoiceId = (invoiceNo: string, tenantId: string) =>
+  `${invoiceNo}-${tenantId.replace(/[^a-zA-Z0-9]/g, "").slice(0, 8)}`;
+
+export const buildUblInputFromDraft = ({
+  draft,
+  invoiceNo,
+  customerVatId,
+  supplier,
+  issueDate,
+  vatRate,
+  periodStart,
+  periodEnd,
+}: {
+  draft: RebillingDraft;
+  invoiceNo: string;
+  customerVatId: string;
+  supplier: SupplierConfig;
+  issueDate: string;
+  vatRate: number;
+  periodStart?: string;
+  periodEnd?: string;
+}): UblInvoiceInput => ({
+  invoiceId: buildCustomerInvoiceId(invoiceNo, draft.tenantId),
+  issueDate,
+  dueDate: addDays(issueDate, supplier.paymentDays),
+  currency: "DKK",
+  vatRate,
+  buyerReference: draft.customerReference,
+  note: `Viderefakturering af Cloud Factory faktura ${invoiceNo}`,
+  periodStart: periodStart?.slice(0, 10),
+  periodEnd: periodEnd?.slice(0, 10),
+  supplier: {
+    name: supplier.name,
+    vatId: supplier.vatId,
+    street: supplier.street,
+    postalCode: supplier.postalCode,
+    city: supplier.city,
+    countryCode: supplier.countryCode,
+    email: supplier.email,
+  },
+  customer: {
+    name: draft.customerName,
+    vatId: customerVatId,
+    countryCode: "DK",
+  },
+  iban: supplier.iban,
+  lines: draft.lines.map((line) => ({
+    name: line.productName,
+    description: [line.vendorName, line.billing, line.commitment]
+      .filter((value) => value && value !== "—")
+      .join(" · "),
+    quantity: line.quantity,
+    amountBeforeDiscount: line.amountBeforeDiscount,
+    discountRate: line.discountRate,
+    amount: line.amount,
+  })),
+});
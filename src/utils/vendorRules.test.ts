@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import type {
+  InvoiceDetail,
+  InvoiceSubscriptionBreakdown,
+} from "../types/invoice";
+import {
+  applyVendorRules,
+  DEFAULT_VENDOR_RULES,
+  resolveVendorRule,
+  type VendorRule,
+} from "./vendorRules";
+
+const buildSubscription = (
+  overrides: Partial<InvoiceSubscriptionBreakdown>,
+): InvoiceSubscriptionBreakdown => ({
+  id: "sub-1",
+  description: "",
+  nickname: "",
+  licensQuantity: 1,
+  amount: 80,
+  retailAmount: 100,
+  entries: [],
+  ...overrides,
+});
+
+describe("resolveVendorRule", () => {
+  it("keeps the billing type as vendor and applies its amount and unit", () => {
+    const vendor = resolveVendorRule(
+      buildSubscription({
+        billingTypeDescription: "Keepit Backup",
+        description: "Microsoft 365 backup",
+      }),
+      DEFAULT_VENDOR_RULES,
+    );
+
+    expect(vendor).toEqual({
+      vendorName: "Keepit Backup",
+      amountSource: "retail",
+      quantityUnit: "seats",
+    });
+  });
+
+  it("reads the vendor from the product text when the billing type is blank", () => {
+    const vendor = resolveVendorRule(
+      buildSubscription({ description: "Exclaimer Cloud for Microsoft 365" }),
+      DEFAULT_VENDOR_RULES,
+    );
+
+    expect(vendor).toEqual({
+      vendorName: "Exclaimer",
+      amountSource: "cost",
+      quantityUnit: "licenses",
+    });
+  });
+
+  it("ignores product text rules for lines with a billing type", () => {
+    const vendor = resolveVendorRule(
+      buildSubscription({
+        billingTypeDescription: "Cisco",
+        description: "Webex for Microsoft Teams",
+      }),
+      DEFAULT_VENDOR_RULES,
+    );
+
+    expect(vendor).toEqual({
+      vendorName: "Cisco",
+      amountSource: "cost",
+      quantityUnit: "licenses",
+    });
+  });
+
+  it("uses the lowest priority first", () => {
+    const rules: VendorRule[] = [
+      ...DEFAULT_VENDOR_RULES,
+      {
+        priority: 5,
+        field: "billingType",
+        pattern: "storage",
+        vendorName: "Acronis",
+        amountSource: "retail",
+        quantityUnit: "gb",
+      },
+    ];
+
+    expect(
+      resolveVendorRule(
+        buildSubscription({ billingTypeDescription: "Keepit Storage" }),
+        rules,
+      ),
+    ).toEqual({
+      vendorName: "Acronis",
+      amountSource: "retail",
+      quantityUnit: "gb",
+    });
+  });
+});
+
+describe("applyVendorRules", () => {
+  it("stamps the resolved vendor on every subscription", () => {
+    const detail = {
+      tenants: [
+        {
+          id: "t1",
+          subscriptions: [buildSubscription({ nickname: "Adobe Acrobat" })],
+        },
+      ],
+    } as InvoiceDetail;
+
+    const [tenant] =
+      applyVendorRules(detail, DEFAULT_VENDOR_RULES)?.tenants ?? [];
+
+    expect(tenant.subscriptions[0].vendor?.vendorName).toBe("Adobe");
+  });
+});
@@ -0,0 +1,143 @@
+import type {
+  AmountSource,
+  InvoiceDetail,
+  InvoiceSubscriptionBreakdown,
+  QuantityUnit,
+  ResolvedVendor,
+} from "../types/invoice";
+
+export type VendorRuleField = "billingType" | "description" | "nickname";
+
+export type VendorRule = {
+  id?: number;
+  priority: number;
+  field: VendorRuleField;
+  pattern: string;
+  // Blank keeps the billing type (or the product text) as vendor name.
+  vendorName: string;
+  amountSource: AmountSource;
+  quantityUnit: QuantityUnit;
+  updatedAt?: string;
+  updatedBy?: string | null;
+};
+
+export const VENDOR_RULE_FIELDS: VendorRuleField[] = [
+  "billingType",
+  "description",
+  "nickname",
+];
+export const AMOUNT_SOURCES: AmountSource[] = ["retail", "cost"];
+export const QUANTITY_UNITS: QuantityUnit[] = ["licenses", "seats", "gb"];
+
+export const vendorRuleFieldLabels: Record<VendorRuleField, string> = {
+  billingType: "Faktureringstype",
+  description: "Beskrivelse",
+  nickname: "Kaldenavn",
+};
+
+export const amountSourceLabels: Record<AmountSource, string> = {
+  retail: "Vejl. udsalgspris",
+  cost: "Kostpris",
+};
+
+export const quantityUnitLabels: Record<QuantityUnit, string> = {
+  licenses: "Licenser",
+  seats: "Seats",
+  gb: "GB",
+};
+
+const rule = (
+  priority: number,
+  field: VendorRuleField,
+  pattern: string,
+  vendorName: string,
+  amountSource: AmountSource,
+  quantityUnit: QuantityUnit = "licenses",
+): VendorRule => ({
+  priority,
+  field,
+  pattern,
+  vendorName,
+  amountSource,
+  quantityUnit,
+});
+
+// Mirrors the seed rows in server/index.js and is used until the rules have
+// loaded (and in tests).
+export const DEFAULT_VENDOR_RULES: VendorRule[] = [
+  rule(10, "billingType", "keepit", "", "retail", "seats"),
+  rule(20, "billingType", "adobe", "", "retail"),
+  rule(30, "billingType", "microsoft", "", "retail"),
+  rule(40, "description", "exclaimer", "Exclaimer", "cost"),
+  rule(50, "description", "keepit", "Keepit", "retail", "seats"),
+  rule(60, "description", "adobe", "Adobe", "retail"),
+  rule(70, "description", "microsoft", "Microsoft", "retail"),
+];
+
+const getMatchText = (
+  sub: InvoiceSubscriptionBreakdown,
+  field: VendorRuleField,
+) => {
+  const billingType = sub.billingTypeDescription?.trim();
+  if (field === "billingType") return billingType ?? "";
+  // Cloud Factory only leaves the billing type blank for lines where the
+  // vendor has to be read from the product text.
+  if (billingType) return "";
+  return field === "description"
+    ? sub.description || sub.nickname || ""
+    : (sub.nickname ?? "");
+};
+
+export const sortVendorRules = (rules: VendorRule[]) =>
+  [...rules].sort(
+    (a, b) => a.priority - b.priority || (a.id ?? 0) - (b.id ?? 0),
+  );
+
+// First rule (by priority) whose pattern occurs in its field decides the
+// vendor. Lines no rule matches keep the billing type or product text as
+// vendor name and use the cost amount.
+export const resolveVendorRule = (
+  sub: InvoiceSubscriptionBreakdown,
+  rules: VendorRule[],
+): ResolvedVendor => {
+  const fallbackName =
+    sub.billingTypeDescription?.trim() ||
+    sub.nickname ||
+    sub.description ||
+    "Product";
+  const match = sortVendorRules(rules).find((candidate) => {
+    const pattern = candidate.pattern.trim().toLowerCase();
+    return (
+      pattern.length > 0 &&
+      getMatchText(sub, candidate.field).toLowerCase().includes(pattern)
+    );
+  });
+
+  if (!match) {
+    return {
+      vendorName: fallbackName,
+      amountSource: "cost",
+      quantityUnit: "licenses",
+    };
+  }
+  return {
+    vendorName: match.vendorName.trim() || fallbackName,
+    amountSource: match.amountSource,
+    quantityUnit: match.quantityUnit,
+  };
+};
+
+export const applyVendorRules = (
+  detail: InvoiceDetail | null,
+  rules: VendorRule[],
+): InvoiceDetail | null =>
+  detail && {
+    ...detail,
+    tenants: detail.tenants?.map((tenant) => ({
+      ...tenant,
+      subscriptions: tenant.subscriptions.map((sub) => ({
+        ...sub,
+        vendor: resolveVendorRule(sub, rules),
+      })),
+    })),
+  };
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildWlPartnerMap,
+  DEFAULT_WL_PARTNERS,
+  getWlExportLabel,
+  getWlLabel,
+  isWlExported,
+  sortWlPartners,
+} from "./wlPartners";
+
+const partners = buildWlPartnerMap([
+  ...DEFAULT_WL_PARTNERS,
+  {
+    code: "80",
+    displayName: "Selvfakturerende",
+    contactName: "",
+    contactEmail: "",
+    defaultDiscountRate: 5,
+    exportLabel: "SF",
+    includeInExports: false,
+  },
+]);
+
+describe("getWlLabel", () => {
+  it("uses the display name and falls back to the code", () => {
+    expect(getWlLabel("71", partners)).toBe("Enreach København");
+    expect(getWlLabel("99", partners)).toBe("WL 99");
+    expect(getWlLabel("", partners)).toBe("Uden WL");
+  });
+});
+
+describe("getWlExportLabel", () => {
+  it("prefers the export label over the display name", () => {
+    expect(getWlExportLabel("80", partners)).toBe("SF");
+    expect(getWlExportLabel("74", partners)).toBe("Enreach Hjørring");
+    expect(getWlExportLabel("99", partners)).toBe("WL 99");
+    expect(getWlExportLabel("", partners)).toBe("");
+  });
+});
+
+describe("isWlExported", () => {
+  it("exports codes outside the catalogue", () => {
+    expect(isWlExported("80", partners)).toBe(false);
+    expect(isWlExported("1", partners)).toBe(true);
+    expect(isWlExported("99", partners)).toBe(true);
+  });
+});
+
+describe("sortWlPartners", () => {
+  it("orders partners by numeric code", () => {
+    const sorted = sortWlPartners([...DEFAULT_WL_PARTNERS].reverse());
+
+    expect(sorted.map((partner) => partner.code)).toEqual(["1", "71", "74"]);
+  });
+});
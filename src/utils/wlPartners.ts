@@ -0,0 +1,62 @@
+export type WlPartner = {
+  code: string;
+  displayName: string;
+  contactName: string;
+  contactEmail: string;
+  // Discount offered to the partner's customers unless agreed otherwise.
+  defaultDiscountRate: number | null;
+  // Name written in exports instead of the display name, when set.
+  exportLabel: string;
+  // Partners that bill their own customers are left out of resale exports
+  // and rebilling.
+  includeInExports: boolean;
+  updatedAt?: string;
+  updatedBy?: string | null;
+};
+
+export type WlPartnerMap = Map<string, WlPartner>;
+
+export const NO_WL_LABEL = "Uden WL";
+
+const createPartner = (code: string, displayName: string): WlPartner => ({
+  code,
+  displayName,
+  contactName: "",
+  contactEmail: "",
+  defaultDiscountRate: null,
+  exportLabel: "",
+  includeInExports: true,
+});
+
+// Mirrors the server's seed rows; used until the catalogue has loaded.
+export const DEFAULT_WL_PARTNERS: WlPartner[] = [
+  createPartner("1", "ipnordic"),
+  createPartner("71", "Enreach København"),
+  createPartner("74", "Enreach Hjørring"),
+];
+
+export const buildWlPartnerMap = (partners: WlPartner[]): WlPartnerMap =>
+  new Map(partners.map((partner) => [partner.code, partner]));
+
+export const getWlLabel = (code: string, partners: WlPartnerMap) => {
+  if (!code) return NO_WL_LABEL;
+  return partners.get(code)?.displayName || `WL ${code}`;
+};
+
+export const getWlExportLabel = (code: string, partners: WlPartnerMap) => {
+  if (!code) return "";
+  const partner = partners.get(code);
+  return partner?.exportLabel || partner?.displayName || `WL ${code}`;
+};
+
+// Codes outside the catalogue are exported, so a new partner never silently
+// disappears from the files.
+export const isWlExported = (code: string, partners: WlPartnerMap) =>
+  partners.get(code)?.includeInExports ?? true;
+
+export const sortWlPartners = (partners: WlPartner[]) =>
+  [...partners].sort(
+    (left, right) =>
+      Number(left.code) - Number(right.code) ||
+      left.code.localeCompare(right.code),
+  );
@@ -0,0 +1,265 @@
+/**
+ * Minimal XLSX writer for tabular exports. Produces a single-sheet workbook
+ * with inline strings, stored (uncompressed) in a zip container, which Excel,
+ * Numbers and LibreOffice all open without complaint.
+ */
+
+export type SheetCell = string | number | null | undefined;
+
+export type SheetColumn = {
+  header: string;
+  width?: number;
+  format?: "text" | "number" | "percent";
+};
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i += 1) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+type ZipEntry = { name: string; data: Uint8Array };
+
+// 1980-01-01 00:00, the earliest timestamp the zip format can express.
+const DOS_DATE = 0x0021;
+const DOS_TIME = 0x0000;
+const UTF8_FLAG = 0x0800;
+
+const buildZip = (entries: ZipEntry[]) => {
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, UTF8_FLAG, true);
+    localView.setUint16(8, 0, true);
+    localView.setUint16(10, DOS_TIME, true);
+    localView.setUint16(12, DOS_DATE, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, size, true);
+    localView.setUint32(22, size, true);
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true);
+    local.set(name, 30);
+
+    const header = new Uint8Array(46 + name.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, 0x02014b50, true);
+    headerView.setUint16(4, 20, true);
+    headerView.setUint16(6, 20, true);
+    headerView.setUint16(8, UTF8_FLAG, true);
+    headerView.setUint16(10, 0, true);
+    headerView.setUint16(12, DOS_TIME, true);
+    headerView.setUint16(14, DOS_DATE, true);
+    headerView.setUint32(16, crc, true);
+    headerView.setUint32(20, size, true);
+    headerView.setUint32(24, size, true);
+    headerView.setUint16(28, name.length, true);
+    headerView.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    chunks.push(local, entry.data);
+    central.push(header);
+    offset += local.length + size;
+  });
+
+  const centralSize = central.reduce((sum, chunk) => sum + chunk.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, end];
+  const result = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  parts.forEach((part) => {
+    result.set(part, position);
+    position += part.length;
+  });
+  return result;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters other than tab/newline are invalid in XML 1.0.
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+
+export const columnName = (index: number) => {
+  let name = "";
+  let remaining = index + 1;
+  while (remaining > 0) {
+    const mod = (remaining - 1) % 26;
+    name = String.fromCharCode(65 + mod) + name;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return name;
+};
+
+// Style indexes into cellXfs below.
+const STYLE_HEADER = 1;
+const STYLE_NUMBER = 2;
+const STYLE_PERCENT = 3;
+
+const renderCell = (
+  ref: string,
+  value: SheetCell,
+  format: SheetColumn["format"],
+) => {
+  if (value === null || value === undefined || value === "") return "";
+  if (typeof value === "number" && Number.isFinite(value)) {
+    const style =
+      format === "percent"
+        ? ` s="${STYLE_PERCENT}"`
+        : format === "number"
+          ? ` s="${STYLE_NUMBER}"`
+          : "";
+    return `<c r="${ref}"${style}><v>${value}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+const buildSheetXml = (columns: SheetColumn[], rows: SheetCell[][]) => {
+  const cols = columns
+    .map(
+      (column, index) =>
+        `<col min="${index + 1}" max="${index + 1}" width="${column.width ?? 14}" customWidth="1"/>`,
+    )
+    .join("");
+
+  const headerRow = `<row r="1">${columns
+    .map(
+      (column, index) =>
+        `<c r="${columnName(index)}1" s="${STYLE_HEADER}" t="inlineStr"><is><t>${escapeXml(column.header)}</t></is></c>`,
+    )
+    .join("")}</row>`;
+
+  const bodyRows = rows
+    .map((row, rowIndex) => {
+      const rowNumber = rowIndex + 2;
+      const cells = row
+        .map((value, colIndex) =>
+          renderCell(
+            `${columnName(colIndex)}${rowNumber}`,
+            value,
+            columns[colIndex]?.format,
+          ),
+        )
+        .join("");
+      return `<row r="${rowNumber}">${cells}</row>`;
+    })
+    .join("");
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<cols>${cols}</cols>` +
+    `<sheetData>${headerRow}${bodyRows}</sheetData>` +
+    "</worksheet>"
+  );
+};
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="0.00&quot;%&quot;"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  "</cellXfs>" +
+  "</styleSheet>";
+
+const CONTENT_TYPES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  "</Types>";
+
+const ROOT_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  "</Relationships>";
+
+const WORKBOOK_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  "</Relationships>";
+
+// Excel rejects sheet names over 31 characters or containing []:*?/\.
+const sanitizeSheetName = (name: string) =>
+  name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Ark1";
+
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export const buildXlsx = (
+  sheetName: string,
+  columns: SheetColumn[],
+  rows: SheetCell[][],
+) => {
+  const workbookXml =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${escapeXml(sanitizeSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets>` +
+    "</workbook>";
+
+  return buildZip([
+    { name: "[Content_Types].xml", data: encoder.encode(CONTENT_TYPES_XML) },
+    { name: "_rels/.rels", data: encoder.encode(ROOT_RELS_XML) },
+    { name: "xl/workbook.xml", data: encoder.encode(workbookXml) },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data: encoder.encode(WORKBOOK_RELS_XML),
+    },
+    { name: "xl/styles.xml", data: encoder.encode(STYLES_XML) },
+    {
+      name: "xl/worksheets/sheet1.xml",
+      data: encoder.encode(buildSheetXml(columns, rows)),
+    },
+  ]);
+};
@@ -1,12 +1,16 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_ACCESS_TOKEN?: string;
-  readonly VITE_REFRESH_TOKEN?: string;
-  readonly ACCESS_TOKEN?: string;
-  readonly REFRESH_TOKEN?: string;
-  readonly ACCESSTOKEN?: string;
-  readonly REFRESHTOKEN?: string;
+  readonly VITE_PARTNERS?: string;
+  readonly VITE_SUPPLIER_NAME?: string;
+  readonly VITE_SUPPLIER_VAT_ID?: string;
+  readonly VITE_SUPPLIER_STREET?: string;
+  readonly VITE_SUPPLIER_POSTAL_CODE?: string;
+  readonly VITE_SUPPLIER_CITY?: string;
+  readonly VITE_SUPPLIER_COUNTRY?: string;
+  readonly VITE_SUPPLIER_EMAIL?: string;
+  readonly VITE_SUPPLIER_IBAN?: string;
+  readonly VITE_SUPPLIER_PAYMENT_DAYS?: string;
 }
 
 interface ImportMeta {
@@ -15,11 +19,15 @@ interface ImportMeta {
 
 interface Window {
   __APP_CONFIG__?: {
-    VITE_ACCESS_TOKEN?: string;
-    VITE_REFRESH_TOKEN?: string;
-    ACCESS_TOKEN?: string;
-    REFRESH_TOKEN?: string;
-    ACCESSTOKEN?: string;
-    REFRESHTOKEN?: string;
+    VITE_PARTNERS?: string;
+    VITE_SUPPLIER_NAME?: string;
+    VITE_SUPPLIER_VAT_ID?: string;
+    VITE_SUPPLIER_STREET?: string;
+    VITE_SUPPLIER_POSTAL_CODE?: string;
+    VITE_SUPPLIER_CITY?: string;
+    VITE_SUPPLIER_COUNTRY?: string;
+    VITE_SUPPLIER_EMAIL?: string;
+    VITE_SUPPLIER_IBAN?: string;
+    VITE_SUPPLIER_PAYMENT_DAYS?: string;
   };
 }